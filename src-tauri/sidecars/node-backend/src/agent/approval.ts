@@ -0,0 +1,103 @@
+/**
+ * Plan Approval
+ *
+ * Holds a session between planning and execution until the user approves or
+ * rejects its plan. Approving replaces the session's execute tasks with the
+ * user's edited list and dependencies; executors then run from that. The
+ * session's time limit doesn't run while it waits.
+ */
+import { randomUUID } from "crypto";
+import type { PlanDecision, PlanTaskDraft } from "../shared/plan-review.js";
+import type { AgentSession, AgentTask } from "../types.js";
+import { getSessionAbortSignal, updateSessionStatus } from "./sessions.js";
+import { pauseSessionBudget, resumeSessionBudget } from "./budget.js";
+import { saveSession } from "./store.js";
+import { broadcastToThread } from "./websocket.js";
+
+// Sessions waiting on the user, by sessionId
+const pendingApprovals = new Map<string, (decision: PlanDecision) => void>();
+
+/**
+ * Wait for the user's decision on a session's plan. Cancelling the session
+ * meanwhile settles it as a rejection.
+ */
+export function awaitPlanApproval(session: AgentSession): Promise<PlanDecision> {
+  const signal = getSessionAbortSignal(session.id);
+  updateSessionStatus(session.id, "awaiting_approval");
+  // Apart from any pause by the user, which outlasts the wait
+  pauseSessionBudget(session.id, "approval");
+
+  return new Promise((resolve) => {
+    const onAbort = () => { settle({ approved: false }); };
+    const settle = (decision: PlanDecision) => {
+      pendingApprovals.delete(session.id);
+      signal?.removeEventListener("abort", onAbort);
+      resumeSessionBudget(session.id, "approval");
+      resolve(decision);
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    pendingApprovals.set(session.id, settle);
+  });
+}
+
+/** Hand the user's decision to a session waiting for it; false if none is */
+export function resolvePlanApproval(sessionId: string, decision: PlanDecision): boolean {
+  const settle = pendingApprovals.get(sessionId);
+  if (!settle) return false;
+  settle(decision);
+  return true;
+}
+
+/**
+ * Replace the session's execute tasks with the user's edited list. Drafts
+ * naming a planned task update it; the rest become new tasks. Execute tasks
+ * depend on what the user chose; dependencies on other tasks of the plan
+ * are kept.
+ */
+export function applyApprovedPlan(session: AgentSession, drafts: PlanTaskDraft[]): void {
+  const tasks: AgentTask[] = Array.from(session.tasks.values()).filter((t) => t.type !== "execute");
+  const otherIds = new Set(tasks.map((t) => t.id));
+  const approved: AgentTask[] = [];
+
+  for (const draft of drafts) {
+    const planned = draft.id !== undefined ? session.tasks.get(draft.id) : undefined;
+    const dependsOn = draft.dependsOn.flatMap((index) => approved[index]?.id ?? []);
+    if (planned?.type === "execute" && !approved.includes(planned)) {
+      planned.title = draft.title;
+      planned.description = draft.description;
+      planned.dependsOn = [...planned.dependsOn.filter((id) => otherIds.has(id)), ...dependsOn];
+      approved.push(planned);
+    } else {
+      approved.push({
+        id: randomUUID(),
+        sessionId: session.id,
+        title: draft.title,
+        description: draft.description,
+        type: "execute",
+        status: "staged",
+        dependsOn,
+        createdAt: new Date(),
+      });
+    }
+  }
+  tasks.push(...approved);
+
+  session.tasks.clear();
+  for (const task of tasks) {
+    session.tasks.set(task.id, task);
+  }
+  session.lastActivityAt = new Date();
+  saveSession(session);
+
+  broadcastToThread(session.threadId, {
+    type: "plan_updated",
+    sessionId: session.id,
+    threadId: session.threadId,
+    tasks,
+  });
+}
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AgentBudget, AgentSession, AgentUsage } from "../types.js";
+import { createAgentSession } from "./sessions.js";
+import {
+  endSessionBudget,
+  exhaustedLimit,
+  mapWithParallelLimit,
+  pauseSessionBudget,
+  resumeSessionBudget,
+  startSessionBudget,
+} from "./budget.js";
+
+// Keep sessions off disk
+vi.mock("./store.js");
+
+function session(budget: AgentBudget, usage: Partial<AgentUsage>): AgentSession {
+  return {
+    id: "session",
+    threadId: "thread",
+    status: "executing",
+    tasks: new Map(),
+    transcripts: [],
+    budget,
+    usage: { tokens: 0, costUsd: 0, toolCalls: 0, elapsedMs: 0, ...usage },
+    createdAt: new Date(),
+    lastActivityAt: new Date(),
+  };
+}
+
+describe("exhaustedLimit", () => {
+  it("is null while usage stays under every limit", () => {
+    const budget = { maxTokens: 1000, maxCostUsd: 1, maxToolCalls: 10 };
+    expect(exhaustedLimit(session(budget, { tokens: 999, costUsd: 0.99, toolCalls: 9 }))).toBeNull();
+  });
+
+  it("names the limit once usage reaches it", () => {
+    expect(exhaustedLimit(session({ maxTokens: 1000 }, { tokens: 1000 }))).toBe("token limit of 1000");
+    expect(exhaustedLimit(session({ maxCostUsd: 0.5 }, { costUsd: 0.75 }))).toBe("spending limit of $0.5");
+    expect(exhaustedLimit(session({ maxToolCalls: 3 }, { toolCalls: 3 }))).toBe("limit of 3 tool calls");
+  });
+
+  it("ignores limits the budget leaves out", () => {
+    expect(exhaustedLimit(session({}, { tokens: 1e9, costUsd: 1e3, toolCalls: 1e4 }))).toBeNull();
+  });
+});
+
+describe("pauseSessionBudget", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("keeps the clock stopped until every reason to pause is lifted", () => {
+    const session = createAgentSession("thread-pauses");
+    startSessionBudget(session);
+    vi.advanceTimersByTime(1000);
+
+    pauseSessionBudget(session.id, "user");
+    pauseSessionBudget(session.id, "approval");
+    vi.advanceTimersByTime(5000);
+    // The plan is approved while the user still has the session paused
+    resumeSessionBudget(session.id, "approval");
+    vi.advanceTimersByTime(5000);
+    resumeSessionBudget(session.id, "user");
+    vi.advanceTimersByTime(2000);
+
+    endSessionBudget(session.id);
+    expect(session.usage.elapsedMs).toBe(3000);
+  });
+
+  it("ignores resuming for a reason the session isn't paused for", () => {
+    const session = createAgentSession("thread-resume");
+    startSessionBudget(session);
+
+    pauseSessionBudget(session.id, "approval");
+    resumeSessionBudget(session.id, "user");
+    vi.advanceTimersByTime(5000);
+
+    endSessionBudget(session.id);
+    expect(session.usage.elapsedMs).toBe(0);
+  });
+});
+
+describe("mapWithParallelLimit", () => {
+  /** Runs `items` with `limit`, recording the most calls in flight at once */
+  async function run(items: number[], limit: number) {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithParallelLimit(items, limit, async (item, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      // Later items finish first, so results must be put back in order
+      await new Promise((resolve) => setTimeout(resolve, (items.length - index) * 2));
+      running--;
+      return item * 10;
+    });
+    return { results, peak };
+  }
+
+  it("keeps the order of the items", async () => {
+    expect((await run([1, 2, 3, 4, 5], 3)).results).toEqual([10, 20, 30, 40, 50]);
+  });
+
+  it("runs at most `limit` calls at once", async () => {
+    expect((await run([1, 2, 3, 4, 5, 6], 2)).peak).toBe(2);
+    expect((await run([1, 2], 8)).peak).toBe(2);
+  });
+
+  it("runs one at a time below a limit of one", async () => {
+    expect(await run([1, 2, 3], 0)).toEqual({ results: [10, 20, 30], peak: 1 });
+  });
+
+  it("returns nothing for no items", async () => {
+    expect((await run([], 4)).results).toEqual([]);
+  });
+});
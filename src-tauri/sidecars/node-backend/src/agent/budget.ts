@@ -0,0 +1,201 @@
+/**
+ * Session Budgets
+ *
+ * A multi-agent session runs under limits on tokens, estimated spend,
+ * wall-clock time and tool calls, tallied from every model step of every
+ * agent and broadcast as they grow. Reaching one stops the session the way
+ * a cancellation does, with the limit as its reason, so the orchestrator
+ * winds down and reports what was done so far. Time spent paused, by the
+ * user or waiting for plan approval, doesn't count. The limit on parallel
+ * sub-agents is applied where they're spawned.
+ */
+import { DEFAULT_MODEL_PRICES, estimateCost, type ModelPrice } from "../shared/pricing.js";
+import type { ChainModel } from "../chat/fallback.js";
+import type { AgentSession } from "../types.js";
+import { cancelAgentSession, getAgentSession } from "./sessions.js";
+import { saveSession } from "./store.js";
+import { broadcastToThread } from "./websocket.js";
+
+/** Why a session's clock is stopped; it runs again once no reason is left */
+export type BudgetPause = "user" | "approval";
+
+interface SessionMeter {
+  prices: ModelPrice[];
+  timer: ReturnType<typeof setTimeout> | undefined;
+  startedAt: number;
+  /** Total time spent paused, not counting a pause in progress */
+  pausedMs: number;
+  pausedAt: number | undefined;
+  pausedFor: Set<BudgetPause>;
+}
+
+// Sessions being metered, by sessionId
+const meters = new Map<string, SessionMeter>();
+
+/** The parts of an AI SDK step that count against a budget */
+interface MeteredStep {
+  usage: { promptTokens: number; completionTokens: number };
+  toolCalls: unknown[];
+  providerMetadata?: Record<string, Record<string, unknown>> | undefined;
+}
+
+/** Providers leave counts they don't report as NaN */
+export function tokenCount(value: number | null | undefined): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 60_000) return `${Math.round(ms / 1000)} seconds`;
+  const minutes = Math.round(ms / 60_000);
+  return minutes === 1 ? "1 minute" : `${minutes} minutes`;
+}
+
+function elapsedMs(meter: SessionMeter): number {
+  return (meter.pausedAt ?? Date.now()) - meter.startedAt - meter.pausedMs;
+}
+
+function broadcastUsage(session: AgentSession, meter: SessionMeter): void {
+  session.usage.elapsedMs = elapsedMs(meter);
+  saveSession(session);
+  broadcastToThread(session.threadId, {
+    type: "budget_updated",
+    sessionId: session.id,
+    threadId: session.threadId,
+    budget: session.budget,
+    usage: session.usage,
+  });
+}
+
+function stopOverBudget(session: AgentSession, limit: string): void {
+  endSessionBudget(session.id);
+  console.log(`[Budget] Session ${session.id} reached its ${limit}`);
+  cancelAgentSession(session.id, `Budget reached: ${limit}`);
+}
+
+/** The limit a session has used up, if any */
+export function exhaustedLimit({ budget, usage }: AgentSession): string | null {
+  if (budget.maxTokens !== undefined && usage.tokens >= budget.maxTokens) {
+    return `token limit of ${budget.maxTokens}`;
+  }
+  if (budget.maxCostUsd !== undefined && usage.costUsd >= budget.maxCostUsd) {
+    return `spending limit of $${budget.maxCostUsd}`;
+  }
+  if (budget.maxToolCalls !== undefined && usage.toolCalls >= budget.maxToolCalls) {
+    return `limit of ${budget.maxToolCalls} tool calls`;
+  }
+  return null;
+}
+
+/**
+ * Start metering a session against its budget; the wall-clock limit runs
+ * from now. Spend is estimated with `prices`.
+ */
+export function startSessionBudget(session: AgentSession, prices: ModelPrice[] = DEFAULT_MODEL_PRICES): void {
+  const meter: SessionMeter = {
+    prices,
+    timer: undefined,
+    startedAt: Date.now(),
+    pausedMs: 0,
+    pausedAt: undefined,
+    pausedFor: new Set(),
+  };
+  meters.set(session.id, meter);
+  armTimeLimit(session, meter);
+  broadcastUsage(session, meter);
+}
+
+/** Stop the session once the rest of its time limit runs out */
+function armTimeLimit(session: AgentSession, meter: SessionMeter): void {
+  const { maxDurationMs } = session.budget;
+  if (maxDurationMs === undefined) return;
+  meter.timer = setTimeout(() => {
+    stopOverBudget(session, `time limit of ${formatDuration(maxDurationMs)}`);
+  }, Math.max(0, maxDurationMs - elapsedMs(meter)));
+  // The limit alone shouldn't keep the sidecar running
+  meter.timer.unref();
+}
+
+/** Stop the session's clock while it's paused */
+export function pauseSessionBudget(sessionId: string, reason: BudgetPause = "user"): void {
+  const meter = meters.get(sessionId);
+  if (!meter) return;
+  meter.pausedFor.add(reason);
+  if (meter.pausedAt !== undefined) return;
+  if (meter.timer) clearTimeout(meter.timer);
+  meter.timer = undefined;
+  meter.pausedAt = Date.now();
+}
+
+/** Lift one reason for a pause; the clock runs again once none is left */
+export function resumeSessionBudget(sessionId: string, reason: BudgetPause = "user"): void {
+  const meter = meters.get(sessionId);
+  const session = getAgentSession(sessionId);
+  if (!meter || !meter.pausedFor.delete(reason) || meter.pausedFor.size > 0) return;
+  if (meter.pausedAt === undefined || !session) return;
+  meter.pausedMs += Date.now() - meter.pausedAt;
+  meter.pausedAt = undefined;
+  armTimeLimit(session, meter);
+}
+
+/** Stop metering a session that has finished */
+export function endSessionBudget(sessionId: string): void {
+  const meter = meters.get(sessionId);
+  if (meter?.timer) clearTimeout(meter.timer);
+  meters.delete(sessionId);
+
+  const session = getAgentSession(sessionId);
+  if (meter && session) broadcastUsage(session, meter);
+}
+
+/** Count a finished model step (from `onStepFinish`) against its session's budget */
+export function recordStepUsage(sessionId: string | undefined, model: ChainModel, step: MeteredStep): void {
+  const session = sessionId ? getAgentSession(sessionId) : undefined;
+  const meter = sessionId ? meters.get(sessionId) : undefined;
+  if (!session || !meter) return;
+
+  const promptTokens = tokenCount(step.usage.promptTokens);
+  const completionTokens = tokenCount(step.usage.completionTokens);
+  const cache = step.providerMetadata?.anthropic as
+    | { cacheReadInputTokens?: number | null; cacheCreationInputTokens?: number | null }
+    | undefined;
+
+  const { usage } = session;
+  usage.tokens += promptTokens + completionTokens;
+  usage.costUsd += estimateCost(
+    {
+      provider: model.provider,
+      model: model.modelName,
+      promptTokens,
+      completionTokens,
+      cacheReadTokens: tokenCount(cache?.cacheReadInputTokens),
+      cacheWriteTokens: tokenCount(cache?.cacheCreationInputTokens),
+    },
+    meter.prices
+  ) ?? 0;
+  usage.toolCalls += step.toolCalls.length;
+  broadcastUsage(session, meter);
+
+  const limit = exhaustedLimit(session);
+  if (limit) stopOverBudget(session, limit);
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight; results keep
+ * the order of the items
+ */
+export async function mapWithParallelLimit<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AgentSession, AgentTaskType } from "../types.js";
+import { addTaskToSession, createAgentSession, updateTaskStatus } from "./sessions.js";
+import { cancelBlockedTasks, dependencyState } from "./orchestrator.js";
+
+// Keep sessions off disk
+vi.mock("./store.js");
+
+function task(session: AgentSession, title: string, dependsOn: string[] = [], type: AgentTaskType = "execute") {
+  return addTaskToSession(session.id, title, "", type, dependsOn).id;
+}
+
+describe("dependencyState", () => {
+  it("follows an execute task's status", () => {
+    const session = createAgentSession("thread-state");
+    const id = task(session, "Build");
+
+    expect(dependencyState(session, id)).toBe("pending");
+    updateTaskStatus(session.id, id, "in_progress");
+    expect(dependencyState(session, id)).toBe("pending");
+    updateTaskStatus(session.id, id, "done");
+    expect(dependencyState(session, id)).toBe("done");
+  });
+
+  it("counts a cancelled task as failed", () => {
+    const session = createAgentSession("thread-cancelled");
+    const id = task(session, "Build");
+    updateTaskStatus(session.id, id, "cancelled");
+
+    expect(dependencyState(session, id)).toBe("failed");
+  });
+
+  it("counts plan and explore tasks and unknown ids as done", () => {
+    const session = createAgentSession("thread-other");
+
+    expect(dependencyState(session, task(session, "Plan", [], "plan"))).toBe("done");
+    expect(dependencyState(session, task(session, "Explore", [], "explore"))).toBe("done");
+    expect(dependencyState(session, "removed")).toBe("done");
+  });
+});
+
+describe("cancelBlockedTasks", () => {
+  it("cancels waiting tasks behind a failed one, directly or not", () => {
+    const session = createAgentSession("thread-blocked");
+    const build = task(session, "Build");
+    // Added before its dependency, so one pass over the tasks isn't enough
+    const deploy = addTaskToSession(session.id, "Deploy", "", "execute").id;
+    const test = task(session, "Test", [build]);
+    session.tasks.get(deploy)!.dependsOn = [test];
+    const docs = task(session, "Docs");
+    updateTaskStatus(session.id, build, "cancelled");
+
+    cancelBlockedTasks(session);
+
+    const status = (id: string) => session.tasks.get(id)?.status;
+    expect([status(test), status(deploy), status(docs)]).toEqual(["cancelled", "cancelled", "staged"]);
+    expect(session.tasks.get(deploy)?.result).toBe('Not run: "Test" did not complete');
+  });
+
+  it("leaves tasks that already started alone", () => {
+    const session = createAgentSession("thread-started");
+    const build = task(session, "Build");
+    const test = task(session, "Test", [build]);
+    updateTaskStatus(session.id, test, "in_progress");
+    updateTaskStatus(session.id, build, "cancelled");
+
+    cancelBlockedTasks(session);
+
+    expect(session.tasks.get(test)?.status).toBe("in_progress");
+  });
+});
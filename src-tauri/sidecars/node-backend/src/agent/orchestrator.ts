@@ -1,30 +1,123 @@
 /**
  * Multi-Agent Orchestrator
  *
- * Runs the plan → explore → execute pipeline for complex tasks.
+ * Runs the plan → explore → execute pipeline for complex tasks, pausing
+ * for the user to review the plan when they ask to.
  */
 import { streamText, generateText, type CoreTool } from "ai";
-import { createAnthropic } from "@ai-sdk/anthropic";
-import type { AgentSession, AgentRunResult, OrchestrationResult } from "../types.js";
+import type { AgentModels, AgentSession, AgentTask, AgentRunResult, OrchestrationResult } from "../types.js";
+import {
+  DEFAULT_AGENT_BUDGET,
+  type AgentModelAssignments,
+  type ProviderApiKeys,
+} from "../shared/chat-protocol.js";
 import {
-  getAgentSession,
-  getAgentContext,
-  setAgentContext,
   updateSessionStatus,
+  updateTaskStatus,
+  cancelAgentSession,
   cleanupIncompleteTasks,
   getTasksSummary,
+  getSessionAbortSignal,
+  isSessionCancelled,
+  waitWhilePaused,
+  startTranscript,
+  recordTranscriptStep,
+  finishTranscript,
 } from "./sessions.js";
 import { broadcastToThread } from "./websocket.js";
-import { getMCPToolsForAISDK } from "../mcp/tools.js";
+import { mapWithParallelLimit, recordStepUsage } from "./budget.js";
+import { applyApprovedPlan, awaitPlanApproval } from "./approval.js";
+import { getMCPToolsForAISDK, truncateToolResultForContext } from "../mcp/tools.js";
 import { createPerplexityTools } from "../tools/perplexity.js";
 import {
   askUserTool,
-  addTaskTool,
-  setTaskTool,
-  viewTasksTool,
+  createAddTaskTool,
+  createSetTaskTool,
+  createViewTasksTool,
   summarizeFindingsTool,
   reportCompletionTool,
 } from "../tools/builtin.js";
+import { resolveModelName, type ModelSettings } from "../chat/providers.js";
+import { resolveModelCapabilities } from "../chat/model-info.js";
+import {
+  createChainModel,
+  resolveFallbackChain,
+  withModelFallback,
+  type ChainModel,
+} from "../chat/fallback.js";
+
+// =============================================================================
+// Models
+// =============================================================================
+
+/**
+ * Model settings for each orchestrator role: the one the user assigned to
+ * it, with its key attached, or else the chat's own model
+ */
+export function resolveAgentModels(
+  assigned: AgentModelAssignments | undefined,
+  chatModel: ModelSettings,
+  apiKeys: ProviderApiKeys
+): AgentModels {
+  const forRole = (role: keyof AgentModels): ModelSettings => {
+    const model = assigned?.[role];
+    return model ? { ...model, apiKey: apiKeys[model.provider] } : chatModel;
+  };
+  return {
+    planner: forRole("planner"),
+    explorer: forRole("explorer"),
+    executor: forRole("executor"),
+    subExecutor: forRole("subExecutor"),
+  };
+}
+
+/**
+ * The role's model first, then the user's fallbacks that support tools
+ */
+async function createAgentModelChain(model: ModelSettings, fallbacks: ModelSettings[]): Promise<ChainModel[]> {
+  const { contextWindow } = await resolveModelCapabilities(
+    model.provider,
+    resolveModelName(model.provider, model.model),
+    model.baseUrl
+  );
+  return [
+    createChainModel({ ...model, contextWindow }, true),
+    ...(await resolveFallbackChain(fallbacks, { tools: true, vision: false })),
+  ];
+}
+
+// =============================================================================
+// Pausing
+// =============================================================================
+
+/**
+ * Hold an agent's tool calls while its session is paused, so it stops before
+ * its next step; calls made once the session is cancelled fail instead.
+ * `onExecute` is called as each tool actually starts running.
+ */
+function pausableTools(
+  tools: Record<string, CoreTool>,
+  sessionId: string | undefined,
+  onExecute?: () => void
+): Record<string, CoreTool> {
+  if (!sessionId && !onExecute) return tools;
+  const wrapped: Record<string, CoreTool> = {};
+  for (const [name, t] of Object.entries(tools)) {
+    const execute = t.execute;
+    wrapped[name] = execute === undefined ? t : {
+      ...t,
+      execute: async (args: unknown, options: Parameters<typeof execute>[1]) => {
+        await waitWhilePaused(sessionId);
+        if (sessionId && isSessionCancelled(sessionId)) {
+          throw new Error("The agent session was cancelled");
+        }
+        onExecute?.();
+        return execute(args, options);
+      },
+    };
+  }
+  return wrapped;
+}
 
 // =============================================================================
 // Sub-Agent System Prompts
@@ -41,11 +134,13 @@ Your job:
 
 You have access to:
 - explore(prompts): Launch multiple explore agents to gather information in parallel
-- add_task(title, description, type): Add a task to track
+- add_task(title, description, type, dependsOn): Add a task to track; dependsOn lists the IDs of tasks that must finish first
 - set_task(taskId, status): Update task status
 - ask_user(question): Ask the user for clarification if needed
 
-Be thorough but efficient. Create clear, specific tasks that can be executed independently where possible.`;
+Be thorough but efficient. Create clear, specific tasks that can be executed independently where possible.
+Execute tasks run in parallel unless one depends on another: give a task dependsOn only when it needs
+the result of an earlier task, and it will start once those are done, with their results.`;
 
 const EXPLORE_AGENT_PROMPT = `You are an autonomous exploration agent.
 
@@ -62,40 +157,36 @@ You have access to tools for:
 Research thoroughly, then call summarize_findings() with a concise summary.
 Focus on facts and specific details. Be concise but complete.`;
 
-const SUB_EXECUTOR_PROMPT = `You are an autonomous executor sub-agent.
+const SUB_EXECUTOR_PROMPT = `You are an autonomous executor sub-agent. An executor agent handed you one part of its task; other sub-agents may be working on other parts at the same time.
 
 IMPORTANT: You work COMPLETELY AUTONOMOUSLY.
 - You CANNOT ask questions or interact with humans
 - You CANNOT expect any user messages
-- You must complete your tasks independently or report failure
+- You must complete your part independently or report failure
 
 Your job:
-1. Execute the assigned tasks using available tools
-2. Call set_task(taskId, 'in_progress') when starting a task
-3. Call set_task(taskId, 'done') when completing a task
-4. Call report_completion() when finished with all tasks
+1. Carry out your part using the available tools
+2. Call report_completion() when finished; the executor builds on your summary, so make it self-contained
 
-If you encounter a blocking issue you cannot resolve:
-1. Call set_task(taskId, 'cancelled') with reason
-2. Call report_completion(success: false, errors: [...])`;
+If you encounter a blocking issue you cannot resolve, call report_completion(success: false, errors: [...])`;
 
-const EXECUTOR_AGENT_PROMPT = `You are the main executor agent. You execute the tasks that were created during planning.
+const EXECUTOR_AGENT_PROMPT = `You are an executor agent. You carry out one task of a plan; other agents run its other tasks, some at the same time as you.
 
 Your job:
-1. Review the pending tasks using view_tasks()
-2. For tasks that can be parallelized, use execute() to spawn sub-agents
-3. For tasks that need sequential execution or coordination, execute them yourself
-4. Mark tasks as in_progress before starting, and done when complete
+1. Carry out your task using the available tools, building on the results of the tasks it depends on
+2. For independent parts of your task, you can use execute() to hand them to parallel sub-agents; you get their summaries back
+3. Call set_task(taskId, 'done', result) when your task is complete; tasks that depend on it receive the result, so make it self-contained
+4. If your task cannot be completed, call set_task(taskId, 'cancelled', reason)
 5. You CAN use ask_user if you need clarification from the user
 
 Available tools:
 - view_tasks: See all tasks and their status
-- set_task: Update task status (in_progress, done, cancelled)
-- execute: Spawn parallel sub-agents for independent work streams
+- set_task: Update your task's status (done, cancelled)
+- execute: Run parts of your task in parallel sub-agents
 - All MCP tools (filesystem, fetch, etc.)
 - ask_user: Ask the user for clarification if needed
 
-Execute all pending tasks, then report completion.`;
+Work only on your own task, then summarize what you did.`;
 
 // =============================================================================
 // Helper: Stream and broadcast tool calls
@@ -104,7 +195,8 @@ Execute all pending tasks, then report completion.`;
 async function streamAndBroadcast(
   result: ReturnType<typeof streamText>,
   session: AgentSession,
-  label: string
+  label: string,
+  onOutput: () => void
 ): Promise<string> {
   let finalText = "";
 
@@ -113,8 +205,12 @@ async function streamAndBroadcast(
     const p = part as any;
 
     if (p.type === "text-delta") {
+      onOutput();
       finalText += p.textDelta as string;
+    } else if (p.type === "error") {
+      throw p.error ?? p;
     } else if (p.type === "tool-call") {
+      onOutput();
       console.log(`[${label}] Tool call: ${p.toolName}`);
       broadcastToThread(session.threadId, {
         type: "tool_call",
@@ -153,20 +249,18 @@ async function streamAndBroadcast(
 async function runPlanAgent(
   session: AgentSession,
   task: string,
-  apiKey: string,
-  perplexityApiKey: string | null | undefined
+  models: AgentModels,
+  perplexityApiKey: string | null | undefined,
+  fallbacks: ModelSettings[]
 ): Promise<AgentRunResult> {
-  const anthropic = createAnthropic({ apiKey });
-  const model = anthropic("claude-sonnet-4-20250514");
-
   const mcpTools = getMCPToolsForAISDK();
   const perplexityTools = createPerplexityTools(perplexityApiKey);
 
   const planAgentTools: Record<string, CoreTool> = {
-    add_task: addTaskTool,
-    set_task: setTaskTool,
-    view_tasks: viewTasksTool,
-    explore: exploreTool,
+    add_task: createAddTaskTool(session.id),
+    set_task: createSetTaskTool(session.id),
+    view_tasks: createViewTasksTool(session.id),
+    explore: createExploreTool(session, models, perplexityApiKey, fallbacks),
     ask_user: askUserTool,
     ...mcpTools,
   };
@@ -174,24 +268,44 @@ async function runPlanAgent(
     if (t !== undefined) planAgentTools[name] = t;
   }
 
+  const system = PLAN_AGENT_PROMPT + `\n\nThe task to plan:\n${task}`;
+  const transcript = startTranscript(session.id, "plan", "Plan", system);
+
   try {
     console.log(`[PlanAgent] Starting for session ${session.id}, task: ${task.slice(0, 100)}...`);
 
-    const result = streamText({
-      model,
-      system: PLAN_AGENT_PROMPT + `\n\nThe task to plan:\n${task}`,
-      messages: [
-        {
-          role: "user",
-          content:
-            "Begin planning this task now. Break it down into actionable steps. When done, provide a summary of the plan.",
-        },
-      ],
-      tools: planAgentTools,
-      maxSteps: 15,
-    });
-
-    const finalText = await streamAndBroadcast(result, session, "PlanAgent");
+    const abortSignal = getSessionAbortSignal(session.id);
+    let started = false;
+    const finalText = await withModelFallback(
+      await createAgentModelChain(models.planner, fallbacks),
+      (entry) => {
+        const result = streamText({
+          model: entry.model,
+          system,
+          messages: [
+            {
+              role: "user",
+              content:
+                "Begin planning this task now. Break it down into actionable steps. When done, provide a summary of the plan.",
+            },
+          ],
+          tools: pausableTools(planAgentTools, session.id),
+          maxSteps: 15,
+          maxRetries: 0,
+          abortSignal,
+          onStepFinish: (step) => {
+            recordTranscriptStep(session.id, transcript, step);
+            recordStepUsage(session.id, entry, step);
+          },
+        });
+        return streamAndBroadcast(result, session, "PlanAgent", () => { started = true; });
+      },
+      { label: "PlanAgent", abortSignal, canRecover: () => !started }
+    );
+    finishTranscript(session.id, transcript, "done");
+    if (isSessionCancelled(session.id)) {
+      return { success: false, summary: "Planning cancelled", error: session.error };
+    }
 
     const tasks = Array.from(session.tasks.values());
     const pendingExecuteTasks = tasks.filter(
@@ -199,13 +313,7 @@ async function runPlanAgent(
     );
 
     if (pendingExecuteTasks.length > 0) {
-      session.status = "executing";
-      broadcastToThread(session.threadId, {
-        type: "session_updated",
-        sessionId: session.id,
-        threadId: session.threadId,
-        session: { id: session.id, status: session.status },
-      });
+      updateSessionStatus(session.id, "executing");
       console.log(
         `[PlanAgent] Planning complete, ${pendingExecuteTasks.length} execute tasks pending`
       );
@@ -215,39 +323,92 @@ async function runPlanAgent(
     console.log(`[PlanAgent] Completed for session ${session.id}`);
     return { success: true, summary };
   } catch (error) {
+    if (isSessionCancelled(session.id)) {
+      console.log(`[PlanAgent] Cancelled for session ${session.id}`);
+      finishTranscript(session.id, transcript, "error", "Cancelled");
+      return { success: false, summary: "Planning cancelled", error: session.error };
+    }
     console.error(`[PlanAgent] Error:`, error);
     const errorMsg = error instanceof Error ? error.message : "Unknown error";
+    finishTranscript(session.id, transcript, "error", errorMsg);
     cleanupIncompleteTasks(session, `Planning error: ${errorMsg}`);
-    session.status = "error";
-    session.error = errorMsg;
-    broadcastToThread(session.threadId, {
-      type: "session_error",
-      sessionId: session.id,
-      threadId: session.threadId,
-      session: { id: session.id, status: session.status, error: session.error },
-    });
+    updateSessionStatus(session.id, "error", errorMsg);
     return { success: false, summary: "Planning failed", error: errorMsg };
   }
 }
 
-async function runExecutorAgent(
-  session: AgentSession,
-  apiKey: string,
-  perplexityApiKey: string | null | undefined
-): Promise<AgentRunResult> {
-  const anthropic = createAnthropic({ apiKey });
-  const model = anthropic("claude-sonnet-4-20250514");
-  const threadId = session.threadId;
+// =============================================================================
+// Task Scheduler
+// =============================================================================
+
+/**
+ * Whether a dependency lets its dependents start: "done" once it's done (or,
+ * for plan and explore tasks, once planning is over), "failed" if it was
+ * cancelled, "pending" otherwise
+ */
+export function dependencyState(session: AgentSession, taskId: string): "done" | "failed" | "pending" {
+  const dep = session.tasks.get(taskId);
+  if (!dep) return "done";
+  if (dep.status === "cancelled") return "failed";
+  if (dep.status === "done" || dep.type !== "execute") return "done";
+  return "pending";
+}
+
+/** Cancel waiting tasks that depend, directly or not, on one that didn't complete */
+export function cancelBlockedTasks(session: AgentSession): void {
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const task of session.tasks.values()) {
+      if (task.type !== "execute" || task.status !== "staged") continue;
+      const failed = task.dependsOn.find((id) => dependencyState(session, id) === "failed");
+      if (failed === undefined) continue;
+      const title = session.tasks.get(failed)?.title ?? failed;
+      updateTaskStatus(session.id, task.id, "cancelled", `Not run: "${title}" did not complete`);
+      changed = true;
+    }
+  }
+}
 
-  setAgentContext({ sessionId: session.id, threadId, apiKey, perplexityApiKey });
+/**
+ * What an executor needs to know about its task: the overall goal, the task
+ * and the results of the tasks it depends on
+ */
+function taskContext(session: AgentSession, task: AgentTask): string {
+  const lines = session.planContent ? [`Overall goal: ${session.planContent}`, ""] : [];
+  lines.push(`Your task [${task.id}]: ${task.title}`, task.description);
+  const deps = task.dependsOn
+    .map((id) => session.tasks.get(id))
+    .filter((dep) => dep?.status === "done");
+  if (deps.length > 0) {
+    lines.push("", "Results of the tasks it depends on:");
+    for (const dep of deps) {
+      if (!dep) continue;
+      const result = dep.result === undefined ? "(no result)" : truncateToolResultForContext(dep.result);
+      lines.push(`- [${dep.id}] ${dep.title}: ${result}`);
+    }
+  }
+  return lines.join("\n");
+}
 
+/**
+ * Run an executor agent on one task. Never throws: a task the agent fails or
+ * leaves unfinished is cancelled with the reason.
+ */
+async function runTaskAgent(
+  session: AgentSession,
+  task: AgentTask,
+  models: AgentModels,
+  perplexityApiKey: string | null | undefined,
+  fallbacks: ModelSettings[]
+): Promise<void> {
   const mcpTools = getMCPToolsForAISDK();
   const perplexityTools = createPerplexityTools(perplexityApiKey);
 
   const executorTools: Record<string, CoreTool> = {
-    view_tasks: viewTasksTool,
-    set_task: setTaskTool,
-    execute: executeTool,
+    view_tasks: createViewTasksTool(session.id),
+    set_task: createSetTaskTool(session.id, task.id),
+    execute: createExecuteTool(session, task, models, fallbacks),
     ask_user: askUserTool,
     ...mcpTools,
   };
@@ -255,73 +416,129 @@ async function runExecutorAgent(
     if (t !== undefined) executorTools[name] = t;
   }
 
-  const pendingTasks = Array.from(session.tasks.values()).filter(
-    (t) => t.type === "execute" && (t.status === "staged" || t.status === "in_progress")
-  );
-  const taskList = pendingTasks
-    .map((t) => `- [${t.id}] ${t.title}: ${t.description}`)
-    .join("\n");
+  const system = EXECUTOR_AGENT_PROMPT + `\n\n${taskContext(session, task)}`;
+  const label = `Execute: ${task.title}`;
+  const transcript = startTranscript(session.id, "executor", label, system);
 
   try {
-    console.log(
-      `[ExecutorAgent] Starting for session ${session.id}, ${pendingTasks.length} pending tasks`
+    console.log(`[ExecutorAgent] Starting task ${task.id} for session ${session.id}`);
+
+    const abortSignal = getSessionAbortSignal(session.id);
+    let started = false;
+    const finalText = await withModelFallback(
+      await createAgentModelChain(models.executor, fallbacks),
+      (entry) => {
+        const result = streamText({
+          model: entry.model,
+          system,
+          messages: [
+            {
+              role: "user",
+              content:
+                "Carry out your task now. When it's complete, mark it done with its result and summarize what you did.",
+            },
+          ],
+          tools: pausableTools(executorTools, session.id),
+          maxSteps: 30,
+          maxRetries: 0,
+          abortSignal,
+          onStepFinish: (step) => {
+            recordTranscriptStep(session.id, transcript, step);
+            recordStepUsage(session.id, entry, step);
+          },
+        });
+        return streamAndBroadcast(result, session, "ExecutorAgent", () => { started = true; });
+      },
+      { label: "ExecutorAgent", abortSignal, canRecover: () => !started }
     );
+    finishTranscript(session.id, transcript, "done");
+    if (isSessionCancelled(session.id)) return;
+
+    if (task.status === "done" && task.result === undefined && finalText) {
+      // Dependents get the agent's summary when it didn't give a result
+      updateTaskStatus(session.id, task.id, "done", finalText);
+    } else if (task.status === "staged" || task.status === "in_progress") {
+      updateTaskStatus(session.id, task.id, "cancelled", "Executor finished without completing this task");
+    }
+    console.log(`[ExecutorAgent] Task ${task.id} finished as ${task.status}`);
+  } catch (error) {
+    if (isSessionCancelled(session.id)) {
+      console.log(`[ExecutorAgent] Task ${task.id} cancelled for session ${session.id}`);
+      finishTranscript(session.id, transcript, "error", "Cancelled");
+      return;
+    }
+    console.error(`[ExecutorAgent] Error on task ${task.id}:`, error);
+    const errorMsg = error instanceof Error ? error.message : "Unknown error";
+    finishTranscript(session.id, transcript, "error", errorMsg);
+    updateTaskStatus(session.id, task.id, "cancelled", `Error: ${errorMsg}`);
+  }
+}
 
-    const result = streamText({
-      model,
-      system: EXECUTOR_AGENT_PROMPT + `\n\nPending execute tasks:\n${taskList}`,
-      messages: [
-        {
-          role: "user",
-          content:
-            "Execute all pending tasks now. Mark each task as in_progress before starting and done when complete. When finished, provide a summary of what was accomplished.",
-        },
-      ],
-      tools: executorTools,
-      maxSteps: 30,
-    });
-
-    const finalText = await streamAndBroadcast(result, session, "ExecutorAgent");
-
-    const remainingTasks = Array.from(session.tasks.values()).filter(
-      (t) => t.type === "execute" && (t.status === "staged" || t.status === "in_progress")
-    );
-    const completedTasks = Array.from(session.tasks.values()).filter(
-      (t) => t.status === "done"
+/**
+ * Run the planned execute tasks in dependency order: each task starts once
+ * the tasks it depends on are done, in parallel up to the session's limit,
+ * and tasks depending on one that failed are cancelled without running
+ */
+async function runTaskScheduler(
+  session: AgentSession,
+  models: AgentModels,
+  perplexityApiKey: string | null | undefined,
+  fallbacks: ModelSettings[]
+): Promise<AgentRunResult> {
+  updateSessionStatus(session.id, "executing");
+  const limit = Math.max(1, session.budget.maxParallelAgents ?? DEFAULT_AGENT_BUDGET.maxParallelAgents ?? 1);
+  const running = new Map<string, Promise<void>>();
+
+  while (!isSessionCancelled(session.id)) {
+    await waitWhilePaused(session.id);
+    if (isSessionCancelled(session.id)) break;
+    cancelBlockedTasks(session);
+
+    const ready = Array.from(session.tasks.values()).filter(
+      (t) =>
+        t.type === "execute" &&
+        (t.status === "staged" || t.status === "in_progress") &&
+        !running.has(t.id) &&
+        t.dependsOn.every((id) => dependencyState(session, id) === "done")
     );
-
-    if (remainingTasks.length === 0) {
-      session.status = "complete";
-      broadcastToThread(threadId, {
-        type: "session_complete",
-        sessionId: session.id,
-        threadId,
-        session: { id: session.id, status: session.status },
-      });
-      console.log(`[ExecutorAgent] All tasks completed for session ${session.id}`);
-    } else {
-      cleanupIncompleteTasks(session, "Executor finished without completing this task");
-      console.log(
-        `[ExecutorAgent] ${remainingTasks.length} tasks still pending, marked as cancelled`
+    for (const task of ready.slice(0, limit - running.size)) {
+      updateTaskStatus(session.id, task.id, "in_progress");
+      running.set(
+        task.id,
+        runTaskAgent(session, task, models, perplexityApiKey, fallbacks).finally(() => {
+          running.delete(task.id);
+        })
       );
     }
 
-    const summary = finalText || `Execution complete. Completed ${completedTasks.length} tasks.`;
-    return { success: remainingTasks.length === 0, summary };
-  } catch (error) {
-    console.error(`[ExecutorAgent] Error:`, error);
-    const errorMsg = error instanceof Error ? error.message : "Unknown error";
-    cleanupIncompleteTasks(session, `Error: ${errorMsg}`);
-    session.status = "error";
-    session.error = errorMsg;
-    broadcastToThread(threadId, {
-      type: "session_error",
-      sessionId: session.id,
-      threadId,
-      session: { id: session.id, status: session.status, error: session.error },
-    });
-    return { success: false, summary: "Execution failed", error: errorMsg };
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+  // Cancelled agents abort, but let them record that before reporting
+  await Promise.all(running.values());
+
+  if (isSessionCancelled(session.id)) {
+    return { success: false, summary: "Execution cancelled", error: session.error };
+  }
+
+  const executeTasks = Array.from(session.tasks.values()).filter((t) => t.type === "execute");
+  const done = executeTasks.filter((t) => t.status === "done");
+  const lines = [`Completed ${done.length} of ${executeTasks.length} tasks.`];
+  for (const t of done) {
+    lines.push(`- ${t.title}: ${truncateToolResultForContext(t.result)}`);
+  }
+  const summary = lines.join("\n");
+
+  if (done.length === executeTasks.length) {
+    updateSessionStatus(session.id, "complete");
+    console.log(`[Scheduler] All tasks completed for session ${session.id}`);
+    return { success: true, summary };
   }
+
+  const error = `${executeTasks.length - done.length} of ${executeTasks.length} tasks did not complete`;
+  console.log(`[Scheduler] ${error} for session ${session.id}`);
+  updateSessionStatus(session.id, "error", error);
+  return { success: false, summary, error };
 }
 
 // =============================================================================
@@ -330,13 +547,14 @@ async function runExecutorAgent(
 
 async function runExploreAgent(
   prompt: string,
-  apiKey: string,
+  sessionId: string | undefined,
+  label: string,
+  model: ModelSettings,
   perplexityApiKey: string | null | undefined,
-  mcpToolsForAgent: Record<string, CoreTool>
+  fallbacks: ModelSettings[],
+  mcpToolsForAgent: Record<string, CoreTool>,
+  abortSignal: AbortSignal | undefined
 ): Promise<string> {
-  const anthropic = createAnthropic({ apiKey });
-  const model = anthropic("claude-sonnet-4-20250514");
-
   const perplexityTools = createPerplexityTools(perplexityApiKey);
   const exploreTools: Record<string, CoreTool> = {
     summarize_findings: summarizeFindingsTool,
@@ -346,54 +564,99 @@ async function runExploreAgent(
     if (t !== undefined) exploreTools[name] = t;
   }
 
-  const result = await generateText({
-    model,
-    system: EXPLORE_AGENT_PROMPT + `\n\nYour exploration task:\n${prompt}`,
-    messages: [{ role: "user", content: "Begin your research now." }],
-    tools: exploreTools,
-    maxSteps: 10,
-  });
+  const system = EXPLORE_AGENT_PROMPT + `\n\nYour exploration task:\n${prompt}`;
+  const transcript = startTranscript(sessionId, "explore", label, system);
+
+  // Research has no side effects, so a failed run can always start over on the next model
+  let result;
+  try {
+    result = await withModelFallback(
+      await createAgentModelChain(model, fallbacks),
+      (entry) =>
+        generateText({
+          model: entry.model,
+          system,
+          messages: [{ role: "user", content: "Begin your research now." }],
+          tools: pausableTools(exploreTools, sessionId),
+          maxSteps: 10,
+          maxRetries: 0,
+          abortSignal,
+          onStepFinish: (step) => {
+            recordTranscriptStep(sessionId, transcript, step);
+            recordStepUsage(sessionId, entry, step);
+          },
+        }),
+      { label: "ExploreAgent", ...(abortSignal ? { abortSignal } : {}) }
+    );
+  } catch (error) {
+    finishTranscript(sessionId, transcript, "error", error instanceof Error ? error.message : "Unknown error");
+    throw error;
+  }
+  finishTranscript(sessionId, transcript, "done");
 
   const summaryCall = result.toolCalls?.find((c) => c.toolName === "summarize_findings");
   const args = summaryCall?.args as { summary?: string } | undefined;
   return args?.summary ?? result.text;
 }
 
+/**
+ * Run a sub-executor on part of `task`. The task itself stays with its
+ * executor, so the sub-executor only reports back.
+ */
 async function runExecutorSubAgent(
-  taskIds: string[],
+  task: AgentTask,
   context: string,
   sessionId: string,
-  apiKey: string,
+  label: string,
+  models: AgentModels,
+  fallbacks: ModelSettings[],
   mcpToolsForAgent: Record<string, CoreTool>
 ): Promise<{ taskIds: string[]; success: boolean; summary: string; errors?: string[] }> {
-  const anthropic = createAnthropic({ apiKey });
-  const model = anthropic("claude-sonnet-4-20250514");
-
-  const session = getAgentSession(sessionId);
-  setAgentContext({ sessionId, threadId: session?.threadId, apiKey });
-
   const executorTools = {
     ...mcpToolsForAgent,
-    set_task: setTaskTool,
     report_completion: reportCompletionTool,
   };
 
-  const result = await generateText({
-    model,
-    system:
-      SUB_EXECUTOR_PROMPT +
-      `\n\nAssigned tasks: ${taskIds.join(", ")}\n\nContext:\n${context}`,
-    messages: [{ role: "user", content: "Execute your assigned tasks now." }],
-    tools: executorTools,
-    maxSteps: 20,
-  });
+  const system =
+    SUB_EXECUTOR_PROMPT +
+    `\n\nThe task you're helping with: ${task.title}\n${task.description}\n\nYour part:\n${context}`;
+  const transcript = startTranscript(sessionId, "sub_executor", label, system);
+
+  const abortSignal = getSessionAbortSignal(sessionId);
+  // Tools already run in a failed attempt would run twice on a retry
+  let toolsRan = false;
+  let result;
+  try {
+    result = await withModelFallback(
+      await createAgentModelChain(models.subExecutor, fallbacks),
+      (entry) =>
+        generateText({
+          model: entry.model,
+          system,
+          messages: [{ role: "user", content: "Execute your assigned tasks now." }],
+          tools: pausableTools(executorTools, sessionId, () => { toolsRan = true; }),
+          maxSteps: 20,
+          maxRetries: 0,
+          abortSignal,
+          onStepFinish: (step) => {
+            recordTranscriptStep(sessionId, transcript, step);
+            recordStepUsage(sessionId, entry, step);
+          },
+        }),
+      { label: "SubExecutor", abortSignal, canRecover: () => !toolsRan }
+    );
+  } catch (error) {
+    finishTranscript(sessionId, transcript, "error", error instanceof Error ? error.message : "Unknown error");
+    throw error;
+  }
+  finishTranscript(sessionId, transcript, "done");
 
   const reportCall = result.toolCalls?.find((c) => c.toolName === "report_completion");
   const reportArgs = reportCall?.args as
     | { success?: boolean; summary?: string; errors?: string[] }
     | undefined;
   return {
-    taskIds,
+    taskIds: [task.id],
     success: reportArgs?.success ?? false,
     summary: reportArgs?.summary ?? result.text,
     errors: reportArgs?.errors,
@@ -407,211 +670,259 @@ async function runExecutorSubAgent(
 import { tool } from "ai";
 import { z } from "zod";
 
-export const exploreTool = tool({
-  description: `Launch multiple explore agents concurrently to gather information.
+/**
+ * Create the explore tool for the planner of `session`: each prompt runs an
+ * explore agent, in parallel up to the session's limit
+ */
+function createExploreTool(
+  session: AgentSession,
+  models: AgentModels,
+  perplexityApiKey: string | null | undefined,
+  fallbacks: ModelSettings[]
+) {
+  return tool({
+    description: `Launch multiple explore agents concurrently to gather information.
 Each prompt spawns a separate autonomous agent that researches and returns findings.
 This tool blocks until all agents complete.
 
 Use this to gather information in parallel before planning.`,
-  parameters: z.object({
-    prompts: z.array(z.string()).describe("Array of exploration prompts, one per agent"),
-  }),
-  execute: async ({ prompts }) => {
-    const { sessionId, threadId, apiKey, perplexityApiKey } = getAgentContext();
-    const session = sessionId ? getAgentSession(sessionId) : undefined;
-
-    if (!apiKey) {
-      return { error: "No API key available for sub-agents", results: [] };
-    }
+    parameters: z.object({
+      prompts: z.array(z.string()).describe("Array of exploration prompts, one per agent"),
+    }),
+    execute: async ({ prompts }) => {
+      const { id: sessionId, threadId } = session;
 
-    if (threadId) {
       broadcastToThread(threadId, {
         type: "explore_started",
-        sessionId: sessionId ?? "",
+        sessionId,
         threadId,
         count: prompts.length,
         prompts,
       });
-    }
+      updateSessionStatus(sessionId, "exploring");
 
-    if (session) {
-      updateSessionStatus(sessionId!, "exploring");
-    }
+      const mcpToolsForAgent = getMCPToolsForAISDK();
+      const parallelLimit = session.budget.maxParallelAgents ?? prompts.length;
 
-    const mcpToolsForAgent = getMCPToolsForAISDK();
+      const results = await mapWithParallelLimit(prompts, parallelLimit, async (prompt, index) => {
+        await waitWhilePaused(sessionId);
+        if (isSessionCancelled(sessionId)) {
+          return "Not explored: the session stopped";
+        }
+        broadcastToThread(threadId, {
+          type: "sub_agent_started",
+          sessionId,
+          threadId,
+          index,
+          prompt,
+        });
 
-    const results = await Promise.all(
-      prompts.map(async (prompt, index) => {
-        if (threadId) {
+        try {
+          const summary = await runExploreAgent(
+            prompt,
+            sessionId,
+            `Explore ${index + 1}`,
+            models.explorer,
+            perplexityApiKey,
+            fallbacks,
+            mcpToolsForAgent,
+            getSessionAbortSignal(sessionId)
+          );
           broadcastToThread(threadId, {
-            type: "sub_agent_started",
-            sessionId: sessionId ?? "",
+            type: "sub_agent_done",
+            sessionId,
             threadId,
             index,
-            prompt,
+            summary,
           });
-        }
-
-        try {
-          const summary = await runExploreAgent(prompt, apiKey, perplexityApiKey, mcpToolsForAgent);
-          if (threadId) {
-            broadcastToThread(threadId, {
-              type: "sub_agent_done",
-              sessionId: sessionId ?? "",
-              threadId,
-              index,
-              summary,
-            });
-          }
           return summary;
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : "Unknown error";
-          if (threadId) {
-            broadcastToThread(threadId, {
-              type: "sub_agent_done",
-              sessionId: sessionId ?? "",
-              threadId,
-              index,
-              summary: `Error: ${errorMsg}`,
-            });
-          }
+          broadcastToThread(threadId, {
+            type: "sub_agent_done",
+            sessionId,
+            threadId,
+            index,
+            summary: `Error: ${errorMsg}`,
+          });
           return `Error exploring: ${errorMsg}`;
         }
-      })
-    );
+      });
 
-    if (threadId) {
       broadcastToThread(threadId, {
         type: "explore_complete",
-        sessionId: sessionId ?? "",
+        sessionId,
         threadId,
         results,
       });
-    }
 
-    return { results };
-  },
-});
+      return { results };
+    },
+  });
+}
 
-export const executeTool = tool({
-  description: `Delegate tasks to parallel executor sub-agents.
-Each sub-agent works AUTONOMOUSLY (no human interaction).
-Assign tasks by ID so sub-agents can mark them complete.
+/**
+ * Create the execute tool for the executor of `task`: each assignment runs a
+ * sub-executor on a part of the task, in parallel up to the session's limit
+ */
+function createExecuteTool(session: AgentSession, task: AgentTask, models: AgentModels, fallbacks: ModelSettings[]) {
+  return tool({
+    description: `Hand independent parts of your task to parallel executor sub-agents.
+Each sub-agent works AUTONOMOUSLY (no human interaction) on the part you describe
+and returns a summary. Your task stays yours to mark done.
 
 Use this to parallelize independent work streams.`,
-  parameters: z.object({
-    assignments: z
-      .array(
-        z.object({
-          tasks: z.array(z.string()).describe("Task IDs to assign to this sub-agent"),
-          context: z.string().describe("Instructions and context for the sub-agent"),
-        })
-      )
-      .describe("Array of task assignments, one per sub-agent"),
-  }),
-  execute: async ({ assignments }) => {
-    const { sessionId, threadId, apiKey } = getAgentContext();
-
-    if (!apiKey) {
-      return { error: "No API key available for sub-agents", results: [] };
-    }
-    if (!sessionId) {
-      return { error: "No active agent session", results: [] };
-    }
-
-    updateSessionStatus(sessionId, "executing");
-
-    const mcpToolsForAgent = getMCPToolsForAISDK();
-
-    const results = await Promise.all(
-      assignments.map(async ({ tasks, context }, index) => {
-        if (threadId) {
-          broadcastToThread(threadId, {
-            type: "sub_executor_started",
-            sessionId,
-            threadId,
-            index,
-            taskIds: tasks,
-          });
+    parameters: z.object({
+      assignments: z
+        .array(
+          z.object({
+            context: z.string().describe("The part to carry out, with the instructions and context it needs"),
+          })
+        )
+        .describe("Array of assignments, one per sub-agent"),
+    }),
+    execute: async ({ assignments }) => {
+      const { id: sessionId, threadId } = session;
+      const mcpToolsForAgent = getMCPToolsForAISDK();
+      const parallelLimit = session.budget.maxParallelAgents ?? assignments.length;
+
+      const results = await mapWithParallelLimit(assignments, parallelLimit, async ({ context }, index) => {
+        await waitWhilePaused(sessionId);
+        if (isSessionCancelled(sessionId)) {
+          return { taskIds: [task.id], success: false, summary: "Not started: the session stopped" };
         }
+        broadcastToThread(threadId, {
+          type: "sub_executor_started",
+          sessionId,
+          threadId,
+          index,
+          taskIds: [task.id],
+        });
 
         try {
           const result = await runExecutorSubAgent(
-            tasks,
+            task,
             context,
             sessionId,
-            apiKey,
+            `${task.title}: part ${index + 1}`,
+            models,
+            fallbacks,
             mcpToolsForAgent
           );
-          if (threadId) {
-            broadcastToThread(threadId, {
-              type: "sub_executor_done",
-              sessionId,
-              threadId,
-              index,
-              taskIds: tasks,
-              summary: result.summary,
-              success: result.success,
-            });
-          }
+          broadcastToThread(threadId, {
+            type: "sub_executor_done",
+            sessionId,
+            threadId,
+            index,
+            taskIds: result.taskIds,
+            summary: result.summary,
+            success: result.success,
+          });
           return result;
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : "Unknown error";
-          if (threadId) {
-            broadcastToThread(threadId, {
-              type: "sub_executor_done",
-              sessionId,
-              threadId,
-              index,
-              taskIds: tasks,
-              summary: `Error: ${errorMsg}`,
-              success: false,
-            });
-          }
+          broadcastToThread(threadId, {
+            type: "sub_executor_done",
+            sessionId,
+            threadId,
+            index,
+            taskIds: [task.id],
+            summary: `Error: ${errorMsg}`,
+            success: false,
+          });
           return {
-            taskIds: tasks,
+            taskIds: [task.id],
             success: false,
             summary: `Error: ${errorMsg}`,
             errors: [errorMsg],
           };
         }
-      })
-    );
+      });
 
-    return { results };
-  },
-});
+      return { results };
+    },
+  });
+}
 
 // =============================================================================
 // Main Orchestration Pipeline
 // =============================================================================
 
+/**
+ * Summary of a session stopped early, by the user or its budget: why it
+ * stopped and the results of the tasks it did finish
+ */
+function stoppedSummary(session: AgentSession): string {
+  const tasks = Array.from(session.tasks.values());
+  const done = tasks.filter((t) => t.status === "done");
+  const lines = [`Stopped: ${session.error ?? "cancelled"}. Completed ${done.length} of ${tasks.length} tasks.`];
+  for (const t of done) {
+    const result = t.result === undefined ? "" : typeof t.result === "string" ? t.result : JSON.stringify(t.result);
+    lines.push(result ? `- ${t.title}: ${result}` : `- ${t.title}`);
+  }
+  return lines.join("\n");
+}
+
 export async function runOrchestrationPipeline(
   session: AgentSession,
   task: string,
-  apiKey: string,
-  perplexityApiKey: string | null | undefined
+  models: AgentModels,
+  perplexityApiKey: string | null | undefined,
+  fallbacks: ModelSettings[] = [],
+  planApproval = false
 ): Promise<OrchestrationResult> {
-  const planResult = await runPlanAgent(session, task, apiKey, perplexityApiKey);
+  const planResult = await runPlanAgent(session, task, models, perplexityApiKey, fallbacks);
 
   if (!planResult.success) {
     return {
       success: false,
-      summary: planResult.summary,
+      summary: isSessionCancelled(session.id) ? stoppedSummary(session) : planResult.summary,
       tasksSummary: getTasksSummary(session),
       error: planResult.error,
     };
   }
 
+  if (isSessionCancelled(session.id)) {
+    return {
+      success: false,
+      summary: stoppedSummary(session),
+      tasksSummary: getTasksSummary(session),
+      error: session.error,
+    };
+  }
+
   const pendingExecuteTasks = Array.from(session.tasks.values()).filter(
     (t) => t.type === "execute" && (t.status === "staged" || t.status === "in_progress")
   );
 
   if (pendingExecuteTasks.length > 0) {
-    const execResult = await runExecutorAgent(session, apiKey, perplexityApiKey);
+    if (planApproval) {
+      const decision = await awaitPlanApproval(session);
+      if (isSessionCancelled(session.id)) {
+        return {
+          success: false,
+          summary: stoppedSummary(session),
+          tasksSummary: getTasksSummary(session),
+          error: session.error,
+        };
+      }
+      if (!decision.approved) {
+        const reason = decision.reason ? `Plan rejected: ${decision.reason}` : "Plan rejected";
+        cancelAgentSession(session.id, reason);
+        return {
+          success: false,
+          summary: `The user rejected the plan, so none of it was run. ${reason}.`,
+          tasksSummary: getTasksSummary(session),
+          error: reason,
+        };
+      }
+      applyApprovedPlan(session, decision.tasks);
+    }
+
+    const execResult = await runTaskScheduler(session, models, perplexityApiKey, fallbacks);
     return {
       success: execResult.success,
-      summary: execResult.summary,
+      summary: isSessionCancelled(session.id) ? stoppedSummary(session) : execResult.summary,
       tasksSummary: getTasksSummary(session),
       error: execResult.error,
     };
@@ -1,23 +1,51 @@
 /**
  * Agent Session & Task Management
  *
- * In-memory store for agent sessions and tasks.
+ * In-memory store for running agent sessions and tasks, saved to disk on
+ * every change so a thread's history outlives the sidecar.
  * Broadcasts updates via WebSocket.
  */
 import { randomUUID } from "crypto";
+import { MAX_TRANSCRIPT_RESULT_CHARS } from "../config.js";
+import { DEFAULT_AGENT_BUDGET } from "../shared/chat-protocol.js";
 import type {
+  AgentBudget,
   AgentSession,
+  AgentSessionRecord,
   AgentSessionStatus,
+  AgentSessionSummary,
   AgentTask,
   AgentTaskStatus,
   AgentTaskType,
   AgentToolContext,
+  AgentTranscript,
+  AgentTranscriptRole,
 } from "../types.js";
-import { broadcastToThread } from "./websocket.js";
+import { broadcastToThread, discardSessionEvents } from "./websocket.js";
+import {
+  deleteThreadSessions,
+  listSessionRecords,
+  loadSessionRecord,
+  saveSession,
+  toSessionRecord,
+  toSessionSummary,
+} from "./store.js";
+
+const ACTIVE_STATUSES: ReadonlySet<AgentSessionStatus> = new Set([
+  "planning",
+  "exploring",
+  "awaiting_approval",
+  "executing",
+  "paused",
+  "waiting_user",
+]);
 
 // In-memory stores
 const agentSessions = new Map<string, AgentSession>();
 const sessionsByThread = new Map<string, string>(); // threadId -> sessionId
+const sessionAbortControllers = new Map<string, AbortController>(); // sessionId -> controller
+const resumeStatuses = new Map<string, AgentSessionStatus>(); // paused sessionId -> status to resume with
+const pauseWaiters = new Map<string, Array<() => void>>(); // paused sessionId -> agents held at a step
 
 // Agent context for tool execution (set per-request)
 let currentAgentContext: AgentToolContext = {};
@@ -34,10 +62,23 @@ export function getAgentSession(sessionId: string): AgentSession | undefined {
   return agentSessions.get(sessionId);
 }
 
-export function createAgentSession(threadId: string): AgentSession {
+/** Start a thread's new session; limits `budget` leaves out take their defaults */
+export function createAgentSession(threadId: string, budget: AgentBudget = {}): AgentSession {
   const existingSessionId = sessionsByThread.get(threadId);
   if (existingSessionId) {
+    // A replaced session must not keep running in the background
+    sessionAbortControllers.get(existingSessionId)?.abort("Superseded by a new session");
+    sessionAbortControllers.delete(existingSessionId);
+    releasePausedAgents(existingSessionId);
+    const existing = agentSessions.get(existingSessionId);
+    if (existing && ACTIVE_STATUSES.has(existing.status)) {
+      existing.status = "cancelled";
+      existing.error = "Superseded by a new session";
+      cleanupIncompleteTasks(existing, existing.error);
+      saveSession(existing);
+    }
     agentSessions.delete(existingSessionId);
+    discardSessionEvents(existingSessionId);
   }
 
   const session: AgentSession = {
@@ -45,12 +86,17 @@ export function createAgentSession(threadId: string): AgentSession {
     threadId,
     status: "planning",
     tasks: new Map(),
+    transcripts: [],
+    budget: { ...DEFAULT_AGENT_BUDGET, ...budget },
+    usage: { tokens: 0, costUsd: 0, toolCalls: 0, elapsedMs: 0 },
     createdAt: new Date(),
     lastActivityAt: new Date(),
   };
 
   agentSessions.set(session.id, session);
   sessionsByThread.set(threadId, session.id);
+  sessionAbortControllers.set(session.id, new AbortController());
+  saveSession(session);
 
   broadcastToThread(threadId, {
     type: "session_created",
@@ -74,11 +120,24 @@ export function updateSessionStatus(
 ): void {
   const session = agentSessions.get(sessionId);
   if (!session) return;
+  // Cancellation is final; late updates from aborted agents are dropped
+  if (session.status === "cancelled") return;
+  // A paused session shows as paused until it resumes, then in the latest stage its agents reached
+  if (resumeStatuses.has(sessionId) && status !== "paused" && ACTIVE_STATUSES.has(status)) {
+    resumeStatuses.set(sessionId, status);
+    return;
+  }
+  if (!ACTIVE_STATUSES.has(status)) releasePausedAgents(sessionId);
 
   session.status = status;
   session.lastActivityAt = new Date();
   if (error) session.error = error;
 
+  if (status === "complete" || status === "error") {
+    sessionAbortControllers.delete(sessionId);
+  }
+  saveSession(session);
+
   const updateType =
     status === "complete"
       ? "session_complete"
@@ -94,11 +153,88 @@ export function updateSessionStatus(
   });
 }
 
+/**
+ * Signal that aborts when the session is cancelled.
+ * Passed to every model call and tool execution in the orchestrator.
+ */
+export function getSessionAbortSignal(sessionId: string): AbortSignal | undefined {
+  return sessionAbortControllers.get(sessionId)?.signal;
+}
+
+export function isSessionCancelled(sessionId: string): boolean {
+  return agentSessions.get(sessionId)?.status === "cancelled";
+}
+
+function releasePausedAgents(sessionId: string): void {
+  resumeStatuses.delete(sessionId);
+  for (const release of pauseWaiters.get(sessionId) ?? []) release();
+  pauseWaiters.delete(sessionId);
+}
+
+/**
+ * Pause a running session: its agents stop before their next step and no
+ * new agents start until it resumes. Returns false if the session isn't
+ * running, or is waiting on the user already.
+ */
+export function pauseAgentSession(sessionId: string): boolean {
+  const session = agentSessions.get(sessionId);
+  if (!session || !ACTIVE_STATUSES.has(session.status)) return false;
+  if (session.status === "paused" || session.status === "awaiting_approval") return false;
+
+  console.log(`[Session] Pausing ${sessionId}`);
+  resumeStatuses.set(sessionId, session.status);
+  updateSessionStatus(sessionId, "paused");
+  return true;
+}
+
+/** Let a paused session's agents carry on; false if it isn't paused */
+export function resumeAgentSession(sessionId: string): boolean {
+  const status = resumeStatuses.get(sessionId);
+  if (status === undefined) return false;
+
+  console.log(`[Session] Resuming ${sessionId}`);
+  releasePausedAgents(sessionId);
+  updateSessionStatus(sessionId, status);
+  return true;
+}
+
+/**
+ * Resolves once the session isn't paused: at once if it's running, else
+ * when it resumes or ends. Agents await this between steps.
+ */
+export function waitWhilePaused(sessionId: string | undefined): Promise<void> {
+  if (!sessionId || !resumeStatuses.has(sessionId)) return Promise.resolve();
+  return new Promise((resolve) => {
+    pauseWaiters.set(sessionId, [...(pauseWaiters.get(sessionId) ?? []), resolve]);
+  });
+}
+
+/**
+ * Cancel a running session: abort in-flight model calls and tools,
+ * mark unfinished tasks cancelled and broadcast the new status.
+ * Returns false if the session doesn't exist or has already finished.
+ */
+export function cancelAgentSession(sessionId: string, reason: string): boolean {
+  const session = agentSessions.get(sessionId);
+  if (!session) return false;
+  if (session.status === "complete" || session.status === "error" || session.status === "cancelled") {
+    return false;
+  }
+
+  console.log(`[Session] Cancelling ${sessionId}: ${reason}`);
+  updateSessionStatus(sessionId, "cancelled", reason);
+  sessionAbortControllers.get(sessionId)?.abort(reason);
+  sessionAbortControllers.delete(sessionId);
+  cleanupIncompleteTasks(session, reason);
+  return true;
+}
+
 export function addTaskToSession(
   sessionId: string,
   title: string,
   description: string,
-  type: AgentTaskType
+  type: AgentTaskType,
+  dependsOn: string[] = []
 ): AgentTask {
   const session = agentSessions.get(sessionId);
   if (!session) throw new Error(`Session ${sessionId} not found`);
@@ -110,11 +246,13 @@ export function addTaskToSession(
     description,
     type,
     status: "staged",
+    dependsOn,
     createdAt: new Date(),
   };
 
   session.tasks.set(task.id, task);
   session.lastActivityAt = new Date();
+  saveSession(session);
 
   broadcastToThread(session.threadId, {
     type: "task_created",
@@ -149,6 +287,7 @@ export function updateTaskStatus(
   }
 
   session.lastActivityAt = new Date();
+  saveSession(session);
 
   broadcastToThread(session.threadId, {
     type: "task_updated",
@@ -172,14 +311,17 @@ export function clearCompletedTasks(sessionId: string): void {
       session.tasks.delete(taskId);
     }
   }
+  saveSession(session);
 }
 
+/** Cancel every task still waiting or running, with `reason` as its result */
 export function cleanupIncompleteTasks(session: AgentSession, reason: string): void {
   for (const task of session.tasks.values()) {
-    if (task.status === "in_progress") {
+    if (task.status === "staged" || task.status === "in_progress") {
       task.status = "cancelled";
       task.completedAt = new Date();
       task.result = reason;
+      saveSession(session);
 
       broadcastToThread(session.threadId, {
         type: "task_updated",
@@ -200,3 +342,128 @@ export function getTasksSummary(
     status: t.status,
   }));
 }
+
+// =============================================================================
+// Transcripts
+// =============================================================================
+
+/**
+ * Begin recording an agent's transcript. Without a session (an agent run
+ * outside orchestration) it's recorded nowhere.
+ */
+export function startTranscript(
+  sessionId: string | undefined,
+  role: AgentTranscriptRole,
+  label: string,
+  prompt: string
+): AgentTranscript {
+  const transcript: AgentTranscript = {
+    id: randomUUID(),
+    role,
+    label,
+    prompt,
+    entries: [],
+    status: "running",
+    startedAt: new Date(),
+  };
+  const session = sessionId ? agentSessions.get(sessionId) : undefined;
+  if (session) {
+    session.transcripts.push(transcript);
+    saveSession(session);
+  }
+  return transcript;
+}
+
+/** The parts of an AI SDK step a transcript keeps */
+interface TranscriptStep {
+  text: string;
+  toolCalls: Array<{ toolCallId: string; toolName: string; args: unknown }>;
+  toolResults: Array<{ toolCallId: string; toolName: string; result: unknown }>;
+}
+
+function transcriptResult(result: unknown): string {
+  const text = typeof result === "string" ? result : JSON.stringify(result) ?? String(result);
+  return text.length > MAX_TRANSCRIPT_RESULT_CHARS
+    ? `${text.slice(0, MAX_TRANSCRIPT_RESULT_CHARS)}\n\n[... ${text.length - MAX_TRANSCRIPT_RESULT_CHARS} more chars not saved ...]`
+    : text;
+}
+
+/** Append a finished model step (from `onStepFinish`) to a transcript */
+export function recordTranscriptStep(sessionId: string | undefined, transcript: AgentTranscript, step: TranscriptStep): void {
+  if (step.text) {
+    transcript.entries.push({ type: "text", text: step.text });
+  }
+  for (const call of step.toolCalls) {
+    transcript.entries.push({ type: "tool_call", toolCallId: call.toolCallId, toolName: call.toolName, args: call.args });
+  }
+  for (const result of step.toolResults) {
+    transcript.entries.push({
+      type: "tool_result",
+      toolCallId: result.toolCallId,
+      toolName: result.toolName,
+      result: transcriptResult(result.result),
+    });
+  }
+
+  const session = sessionId ? agentSessions.get(sessionId) : undefined;
+  if (session) saveSession(session);
+}
+
+export function finishTranscript(
+  sessionId: string | undefined,
+  transcript: AgentTranscript,
+  status: "done" | "error",
+  error?: string
+): void {
+  transcript.status = status;
+  transcript.completedAt = new Date();
+  if (error) transcript.error = error;
+
+  const session = sessionId ? agentSessions.get(sessionId) : undefined;
+  if (session) saveSession(session);
+}
+
+// =============================================================================
+// History
+// =============================================================================
+
+/** A stored session that claims to be running but isn't was cut off by a restart */
+function withInterruption<T extends AgentSessionSummary>(record: T): T {
+  if (!ACTIVE_STATUSES.has(record.status) || agentSessions.has(record.id)) {
+    return record;
+  }
+  return { ...record, status: "error", error: "Interrupted: the backend stopped while this session was running" };
+}
+
+/** Full record of one of a thread's sessions, running or stored */
+export async function getThreadSessionRecord(threadId: string, sessionId: string): Promise<AgentSessionRecord | null> {
+  const live = agentSessions.get(sessionId);
+  if (live) {
+    return live.threadId === threadId ? toSessionRecord(live) : null;
+  }
+  const stored = await loadSessionRecord(threadId, sessionId);
+  return stored ? withInterruption(stored) : null;
+}
+
+/** Stop the thread's running session and forget every session it has had */
+export async function deleteThreadHistory(threadId: string): Promise<void> {
+  const session = getSessionByThread(threadId);
+  if (session) {
+    cancelAgentSession(session.id, "Thread deleted");
+    releasePausedAgents(session.id);
+    agentSessions.delete(session.id);
+    sessionsByThread.delete(threadId);
+    discardSessionEvents(session.id);
+  }
+  await deleteThreadSessions(threadId);
+}
+
+/** Every session a thread has had, newest first */
+export async function listThreadSessions(threadId: string): Promise<AgentSessionSummary[]> {
+  const stored = await listSessionRecords(threadId);
+  const live = getSessionByThread(threadId);
+  const summaries = stored
+    .filter((record) => record.id !== live?.id)
+    .map((record) => withInterruption(toSessionSummary(record)));
+  return live ? [toSessionSummary(toSessionRecord(live)), ...summaries] : summaries;
+}
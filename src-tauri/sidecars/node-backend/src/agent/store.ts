@@ -0,0 +1,153 @@
+/**
+ * Agent Session Store
+ *
+ * Sessions, their tasks and every agent's transcript are saved as one JSON
+ * file per session under `<data dir>/agent-sessions/<threadId>/`, so plans
+ * and results survive a restart of the sidecar. Saves of the same session
+ * are coalesced, and each goes through a temporary file so a crash never
+ * leaves half a session on disk.
+ */
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { DATA_DIR } from "../config.js";
+import type {
+  AgentSession,
+  AgentSessionRecord,
+  AgentSessionSummary,
+  AgentTask,
+  AgentTaskRecord,
+  AgentTranscript,
+  AgentTranscriptRecord,
+} from "../types.js";
+
+const SESSIONS_DIR = join(DATA_DIR, "agent-sessions");
+
+// Saves in flight by sessionId, and sessions changed again meanwhile
+const writing = new Map<string, Promise<void>>();
+const pending = new Map<string, AgentSession>();
+
+// Threads whose history was deleted; late saves from their agents are dropped
+const deletedThreads = new Set<string>();
+
+function threadDir(threadId: string): string {
+  return join(SESSIONS_DIR, encodeURIComponent(threadId));
+}
+
+function sessionFile(threadId: string, sessionId: string): string {
+  return join(threadDir(threadId), `${encodeURIComponent(sessionId)}.json`);
+}
+
+export function toTaskRecord(task: AgentTask): AgentTaskRecord {
+  return {
+    ...task,
+    createdAt: task.createdAt.toISOString(),
+    startedAt: task.startedAt?.toISOString(),
+    completedAt: task.completedAt?.toISOString(),
+  };
+}
+
+function toTranscriptRecord(transcript: AgentTranscript): AgentTranscriptRecord {
+  return {
+    ...transcript,
+    startedAt: transcript.startedAt.toISOString(),
+    completedAt: transcript.completedAt?.toISOString(),
+  };
+}
+
+export function toSessionRecord(session: AgentSession): AgentSessionRecord {
+  return {
+    id: session.id,
+    threadId: session.threadId,
+    status: session.status,
+    planContent: session.planContent,
+    error: session.error,
+    createdAt: session.createdAt.toISOString(),
+    lastActivityAt: session.lastActivityAt.toISOString(),
+    taskCount: session.tasks.size,
+    budget: session.budget,
+    usage: session.usage,
+    tasks: Array.from(session.tasks.values()).map(toTaskRecord),
+    transcripts: session.transcripts.map(toTranscriptRecord),
+  };
+}
+
+export function toSessionSummary(record: AgentSessionRecord): AgentSessionSummary {
+  const { tasks: _tasks, transcripts: _transcripts, ...summary } = record;
+  return summary;
+}
+
+async function write(session: AgentSession): Promise<void> {
+  const file = sessionFile(session.threadId, session.id);
+  await mkdir(threadDir(session.threadId), { recursive: true });
+  await writeFile(`${file}.tmp`, JSON.stringify(toSessionRecord(session)));
+  await rename(`${file}.tmp`, file);
+}
+
+/** Save a session's current state in the background; failures are logged */
+export function saveSession(session: AgentSession): void {
+  if (deletedThreads.has(session.threadId)) return;
+  if (writing.has(session.id)) {
+    pending.set(session.id, session);
+    return;
+  }
+
+  const run = async (): Promise<void> => {
+    try {
+      await write(session);
+    } catch (err) {
+      console.error(`[SessionStore] Failed to save session ${session.id}:`, err);
+    }
+    writing.delete(session.id);
+    const next = pending.get(session.id);
+    if (next) {
+      pending.delete(session.id);
+      saveSession(next);
+    }
+  };
+  writing.set(session.id, run());
+}
+
+/** Resolves once every save started so far has finished */
+export async function flushSessionSaves(): Promise<void> {
+  while (writing.size > 0) {
+    await Promise.all(writing.values());
+  }
+}
+
+/** Delete every stored session of a thread, once saves in flight have landed */
+export async function deleteThreadSessions(threadId: string): Promise<void> {
+  deletedThreads.add(threadId);
+  await flushSessionSaves();
+  await rm(threadDir(threadId), { recursive: true, force: true });
+}
+
+/** A stored session, or null if there's none */
+export async function loadSessionRecord(threadId: string, sessionId: string): Promise<AgentSessionRecord | null> {
+  try {
+    return JSON.parse(await readFile(sessionFile(threadId, sessionId), "utf-8")) as AgentSessionRecord;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`[SessionStore] Failed to read session ${sessionId}:`, err);
+    }
+    return null;
+  }
+}
+
+/** Every stored session of a thread, newest first */
+export async function listSessionRecords(threadId: string): Promise<AgentSessionRecord[]> {
+  let files: string[];
+  try {
+    files = await readdir(threadDir(threadId));
+  } catch {
+    return [];
+  }
+
+  const records = await Promise.all(
+    files
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => loadSessionRecord(threadId, decodeURIComponent(name.slice(0, -".json".length))))
+  );
+  return records
+    .filter((record): record is AgentSessionRecord => record !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
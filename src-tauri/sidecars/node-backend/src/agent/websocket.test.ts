@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { MAX_SESSION_EVENTS } from "../config.js";
+import { DEFAULT_AGENT_BUDGET } from "../shared/chat-protocol.js";
+import type { AgentSession, WSMessage } from "../types.js";
+import { broadcastToThread, catchUpEvents, setSessionLookup } from "./websocket.js";
+
+const sessions = new Map<string, AgentSession>();
+setSessionLookup((threadId) => sessions.get(threadId));
+
+function startSession(id: string, threadId = `thread-${id}`): AgentSession {
+  const session: AgentSession = {
+    id,
+    threadId,
+    status: "executing",
+    tasks: new Map(),
+    transcripts: [],
+    budget: DEFAULT_AGENT_BUDGET,
+    usage: { tokens: 0, costUsd: 0, toolCalls: 0, elapsedMs: 0 },
+    createdAt: new Date(),
+    lastActivityAt: new Date(),
+  };
+  sessions.set(session.threadId, session);
+  return session;
+}
+
+/** Broadcast `count` plan updates for the session and return their sequence numbers */
+function broadcast(session: AgentSession, count: number): number[] {
+  for (let i = 0; i < count; i++) {
+    broadcastToThread(session.threadId, {
+      type: "plan_updated",
+      sessionId: session.id,
+      threadId: session.threadId,
+      tasks: [],
+    });
+  }
+  const events = catchUpEvents(session, null).slice(1);
+  return events.slice(-count).map((event) => event.seq);
+}
+
+const seqs = (events: WSMessage[]) => events.map((event) => event.seq);
+
+describe("catchUpEvents", () => {
+  it("replays only the events after the client's position", () => {
+    const session = startSession("resume");
+    const [first, second, third] = broadcast(session, 3);
+
+    expect(seqs(catchUpEvents(session, first!))).toEqual([second, third]);
+    expect(catchUpEvents(session, third!)).toEqual([]);
+  });
+
+  it("replays the whole log to a client that saw the event before it", () => {
+    const session = startSession("edge");
+    const [first, second] = broadcast(session, 2);
+
+    expect(seqs(catchUpEvents(session, first! - 1))).toEqual([first, second]);
+  });
+
+  it("starts a new client with a snapshot followed by the log", () => {
+    const session = startSession("fresh");
+    const [first, second] = broadcast(session, 2);
+
+    const events = catchUpEvents(session, null);
+    expect(events[0]).toMatchObject({
+      type: "session_snapshot",
+      seq: first! - 1,
+      sessionId: "fresh",
+      session: { id: "fresh", status: "executing" },
+    });
+    expect(seqs(events.slice(1))).toEqual([first, second]);
+  });
+
+  it("sends a snapshot when the log no longer covers the gap", () => {
+    const session = startSession("trimmed");
+    const [dropped] = broadcast(session, 1);
+    broadcast(session, MAX_SESSION_EVENTS);
+
+    const events = catchUpEvents(session, dropped! - 1);
+    expect(events[0]?.type).toBe("session_snapshot");
+    expect(events).toHaveLength(MAX_SESSION_EVENTS + 1);
+  });
+
+  it("sends a snapshot for a position ahead of this process's sequence", () => {
+    const session = startSession("ahead");
+    const [latest] = broadcast(session, 1);
+
+    expect(catchUpEvents(session, latest! + 100)[0]?.type).toBe("session_snapshot");
+  });
+
+  it("doesn't replay events from a session the thread has moved on from", () => {
+    const previous = startSession("previous");
+    broadcast(previous, 2);
+    startSession("current", previous.threadId);
+    broadcastToThread(previous.threadId, {
+      type: "plan_updated",
+      sessionId: previous.id,
+      threadId: previous.threadId,
+      tasks: [],
+    });
+
+    expect(catchUpEvents(previous, null)).toHaveLength(3);
+  });
+});
@@ -1,29 +1,64 @@
 /**
  * WebSocket Server
  *
- * Broadcasts agent session updates to connected frontend clients.
+ * Broadcasts agent session updates to connected frontend clients. Only
+ * clients presenting the sidecar secret are accepted.
+ *
+ * Every update is stamped with a sequence number and kept in a bounded
+ * per-session log, so a client that reconnects with `?since=N` receives
+ * exactly the events it missed. Sequence numbers restart with the sidecar,
+ * so updates also carry this process's epoch, which the client sends back
+ * as `?epoch=`. When it can't resume (first connection, events dropped from
+ * the log, a new session or a restarted sidecar) it gets a snapshot of the
+ * session followed by the retained log instead.
  */
+import { randomUUID } from "node:crypto";
+import type { IncomingMessage } from "node:http";
 import { WebSocketServer, WebSocket } from "ws";
-import { WS_PORT } from "../config.js";
-import type { WSUpdate } from "../types.js";
+import { MAX_SESSION_EVENTS, WS_PORT } from "../config.js";
+import { SIDECAR_SECRET_PARAM } from "../shared/sidecar.js";
+import { isSidecarSecret } from "../security/auth.js";
+import type { AgentSession, WSMessage, WSUpdate } from "../types.js";
 
 // WebSocket clients by threadId
 const wsClientsByThread = new Map<string, Set<WebSocket>>();
 
+// Last sequence number handed out; shared by all sessions so it only grows
+let lastSeq = 0;
+
+// Identifies this process's sequence; a client holding another one must start over
+const epoch = randomUUID();
+
+// Recent events by sessionId, oldest first
+const sessionEvents = new Map<string, WSMessage[]>();
+
 // Late-bound reference to getSessionByThread (avoids circular import)
-let _getSessionByThread: ((threadId: string) => import("../types.js").AgentSession | undefined) | null = null;
+let _getSessionByThread: ((threadId: string) => AgentSession | undefined) | null = null;
 
 export function setSessionLookup(
-  fn: (threadId: string) => import("../types.js").AgentSession | undefined
+  fn: (threadId: string) => AgentSession | undefined
 ): void {
   _getSessionByThread = fn;
 }
 
 export function broadcastToThread(threadId: string, update: WSUpdate): void {
+  const event: WSMessage = { ...update, seq: ++lastSeq, epoch };
+
+  // Only the thread's current session is replayable; late events from a
+  // superseded one are still delivered live
+  if (_getSessionByThread?.(threadId)?.id === update.sessionId) {
+    const events = sessionEvents.get(update.sessionId) ?? [];
+    events.push(event);
+    if (events.length > MAX_SESSION_EVENTS) {
+      events.splice(0, events.length - MAX_SESSION_EVENTS);
+    }
+    sessionEvents.set(update.sessionId, events);
+  }
+
   const clients = wsClientsByThread.get(threadId);
   if (!clients) return;
 
-  const message = JSON.stringify(update);
+  const message = JSON.stringify(event);
   for (const client of clients) {
     if (client.readyState === WebSocket.OPEN) {
       client.send(message);
@@ -31,46 +66,75 @@ export function broadcastToThread(threadId: string, update: WSUpdate): void {
   }
 }
 
+/** Forget a session's events once the session itself is gone */
+export function discardSessionEvents(sessionId: string): void {
+  sessionEvents.delete(sessionId);
+}
+
+/**
+ * Events a client that last saw `since` needs to catch up on `session`:
+ * the ones after it when the log still covers the gap, otherwise a
+ * snapshot followed by everything retained.
+ */
+export function catchUpEvents(session: AgentSession, since: number | null): WSMessage[] {
+  const events = sessionEvents.get(session.id) ?? [];
+  const firstSeq = events[0]?.seq ?? lastSeq + 1;
+
+  if (since !== null && since >= firstSeq - 1 && since <= lastSeq) {
+    return events.filter((event) => event.seq > since);
+  }
+
+  const snapshot: WSMessage = {
+    type: "session_snapshot",
+    seq: firstSeq - 1,
+    epoch,
+    sessionId: session.id,
+    threadId: session.threadId,
+    session: { id: session.id, status: session.status, error: session.error },
+    tasks: Array.from(session.tasks.values()),
+    budget: session.budget,
+    usage: session.usage,
+  };
+  return [snapshot, ...events];
+}
+
 export function createWebSocketServer(): WebSocketServer {
-  const wss = new WebSocketServer({ port: WS_PORT });
+  const wss = new WebSocketServer({
+    port: WS_PORT,
+    // Refuse the handshake without this launch's secret
+    verifyClient: ({ req }: { req: IncomingMessage }) => {
+      const url = new URL(req.url ?? "", `http://localhost:${WS_PORT}`);
+      return isSidecarSecret(url.searchParams.get(SIDECAR_SECRET_PARAM));
+    },
+  });
 
   wss.on("connection", (ws, req) => {
     const url = new URL(req.url ?? "", `http://localhost:${WS_PORT}`);
     const threadId = url.searchParams.get("threadId");
+    const sinceParam = url.searchParams.get("since");
+    // A position in an earlier process's sequence means nothing in this one
+    const since =
+      sinceParam !== null && /^\d+$/.test(sinceParam) && url.searchParams.get("epoch") === epoch
+        ? Number(sinceParam)
+        : null;
 
     if (!threadId) {
       ws.close(1008, "threadId required");
       return;
     }
 
-    console.log(`[WS] Client connected for thread: ${threadId}`);
+    console.log(`[WS] Client connected for thread: ${threadId}${since !== null ? ` (since ${since})` : ""}`);
 
     if (!wsClientsByThread.has(threadId)) {
       wsClientsByThread.set(threadId, new Set());
     }
     wsClientsByThread.get(threadId)!.add(ws);
 
-    // Send current session state if exists
+    // Bring the client up to date; broadcasts can't interleave since this runs synchronously
     const session = _getSessionByThread?.(threadId);
     if (session) {
-      ws.send(
-        JSON.stringify({
-          type: "session_updated",
-          sessionId: session.id,
-          threadId,
-          session: { id: session.id, status: session.status, error: session.error },
-        })
-      );
-
-      for (const task of session.tasks.values()) {
-        ws.send(
-          JSON.stringify({
-            type: "task_updated",
-            sessionId: session.id,
-            threadId,
-            task,
-          })
-        );
+      for (const event of catchUpEvents(session, since)) {
+        ws.send(JSON.stringify(event));
       }
     }
 
@@ -0,0 +1,80 @@
+/**
+ * Message Attachments
+ *
+ * PDF text extraction for the composer, and conversion of attached files
+ * into model input: text files are inlined into the message, images become
+ * multimodal parts when the provider can read them.
+ */
+import { extractText } from "unpdf";
+import type { ChatAttachment, ChatIncomingMessage } from "../types.js";
+
+export type UserContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; image: string; mimeType: string };
+
+// =============================================================================
+// Text Extraction
+// =============================================================================
+
+export async function extractPdfText(data: Uint8Array): Promise<string> {
+  const { text, totalPages } = await extractText(data, { mergePages: true });
+  console.log(`[Attachments] Extracted ${text.length} chars from ${totalPages} PDF page(s)`);
+  return text;
+}
+
+// =============================================================================
+// Model Input
+// =============================================================================
+
+/** File names are user-chosen; keep them from closing the attribute or tag */
+function escapeAttribute(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Append the text of attached files to the message content, so token
+ * counting and trimming see it like any other text
+ */
+export function inlineFileAttachments(messages: ChatIncomingMessage[]): ChatIncomingMessage[] {
+  return messages.map((msg) => {
+    const files = msg.attachments?.filter(
+      (a): a is Extract<ChatAttachment, { type: "file" }> => a.type === "file"
+    );
+    if (!files || files.length === 0) return msg;
+
+    const blocks = files.map((f) => `<file name="${escapeAttribute(f.name)}">\n${f.text}\n</file>`);
+    return {
+      ...msg,
+      content: [msg.content, ...blocks].filter((part) => part.trim() !== "").join("\n\n"),
+      attachments: msg.attachments?.filter((a) => a.type !== "file"),
+    };
+  });
+}
+
+/**
+ * User message content with image attachments as image parts. Providers
+ * without vision get a placeholder note instead of the image.
+ */
+export function toUserContent(
+  msg: ChatIncomingMessage,
+  supportsImages: boolean
+): string | UserContentPart[] {
+  const images = msg.attachments?.filter(
+    (a): a is Extract<ChatAttachment, { type: "image" }> => a.type === "image"
+  );
+  if (!images || images.length === 0) return msg.content;
+
+  if (!supportsImages) {
+    const notes = images.map((img) => `[Image "${img.name}" omitted: this model can't read images]`);
+    return [msg.content, ...notes].filter((part) => part.trim() !== "").join("\n\n");
+  }
+
+  const parts: UserContentPart[] = [];
+  if (msg.content.trim() !== "") {
+    parts.push({ type: "text", text: msg.content });
+  }
+  for (const img of images) {
+    parts.push({ type: "image", image: img.data, mimeType: img.mimeType });
+  }
+  return parts;
+}
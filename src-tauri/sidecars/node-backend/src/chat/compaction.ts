@@ -0,0 +1,144 @@
+/**
+ * Context Compaction
+ *
+ * Replaces the oldest turns of a long thread with a model-written summary.
+ * The client stores the summary with the thread and sends it back with
+ * only the messages after it, so a summary is generated once rather than
+ * on every request.
+ */
+import { generateText, type LanguageModelV1 } from "ai";
+import type { ChatIncomingMessage } from "../types.js";
+
+/** Per-message cap in the transcript handed to the summarizer */
+const MAX_ENTRY_CHARS = 6000;
+const MAX_TOOL_DETAIL_CHARS = 1000;
+
+const SUMMARY_INSTRUCTIONS = `Summarize the earlier part of a conversation between a user and an AI assistant so the assistant can continue it without the original messages.
+
+Keep:
+- Decisions made and the reasons for them
+- Facts, findings and sources established
+- User preferences, constraints and goals
+- Open questions and work still in progress
+- Names of files, URLs, people and other identifiers that were referenced
+
+Write concise Markdown notes in chronological order. Reply with ONLY the summary.`;
+
+// =============================================================================
+// Transcript
+// =============================================================================
+
+function clip(text: string, maxChars: number): string {
+  return text.length <= maxChars ? text : `${text.slice(0, maxChars)} [...]`;
+}
+
+function stringify(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function toTranscriptEntry(msg: ChatIncomingMessage): string {
+  const lines: string[] = [];
+  if (msg.content.trim() !== "") {
+    lines.push(`${msg.role === "user" ? "User" : "Assistant"}: ${clip(msg.content, MAX_ENTRY_CHARS)}`);
+  }
+  for (const inv of msg.toolInvocations ?? []) {
+    lines.push(`[Assistant called ${inv.toolName}(${clip(stringify(inv.args), MAX_TOOL_DETAIL_CHARS)})]`);
+    if (inv.result !== undefined) {
+      lines.push(`[${inv.toolName} returned: ${clip(stringify(inv.result), MAX_TOOL_DETAIL_CHARS)}]`);
+    }
+  }
+  for (const tr of msg.toolResults ?? []) {
+    lines.push(`[Tool returned: ${clip(stringify(tr.result), MAX_TOOL_DETAIL_CHARS)}]`);
+  }
+  for (const attachment of msg.attachments ?? []) {
+    lines.push(`[User attached ${attachment.name}]`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Split the transcript into chunks the summarizer can read in one request
+ */
+function chunkTranscript(messages: ChatIncomingMessage[], maxChunkChars: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const msg of messages) {
+    const entry = toTranscriptEntry(msg);
+    if (entry === "") continue;
+    if (current !== "" && current.length + entry.length > maxChunkChars) {
+      chunks.push(current);
+      current = "";
+    }
+    current += (current === "" ? "" : "\n\n") + entry;
+  }
+  if (current !== "") chunks.push(current);
+  return chunks;
+}
+
+// =============================================================================
+// Summarization
+// =============================================================================
+
+/**
+ * Summarize messages, folding in the summary of whatever came before them.
+ * Histories too long for one request are summarized chunk by chunk, each
+ * pass extending the running summary.
+ */
+export async function summarizeMessages(
+  model: LanguageModelV1,
+  messages: ChatIncomingMessage[],
+  previousSummary: string | undefined,
+  maxContextTokens: number,
+  abortSignal?: AbortSignal
+): Promise<string> {
+  // Leave half the window for the previous summary, instructions and reply (~2 chars/token)
+  const chunks = chunkTranscript(messages, maxContextTokens);
+  let summary = previousSummary;
+
+  for (const [index, chunk] of chunks.entries()) {
+    console.log(`[Compaction] Summarizing chunk ${index + 1}/${chunks.length} (${chunk.length} chars)`);
+    const earlier = summary
+      ? `Summary of the conversation before this part:\n<summary>\n${summary}\n</summary>\n\nFold it into your new summary.\n\n`
+      : "";
+    const result = await generateText({
+      model,
+      system: SUMMARY_INSTRUCTIONS,
+      prompt: `${earlier}<conversation>\n${chunk}\n</conversation>`,
+      ...(abortSignal ? { abortSignal } : {}),
+    });
+    summary = result.text.trim();
+  }
+
+  if (!summary) {
+    throw new Error("Summarizer returned an empty summary");
+  }
+  return summary;
+}
+
+/**
+ * Index of the last message to fold into the summary when the oldest
+ * `droppedCount` messages no longer fit. The cut lands on a stored message
+ * (one with an id) and never splits a tool call from its results.
+ * Returns -1 when there's no usable cut.
+ */
+export function findCompactionCut(messages: ChatIncomingMessage[], droppedCount: number): number {
+  for (let i = Math.min(droppedCount, messages.length) - 1; i >= 0; i--) {
+    const next = messages[i + 1];
+    if (messages[i].id !== undefined && !next?.toolResults?.length) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * System prompt with the stored summary of compacted history appended
+ */
+export function withContextSummary(
+  systemPrompt: string | undefined,
+  summary: string | undefined
+): string | undefined {
+  if (!summary) return systemPrompt;
+  const block = `## Earlier Conversation (summarized)\nOlder messages of this conversation were replaced by this summary:\n\n${summary}`;
+  return systemPrompt ? `${systemPrompt}\n\n${block}` : block;
+}
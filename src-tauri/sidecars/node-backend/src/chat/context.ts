@@ -2,10 +2,13 @@
  * Context Length Management
  *
  * Token counting, message trimming, and tool result truncation
- * to keep conversations within provider context limits.
+ * to keep conversations within model context limits. Anthropic counts
+ * through its API; other models use a local tokenizer where one is bundled.
  */
 import Anthropic from "@anthropic-ai/sdk";
 import type { ChatIncomingMessage, ChatToolInvocation, ChatToolResult } from "../types.js";
+import type { ModelCapabilities } from "../shared/models.js";
+import type { TokenCounter } from "./tokenizer.js";
 
 // =============================================================================
 // Token Counting
@@ -33,23 +36,21 @@ export function estimateTokens(text: string): number {
   return Math.ceil(text.length / 2);
 }
 
-export function getMaxContextTokens(provider: string, model?: string): number {
-  const responseBuffer = 8000;
+/** Rough cost of one image attachment (Anthropic bills ~1.6k tokens for a large image) */
+const IMAGE_TOKEN_ESTIMATE = 1600;
 
-  if (provider === "anthropic") {
-    return 200000 - responseBuffer;
-  }
-
-  if (provider === "redpill") {
-    // Kimi K2.5 has 256k context
-    return 248000 - responseBuffer;
-  }
-
-  if (model?.includes("qwen")) return 30000 - responseBuffer;
-  if (model?.includes("llama")) return 120000 - responseBuffer;
-  if (model?.includes("deepseek")) return 60000 - responseBuffer;
+/** Rough per-message cost of role markers and separators */
+const MESSAGE_OVERHEAD_TOKENS = 4;
 
-  return Math.max(8000, 16000 - responseBuffer);
+/**
+ * Prompt budget: the context window minus room for the response (the
+ * requested output cap, else 8k, or a quarter of small windows)
+ */
+export function getMaxContextTokens(capabilities: ModelCapabilities, maxOutputTokens?: number): number {
+  const responseBuffer = maxOutputTokens
+    ? Math.min(maxOutputTokens, Math.floor(capabilities.contextWindow / 2))
+    : Math.min(8000, Math.floor(capabilities.contextWindow / 4));
+  return capabilities.contextWindow - responseBuffer;
 }
 
 // =============================================================================
@@ -120,6 +121,7 @@ export async function trimMessagesToFit<
   T extends {
     role: "user" | "assistant";
     content: string;
+    attachments?: unknown[];
     toolInvocations?: unknown[];
     toolResults?: unknown[];
   },
@@ -130,7 +132,9 @@ export async function trimMessagesToFit<
   apiKey: string | undefined,
   systemPrompt: string | undefined,
   maxTokens: number,
-  toolsOverheadTokens: number = 0
+  toolsOverheadTokens: number = 0,
+  /** Local tokenizer for the model; character-based estimation without one */
+  countTokens: TokenCounter | null = null
 ): Promise<T[]> {
   const effectiveMaxTokens = maxTokens - toolsOverheadTokens;
   const targetTokens = effectiveMaxTokens;
@@ -221,15 +225,22 @@ export async function trimMessagesToFit<
     );
   }
 
-  // Fallback: estimation
-  console.log(`[Context] Using character-based estimation (2 chars per token)`);
-  let totalTokens = systemPrompt ? estimateTokens(systemPrompt) : 0;
+  // Local counting: the model's tokenizer, else estimation
+  const count = countTokens ?? estimateTokens;
+  console.log(
+    countTokens
+      ? `[Context] Using local tokenizer`
+      : `[Context] Using character-based estimation (2 chars per token)`
+  );
+  let totalTokens = systemPrompt ? count(systemPrompt) : 0;
   const tokenCounts = messages.map((msg) => {
-    let count = estimateTokens(msg.content);
-    if (msg.toolInvocations) count += estimateTokens(JSON.stringify(msg.toolInvocations));
-    if (msg.toolResults) count += estimateTokens(JSON.stringify(msg.toolResults));
-    totalTokens += count;
-    return count;
+    let tokens = MESSAGE_OVERHEAD_TOKENS + count(msg.content);
+    if (msg.toolInvocations) tokens += count(JSON.stringify(msg.toolInvocations));
+    if (msg.toolResults) tokens += count(JSON.stringify(msg.toolResults));
+    // File attachments are inlined into content by now; what remains are images
+    if (msg.attachments) tokens += msg.attachments.length * IMAGE_TOKEN_ESTIMATE;
+    totalTokens += tokens;
+    return tokens;
   });
 
   if (totalTokens <= targetTokens) {
@@ -0,0 +1,78 @@
+/**
+ * Chat Errors
+ *
+ * Maps provider SDK and network failures onto the error codes of the chat
+ * protocol, with a message written for the user rather than the raw
+ * exception text.
+ */
+import type { ChatErrorCode } from "../shared/chat-protocol.js";
+
+export class ChatError extends Error {
+  readonly code: ChatErrorCode;
+
+  constructor(code: ChatErrorCode, message: string) {
+    super(message);
+    this.name = "ChatError";
+    this.code = code;
+  }
+}
+
+const CONTEXT_OVERFLOW_PATTERN =
+  /context[_ ]length|context window|prompt is too long|too many tokens|maximum context|input is too long/i;
+const QUOTA_PATTERN = /quota|credit|billing|insufficient[_ ]funds|payment/i;
+/** Anthropic reports overload as a 529, or as an error event mid-stream with no status */
+const OVERLOADED_PATTERN = /overloaded/i;
+const NETWORK_ERROR_CODES = new Set(["ECONNREFUSED", "ECONNRESET", "ENOTFOUND", "ETIMEDOUT", "EAI_AGAIN"]);
+
+/** Provider's own error message from an API error body, if it has one */
+function readProviderMessage(responseBody: unknown): string | null {
+  if (typeof responseBody !== "string") return null;
+  try {
+    const body = JSON.parse(responseBody) as { error?: { message?: string } | string; message?: string };
+    if (typeof body.error === "string") return body.error;
+    return body.error?.message ?? body.message ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function isNetworkError(err: Record<string, unknown>): boolean {
+  const cause = err.cause as Record<string, unknown> | undefined;
+  const code = (cause?.code ?? err.code) as string | undefined;
+  return (code !== undefined && NETWORK_ERROR_CODES.has(code)) || err.message === "fetch failed";
+}
+
+/**
+ * Classify any thrown value into a ChatError
+ */
+export function toChatError(error: unknown): ChatError {
+  if (error instanceof ChatError) return error;
+
+  const err = (typeof error === "object" && error !== null ? error : {}) as Record<string, unknown>;
+  const status = typeof err.statusCode === "number" ? err.statusCode : undefined;
+  const message =
+    readProviderMessage(err.responseBody) ?? (typeof err.message === "string" ? err.message : String(error));
+
+  if (status === 401 || status === 403) {
+    return new ChatError("auth_failed", `The provider rejected the API key: ${message}`);
+  }
+  if (status === 402 || (status === 429 && QUOTA_PATTERN.test(message))) {
+    return new ChatError(
+      "quota_exceeded",
+      "Account quota exceeded. Please add credits at your provider dashboard to continue."
+    );
+  }
+  if (status === 429 || status === 529 || OVERLOADED_PATTERN.test(message) || err.type === "overloaded_error") {
+    return new ChatError("rate_limited", `The provider is rate limiting requests: ${message}`);
+  }
+  if (CONTEXT_OVERFLOW_PATTERN.test(message)) {
+    return new ChatError("context_overflow", `The conversation is too long for this model: ${message}`);
+  }
+  if ((status !== undefined && status >= 500) || isNetworkError(err)) {
+    return new ChatError("provider_unavailable", `Couldn't reach the provider: ${message}`);
+  }
+  if (status === 400 || status === 404 || status === 422) {
+    return new ChatError("invalid_request", message);
+  }
+  return new ChatError("unknown", message);
+}
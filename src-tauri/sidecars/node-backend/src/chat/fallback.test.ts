@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { LanguageModelV1 } from "ai";
+import { PROVIDER_MAX_RETRIES } from "../config.js";
+import { ChatError } from "./errors.js";
+import { resolveFallbackChain, withModelFallback, type ChainModel } from "./fallback.js";
+
+function link(modelName: string): ChainModel {
+  return { provider: "openai", modelName, model: {} as LanguageModelV1 };
+}
+
+describe("withModelFallback", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("retries a transient failure on the same model", async () => {
+    const run = vi.fn<(entry: ChainModel) => Promise<string>>()
+      .mockRejectedValueOnce(new ChatError("rate_limited", "slow down"))
+      .mockResolvedValueOnce("ok");
+
+    const result = withModelFallback([link("a"), link("b")], run, { label: "Test" });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe("ok");
+    expect(run.mock.calls.map(([entry]) => entry.modelName)).toEqual(["a", "a"]);
+  });
+
+  it("falls back to the next model once the retries run out", async () => {
+    const run = vi.fn((entry: ChainModel) =>
+      entry.modelName === "a"
+        ? Promise.reject(new ChatError("provider_unavailable", "down"))
+        : Promise.resolve(entry.modelName)
+    );
+    const onSwitch = vi.fn();
+
+    const result = withModelFallback([link("a"), link("b")], run, { label: "Test", onSwitch });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe("b");
+    expect(run).toHaveBeenCalledTimes(PROVIDER_MAX_RETRIES + 2);
+    expect(onSwitch).toHaveBeenCalledOnce();
+  });
+
+  it("falls back without retrying when the provider can't serve the request", async () => {
+    const run = vi.fn((entry: ChainModel) =>
+      entry.modelName === "a"
+        ? Promise.reject(new ChatError("auth_failed", "bad key"))
+        : Promise.resolve(entry.modelName)
+    );
+
+    await expect(withModelFallback([link("a"), link("b")], run, { label: "Test" })).resolves.toBe("b");
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("throws errors another model wouldn't fix", async () => {
+    const run = vi.fn(() => Promise.reject(new ChatError("invalid_request", "bad request")));
+
+    await expect(withModelFallback([link("a"), link("b")], run, { label: "Test" })).rejects.toMatchObject({
+      code: "invalid_request",
+    });
+    expect(run).toHaveBeenCalledOnce();
+  });
+
+  it("throws as-is once the attempt can't be taken back", async () => {
+    const run = vi.fn(() => Promise.reject(new ChatError("rate_limited", "slow down")));
+
+    await expect(
+      withModelFallback([link("a"), link("b")], run, { label: "Test", canRecover: () => false })
+    ).rejects.toMatchObject({ code: "rate_limited" });
+    expect(run).toHaveBeenCalledOnce();
+  });
+});
+
+describe("resolveFallbackChain", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const fallbacks = [
+    { provider: "openai" as const, apiKey: "key", model: "gpt-4" },
+    { provider: "openai" as const, apiKey: "key", model: "gpt-4o" },
+    { provider: "google" as const, apiKey: "key", model: "gemini-2.5-pro" },
+    { provider: "anthropic" as const, apiKey: undefined, model: "claude-sonnet-4" },
+  ];
+
+  const names = (chain: ChainModel[]) => chain.map((entry) => entry.modelName);
+
+  it("skips links without an API key", async () => {
+    const chain = await resolveFallbackChain(fallbacks, { tools: false, vision: false });
+    expect(names(chain)).toEqual(["gpt-4", "gpt-4o", "gemini-2.5-pro"]);
+  });
+
+  it("skips models without vision when the request has images", async () => {
+    const chain = await resolveFallbackChain(fallbacks, { tools: false, vision: true });
+    expect(names(chain)).toEqual(["gpt-4o", "gemini-2.5-pro"]);
+  });
+
+  it("skips models whose context window is smaller than the prompt's", async () => {
+    const chain = await resolveFallbackChain(fallbacks, { tools: true, vision: false, contextWindow: 200_000 });
+    expect(names(chain)).toEqual(["gemini-2.5-pro"]);
+  });
+
+  it("skips models without tool support when the request uses tools", async () => {
+    const chain = await resolveFallbackChain(
+      [{ provider: "openai", apiKey: "key", model: "deepseek-r1" }, ...fallbacks],
+      { tools: true, vision: false }
+    );
+    expect(names(chain)).toEqual(["gpt-4", "gpt-4o", "gemini-2.5-pro"]);
+  });
+});
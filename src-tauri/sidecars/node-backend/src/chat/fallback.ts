@@ -0,0 +1,192 @@
+/**
+ * Retries and Provider Fallback
+ *
+ * Transient provider failures (rate limits, overload, 5xx, network) are
+ * retried with exponential backoff. When the retries run out, or the
+ * provider can't serve the request at all (rejected key, no credits), the
+ * call moves on to the next model in the user's fallback chain.
+ *
+ * The SDK's own retries are turned off (`maxRetries: 0`) wherever this
+ * wraps a call, so there is one retry policy and it also covers errors that
+ * arrive mid-stream.
+ */
+import type { LanguageModelV1 } from "ai";
+import { PROVIDER_MAX_RETRIES, PROVIDER_RETRY_BASE_DELAY_MS } from "../config.js";
+import { PROVIDERS, type ProviderId } from "../shared/providers.js";
+import type { ChatErrorCode, FallbackModel, ProviderApiKeys } from "../shared/chat-protocol.js";
+import { type ChatError, toChatError } from "./errors.js";
+import { createAIModel, createOllamaToolModel, resolveModelName, type ModelSettings } from "./providers.js";
+import { resolveModelCapabilities } from "./model-info.js";
+
+export interface ChainModel {
+  provider: ProviderId;
+  /** Resolved model id */
+  modelName: string;
+  model: LanguageModelV1;
+}
+
+/** Failures that usually clear up on their own */
+const RETRYABLE_CODES = new Set<ChatErrorCode>(["rate_limited", "provider_unavailable"]);
+
+/** Failures a different provider may not have */
+const FALLBACK_CODES = new Set<ChatErrorCode>([
+  ...RETRYABLE_CODES,
+  "quota_exceeded",
+  "auth_failed",
+  "missing_api_key",
+]);
+
+// =============================================================================
+// Chain
+// =============================================================================
+
+/**
+ * Model for one link of a chain. Ollama needs its `/api` endpoint for tool use.
+ */
+export function createChainModel(settings: ModelSettings, useTools: boolean): ChainModel {
+  const { provider, baseUrl, model, contextWindow } = settings;
+  return {
+    provider,
+    modelName: resolveModelName(provider, model),
+    model:
+      useTools && provider === "ollama"
+        ? createOllamaToolModel(baseUrl ?? PROVIDERS.ollama.defaultBaseUrl!, model, contextWindow)
+        : createAIModel(settings),
+  };
+}
+
+/**
+ * Fallback models as sent by the frontend, with their API keys attached
+ */
+export function toFallbackSettings(
+  fallbacks: FallbackModel[] | undefined,
+  apiKeys: ProviderApiKeys
+): ModelSettings[] {
+  return (fallbacks ?? []).map(({ provider, model, baseUrl }) => ({
+    provider,
+    apiKey: apiKeys[provider],
+    baseUrl,
+    model,
+  }));
+}
+
+export interface ChainRequirements {
+  tools: boolean;
+  vision: boolean;
+  /** Context window the prompt was trimmed for; models with a smaller one can't take it */
+  contextWindow?: number;
+}
+
+/**
+ * Fallback models that can serve a request, in order. Links without a key,
+ * whose model lacks tools or vision the request relies on, or whose context
+ * window is smaller than the one the prompt was trimmed for, are skipped.
+ */
+export async function resolveFallbackChain(
+  fallbacks: ModelSettings[],
+  requirements: ChainRequirements
+): Promise<ChainModel[]> {
+  const chain: ChainModel[] = [];
+  for (const settings of fallbacks) {
+    const modelName = resolveModelName(settings.provider, settings.model);
+    const capabilities = await resolveModelCapabilities(settings.provider, modelName, settings.baseUrl);
+    const missing = requirements.tools && !capabilities.tools
+      ? "tool support"
+      : requirements.vision && !capabilities.vision
+        ? "image support"
+        : requirements.contextWindow !== undefined && capabilities.contextWindow < requirements.contextWindow
+          ? `room for the prompt (${capabilities.contextWindow} < ${requirements.contextWindow} tokens)`
+          : null;
+    if (missing) {
+      console.log(`[Fallback] Skipping ${settings.provider}/${modelName}: no ${missing}`);
+      continue;
+    }
+    try {
+      chain.push(createChainModel({ ...settings, contextWindow: capabilities.contextWindow }, requirements.tools));
+    } catch (err) {
+      console.log(`[Fallback] Skipping ${settings.provider}/${modelName}: ${toChatError(err).message}`);
+    }
+  }
+  return chain;
+}
+
+// =============================================================================
+// Retry Loop
+// =============================================================================
+
+/** Exponential backoff with jitter, so parallel sub-agents don't retry in lockstep */
+function retryDelayMs(attempt: number): number {
+  const delay = PROVIDER_RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return delay + Math.floor(Math.random() * delay * 0.25);
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export interface FallbackOptions {
+  /** Log prefix */
+  label: string;
+  abortSignal?: AbortSignal;
+  /**
+   * False once the failed attempt produced output that can't be taken back
+   * (streamed text, executed tools); the error is then thrown as-is
+   */
+  canRecover?: () => boolean;
+  /** Called before the first attempt with the next model in the chain */
+  onSwitch?: (next: ChainModel, error: ChatError) => void | Promise<void>;
+}
+
+/**
+ * Run a model call down the chain: retry transient failures with backoff,
+ * then fall back to the next model. Throws the last failure as a ChatError.
+ */
+export async function withModelFallback<T>(
+  chain: ChainModel[],
+  run: (entry: ChainModel) => Promise<T>,
+  { label, abortSignal, canRecover, onSwitch }: FallbackOptions
+): Promise<T> {
+  let index = 0;
+  let attempt = 0;
+
+  for (;;) {
+    const entry = chain[index];
+    try {
+      return await run(entry);
+    } catch (err) {
+      if (abortSignal?.aborted) throw err;
+      const error = toChatError(err);
+      if (canRecover && !canRecover()) throw error;
+
+      const name = `${entry.provider}/${entry.modelName}`;
+      if (RETRYABLE_CODES.has(error.code) && attempt < PROVIDER_MAX_RETRIES) {
+        const delay = retryDelayMs(attempt);
+        attempt++;
+        console.warn(`[${label}] ${name} failed (${error.code}), retry ${attempt}/${PROVIDER_MAX_RETRIES} in ${delay}ms`);
+        await sleep(delay, abortSignal);
+        continue;
+      }
+
+      const next = chain[index + 1];
+      if (!next || !FALLBACK_CODES.has(error.code)) throw error;
+      console.warn(`[${label}] ${name} failed (${error.code}), falling back to ${next.provider}/${next.modelName}`);
+      index++;
+      attempt = 0;
+      await onSwitch?.(next, error);
+    }
+  }
+}
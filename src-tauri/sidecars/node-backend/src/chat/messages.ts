@@ -0,0 +1,174 @@
+/**
+ * Model Messages
+ *
+ * Turns chat history (after trimming) into the messages sent to the model:
+ * tool invocations become tool-call parts, tool results become tool
+ * messages, unanswered tool calls get synthetic results, and consecutive
+ * user messages are merged into one timestamped turn.
+ */
+import type { CoreMessage as SDKCoreMessage } from "ai";
+import type { ChatIncomingMessage, ChatToolInvocation } from "../types.js";
+import { toUserContent, type UserContentPart } from "./attachments.js";
+
+type ToolCallPart = {
+  type: "tool-call";
+  toolCallId: string;
+  toolName: string;
+  args: Record<string, unknown>;
+};
+
+type CoreMessage =
+  | { role: "user"; content: string | UserContentPart[] }
+  | { role: "assistant"; content: string | Array<{ type: "text"; text: string } | ToolCallPart> }
+  | {
+      role: "tool";
+      content: Array<{
+        type: "tool-result";
+        toolCallId: string;
+        toolName: string;
+        result: unknown;
+      }>;
+    };
+
+/** Result for a tool call the history never answered */
+function syntheticToolResult(toolName: string): unknown {
+  if (toolName === "configure_settings") {
+    return { configured: true, message: "Settings have been saved by the user." };
+  }
+  if (toolName === "ask_user") {
+    return { skipped: true, message: "User sent a new message without answering." };
+  }
+  return { completed: true };
+}
+
+export function toModelMessages(history: ChatIncomingMessage[], supportsImages: boolean): SDKCoreMessage[] {
+  const rawMessages: CoreMessage[] = [];
+
+  for (const msg of history) {
+    if (msg.role === "assistant" && msg.toolInvocations && msg.toolInvocations.length > 0) {
+      const content: Array<{ type: "text"; text: string } | ToolCallPart> = [];
+      if (msg.content && msg.content.trim() !== "") {
+        content.push({ type: "text", text: msg.content });
+      }
+      for (const inv of msg.toolInvocations) {
+        content.push({
+          type: "tool-call",
+          toolCallId: inv.toolCallId,
+          toolName: inv.toolName,
+          args: inv.args,
+        });
+      }
+      rawMessages.push({ role: "assistant", content });
+    } else if (msg.role === "user" && msg.toolResults && msg.toolResults.length > 0) {
+      const toolInvocations = history
+        .filter(
+          (m): m is ChatIncomingMessage & { toolInvocations: ChatToolInvocation[] } =>
+            m.role === "assistant" && !!m.toolInvocations
+        )
+        .flatMap((m) => m.toolInvocations);
+
+      rawMessages.push({
+        role: "tool",
+        content: msg.toolResults.map((r) => {
+          const invocation = toolInvocations.find((inv) => inv.toolCallId === r.toolCallId);
+          return {
+            type: "tool-result" as const,
+            toolCallId: r.toolCallId,
+            toolName: invocation?.toolName ?? "unknown",
+            result: r.result,
+          };
+        }),
+      });
+      if (msg.content) {
+        rawMessages.push({ role: "user", content: msg.content });
+      }
+    } else if (msg.role === "user") {
+      rawMessages.push({ role: "user", content: toUserContent(msg, supportsImages) });
+    } else if (msg.role === "assistant") {
+      rawMessages.push({ role: "assistant", content: msg.content });
+    }
+  }
+
+  // Post-process: add synthetic tool results for missing ones
+  const processedWithToolResults: CoreMessage[] = [];
+  for (let i = 0; i < rawMessages.length; i++) {
+    const msg = rawMessages[i];
+    processedWithToolResults.push(msg);
+
+    if (msg.role === "assistant" && Array.isArray(msg.content)) {
+      const toolCalls = msg.content.filter((part): part is ToolCallPart => part.type === "tool-call");
+
+      if (toolCalls.length > 0) {
+        const nextMsg = rawMessages[i + 1];
+        if (nextMsg?.role !== "tool") {
+          const syntheticResults = toolCalls.map((tc) => ({
+            type: "tool-result" as const,
+            toolCallId: tc.toolCallId,
+            toolName: tc.toolName,
+            result: syntheticToolResult(tc.toolName),
+          }));
+
+          processedWithToolResults.push({ role: "tool", content: syntheticResults });
+          console.log(
+            `[Messages] Added synthetic tool results for: ${toolCalls.map((tc) => tc.toolName).join(", ")}`
+          );
+        }
+      }
+    }
+  }
+
+  // Merge consecutive user messages
+  const messages: CoreMessage[] = [];
+  let pendingUserMessages: Array<string | UserContentPart[]> = [];
+
+  function flushPendingUserMessages(): void {
+    if (pendingUserMessages.length === 0) return;
+
+    if (pendingUserMessages.length === 1) {
+      messages.push({ role: "user", content: pendingUserMessages[0] });
+    } else {
+      const now = new Date();
+      const stamped = pendingUserMessages.map((content, idx) => {
+        const msgTime = new Date(
+          now.getTime() - (pendingUserMessages.length - 1 - idx) * 30000
+        );
+        const timeStr = msgTime.toLocaleTimeString("en-US", {
+          hour: "2-digit",
+          minute: "2-digit",
+        });
+        const parts: UserContentPart[] =
+          typeof content === "string" ? [{ type: "text", text: content }] : content;
+        const text = parts
+          .filter((p): p is Extract<UserContentPart, { type: "text" }> => p.type === "text")
+          .map((p) => p.text)
+          .join("\n\n");
+        return { text: `[${timeStr}] ${text}`, images: parts.filter((p) => p.type === "image") };
+      });
+      const hasImages = stamped.some((m) => m.images.length > 0);
+      messages.push({
+        role: "user",
+        content: hasImages
+          ? stamped.flatMap((m): UserContentPart[] => [{ type: "text", text: m.text }, ...m.images])
+          : stamped.map((m) => m.text).join("\n\n"),
+      });
+    }
+    pendingUserMessages = [];
+  }
+
+  for (const msg of processedWithToolResults) {
+    if (msg.role === "user") {
+      if (typeof msg.content === "string" && msg.content.trim() === "") continue;
+      pendingUserMessages.push(msg.content);
+    } else {
+      flushPendingUserMessages();
+      if (msg.role === "assistant") {
+        if (typeof msg.content === "string" && msg.content.trim() === "") continue;
+        if (Array.isArray(msg.content) && msg.content.length === 0) continue;
+      }
+      messages.push(msg);
+    }
+  }
+  flushPendingUserMessages();
+
+  return messages;
+}
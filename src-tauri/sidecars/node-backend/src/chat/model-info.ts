@@ -0,0 +1,88 @@
+/**
+ * Model Capability Resolution
+ *
+ * Looks up a model in the shared capability table and, for Ollama, asks
+ * the server itself: `/api/show` reports the context length the weights
+ * were trained for, any `num_ctx` override in the Modelfile, and whether
+ * the model accepts tools and images. Requests load Ollama models with the
+ * window found here (see `ModelSettings.contextWindow`), since that is what
+ * prompts are trimmed to.
+ */
+import { PROVIDERS, type ProviderId } from "../shared/providers.js";
+import { getModelCapabilities, type ModelCapabilities } from "../shared/models.js";
+
+const OLLAMA_SHOW_TIMEOUT_MS = 3000;
+
+interface OllamaShowResponse {
+  parameters?: string;
+  model_info?: Record<string, unknown>;
+  /** Newer Ollama versions only: "completion", "tools", "vision", ... */
+  capabilities?: string[];
+}
+
+/** Keyed by base URL + model; a model's metadata doesn't change while it's installed */
+const ollamaCache = new Map<string, ModelCapabilities>();
+
+function readContextLength(info: OllamaShowResponse): number | null {
+  const numCtx = /^num_ctx\s+(\d+)/m.exec(info.parameters ?? "");
+  if (numCtx) return Number(numCtx[1]);
+
+  // Keyed by architecture, e.g. "llama.context_length", "qwen3.context_length"
+  for (const [key, value] of Object.entries(info.model_info ?? {})) {
+    if (key.endsWith(".context_length") && typeof value === "number") return value;
+  }
+  return null;
+}
+
+async function showOllamaModel(baseUrl: string, model: string): Promise<OllamaShowResponse> {
+  const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/api/show`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model }),
+    signal: AbortSignal.timeout(OLLAMA_SHOW_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`/api/show returned ${response.status}`);
+  }
+  return (await response.json()) as OllamaShowResponse;
+}
+
+/**
+ * Capabilities of the model a request will run on. Ollama models are
+ * queried once per server; the table is the fallback when that fails.
+ */
+export async function resolveModelCapabilities(
+  provider: ProviderId,
+  model: string,
+  baseUrl?: string
+): Promise<ModelCapabilities> {
+  const fromTable = getModelCapabilities(provider, model);
+  if (provider !== "ollama") return fromTable;
+
+  const serverUrl = baseUrl || PROVIDERS.ollama.defaultBaseUrl!;
+  const cacheKey = `${serverUrl}|${model}`;
+  const cached = ollamaCache.get(cacheKey);
+  if (cached) return cached;
+
+  try {
+    const info = await showOllamaModel(serverUrl, model);
+    const capabilities: ModelCapabilities = {
+      ...fromTable,
+      contextWindow: readContextLength(info) ?? fromTable.contextWindow,
+      ...(info.capabilities
+        ? {
+            tools: info.capabilities.includes("tools"),
+            vision: info.capabilities.includes("vision"),
+          }
+        : {}),
+    };
+    console.log(
+      `[Models] Ollama ${model}: context ${capabilities.contextWindow}, tools ${capabilities.tools}, vision ${capabilities.vision}`
+    );
+    ollamaCache.set(cacheKey, capabilities);
+    return capabilities;
+  } catch (err) {
+    console.warn(`[Models] Ollama /api/show failed for ${model}, using capability table: ${String(err)}`);
+    return fromTable;
+  }
+}
@@ -2,39 +2,101 @@
  * AI Provider Selection
  *
  * Creates the appropriate AI model based on provider configuration.
+ * Provider metadata (credentials, base URLs, defaults) lives in the shared registry.
  */
 import { createAnthropic } from "@ai-sdk/anthropic";
 import { createOpenAI } from "@ai-sdk/openai";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { ollama, createOllama } from "ollama-ai-provider";
-import type { LanguageModelV1 } from "ai";
+import {
+  wrapLanguageModel,
+  extractReasoningMiddleware,
+  type CoreMessage,
+  type LanguageModelV1,
+  type JSONValue,
+} from "ai";
+import { PROVIDERS, type ProviderId } from "../shared/providers.js";
+import { ChatError } from "./errors.js";
 
-export function createAIModel(
-  providerType: "anthropic" | "ollama" | "redpill",
+export interface ModelSettings {
+  provider: ProviderId;
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  /**
+   * Ollama only: the context window to load the model with. Ollama otherwise
+   * loads it with its own small default and silently drops the start of
+   * prompts trimmed to the model's full window.
+   */
+  contextWindow?: number;
+}
+
+/**
+ * Reasoning models served by Ollama (deepseek-r1, qwen3) inline their thoughts
+ * in <think> tags; turn those into reasoning parts so they stream as thinking.
+ */
+function withThinkTagParsing(model: LanguageModelV1): LanguageModelV1 {
+  return wrapLanguageModel({ model, middleware: extractReasoningMiddleware({ tagName: "think" }) });
+}
+
+function ollamaModelSettings(contextWindow: number | undefined) {
+  return contextWindow !== undefined ? { numCtx: contextWindow } : {};
+}
+
+type ModelFactory = (
   apiKey: string | undefined,
-  ollamaBaseUrl: string,
-  model: string | undefined
-): LanguageModelV1 {
-  if (providerType === "ollama") {
+  baseUrl: string | null,
+  model: string,
+  contextWindow: number | undefined
+) => LanguageModelV1;
+
+const MODEL_FACTORIES: Record<ProviderId, ModelFactory> = {
+  anthropic: (apiKey, _baseUrl, model) => createAnthropic({ apiKey })(model),
+  openai: (apiKey, _baseUrl, model) => createOpenAI({ apiKey, compatibility: "strict" })(model),
+  google: (apiKey, _baseUrl, model) => createGoogleGenerativeAI({ apiKey })(model),
+  redpill: (apiKey, baseUrl, model) =>
+    createOpenAI({ apiKey, baseURL: baseUrl ?? undefined })(model),
+  ollama: (_apiKey, baseUrl, model, contextWindow) => {
     const ollamaProvider =
-      ollamaBaseUrl === "http://localhost:11434"
+      baseUrl === null || baseUrl === PROVIDERS.ollama.defaultBaseUrl
         ? ollama
-        : createOllama({ baseURL: ollamaBaseUrl });
-    return ollamaProvider(model ?? "qwen3-vl:latest");
+        : createOllama({ baseURL: baseUrl });
+    return withThinkTagParsing(ollamaProvider(model, ollamaModelSettings(contextWindow)));
+  },
+  "openai-compatible": (apiKey, baseUrl, model) =>
+    createOpenAI({
+      // Local servers usually ignore the key, but the SDK insists on one
+      apiKey: apiKey ?? "not-needed",
+      baseURL: baseUrl ?? undefined,
+      compatibility: "compatible",
+    })(model),
+};
+
+/**
+ * Resolve the effective model id for a provider (explicit model or registry default)
+ */
+export function resolveModelName(provider: ProviderId, model: string | undefined): string {
+  return model !== undefined && model !== "" ? model : PROVIDERS[provider].defaultModel;
+}
+
+export function createAIModel({ provider, apiKey, baseUrl, model, contextWindow }: ModelSettings): LanguageModelV1 {
+  const definition = PROVIDERS[provider];
+
+  if (definition.requiresApiKey && !apiKey) {
+    throw new ChatError("missing_api_key", `API key required for ${definition.name}`);
   }
 
-  if (providerType === "redpill") {
-    if (!apiKey) {
-      throw new Error("API key required for RedPill");
-    }
-    const redpill = createOpenAI({ apiKey, baseURL: "https://api.redpill.ai/v1" });
-    return redpill(model ?? "moonshotai/kimi-k2.5");
+  const effectiveBaseUrl = (definition.baseUrlConfigurable ? baseUrl : undefined) ?? definition.defaultBaseUrl;
+  if (provider === "openai-compatible" && !effectiveBaseUrl) {
+    throw new ChatError("invalid_request", `Base URL required for ${definition.name}`);
   }
 
-  if (!apiKey) {
-    throw new Error("API key required for Anthropic");
+  const modelName = resolveModelName(provider, model);
+  if (!modelName) {
+    throw new ChatError("invalid_request", `Model name required for ${definition.name}`);
   }
-  const anthropic = createAnthropic({ apiKey });
-  return anthropic(model ?? "claude-sonnet-4-20250514");
+
+  return MODEL_FACTORIES[provider](apiKey, effectiveBaseUrl, modelName, contextWindow);
 }
 
 /**
@@ -42,8 +104,61 @@ export function createAIModel(
  */
 export function createOllamaToolModel(
   ollamaBaseUrl: string,
-  model: string | undefined
+  model: string | undefined,
+  contextWindow?: number
 ): LanguageModelV1 {
   const ollamaForTools = createOllama({ baseURL: `${ollamaBaseUrl}/api` });
-  return ollamaForTools(model ?? "qwen3-vl:latest");
+  return withThinkTagParsing(ollamaForTools(resolveModelName("ollama", model), ollamaModelSettings(contextWindow)));
+}
+
+/**
+ * Provider options enabling extended thinking, or undefined when it doesn't apply.
+ * Only Anthropic takes an explicit token budget.
+ */
+export function createThinkingProviderOptions(
+  provider: ProviderId,
+  thinkingBudget: number | undefined
+): Record<string, Record<string, JSONValue>> | undefined {
+  if (!PROVIDERS[provider].capabilities.thinkingBudget || !thinkingBudget || thinkingBudget <= 0) {
+    return undefined;
+  }
+  return {
+    // Anthropic rejects budgets below 1024 tokens
+    anthropic: { thinking: { type: "enabled", budgetTokens: Math.max(1024, Math.floor(thinkingBudget)) } },
+  };
+}
+
+const ANTHROPIC_CACHE_BREAKPOINT = { anthropic: { cacheControl: { type: "ephemeral" } } };
+
+/**
+ * Prompt with cache breakpoints for providers that support prompt caching.
+ *
+ * Anthropic caches the prefix up to each breakpoint in the order tools → system →
+ * messages, so a breakpoint on the system prompt also covers the tool definitions.
+ * The second one sits on the last message: the next tool-loop step or turn resends
+ * that prefix unchanged and reads it from the cache instead of paying for it again.
+ * Other providers get the system prompt and messages back as-is.
+ */
+export function withPromptCaching(
+  provider: ProviderId,
+  system: string | undefined,
+  messages: CoreMessage[]
+): { system?: string; messages: CoreMessage[] } {
+  if (!PROVIDERS[provider].capabilities.promptCaching) {
+    return { ...(system !== undefined ? { system } : {}), messages };
+  }
+
+  const cached = messages.map((message, index) =>
+    index === messages.length - 1
+      ? { ...message, providerOptions: { ...message.providerOptions, ...ANTHROPIC_CACHE_BREAKPOINT } }
+      : message
+  );
+  if (system === undefined) return { messages: cached };
+
+  return {
+    messages: [
+      { role: "system", content: system, providerOptions: ANTHROPIC_CACHE_BREAKPOINT },
+      ...cached,
+    ],
+  };
 }
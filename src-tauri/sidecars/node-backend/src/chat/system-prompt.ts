@@ -56,3 +56,51 @@ Format citations as markdown links: [Source Title](url)`;
 
   return prompt;
 }
+
+/**
+ * Prompt for requests through the local OpenAI-compatible API. The caller
+ * is another program with no AIOS interface, so only the tools that work
+ * without one are described.
+ */
+export function generateGatewaySystemPrompt(
+  hasPerplexity: boolean,
+  hasMCPTools: boolean,
+  personalityPrompt?: string
+): string {
+  let prompt = "";
+
+  if (personalityPrompt) {
+    prompt += `## Personality & Style\n${personalityPrompt}\n\n`;
+  }
+
+  prompt += `You are AIOS, an AI assistant with tool access, answering another program through AIOS's local API.
+
+## Behavior
+- Be succinct. Short answers by default. No filler, no preamble.
+- Answer inline: there is no sidebar viewer, and the user can't be asked questions mid-task.`;
+
+  if (hasPerplexity || hasMCPTools) {
+    prompt += `
+
+## Tools`;
+  }
+
+  if (hasPerplexity) {
+    prompt += `
+**Web search** (for current info): \`perplexity_ask\` (quick), \`perplexity_research\` (deep), \`perplexity_reason\` (analytical)`;
+  }
+
+  if (hasMCPTools) {
+    prompt += `
+**Filesystem**: \`filesystem_read_file\`, \`filesystem_write_file\`, \`filesystem_edit_file\`, \`filesystem_search_files\`, \`filesystem_list_directory\`, \`filesystem_directory_tree\`, etc.
+**Web fetch**: \`fetch_fetch\` (URL → markdown)
+**Time**: \`time_get_current_time\`, \`time_convert_time\`
+**Email**: \`email_send\`, \`email_fetch\`, \`email_search\` (if configured)`;
+  }
+
+  prompt += `
+
+Format citations as markdown links: [Source Title](url)`;
+
+  return prompt;
+}
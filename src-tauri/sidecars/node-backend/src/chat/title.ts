@@ -0,0 +1,46 @@
+/**
+ * Title and Tag Suggestions
+ *
+ * After a thread's first exchange the model names it and suggests a few
+ * tags. Tags the user already has are offered to the model first, so
+ * suggestions reuse their vocabulary instead of inventing near-duplicates.
+ */
+import { normalizeTag } from "../shared/tags.js";
+
+const MAX_TAGS = 3;
+/** Existing tags listed in the prompt, most used first */
+const MAX_EXISTING_TAGS = 30;
+
+export interface TitleSuggestion {
+  title: string;
+  tags: string[];
+}
+
+export function buildTitlePrompt(userMessage: string, assistantResponse: string, existingTags: string[]): string {
+  const known = existingTags.slice(0, MAX_EXISTING_TAGS);
+  return `Name a conversation that starts with the exchange below and tag it.
+
+Reply with exactly two lines:
+Title: a very short title (3-5 words max), no quotes or punctuation
+Tags: 1-${MAX_TAGS} short lowercase topic tags, comma-separated
+${known.length > 0 ? `\nPrefer these existing tags when they fit: ${known.join(", ")}\n` : ""}
+User: ${userMessage.slice(0, 200)}
+Assistant: ${assistantResponse.slice(0, 200)}`;
+}
+
+/**
+ * Read the model's reply. A reply without the "Title:" label is taken as a
+ * bare title, as older prompts asked for.
+ */
+export function parseTitleResponse(text: string): TitleSuggestion {
+  const lines = text.split("\n").map((line) => line.trim()).filter((line) => line !== "");
+  const labelled = (label: string) =>
+    lines.find((line) => line.toLowerCase().startsWith(`${label}:`))?.slice(label.length + 1).trim();
+
+  const rawTitle = labelled("title") ?? lines.find((line) => !line.toLowerCase().startsWith("tags:")) ?? "";
+  const title = rawTitle.replace(/^["'*]+|["'*.]+$/g, "").trim();
+
+  const tags = [...new Set((labelled("tags") ?? "").split(",").map(normalizeTag).filter((tag) => tag !== ""))];
+
+  return { title: title || "New conversation", tags: tags.slice(0, MAX_TAGS) };
+}
@@ -0,0 +1,53 @@
+/**
+ * Token Counting
+ *
+ * Local BPE tokenizers for models whose vocabulary we bundle (see the
+ * `tokenizer` field of the capability table). Rank files are large, so
+ * each encoding is loaded on first use. Where the bundled encoding only
+ * stands in for the model's own, counts are padded so trimming errs on the
+ * side of a smaller prompt.
+ */
+import { Tiktoken } from "js-tiktoken/lite";
+import { APPROXIMATE_TOKEN_MARGIN } from "../config.js";
+import type { ModelCapabilities, TokenizerEncoding } from "../shared/models.js";
+
+export type TokenCounter = (text: string) => number;
+
+const encoders = new Map<TokenizerEncoding, Promise<Tiktoken>>();
+
+async function loadEncoder(encoding: TokenizerEncoding): Promise<Tiktoken> {
+  const ranks =
+    encoding === "o200k_base"
+      ? (await import("js-tiktoken/ranks/o200k_base")).default
+      : (await import("js-tiktoken/ranks/cl100k_base")).default;
+  console.log(`[Tokenizer] Loaded ${encoding}`);
+  return new Tiktoken(ranks);
+}
+
+function getEncoder(encoding: TokenizerEncoding): Promise<Tiktoken> {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = loadEncoder(encoding);
+    // Let a failed load be retried on the next request
+    encoder.catch(() => encoders.delete(encoding));
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Token counter for a model, or null when none of the bundled tokenizers
+ * fits it (callers fall back to character-based estimation)
+ */
+export async function getTokenCounter(capabilities: ModelCapabilities): Promise<TokenCounter | null> {
+  if (!capabilities.tokenizer) return null;
+  try {
+    const encoder = await getEncoder(capabilities.tokenizer);
+    const margin = capabilities.approximateTokenizer ? APPROXIMATE_TOKEN_MARGIN : 1;
+    // Special-token text in user content is counted as plain text
+    return (text) => Math.ceil(encoder.encode(text, [], []).length * margin);
+  } catch (err) {
+    console.error(`[Tokenizer] Failed to load ${capabilities.tokenizer}:`, err);
+    return null;
+  }
+}
@@ -1,12 +1,41 @@
 /**
  * Configuration constants
  */
+import { homedir } from "node:os";
+import { join } from "node:path";
 
 export const HTTP_PORT = parseInt(process.env.PORT ?? "3001", 10);
 export const WS_PORT = parseInt(process.env.WS_PORT ?? "3002", 10);
 
+/** Where agent sessions are saved; the app passes its data directory */
+export const DATA_DIR = process.env.AIOS_DATA_DIR ?? join(homedir(), ".aios-chat");
+
 /** Max chars per individual tool result to prevent context overflow (~4k tokens) */
 export const MAX_TOOL_RESULT_CHARS = 8000;
 
+/** Max model steps per request when the sidecar drives the tool loop */
+export const SERVER_TOOL_LOOP_MAX_STEPS = 25;
+
+/** Token counts made with a stand-in tokenizer are scaled up by this much before trimming */
+export const APPROXIMATE_TOKEN_MARGIN = 1.2;
+
+/** Retries of a transient provider failure before moving down the fallback chain */
+export const PROVIDER_MAX_RETRIES = 2;
+
+/** First retry delay; doubles with each further attempt */
+export const PROVIDER_RETRY_BASE_DELAY_MS = 1000;
+
+/** Tool results longer than this are cut in saved transcripts (file reads can be megabytes) */
+export const MAX_TRANSCRIPT_RESULT_CHARS = 32000;
+
+/** Agent updates kept per session for clients that reconnect mid-run */
+export const MAX_SESSION_EVENTS = 1000;
+
+/**
+ * Secrets from request bodies kept for log redaction. Every request carries
+ * the keys in use, so only replaced or removed credentials get forgotten.
+ */
+export const MAX_REQUEST_SECRETS = 100;
+
 /** CORS allowed origins */
 export const CORS_ORIGINS = ["http://localhost:1420", "tauri://localhost"];
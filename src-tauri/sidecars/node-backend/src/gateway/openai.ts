@@ -0,0 +1,278 @@
+/**
+ * OpenAI Chat Completions Protocol
+ *
+ * The subset of the OpenAI API the local gateway speaks: request
+ * validation, conversion of OpenAI messages into chat history the regular
+ * pipeline understands, and the response and SSE chunk shapes.
+ */
+import { z } from "zod";
+import type { ChatAttachment, ChatIncomingMessage, ChatToolResult } from "../types.js";
+import type { ChatErrorCode } from "../shared/chat-protocol.js";
+
+// =============================================================================
+// Request
+// =============================================================================
+
+const textPartSchema = z.object({ type: z.literal("text"), text: z.string() });
+
+const contentPartSchema = z.union([
+  textPartSchema,
+  z.object({
+    type: z.literal("image_url"),
+    image_url: z.object({ url: z.string(), detail: z.string().optional() }),
+  }),
+]);
+
+const toolCallSchema = z.object({
+  id: z.string(),
+  type: z.literal("function"),
+  function: z.object({ name: z.string(), arguments: z.string() }),
+});
+
+const messageSchema = z.discriminatedUnion("role", [
+  z.object({ role: z.literal("system"), content: z.union([z.string(), z.array(textPartSchema)]) }),
+  z.object({ role: z.literal("developer"), content: z.union([z.string(), z.array(textPartSchema)]) }),
+  z.object({ role: z.literal("user"), content: z.union([z.string(), z.array(contentPartSchema)]) }),
+  z.object({
+    role: z.literal("assistant"),
+    content: z.union([z.string(), z.array(textPartSchema)]).nullable().optional(),
+    tool_calls: z.array(toolCallSchema).optional(),
+  }),
+  z.object({
+    role: z.literal("tool"),
+    tool_call_id: z.string(),
+    content: z.union([z.string(), z.array(textPartSchema)]),
+  }),
+]);
+
+/** A function the caller defines and runs itself */
+const functionToolSchema = z.object({
+  type: z.literal("function"),
+  function: z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    parameters: z.record(z.unknown()).optional(),
+  }),
+});
+
+export const chatCompletionRequestSchema = z.object({
+  model: z.string().optional(),
+  messages: z.array(messageSchema).min(1),
+  stream: z.boolean().optional(),
+  stream_options: z.object({ include_usage: z.boolean().optional() }).nullable().optional(),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  max_tokens: z.number().int().positive().nullable().optional(),
+  max_completion_tokens: z.number().int().positive().nullable().optional(),
+  tools: z.array(functionToolSchema).optional(),
+});
+
+export type ChatCompletionRequest = z.infer<typeof chatCompletionRequestSchema>;
+export type ClientTool = z.infer<typeof functionToolSchema>["function"];
+
+function textOf(content: string | Array<{ type: "text"; text: string }> | null | undefined): string {
+  if (content === null || content === undefined) return "";
+  return typeof content === "string" ? content : content.map((part) => part.text).join("\n");
+}
+
+/** Base64 image from a data: URL; remote URLs are left to the model's text */
+function toImageAttachment(url: string, index: number): ChatAttachment | null {
+  const match = url.match(/^data:([^;,]+);base64,(.+)$/);
+  if (!match) return null;
+  return { type: "image", name: `image-${index + 1}`, mimeType: match[1], data: match[2] };
+}
+
+/**
+ * Split OpenAI messages into the caller's system instructions and chat
+ * history. Tool messages become tool results on a user turn, the way the
+ * app sends them.
+ */
+export function fromOpenAIMessages(messages: ChatCompletionRequest["messages"]): {
+  system: string;
+  history: ChatIncomingMessage[];
+} {
+  const system: string[] = [];
+  const history: ChatIncomingMessage[] = [];
+  let pendingResults: ChatToolResult[] = [];
+
+  const flushResults = () => {
+    if (pendingResults.length === 0) return;
+    history.push({ role: "user", content: "", toolResults: pendingResults });
+    pendingResults = [];
+  };
+
+  for (const message of messages) {
+    if (message.role === "tool") {
+      pendingResults.push({ toolCallId: message.tool_call_id, result: textOf(message.content) });
+      continue;
+    }
+    flushResults();
+
+    switch (message.role) {
+      case "system":
+      case "developer":
+        system.push(textOf(message.content));
+        break;
+      case "user": {
+        if (typeof message.content === "string") {
+          history.push({ role: "user", content: message.content });
+          break;
+        }
+        const text: string[] = [];
+        const attachments: ChatAttachment[] = [];
+        for (const part of message.content) {
+          if (part.type === "text") {
+            text.push(part.text);
+          } else {
+            const image = toImageAttachment(part.image_url.url, attachments.length);
+            if (image) {
+              attachments.push(image);
+            } else {
+              text.push(`[Image: ${part.image_url.url}]`);
+            }
+          }
+        }
+        history.push({
+          role: "user",
+          content: text.join("\n"),
+          ...(attachments.length > 0 ? { attachments } : {}),
+        });
+        break;
+      }
+      case "assistant":
+        history.push({
+          role: "assistant",
+          content: textOf(message.content),
+          ...(message.tool_calls && message.tool_calls.length > 0
+            ? {
+                toolInvocations: message.tool_calls.map((call) => ({
+                  toolCallId: call.id,
+                  toolName: call.function.name,
+                  args: parseArguments(call.function.arguments),
+                  state: "call",
+                })),
+              }
+            : {}),
+        });
+        break;
+    }
+  }
+  flushResults();
+
+  return { system: system.filter((text) => text.trim() !== "").join("\n\n"), history };
+}
+
+function parseArguments(json: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+// =============================================================================
+// Response
+// =============================================================================
+
+export type FinishReason = "stop" | "length" | "tool_calls" | "content_filter";
+
+export interface CompletionToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export function toFinishReason(reason: string | undefined, calledClientTools: boolean): FinishReason {
+  if (calledClientTools) return "tool_calls";
+  if (reason === "length") return "length";
+  if (reason === "content-filter") return "content_filter";
+  return "stop";
+}
+
+export function toUsage(promptTokens: number, completionTokens: number): CompletionUsage {
+  return { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+}
+
+/** Shared by every chunk of one completion */
+export interface CompletionIdentity {
+  id: string;
+  created: number;
+  model: string;
+}
+
+export function completionChunk(
+  identity: CompletionIdentity,
+  delta: { role?: "assistant"; content?: string; tool_calls?: Array<CompletionToolCall & { index: number }> },
+  finishReason: FinishReason | null = null
+) {
+  return {
+    ...identity,
+    object: "chat.completion.chunk" as const,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+export function usageChunk(identity: CompletionIdentity, usage: CompletionUsage) {
+  return { ...identity, object: "chat.completion.chunk" as const, choices: [], usage };
+}
+
+export function completion(
+  identity: CompletionIdentity,
+  content: string,
+  toolCalls: CompletionToolCall[],
+  finishReason: FinishReason,
+  usage: CompletionUsage
+) {
+  return {
+    ...identity,
+    object: "chat.completion" as const,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant" as const,
+          content: content === "" && toolCalls.length > 0 ? null : content,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        },
+        finish_reason: finishReason,
+      },
+    ],
+    usage,
+  };
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/** OpenAI's error body */
+export function errorBody(message: string, type: string, code: string | null = null) {
+  return { error: { message, type, code } };
+}
+
+/** HTTP status and OpenAI error type for a pipeline failure */
+export function toErrorStatus(code: ChatErrorCode): { status: 400 | 429 | 500 | 502 | 503; type: string } {
+  switch (code) {
+    case "invalid_request":
+    case "context_overflow":
+    case "missing_api_key":
+      return { status: 400, type: "invalid_request_error" };
+    case "rate_limited":
+    case "quota_exceeded":
+      return { status: 429, type: "rate_limit_error" };
+    case "auth_failed":
+      return { status: 502, type: "upstream_error" };
+    case "provider_unavailable":
+      return { status: 503, type: "upstream_error" };
+    case "unknown":
+      return { status: 500, type: "server_error" };
+  }
+}
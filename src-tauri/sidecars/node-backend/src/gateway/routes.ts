@@ -0,0 +1,280 @@
+/**
+ * Local OpenAI-Compatible API
+ *
+ * `/v1/models` and `/v1/chat/completions` for scripts and editors, served
+ * with the providers, personality and tools configured in the app. Requests
+ * go through the same pipeline as the app's chats (system prompt, context
+ * trimming, retries and fallbacks); the sidecar runs AIOS's tools itself,
+ * while tools the caller defines are handed back as `tool_calls`.
+ */
+import { randomUUID } from "node:crypto";
+import { Hono } from "hono";
+import { jsonSchema, streamText, tool, type CoreTool } from "ai";
+
+import { SERVER_TOOL_LOOP_MAX_STEPS } from "../config.js";
+import { connectEmailMCPIfNeeded, connectFirecrawlMCPIfNeeded } from "../mcp/servers.js";
+import { getMCPToolsForAISDK } from "../mcp/tools.js";
+import { createPerplexityTools } from "../tools/perplexity.js";
+import { generateGatewaySystemPrompt } from "../chat/system-prompt.js";
+import { resolveModelName, withPromptCaching } from "../chat/providers.js";
+import { getMaxContextTokens, trimMessagesToFit, truncateToolResultsInMessages } from "../chat/context.js";
+import { resolveModelCapabilities } from "../chat/model-info.js";
+import { getTokenCounter } from "../chat/tokenizer.js";
+import { toModelMessages } from "../chat/messages.js";
+import {
+  createChainModel,
+  resolveFallbackChain,
+  toFallbackSettings,
+  withModelFallback,
+  type ChainModel,
+} from "../chat/fallback.js";
+import { toChatError } from "../chat/errors.js";
+import { getGatewaySettings, isAuthorized, listGatewayModels, resolveGatewayModel } from "./settings.js";
+import {
+  chatCompletionRequestSchema,
+  completion,
+  completionChunk,
+  errorBody,
+  fromOpenAIMessages,
+  toErrorStatus,
+  toFinishReason,
+  toUsage,
+  usageChunk,
+  type ClientTool,
+  type CompletionIdentity,
+  type CompletionToolCall,
+} from "./openai.js";
+
+const STARTED_AT = Math.floor(Date.now() / 1000);
+
+export const gatewayRoutes = new Hono();
+
+// Every route needs the local API turned on and the app's token
+gatewayRoutes.use("*", async (c, next) => {
+  const settings = getGatewaySettings();
+  if (!settings) {
+    return c.json(errorBody("The local API is turned off. Enable it in AIOS settings.", "service_unavailable"), 503);
+  }
+  if (!isAuthorized(c.req.header("Authorization"), settings.token)) {
+    return c.json(errorBody("Invalid or missing bearer token", "invalid_request_error", "invalid_api_key"), 401);
+  }
+  await next();
+});
+
+gatewayRoutes.get("/models", (c) => {
+  const models = listGatewayModels(getGatewaySettings()!);
+  return c.json({
+    object: "list",
+    data: models.map(({ id, provider }) => ({ id, object: "model", created: STARTED_AT, owned_by: provider })),
+  });
+});
+
+/** Caller-defined tools; without `execute` the model's calls to them end the request */
+function toClientTools(tools: ClientTool[]): Record<string, CoreTool> {
+  return Object.fromEntries(
+    tools.map((fn) => [
+      fn.name,
+      tool({
+        description: fn.description,
+        parameters: jsonSchema(fn.parameters ?? { type: "object", properties: {} }),
+      }),
+    ])
+  );
+}
+
+gatewayRoutes.post("/chat/completions", async (c) => {
+  const parsed = chatCompletionRequestSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return c.json(
+      errorBody(
+        `Invalid request: ${issue ? `${issue.path.join(".")} ${issue.message}` : "malformed body"}`,
+        "invalid_request_error"
+      ),
+      400
+    );
+  }
+  const request = parsed.data;
+  const settings = getGatewaySettings()!;
+
+  const target = resolveGatewayModel(settings, request.model);
+  if (!target) {
+    return c.json(
+      errorBody(`The model ${request.model ?? ""} is not available; see /v1/models`, "invalid_request_error", "model_not_found"),
+      404
+    );
+  }
+
+  await connectEmailMCPIfNeeded(settings.emailConfig);
+  await connectFirecrawlMCPIfNeeded(settings.firecrawlApiKey);
+
+  const { apiKeys } = settings;
+  const modelName = resolveModelName(target.provider, target.model);
+  const capabilities = await resolveModelCapabilities(target.provider, modelName, target.baseUrl);
+  const maxOutputTokens = request.max_completion_tokens ?? request.max_tokens ?? undefined;
+  const temperature = request.temperature ?? undefined;
+
+  // AIOS tools that work without the app's interface, plus the caller's own
+  const aiosTools = settings.enableTools && capabilities.tools
+    ? { ...createPerplexityTools(settings.perplexityApiKey), ...getMCPToolsForAISDK() }
+    : {};
+  const clientTools = toClientTools(request.tools?.map((t) => t.function) ?? []);
+  const tools = { ...aiosTools, ...clientTools };
+  const useTools = Object.keys(tools).length > 0;
+
+  const { system: callerSystem, history } = fromOpenAIMessages(request.messages);
+  const aiosPrompt = Object.keys(aiosTools).length > 0
+    ? generateGatewaySystemPrompt(!!settings.perplexityApiKey, Object.keys(getMCPToolsForAISDK()).length > 0, settings.personality)
+    : settings.personality;
+  const systemPrompt = [aiosPrompt, callerSystem].filter((part) => part !== undefined && part !== "").join("\n\n") || undefined;
+
+  // Same context management as the app's chats
+  const maxTokens = getMaxContextTokens(capabilities, maxOutputTokens);
+  const countTokens = target.provider === "anthropic" ? null : await getTokenCounter(capabilities);
+  const toolsJson = useTools ? JSON.stringify(tools) : "";
+  const toolsOverheadTokens = countTokens ? countTokens(toolsJson) : Math.ceil(toolsJson.length / 2);
+  const trimmed = await trimMessagesToFit(
+    truncateToolResultsInMessages(history, Math.floor((maxTokens * 3.5) / 4)),
+    target.provider,
+    modelName,
+    apiKeys.anthropic,
+    systemPrompt,
+    maxTokens,
+    toolsOverheadTokens,
+    countTokens
+  );
+  const messages = toModelMessages(trimmed, capabilities.vision);
+
+  const hasImages = messages.some(
+    (m) => m.role === "user" && Array.isArray(m.content) && m.content.some((part) => part.type === "image")
+  );
+  let modelChain: ChainModel[];
+  try {
+    modelChain = [
+      createChainModel({ ...target, apiKey: apiKeys[target.provider], contextWindow: capabilities.contextWindow }, useTools),
+      ...(await resolveFallbackChain(toFallbackSettings(settings.fallbacks, apiKeys), {
+        tools: useTools,
+        vision: hasImages,
+        contextWindow: capabilities.contextWindow,
+      })),
+    ];
+  } catch (err) {
+    const error = toChatError(err);
+    const { status, type } = toErrorStatus(error.code);
+    return c.json(errorBody(error.message, type, error.code), status);
+  }
+
+  console.log(`[Gateway] ${target.provider}/${modelName}, ${messages.length} messages, stream: ${request.stream === true}`);
+
+  const identity: CompletionIdentity = {
+    id: `chatcmpl-${randomUUID()}`,
+    created: Math.floor(Date.now() / 1000),
+    model: `${target.provider}/${modelName}`,
+  };
+  const abortSignal = c.req.raw.signal;
+
+  /**
+   * Run the model down the chain, reporting text and calls to the caller's
+   * tools as they arrive. AIOS's own tools run in between steps.
+   */
+  const run = async (onText: (text: string) => Promise<void>, onToolCall: (call: CompletionToolCall) => Promise<void>) => {
+    // Set once anything streams or a tool runs; from then on a failure can't be retried
+    let producedOutput = false;
+    return withModelFallback(
+      modelChain,
+      async (entry) => {
+        const result = streamText({
+          model: entry.model,
+          ...withPromptCaching(entry.provider, systemPrompt, messages),
+          ...(useTools ? { tools } : {}),
+          maxSteps: SERVER_TOOL_LOOP_MAX_STEPS,
+          maxRetries: 0,
+          abortSignal,
+          ...(temperature !== undefined ? { temperature } : {}),
+          ...(maxOutputTokens ? { maxTokens: maxOutputTokens } : {}),
+        });
+
+        let calledClientTools = false;
+        let finish = { reason: "stop", promptTokens: 0, completionTokens: 0 };
+        for await (const part of result.fullStream) {
+          if (part.type === "text-delta") {
+            producedOutput = true;
+            await onText(part.textDelta);
+          } else if (part.type === "tool-call") {
+            producedOutput = true;
+            if (part.toolName in clientTools) {
+              calledClientTools = true;
+              await onToolCall({
+                id: part.toolCallId,
+                type: "function",
+                function: { name: part.toolName, arguments: JSON.stringify(part.args) },
+              });
+            }
+          } else if (part.type === "finish") {
+            finish = { reason: part.finishReason, ...part.usage };
+          } else if (part.type === "error") {
+            throw part.error;
+          }
+        }
+        return { finishReason: toFinishReason(finish.reason, calledClientTools), usage: toUsage(finish.promptTokens, finish.completionTokens) };
+      },
+      { label: "Gateway", abortSignal, canRecover: () => !producedOutput }
+    );
+  };
+
+  if (request.stream !== true) {
+    let content = "";
+    const toolCalls: CompletionToolCall[] = [];
+    try {
+      const { finishReason, usage } = await run(
+        async (text) => { content += text; },
+        async (call) => { toolCalls.push(call); }
+      );
+      return c.json(completion(identity, content, toolCalls, finishReason, usage));
+    } catch (err) {
+      const error = toChatError(err);
+      console.error("[Gateway] Completion failed:", error.message);
+      const { status, type } = toErrorStatus(error.code);
+      return c.json(errorBody(error.message, type, error.code), status);
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const { readable, writable } = new TransformStream();
+  const writer = writable.getWriter();
+  const writeData = (data: unknown) =>
+    writer.write(encoder.encode(`data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`));
+
+  (async () => {
+    try {
+      await writeData(completionChunk(identity, { role: "assistant", content: "" }));
+      let toolCallIndex = 0;
+      const { finishReason, usage } = await run(
+        (text) => writeData(completionChunk(identity, { content: text })),
+        (call) => writeData(completionChunk(identity, { tool_calls: [{ index: toolCallIndex++, ...call }] }))
+      );
+      await writeData(completionChunk(identity, {}, finishReason));
+      if (request.stream_options?.include_usage) {
+        await writeData(usageChunk(identity, usage));
+      }
+      await writeData("[DONE]");
+    } catch (err) {
+      if (abortSignal.aborted) {
+        console.log("[Gateway] Aborted by client");
+        return;
+      }
+      const error = toChatError(err);
+      console.error("[Gateway] Stream failed:", error.message);
+      await writeData(errorBody(error.message, toErrorStatus(error.code).type, error.code));
+    } finally {
+      await writer.close().catch(() => {});
+    }
+  })();
+
+  return new Response(readable, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache",
+    },
+  });
+});
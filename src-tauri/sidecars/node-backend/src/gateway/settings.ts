@@ -0,0 +1,72 @@
+/**
+ * Local API State
+ *
+ * Holds the settings the app last pushed, checks `/v1` bearer tokens
+ * against them, and maps the model ids callers ask for onto configured
+ * providers.
+ */
+import { PROVIDERS, isProviderId } from "../shared/providers.js";
+import type { FallbackModel } from "../shared/chat-protocol.js";
+import { DEFAULT_GATEWAY_MODEL, type GatewaySettings } from "../shared/gateway.js";
+import { resolveModelName } from "../chat/providers.js";
+import { secretsMatch } from "../security/auth.js";
+
+let settings: GatewaySettings | null = null;
+
+export function setGatewaySettings(next: GatewaySettings): void {
+  settings = next;
+  console.log(
+    `[Gateway] Local API ${next.enabled ? "enabled" : "disabled"}, ${next.providers.length} provider(s) available`
+  );
+}
+
+/** Whether the app has pushed settings since the sidecar started */
+export function hasGatewaySettings(): boolean {
+  return settings !== null;
+}
+
+/** Settings to serve with, or null while the app hasn't enabled the local API */
+export function getGatewaySettings(): GatewaySettings | null {
+  return settings?.enabled ? settings : null;
+}
+
+/** Whether an Authorization header carries the configured token */
+export function isAuthorized(authorization: string | undefined, token: string): boolean {
+  return secretsMatch(authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim(), token);
+}
+
+/** `provider/model` ids for every model the configured providers offer */
+export function listGatewayModels(current: GatewaySettings): Array<{ id: string; provider: string }> {
+  const models = [{ id: DEFAULT_GATEWAY_MODEL, provider: current.defaultModel.provider }];
+  for (const { provider, model } of current.providers) {
+    const names = new Set([resolveModelName(provider, model), ...PROVIDERS[provider].models]);
+    for (const name of names) {
+      models.push({ id: `${provider}/${name}`, provider });
+    }
+  }
+  return models;
+}
+
+/**
+ * Provider and model for a requested id: "aios" (or none) for the app's
+ * default, "provider/model", or a bare model name one of the providers
+ * lists. Null when no configured provider can serve it.
+ */
+export function resolveGatewayModel(current: GatewaySettings, requested: string | undefined): FallbackModel | null {
+  if (requested === undefined || requested === "" || requested === DEFAULT_GATEWAY_MODEL) {
+    return current.defaultModel;
+  }
+
+  const slash = requested.indexOf("/");
+  const prefix = slash > 0 ? requested.slice(0, slash) : "";
+  if (isProviderId(prefix)) {
+    const configured = current.providers.find((p) => p.provider === prefix);
+    return configured ? { ...configured, model: requested.slice(slash + 1) } : null;
+  }
+
+  const owner = current.providers.find(
+    ({ provider, model }) =>
+      resolveModelName(provider, model) === requested || PROVIDERS[provider].models.includes(requested)
+  );
+  return owner ? { ...owner, model: requested } : null;
+}
@@ -6,15 +6,40 @@
  * Runs as a Tauri sidecar, communicating via HTTP.
  */
 import { serve } from "@hono/node-server";
-import { Hono } from "hono";
-import { cors } from "hono/cors";
-import { streamText, generateText, type LanguageModelV1 } from "ai";
-
-import { HTTP_PORT, CORS_ORIGINS } from "./config.js";
-import type { ChatIncomingMessage, ChatToolInvocation, EmailConfig } from "./types.js";
+import { Hono, type Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { streamText, generateText, type LanguageModelV1, type CoreMessage as SDKCoreMessage } from "ai";
+
+import { HTTP_PORT, SERVER_TOOL_LOOP_MAX_STEPS } from "./config.js";
+import type {
+  ChatIncomingMessage,
+  EmailConfig,
+  FallbackModel,
+  ProviderApiKeys,
+} from "./types.js";
+import { isProviderId, type ProviderId } from "./shared/providers.js";
+import {
+  chatRequestSchema,
+  type ChatErrorResponse,
+  type ChatStreamEvent,
+} from "./shared/chat-protocol.js";
 
 // Agent
-import { setAgentContext, getSessionByThread } from "./agent/sessions.js";
+import {
+  setAgentContext,
+  getSessionByThread,
+  cancelAgentSession,
+  pauseAgentSession,
+  resumeAgentSession,
+  getThreadSessionRecord,
+  listThreadSessions,
+  deleteThreadHistory,
+} from "./agent/sessions.js";
+import { flushSessionSaves } from "./agent/store.js";
+import { resolveAgentModels } from "./agent/orchestrator.js";
+import { resolvePlanApproval } from "./agent/approval.js";
+import { pauseSessionBudget, resumeSessionBudget, tokenCount } from "./agent/budget.js";
+import { planDecisionSchema } from "./shared/plan-review.js";
 import { createWebSocketServer, setSessionLookup } from "./agent/websocket.js";
 import { broadcastToThread } from "./agent/websocket.js";
 
@@ -30,17 +55,50 @@ import {
 import { getMCPToolsForAISDK, truncateToolResultForContext } from "./mcp/tools.js";
 
 // Tools
-import { getBuiltinTools } from "./tools/builtin.js";
+import { getBuiltinTools, INTERACTIVE_TOOL_NAMES } from "./tools/builtin.js";
 import { createPerplexityTools } from "./tools/perplexity.js";
 
 // Chat
 import { generateSystemPrompt } from "./chat/system-prompt.js";
-import { createAIModel, createOllamaToolModel } from "./chat/providers.js";
+import {
+  createAIModel,
+  createThinkingProviderOptions,
+  resolveModelName,
+  withPromptCaching,
+} from "./chat/providers.js";
 import {
   getMaxContextTokens,
   truncateToolResultsInMessages,
   trimMessagesToFit,
 } from "./chat/context.js";
+import { extractPdfText, inlineFileAttachments } from "./chat/attachments.js";
+import { toModelMessages } from "./chat/messages.js";
+import { findCompactionCut, summarizeMessages, withContextSummary } from "./chat/compaction.js";
+import { resolveModelCapabilities } from "./chat/model-info.js";
+import { getTokenCounter } from "./chat/tokenizer.js";
+import {
+  createChainModel,
+  resolveFallbackChain,
+  toFallbackSettings,
+  withModelFallback,
+  type ChainModel,
+} from "./chat/fallback.js";
+import { ChatError, toChatError } from "./chat/errors.js";
+import { buildTitlePrompt, parseTitleResponse } from "./chat/title.js";
+
+// Local API
+import { gatewaySettingsSchema } from "./shared/gateway.js";
+import { hasGatewaySettings, setGatewaySettings } from "./gateway/settings.js";
+import { gatewayRoutes } from "./gateway/routes.js";
+
+// Security
+import { SIDECAR_SECRET_HEADER, type SidecarHealth } from "./shared/sidecar.js";
+import { isSidecarSecret, requireSidecarSecret } from "./security/auth.js";
+import { appCors } from "./security/cors.js";
+import { installLogRedaction, registerSecret, registerSecretsIn } from "./security/redact.js";
+
+installLogRedaction();
+registerSecret(requireSidecarSecret());
 
 // =============================================================================
 // Initialize WebSocket (wire up session lookup to avoid circular imports)
@@ -55,16 +113,24 @@ setSessionLookup(getSessionByThread);
 
 const app = new Hono();
 
-app.use(
-  "/*",
-  cors({
-    origin: CORS_ORIGINS,
-    allowMethods: ["GET", "POST", "OPTIONS"],
-    allowHeaders: ["Content-Type", "Authorization"],
-  })
-);
+app.use("/*", appCors());
 
-app.get("/health", (c) => c.json({ status: "ok" }));
+// Only the app that launched the sidecar may call it; `/v1` checks its own bearer token
+app.use("/*", async (c, next) => {
+  if (c.req.path === "/v1" || c.req.path.startsWith("/v1/")) {
+    return next();
+  }
+  if (!isSidecarSecret(c.req.header(SIDECAR_SECRET_HEADER))) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  // Bodies carry API keys and passwords; keep them out of anything logged later
+  if (c.req.header("Content-Type")?.includes("application/json")) {
+    registerSecretsIn(await c.req.json().catch(() => null));
+  }
+  await next();
+});
+
+app.get("/health", (c) => c.json({ status: "ok", localApiSettings: hasGatewaySettings() } satisfies SidecarHealth));
 
 // =============================================================================
 // Email Test Endpoint
@@ -170,71 +236,144 @@ app.get("/api/mcp/status", (c) => {
   return c.json({ servers: status });
 });
 
-app.get("/api/agent/session/:threadId", (c) => {
+/** The thread's current (or most recent) session and its tasks, plus every session it has had */
+app.get("/api/agent/session/:threadId", async (c) => {
   const threadId = c.req.param("threadId");
-  const session = getSessionByThread(threadId);
+  const sessions = await listThreadSessions(threadId);
+  const latest = sessions[0] ? await getThreadSessionRecord(threadId, sessions[0].id) : null;
 
-  if (!session) {
-    return c.json({ session: null, tasks: [] });
+  if (!latest) {
+    return c.json({ session: null, tasks: [], sessions });
   }
 
   return c.json({
     session: {
-      id: session.id,
-      threadId: session.threadId,
-      status: session.status,
-      error: session.error,
-      createdAt: session.createdAt.toISOString(),
-      lastActivityAt: session.lastActivityAt.toISOString(),
+      id: latest.id,
+      threadId: latest.threadId,
+      status: latest.status,
+      error: latest.error,
+      createdAt: latest.createdAt,
+      lastActivityAt: latest.lastActivityAt,
+      budget: latest.budget,
+      usage: latest.usage,
     },
-    tasks: Array.from(session.tasks.values()).map((t) => ({
-      id: t.id,
-      title: t.title,
-      description: t.description,
-      type: t.type,
-      status: t.status,
-      result: t.result,
-      createdAt: t.createdAt.toISOString(),
-      startedAt: t.startedAt?.toISOString(),
-      completedAt: t.completedAt?.toISOString(),
-    })),
+    tasks: latest.tasks,
+    sessions,
   });
 });
 
+/** The thread was deleted: stop its session and delete its saved sessions */
+app.delete("/api/agent/session/:threadId", async (c) => {
+  await deleteThreadHistory(c.req.param("threadId"));
+  return c.json({ success: true });
+});
+
+/** One session with its tasks and every agent's transcript */
+app.get("/api/agent/session/:threadId/:sessionId", async (c) => {
+  const record = await getThreadSessionRecord(c.req.param("threadId"), c.req.param("sessionId"));
+  if (!record) {
+    return c.json({ error: "Agent session not found" }, 404);
+  }
+  return c.json(record);
+});
+
+app.post("/api/agent/session/:threadId/cancel", (c) => {
+  const threadId = c.req.param("threadId");
+  const session = getSessionByThread(threadId);
+
+  if (!session) {
+    return c.json({ cancelled: false, error: "No agent session for this thread" }, 404);
+  }
+
+  const cancelled = cancelAgentSession(session.id, "Cancelled by user");
+  return c.json({ cancelled, status: session.status });
+});
+
+/** Hold the thread's running session before its agents' next steps */
+app.post("/api/agent/session/:threadId/pause", (c) => {
+  const session = getSessionByThread(c.req.param("threadId"));
+  if (!session) {
+    return c.json({ paused: false, error: "No agent session for this thread" }, 404);
+  }
+
+  const paused = pauseAgentSession(session.id);
+  if (paused) pauseSessionBudget(session.id);
+  return c.json({ paused, status: session.status });
+});
+
+app.post("/api/agent/session/:threadId/resume", (c) => {
+  const session = getSessionByThread(c.req.param("threadId"));
+  if (!session) {
+    return c.json({ resumed: false, error: "No agent session for this thread" }, 404);
+  }
+
+  const resumed = resumeAgentSession(session.id);
+  if (resumed) resumeSessionBudget(session.id);
+  return c.json({ resumed, status: session.status });
+});
+
+/** The user's decision on a plan waiting for approval: run it as edited, or reject it */
+app.post("/api/agent/session/:threadId/plan", async (c) => {
+  const parsed = planDecisionSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json({ error: "Invalid plan decision" }, 400);
+  }
+
+  const session = getSessionByThread(c.req.param("threadId"));
+  if (!session || !resolvePlanApproval(session.id, parsed.data)) {
+    return c.json({ error: "No plan is waiting for approval in this thread" }, 409);
+  }
+  return c.json({ success: true });
+});
+
 // =============================================================================
 // Chat Endpoint
 // =============================================================================
 
+function errorResponse(c: Context, error: ChatError, status: ContentfulStatusCode) {
+  return c.json<ChatErrorResponse>({ error: error.message, code: error.code }, status);
+}
+
 app.post("/api/chat", async (c) => {
-  const body = await c.req.json<{
-    messages: ChatIncomingMessage[];
-    threadId?: string;
-    apiKey?: string;
-    perplexityApiKey?: string | null;
-    firecrawlApiKey?: string | null;
-    model?: string;
-    enableTools?: boolean;
-    provider?: "anthropic" | "ollama" | "redpill";
-    ollamaBaseUrl?: string;
-    redpillApiKey?: string;
-    emailConfig?: EmailConfig;
-    personality?: string;
-  }>();
+  const parsed = chatRequestSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return errorResponse(
+      c,
+      new ChatError("invalid_request", `Invalid chat request: ${issue ? `${issue.path.join(".")} ${issue.message}` : "malformed body"}`),
+      400
+    );
+  }
+  const body = parsed.data;
 
   const {
     messages: incomingMessages,
     threadId,
-    apiKey,
+    apiKeys = {},
     perplexityApiKey,
     firecrawlApiKey,
     model,
     enableTools = true,
     provider: providerType = "anthropic",
-    ollamaBaseUrl = "http://localhost:11434",
-    redpillApiKey,
+    baseUrl,
     emailConfig,
     personality,
+    toolLoop = "client",
+    thinkingBudget,
+    temperature,
+    maxOutputTokens,
+    contextStrategy = "trim",
   } = body;
+  let contextSummary = body.contextSummary;
+  const fallbacks = toFallbackSettings(body.fallbacks, apiKeys);
+
+  // Anthropic key powers token counting
+  const apiKey = apiKeys.anthropic;
+  const agentModels = resolveAgentModels(
+    body.agentModels,
+    { provider: providerType, apiKey: apiKeys[providerType], baseUrl, model },
+    apiKeys
+  );
 
   // Connect email MCP if needed
   if (emailConfig?.address && emailConfig?.password) {
@@ -245,15 +384,32 @@ app.post("/api/chat", async (c) => {
   await connectFirecrawlMCPIfNeeded(firecrawlApiKey);
 
   // Set agent context for tool execution
-  setAgentContext({ threadId, apiKey, perplexityApiKey });
+  setAgentContext({
+    threadId,
+    models: agentModels,
+    budget: body.agentBudget,
+    planApproval: body.agentPlanApproval,
+    prices: body.modelPrices,
+    perplexityApiKey,
+    fallbacks,
+  });
+
+  const modelName = resolveModelName(providerType, model);
+  const modelCapabilities = await resolveModelCapabilities(providerType, modelName, baseUrl);
+  const { contextWindow } = modelCapabilities;
 
   // Create AI model
-  const effectiveApiKey = providerType === "redpill" ? redpillApiKey : apiKey;
   let aiModel: LanguageModelV1;
   try {
-    aiModel = createAIModel(providerType, effectiveApiKey, ollamaBaseUrl, model);
+    aiModel = createAIModel({
+      provider: providerType,
+      apiKey: apiKeys[providerType],
+      baseUrl,
+      model,
+      contextWindow,
+    });
   } catch (err) {
-    return c.json({ error: String(err) }, 400);
+    return errorResponse(c, toChatError(err), 400);
   }
 
   // Build tools
@@ -261,7 +417,10 @@ app.post("/api/chat", async (c) => {
   const mcpTools = getMCPToolsForAISDK();
   const hasMCPTools = Object.keys(mcpTools).length > 0;
 
-  const allTools = enableTools
+  if (enableTools && !modelCapabilities.tools) {
+    console.log(`[Context] ${modelName} doesn't support tools; sending none`);
+  }
+  const allTools = enableTools && modelCapabilities.tools
     ? {
         ...getBuiltinTools(),
         ...perplexityTools,
@@ -273,204 +432,74 @@ app.post("/api/chat", async (c) => {
 
   // Context management
   const willUseTools = enableTools && Object.keys(allTools).length > 0;
-  const maxTokens = getMaxContextTokens(providerType, model);
-  const modelName =
-    model ?? (providerType === "ollama" ? "qwen3-vl:latest" : "claude-sonnet-4-20250514");
+  const maxTokens = getMaxContextTokens(modelCapabilities, maxOutputTokens);
+  const countTokens = providerType === "anthropic" ? null : await getTokenCounter(modelCapabilities);
 
   console.log(
     `[Context] Provider: ${providerType}, Model: ${modelName}, Tools: ${willUseTools}, Max tokens: ${maxTokens}`
   );
 
   const maxToolResultChars = Math.floor((maxTokens * 3.5) / 4);
-  const truncatedIncoming = truncateToolResultsInMessages(incomingMessages, maxToolResultChars);
+  const truncatedIncoming = truncateToolResultsInMessages(
+    inlineFileAttachments(incomingMessages),
+    maxToolResultChars
+  );
 
   const toolsJson = willUseTools ? JSON.stringify(allTools) : "";
-  const toolsOverheadTokens = Math.ceil(toolsJson.length / 2);
+  const toolsOverheadTokens = countTokens ? countTokens(toolsJson) : Math.ceil(toolsJson.length / 2);
   console.log(
     `[Context] Tools JSON size: ${toolsJson.length} chars, estimated overhead: ${toolsOverheadTokens} tokens`
   );
 
-  const processedMessages = await trimMessagesToFit(
+  // Aborts when the client disconnects (Stop button); cancels the model call and running tools
+  const abortSignal = c.req.raw.signal;
+
+  let processedMessages = await trimMessagesToFit(
     truncatedIncoming,
     providerType,
     modelName,
     apiKey,
-    willUseTools ? systemPrompt : undefined,
+    withContextSummary(willUseTools ? systemPrompt : undefined, contextSummary),
     maxTokens,
-    toolsOverheadTokens
+    toolsOverheadTokens,
+    countTokens
   );
 
-  // Convert to CoreMessage format
-  type CoreMessage =
-    | { role: "user"; content: string }
-    | {
-        role: "assistant";
-        content:
-          | string
-          | Array<
-              | { type: "text"; text: string }
-              | {
-                  type: "tool-call";
-                  toolCallId: string;
-                  toolName: string;
-                  args: Record<string, unknown>;
-                }
-            >;
-      }
-    | {
-        role: "tool";
-        content: Array<{
-          type: "tool-result";
-          toolCallId: string;
-          toolName: string;
-          result: unknown;
-        }>;
-      };
-
-  const rawMessages: CoreMessage[] = [];
-
-  for (const msg of processedMessages) {
-    if (msg.role === "assistant" && msg.toolInvocations && msg.toolInvocations.length > 0) {
-      const content: Array<
-        | { type: "text"; text: string }
-        | {
-            type: "tool-call";
-            toolCallId: string;
-            toolName: string;
-            args: Record<string, unknown>;
-          }
-      > = [];
-      if (msg.content && msg.content.trim() !== "") {
-        content.push({ type: "text", text: msg.content });
-      }
-      for (const inv of msg.toolInvocations) {
-        content.push({
-          type: "tool-call",
-          toolCallId: inv.toolCallId,
-          toolName: inv.toolName,
-          args: inv.args,
-        });
-      }
-      rawMessages.push({ role: "assistant", content });
-    } else if (msg.role === "user" && msg.toolResults && msg.toolResults.length > 0) {
-      const toolInvocations = processedMessages
-        .filter(
-          (m): m is ChatIncomingMessage & { toolInvocations: ChatToolInvocation[] } =>
-            m.role === "assistant" && !!m.toolInvocations
-        )
-        .flatMap((m) => m.toolInvocations);
-
-      rawMessages.push({
-        role: "tool",
-        content: msg.toolResults.map((r) => {
-          const invocation = toolInvocations.find((inv) => inv.toolCallId === r.toolCallId);
-          return {
-            type: "tool-result" as const,
-            toolCallId: r.toolCallId,
-            toolName: invocation?.toolName ?? "unknown",
-            result: r.result,
-          };
-        }),
-      });
-      if (msg.content) {
-        rawMessages.push({ role: "user", content: msg.content });
-      }
-    } else if (msg.role === "user") {
-      rawMessages.push({ role: "user", content: msg.content });
-    } else if (msg.role === "assistant") {
-      rawMessages.push({ role: "assistant", content: msg.content });
-    }
-  }
-
-  // Post-process: add synthetic tool results for missing ones
-  const processedWithToolResults: CoreMessage[] = [];
-  for (let i = 0; i < rawMessages.length; i++) {
-    const msg = rawMessages[i];
-    processedWithToolResults.push(msg);
-
-    if (msg.role === "assistant" && Array.isArray(msg.content)) {
-      const toolCalls = msg.content.filter(
-        (
-          part
-        ): part is {
-          type: "tool-call";
-          toolCallId: string;
-          toolName: string;
-          args: Record<string, unknown>;
-        } => part.type === "tool-call"
-      );
-
-      if (toolCalls.length > 0) {
-        const nextMsg = rawMessages[i + 1];
-        if (nextMsg?.role !== "tool") {
-          const syntheticResults = toolCalls.map((tc) => {
-            let result: unknown;
-            if (tc.toolName === "configure_settings") {
-              result = { configured: true, message: "Settings have been saved by the user." };
-            } else if (tc.toolName === "ask_user") {
-              result = { skipped: true, message: "User sent a new message without answering." };
-            } else {
-              result = { completed: true };
-            }
-            return {
-              type: "tool-result" as const,
-              toolCallId: tc.toolCallId,
-              toolName: tc.toolName,
-              result,
-            };
-          });
-
-          processedWithToolResults.push({ role: "tool", content: syntheticResults });
-          console.log(
-            `[Messages] Added synthetic tool results for: ${toolCalls.map((tc) => tc.toolName).join(", ")}`
-          );
-        }
+  // Compact mode: fold what trimming would drop into the summary instead
+  let compaction: { summary: string; throughMessageId: string } | null = null;
+  const droppedCount = truncatedIncoming.length - processedMessages.length;
+  if (contextStrategy === "compact" && droppedCount > 0) {
+    const cut = findCompactionCut(truncatedIncoming, droppedCount);
+    const throughMessageId = truncatedIncoming[cut]?.id;
+    if (throughMessageId !== undefined) {
+      try {
+        contextSummary = await summarizeMessages(
+          aiModel,
+          truncatedIncoming.slice(0, cut + 1),
+          contextSummary,
+          maxTokens,
+          abortSignal
+        );
+        compaction = { summary: contextSummary, throughMessageId };
+        console.log(`[Context] Compacted ${cut + 1} messages into a ${contextSummary.length} char summary`);
+        processedMessages = await trimMessagesToFit(
+          truncatedIncoming.slice(cut + 1),
+          providerType,
+          modelName,
+          apiKey,
+          withContextSummary(willUseTools ? systemPrompt : undefined, contextSummary),
+          maxTokens,
+          toolsOverheadTokens,
+          countTokens
+        );
+      } catch (err) {
+        if (abortSignal.aborted) throw err;
+        console.error("[Context] Compaction failed, falling back to trimming:", err);
       }
     }
   }
 
-  // Merge consecutive user messages
-  const messages: CoreMessage[] = [];
-  let pendingUserMessages: string[] = [];
-
-  function flushPendingUserMessages(): void {
-    if (pendingUserMessages.length === 0) return;
-
-    if (pendingUserMessages.length === 1) {
-      messages.push({ role: "user", content: pendingUserMessages[0] });
-    } else {
-      const now = new Date();
-      const combined = pendingUserMessages
-        .map((content, idx) => {
-          const msgTime = new Date(
-            now.getTime() - (pendingUserMessages.length - 1 - idx) * 30000
-          );
-          const timeStr = msgTime.toLocaleTimeString("en-US", {
-            hour: "2-digit",
-            minute: "2-digit",
-          });
-          return `[${timeStr}] ${content}`;
-        })
-        .join("\n\n");
-      messages.push({ role: "user", content: combined });
-    }
-    pendingUserMessages = [];
-  }
-
-  for (const msg of processedWithToolResults) {
-    if (msg.role === "user") {
-      if (typeof msg.content === "string" && msg.content.trim() === "") continue;
-      pendingUserMessages.push(msg.content as string);
-    } else {
-      flushPendingUserMessages();
-      if (msg.role === "assistant") {
-        if (typeof msg.content === "string" && msg.content.trim() === "") continue;
-        if (Array.isArray(msg.content) && msg.content.length === 0) continue;
-      }
-      messages.push(msg);
-    }
-  }
-  flushPendingUserMessages();
+  const messages = toModelMessages(processedMessages, modelCapabilities.vision);
 
   // Debug log
   console.log(`[Messages] Final count: ${messages.length}`);
@@ -486,148 +515,221 @@ app.post("/api/chat", async (c) => {
 
   const useTools = enableTools && Object.keys(allTools).length > 0;
 
-  let modelForRequest = aiModel;
-  if (providerType === "ollama" && useTools) {
-    modelForRequest = createOllamaToolModel(ollamaBaseUrl, model);
-  }
-
-  // Single-pass streaming with NDJSON protocol
-  // Frontend drives the tool loop by sending follow-up requests when hasToolCalls is true
-  const result = streamText({
-    model: modelForRequest,
-    messages,
-    ...(useTools ? { system: systemPrompt, tools: allTools } : {}),
-    maxSteps: 1,
-  });
-
-  const totalUsage = { promptTokens: 0, completionTokens: 0 };
+  // The requested model first, then the fallbacks that can serve this request
+  const hasImages = messages.some(
+    (m) => m.role === "user" && Array.isArray(m.content) && m.content.some((part) => part.type === "image")
+  );
+  const modelChain: ChainModel[] = [
+    createChainModel({ provider: providerType, apiKey: apiKeys[providerType], baseUrl, model, contextWindow }, useTools),
+    ...(await resolveFallbackChain(fallbacks, { tools: useTools, vision: hasImages, contextWindow })),
+  ];
+
+  // Streaming with NDJSON protocol.
+  // Client mode runs one step and the frontend drives the tool loop by re-posting
+  // when hasToolCalls is true. Server mode loops here, one streamText call per step,
+  // and only hands control back when an interactive tool needs the user.
+  const serverLoop = toolLoop === "server" && useTools;
+
+  // Extended thinking. Anthropic rejects a tool-result continuation whose assistant turn
+  // lacks its signed thinking blocks, which the frontend doesn't round-trip, so such
+  // requests run without thinking. Server-loop steps keep the SDK's own messages.
+  const lastIncoming = incomingMessages[incomingMessages.length - 1];
+  const continuesToolTurn = (lastIncoming?.toolResults?.length ?? 0) > 0;
+
+  const maxLoopSteps = serverLoop ? SERVER_TOOL_LOOP_MAX_STEPS : 1;
+
+  // Cache counts stay 0 for providers without prompt caching
+  const totalUsage = { promptTokens: 0, completionTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
   const encoder = new TextEncoder();
   const { readable, writable } = new TransformStream();
   const writer = writable.getWriter();
 
+  const writeEvent = (event: ChatStreamEvent) =>
+    writer.write(encoder.encode(JSON.stringify(event) + "\n"));
+
   const toolCalls: Array<{ toolCallId: string; toolName: string; args: unknown }> = [];
 
   (async () => {
     try {
-      for await (const part of result.fullStream) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const p = part as any;
-
-        if (p.type === "text-delta") {
-          const textDelta = p.textDelta as string;
-          await writer.write(
-            encoder.encode(JSON.stringify({ type: "text", content: textDelta }) + "\n")
-          );
-        } else if (p.type === "reasoning") {
-          const reasoning = p.textDelta as string;
-          await writer.write(
-            encoder.encode(JSON.stringify({ type: "thinking", content: reasoning }) + "\n")
-          );
-        } else if (p.type === "tool-call") {
-          const toolCallId = p.toolCallId as string;
-          const toolName = p.toolName as string;
-          const args = p.args;
-          toolCalls.push({ toolCallId, toolName, args });
-          await writer.write(
-            encoder.encode(
-              JSON.stringify({ type: "tool_call", id: toolCallId, name: toolName, args }) + "\n"
-            )
-          );
+      let conversation: SDKCoreMessage[] = messages;
+      let stepHadToolCalls = false;
+      let awaitingUser = false;
+      // Position in the model chain; once a fallback answers it serves the remaining steps
+      let activeModel = 0;
+
+      if (compaction) {
+        await writeEvent({ type: "context_compacted", ...compaction });
+      }
 
-          if (threadId) {
-            const session = getSessionByThread(threadId);
-            if (session) {
-              broadcastToThread(threadId, {
-                type: "tool_call",
-                sessionId: session.id,
-                threadId,
-                toolCall: {
-                  id: toolCallId,
-                  toolName,
-                  status: "calling",
-                  args: args as Record<string, unknown> | undefined,
-                },
-              });
-            }
-          }
-        } else if (p.type === "tool-result") {
-          const toolCallId = p.toolCallId as string;
-          const truncatedResult = truncateToolResultForContext(p.result);
-          await writer.write(
-            encoder.encode(
-              JSON.stringify({ type: "tool_result", id: toolCallId, result: truncatedResult }) + "\n"
-            )
+      for (let step = 0; step < maxLoopSteps; step++) {
+        if (serverLoop) {
+          await writeEvent({ type: "step_start", step });
+        }
+
+        const stepToolNames: string[] = [];
+        // Set once the step streams anything; from then on a failure can't be retried
+        let stepProducedOutput = false;
+
+        const runStep = async (entry: ChainModel) => {
+          const prompt = withPromptCaching(
+            entry.provider,
+            withContextSummary(useTools ? systemPrompt : undefined, contextSummary),
+            conversation
           );
+          const providerOptions = continuesToolTurn
+            ? undefined
+            : createThinkingProviderOptions(entry.provider, thinkingBudget);
+          const result = streamText({
+            model: entry.model,
+            ...prompt,
+            ...(useTools ? { tools: allTools } : {}),
+            maxSteps: 1,
+            maxRetries: 0,
+            abortSignal,
+            // Anthropic rejects a custom temperature with extended thinking on
+            ...(temperature !== undefined && !providerOptions ? { temperature } : {}),
+            ...(maxOutputTokens ? { maxTokens: maxOutputTokens } : {}),
+            ...(providerOptions ? { providerOptions } : {}),
+          });
 
-          if (threadId) {
-            const session = getSessionByThread(threadId);
-            if (session) {
-              broadcastToThread(threadId, {
-                type: "tool_result",
-                sessionId: session.id,
-                threadId,
-                toolCall: {
-                  id: toolCallId,
-                  toolName:
-                    toolCalls.find((tc) => tc.toolCallId === toolCallId)?.toolName ?? "unknown",
-                  status: "done",
-                  result:
-                    typeof truncatedResult === "string"
-                      ? truncatedResult
-                      : JSON.stringify(truncatedResult),
-                },
-              });
+          for await (const part of result.fullStream) {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const p = part as any;
+
+            if (p.type === "text-delta") {
+              stepProducedOutput = true;
+              const textDelta = p.textDelta as string;
+              await writeEvent({ type: "text", content: textDelta });
+            } else if (p.type === "reasoning") {
+              stepProducedOutput = true;
+              const reasoning = p.textDelta as string;
+              await writeEvent({ type: "thinking", content: reasoning });
+            } else if (p.type === "tool-call") {
+              stepProducedOutput = true;
+              const toolCallId = p.toolCallId as string;
+              const toolName = p.toolName as string;
+              const args = p.args as Record<string, unknown>;
+              toolCalls.push({ toolCallId, toolName, args });
+              stepToolNames.push(toolName);
+              await writeEvent({ type: "tool_call", id: toolCallId, name: toolName, args });
+
+              if (threadId) {
+                const session = getSessionByThread(threadId);
+                if (session) {
+                  broadcastToThread(threadId, {
+                    type: "tool_call",
+                    sessionId: session.id,
+                    threadId,
+                    toolCall: {
+                      id: toolCallId,
+                      toolName,
+                      status: "calling",
+                      args,
+                    },
+                  });
+                }
+              }
+            } else if (p.type === "tool-result") {
+              const toolCallId = p.toolCallId as string;
+              const truncatedResult = truncateToolResultForContext(p.result);
+              await writeEvent({ type: "tool_result", id: toolCallId, result: truncatedResult });
+
+              if (threadId) {
+                const session = getSessionByThread(threadId);
+                if (session) {
+                  broadcastToThread(threadId, {
+                    type: "tool_result",
+                    sessionId: session.id,
+                    threadId,
+                    toolCall: {
+                      id: toolCallId,
+                      toolName:
+                        toolCalls.find((tc) => tc.toolCallId === toolCallId)?.toolName ?? "unknown",
+                      status: "done",
+                      result:
+                        typeof truncatedResult === "string"
+                          ? truncatedResult
+                          : JSON.stringify(truncatedResult),
+                    },
+                  });
+                }
+              }
+            } else if (p.type === "finish") {
+              const usage = p.usage as
+                | { promptTokens: number; completionTokens: number }
+                | undefined;
+              if (usage) {
+                totalUsage.promptTokens += tokenCount(usage.promptTokens);
+                totalUsage.completionTokens += tokenCount(usage.completionTokens);
+              }
+              const cache = p.providerMetadata?.anthropic as
+                | { cacheReadInputTokens?: number | null; cacheCreationInputTokens?: number | null }
+                | undefined;
+              if (cache) {
+                totalUsage.cacheReadTokens += tokenCount(cache.cacheReadInputTokens);
+                totalUsage.cacheWriteTokens += tokenCount(cache.cacheCreationInputTokens);
+              }
+            } else if (p.type === "error") {
+              console.error("[Stream] Error event:", p);
+              throw p.error ?? p;
             }
           }
-        } else if (p.type === "finish") {
-          const usage = p.usage as
-            | { promptTokens: number; completionTokens: number }
-            | undefined;
-          if (usage) {
-            totalUsage.promptTokens += usage.promptTokens;
-            totalUsage.completionTokens += usage.completionTokens;
-          }
-        } else if (p.type === "error") {
-          console.error("[Stream] Error event:", p);
-          await writer.write(
-            encoder.encode(JSON.stringify({ type: "error", message: String(p.error ?? p) }) + "\n")
-          );
+
+          return result;
+        };
+
+        const result = await withModelFallback(modelChain.slice(activeModel), runStep, {
+          label: "Stream",
+          abortSignal,
+          canRecover: () => !stepProducedOutput,
+          onSwitch: async (next, error) => {
+            activeModel = modelChain.indexOf(next);
+            await writeEvent({
+              type: "provider_switched",
+              provider: next.provider,
+              model: next.modelName,
+              code: error.code,
+              message: error.message,
+            });
+          },
+        });
+
+        stepHadToolCalls = stepToolNames.length > 0;
+        awaitingUser = stepToolNames.some((name) => INTERACTIVE_TOOL_NAMES.has(name));
+
+        if (serverLoop) {
+          await writeEvent({ type: "step_end", step, hasToolCalls: stepHadToolCalls });
+        }
+
+        if (abortSignal.aborted || !stepHadToolCalls || awaitingUser) break;
+
+        if (step + 1 < maxLoopSteps) {
+          // Feed this step's assistant + tool messages into the next step
+          const response = await result.response;
+          conversation = [...conversation, ...response.messages];
+          console.log(`[Stream] Server loop step ${step + 1} complete, continuing`);
         }
       }
 
-      const hasToolCalls = toolCalls.length > 0;
+      // In server mode only an exhausted step budget leaves tool calls for the frontend
+      const hasToolCalls = serverLoop ? stepHadToolCalls && !awaitingUser : toolCalls.length > 0;
       console.log(
-        `[Stream] Completed: ${toolCalls.length} tool calls, hasToolCalls: ${hasToolCalls}`
+        `[Stream] Completed: ${toolCalls.length} tool calls, hasToolCalls: ${hasToolCalls}, awaitingUser: ${awaitingUser}`
       );
 
-      await writer.write(
-        encoder.encode(
-          JSON.stringify({ type: "end", hasToolCalls, usage: totalUsage }) + "\n"
-        )
-      );
+      await writeEvent({ type: "end", hasToolCalls, awaitingUser, usage: totalUsage });
     } catch (error) {
-      console.error("Streaming error:", error);
-      // Extract user-friendly message from API errors
-      let errorMessage = String(error);
-      const err = error as Record<string, unknown>;
-      if (err.responseBody && typeof err.responseBody === "string") {
-        try {
-          const body = JSON.parse(err.responseBody) as { error?: { message?: string } };
-          if (body.error?.message) {
-            errorMessage = body.error.message;
-          }
-        } catch {
-          // use default
-        }
+      if (abortSignal.aborted) {
+        // Nobody is listening anymore; don't try to write an error event
+        console.log(`[Stream] Aborted by client after ${toolCalls.length} tool calls`);
+        return;
       }
-      if (err.statusCode === 402) {
-        errorMessage = "Account quota exceeded. Please add credits at your provider dashboard to continue.";
-      }
-      await writer.write(
-        encoder.encode(JSON.stringify({ type: "error", message: errorMessage }) + "\n")
-      );
+      console.error("Streaming error:", error);
+      const { code, message } = toChatError(error);
+      await writeEvent({ type: "error", message, code });
     } finally {
-      await writer.close();
+      // Closing fails if the client already cancelled the stream
+      await writer.close().catch(() => {});
     }
   })();
 
@@ -643,46 +745,157 @@ app.post("/api/chat", async (c) => {
 // Title Generation
 // =============================================================================
 
+/** Title for a new thread, plus suggested tags (`existingTags` are preferred) */
 app.post("/api/generate-title", async (c) => {
   const body = await c.req.json<{
     userMessage: string;
     assistantResponse: string;
-    apiKey?: string;
-    provider?: "anthropic" | "ollama" | "redpill";
-    ollamaBaseUrl?: string;
-    redpillApiKey?: string;
+    existingTags?: string[];
+    apiKeys?: ProviderApiKeys;
+    provider?: ProviderId;
+    baseUrl?: string;
     model?: string;
+    fallbacks?: FallbackModel[];
   }>();
 
   const {
     userMessage,
     assistantResponse,
-    apiKey,
+    apiKeys = {},
     provider: providerType = "anthropic",
-    ollamaBaseUrl = "http://localhost:11434",
-    redpillApiKey: titleRedpillApiKey,
+    baseUrl,
     model: modelName,
   } = body;
 
-  const titleEffectiveApiKey = providerType === "redpill" ? titleRedpillApiKey : apiKey;
-  let model: LanguageModelV1;
+  if (!isProviderId(providerType)) {
+    return c.json({ error: `Unknown provider: ${String(providerType)}` }, 400);
+  }
+
+  let modelChain: ChainModel[];
   try {
-    model = createAIModel(providerType, titleEffectiveApiKey, ollamaBaseUrl, modelName);
+    modelChain = [
+      createChainModel({ provider: providerType, apiKey: apiKeys[providerType], baseUrl, model: modelName }, false),
+      ...(await resolveFallbackChain(toFallbackSettings(body.fallbacks, apiKeys), { tools: false, vision: false })),
+    ];
   } catch (err) {
     return c.json({ error: String(err) }, 400);
   }
 
-  const result = await generateText({
-    model,
-    prompt: `Generate a very short title (3-5 words max) for a conversation that starts with this exchange. Reply with ONLY the title, no quotes or punctuation.
+  const result = await withModelFallback(
+    modelChain,
+    (entry) =>
+      generateText({
+        model: entry.model,
+        maxRetries: 0,
+        prompt: buildTitlePrompt(userMessage, assistantResponse, body.existingTags ?? []),
+      }),
+    { label: "Title" }
+  );
 
-User: ${userMessage.slice(0, 200)}
-Assistant: ${assistantResponse.slice(0, 200)}`,
-  });
+  return c.json(parseTitleResponse(result.text));
+});
+
+// =============================================================================
+// Context Compaction
+// =============================================================================
+
+/** Summarize a thread's history on demand ("compact now") */
+app.post("/api/chat/compact", async (c) => {
+  const body = await c.req.json<{
+    messages: ChatIncomingMessage[];
+    contextSummary?: string;
+    apiKeys?: ProviderApiKeys;
+    provider?: ProviderId;
+    baseUrl?: string;
+    model?: string;
+  }>();
+
+  const {
+    messages,
+    contextSummary,
+    apiKeys = {},
+    provider: providerType = "anthropic",
+    baseUrl,
+    model: modelName,
+  } = body;
+
+  if (!isProviderId(providerType)) {
+    return c.json({ error: `Unknown provider: ${String(providerType)}` }, 400);
+  }
+  if (messages.length === 0) {
+    return errorResponse(c, new ChatError("invalid_request", "Nothing to compact"), 400);
+  }
 
-  return c.json({ title: result.text.trim() || "New conversation" });
+  const capabilities = await resolveModelCapabilities(providerType, resolveModelName(providerType, modelName), baseUrl);
+  let model: LanguageModelV1;
+  try {
+    model = createAIModel({
+      provider: providerType,
+      apiKey: apiKeys[providerType],
+      baseUrl,
+      model: modelName,
+      contextWindow: capabilities.contextWindow,
+    });
+  } catch (err) {
+    return errorResponse(c, toChatError(err), 400);
+  }
+
+  try {
+    const summary = await summarizeMessages(
+      model,
+      inlineFileAttachments(messages),
+      contextSummary,
+      getMaxContextTokens(capabilities),
+      c.req.raw.signal
+    );
+    return c.json({ summary });
+  } catch (err) {
+    console.error("[Compaction] Failed:", err);
+    return errorResponse(c, toChatError(err), 500);
+  }
 });
 
+// =============================================================================
+// Attachment Text Extraction
+// =============================================================================
+
+app.post("/api/attachments/extract", async (c) => {
+  const { name, mimeType, data } = await c.req.json<{
+    name: string;
+    mimeType: string;
+    /** Base64 file contents */
+    data: string;
+  }>();
+
+  if (mimeType !== "application/pdf") {
+    return c.json({ error: `Can't extract text from ${mimeType} files` }, 400);
+  }
+
+  try {
+    const text = await extractPdfText(new Uint8Array(Buffer.from(data, "base64")));
+    return c.json({ text });
+  } catch (err) {
+    console.error(`[Attachments] Failed to extract text from ${name}:`, err);
+    return c.json({ error: `Failed to read ${name}: ${String(err)}` }, 400);
+  }
+});
+
+// =============================================================================
+// Local OpenAI-Compatible API
+// =============================================================================
+
+/** The app pushes its settings here; `/v1` requests are served with them */
+app.post("/api/gateway/settings", async (c) => {
+  const parsed = gatewaySettingsSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json({ error: "Invalid local API settings" }, 400);
+  }
+  setGatewaySettings(parsed.data);
+  return c.json({ success: true });
+});
+
+app.route("/v1", gatewayRoutes);
+
 // =============================================================================
 // Graceful Shutdown
 // =============================================================================
@@ -690,6 +903,7 @@ Assistant: ${assistantResponse.slice(0, 200)}`,
 process.on("SIGINT", async () => {
   console.log("Shutting down...");
   wss.close();
+  await flushSessionSaves();
   await cleanupMCPServers();
   process.exit(0);
 });
@@ -697,6 +911,7 @@ process.on("SIGINT", async () => {
 process.on("SIGTERM", async () => {
   console.log("Shutting down...");
   wss.close();
+  await flushSessionSaves();
   await cleanupMCPServers();
   process.exit(0);
 });
@@ -94,12 +94,16 @@ export function getMCPToolsForAISDK(): Record<string, CoreTool> {
       aiTools[fullToolName] = tool({
         description: toolInfo.description,
         parameters: jsonSchemaToZod(toolInfo.inputSchema),
-        execute: async (args) => {
+        execute: async (args, { abortSignal }) => {
           try {
-            const result = await connection.client.callTool({
-              name: toolName,
-              arguments: args as Record<string, unknown>,
-            });
+            const result = await connection.client.callTool(
+              {
+                name: toolName,
+                arguments: args as Record<string, unknown>,
+              },
+              undefined,
+              { signal: abortSignal }
+            );
             return truncateToolResultForContext(result.content);
           } catch (error) {
             return { error: String(error) };
@@ -0,0 +1,36 @@
+/**
+ * Sidecar Secret
+ *
+ * The Tauri shell generates a secret for each launch and passes it in the
+ * environment; the app presents it on every request. Without it any local
+ * process could read agent activity or drive tools like
+ * `filesystem_write_file`, so the sidecar won't start without one.
+ */
+import { createHash, timingSafeEqual } from "node:crypto";
+
+const SECRET = process.env.AIOS_SIDECAR_SECRET ?? "";
+
+/** Exit unless a secret was provided; called before listening */
+export function requireSidecarSecret(): string {
+  if (SECRET.length < 16) {
+    console.error(
+      "AIOS_SIDECAR_SECRET is not set (or shorter than 16 characters). " +
+        "The app starts the backend with one; to run it on its own, set it here and as VITE_AIOS_SIDECAR_SECRET for the frontend."
+    );
+    process.exit(1);
+  }
+  return SECRET;
+}
+
+/** Constant-time comparison of a presented credential against the expected one */
+export function secretsMatch(presented: string | null | undefined, expected: string): boolean {
+  if (!presented) return false;
+  // Hash both so the comparison is constant-time regardless of length
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(presented), digest(expected));
+}
+
+/** Whether a request presented this launch's secret */
+export function isSidecarSecret(presented: string | null | undefined): boolean {
+  return SECRET !== "" && secretsMatch(presented, SECRET);
+}
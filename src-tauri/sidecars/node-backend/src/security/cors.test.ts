@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { Hono } from "hono";
+import { SIDECAR_SECRET_HEADER } from "../shared/sidecar.js";
+import { appCors } from "./cors.js";
+
+const app = new Hono();
+app.use("/*", appCors());
+app.delete("/api/agent/session/:threadId", (c) => c.json({ deleted: c.req.param("threadId") }));
+
+function preflight(method: string, origin = "tauri://localhost") {
+  return app.request("/api/agent/session/t1", {
+    method: "OPTIONS",
+    headers: {
+      Origin: origin,
+      "Access-Control-Request-Method": method,
+      "Access-Control-Request-Headers": SIDECAR_SECRET_HEADER,
+    },
+  });
+}
+
+describe("appCors", () => {
+  it("allows every method the app sends", async () => {
+    const allowed = (await preflight("DELETE")).headers.get("Access-Control-Allow-Methods")?.split(",");
+    expect(allowed).toEqual(expect.arrayContaining(["GET", "POST", "DELETE"]));
+  });
+
+  it("allows the sidecar secret header", async () => {
+    const response = await preflight("DELETE");
+    expect(response.headers.get("Access-Control-Allow-Headers")).toContain(SIDECAR_SECRET_HEADER);
+  });
+
+  it("only answers the app's origins", async () => {
+    expect((await preflight("DELETE")).headers.get("Access-Control-Allow-Origin")).toBe("tauri://localhost");
+    expect((await preflight("DELETE", "https://example.com")).headers.get("Access-Control-Allow-Origin")).toBeNull();
+  });
+
+  it("passes the request itself through", async () => {
+    const response = await app.request("/api/agent/session/t1", {
+      method: "DELETE",
+      headers: { Origin: "http://localhost:1420" },
+    });
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe("http://localhost:1420");
+    expect(await response.json()).toEqual({ deleted: "t1" });
+  });
+});
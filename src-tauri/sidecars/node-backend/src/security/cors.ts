@@ -0,0 +1,18 @@
+/**
+ * CORS
+ *
+ * The app's webview is a different origin from the sidecar, so every
+ * method and header it sends must be allowed here or the browser blocks
+ * the request before it's made.
+ */
+import { cors } from "hono/cors";
+import { CORS_ORIGINS } from "../config.js";
+import { SIDECAR_SECRET_HEADER } from "../shared/sidecar.js";
+
+export function appCors() {
+  return cors({
+    origin: CORS_ORIGINS,
+    allowMethods: ["GET", "POST", "DELETE", "OPTIONS"],
+    allowHeaders: ["Content-Type", "Authorization", SIDECAR_SECRET_HEADER],
+  });
+}
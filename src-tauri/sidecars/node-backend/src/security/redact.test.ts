@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { MAX_REQUEST_SECRETS } from "../config.js";
+import { redact, registerSecret, registerSecretsIn } from "./redact.js";
+
+describe("redact", () => {
+  it("masks values under secret-looking keys", () => {
+    expect(
+      redact({
+        provider: "openai",
+        apiKeys: { openai: "sk-live" },
+        email: { user: "me", password: "hunter2" },
+        accessToken: "abc",
+        tokenCount: 12,
+      })
+    ).toEqual({
+      provider: "openai",
+      apiKeys: "[redacted]",
+      email: { user: "me", password: "[redacted]" },
+      accessToken: "[redacted]",
+      tokenCount: 12,
+    });
+  });
+
+  it("masks bearer tokens in text", () => {
+    expect(redact("Authorization: Bearer abc.def.ghi failed")).toBe("Authorization: Bearer [redacted] failed");
+  });
+
+  it("masks registered secrets wherever they turn up", () => {
+    registerSecretsIn({ apiKeys: { anthropic: "sk-ant-0123456789" }, model: "claude-sonnet-4" });
+    registerSecret("short");
+
+    expect(redact(["invalid key sk-ant-0123456789", "model claude-sonnet-4", "short"])).toEqual([
+      "invalid key [redacted]",
+      "model claude-sonnet-4",
+      "short",
+    ]);
+  });
+
+  it("redacts an error's message, stack, cause and properties", () => {
+    registerSecret("pa55word-secret");
+    const error = Object.assign(new Error("login failed for pa55word-secret", { cause: "pa55word-secret" }), {
+      requestBody: { password: "pa55word-secret" },
+    });
+
+    const copy = redact(error) as Error & { requestBody: unknown };
+    expect(copy).toBeInstanceOf(Error);
+    expect(copy.message).toBe("login failed for [redacted]");
+    expect(copy.stack).not.toContain("pa55word-secret");
+    expect(copy.cause).toBe("[redacted]");
+    expect(copy.requestBody).toEqual({ password: "[redacted]" });
+  });
+
+  it("prints class instances as redacted text", () => {
+    registerSecret("tok-9876543210");
+    expect(redact(new Map([["key", "tok-9876543210"]]))).toBe("Map(1) { 'key' => '[redacted]' }");
+  });
+
+  it("stops at circular references", () => {
+    const value: Record<string, unknown> = { name: "loop" };
+    value.self = value;
+    expect(redact(value)).toEqual({ name: "loop", self: "[Circular]" });
+  });
+
+  it("forgets the secrets least recently sent", () => {
+    registerSecretsIn({ apiKey: "first-secret-key" });
+    registerSecretsIn({ apiKey: "still-used-key" });
+    for (let i = 0; i < MAX_REQUEST_SECRETS - 1; i++) {
+      registerSecretsIn({ apiKey: `rotated-key-${i}` });
+      if (i === MAX_REQUEST_SECRETS / 2) registerSecretsIn({ apiKey: "still-used-key" });
+    }
+
+    expect(redact("first-secret-key still-used-key")).toBe("first-secret-key [redacted]");
+  });
+
+  it("never forgets secrets registered for the life of the process", () => {
+    registerSecret("sidecar-secret-value");
+    for (let i = 0; i <= MAX_REQUEST_SECRETS; i++) {
+      registerSecretsIn({ apiKey: `other-key-${i}` });
+    }
+
+    expect(redact("sidecar-secret-value")).toBe("[redacted]");
+  });
+});
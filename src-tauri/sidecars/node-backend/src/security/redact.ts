@@ -0,0 +1,120 @@
+/**
+ * Log Redaction
+ *
+ * Requests carry provider API keys, email passwords and tokens in their
+ * bodies, and provider errors sometimes echo them back. Once installed,
+ * console output is redacted before it's printed: values under
+ * secret-looking keys are masked, and so is any occurrence of a secret seen
+ * in a recent request body, wherever it turns up in a message or stack trace.
+ */
+import { inspect } from "node:util";
+import { MAX_REQUEST_SECRETS } from "../config.js";
+
+const REDACTED = "[redacted]";
+
+/** Keys whose values are secrets: apiKeys, password, token, authorization... */
+const SECRET_KEY_PATTERN = /api_?keys?$|secret|password|authorization|token$/i;
+
+/** Shorter strings are too likely to appear in ordinary text */
+const MIN_SECRET_LENGTH = 8;
+
+// Secrets for the life of the process, like the sidecar's own
+const permanentSecrets = new Set<string>();
+
+// Secrets from request bodies, least recently seen first
+const requestSecrets = new Set<string>();
+
+function isSecretKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key);
+}
+
+/** Remember a secret for the life of the process, so log output never shows it */
+export function registerSecret(value: string): void {
+  if (value.length >= MIN_SECRET_LENGTH) {
+    permanentSecrets.add(value);
+  }
+}
+
+function registerRequestSecret(value: string): void {
+  if (value.length < MIN_SECRET_LENGTH || permanentSecrets.has(value)) return;
+  // Re-adding moves it to the back, behind secrets no longer sent
+  requestSecrets.delete(value);
+  requestSecrets.add(value);
+  if (requestSecrets.size > MAX_REQUEST_SECRETS) {
+    const [oldest] = requestSecrets;
+    if (oldest !== undefined) requestSecrets.delete(oldest);
+  }
+}
+
+/**
+ * Register every string under a secret-looking key of a parsed request
+ * body; the least recently sent are forgotten past `MAX_REQUEST_SECRETS`
+ */
+export function registerSecretsIn(body: unknown, underSecretKey = false): void {
+  if (typeof body === "string") {
+    if (underSecretKey) registerRequestSecret(body);
+  } else if (Array.isArray(body)) {
+    for (const item of body) registerSecretsIn(item, underSecretKey);
+  } else if (typeof body === "object" && body !== null) {
+    for (const [key, value] of Object.entries(body)) {
+      registerSecretsIn(value, underSecretKey || isSecretKey(key));
+    }
+  }
+}
+
+function redactString(text: string): string {
+  let result = text.replace(/(Bearer\s+)\S+/gi, `$1${REDACTED}`);
+  for (const secrets of [permanentSecrets, requestSecrets]) {
+    for (const secret of secrets) {
+      if (result.includes(secret)) {
+        result = result.split(secret).join(REDACTED);
+      }
+    }
+  }
+  return result;
+}
+
+/** A copy of a value that's safe to print */
+export function redact(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (typeof value === "string") return redactString(value);
+  if (typeof value !== "object" || value === null) return value;
+  if (seen.has(value)) return "[Circular]";
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, seen));
+  }
+
+  const redactEntries = (target: Record<string, unknown>) => {
+    for (const [key, entry] of Object.entries(value)) {
+      target[key] = isSecretKey(key) && entry !== undefined ? REDACTED : redact(entry, seen);
+    }
+    return target;
+  };
+
+  if (value instanceof Error) {
+    // Provider errors keep the request and response bodies as properties
+    const copy = new Error(redactString(value.message));
+    copy.name = value.name;
+    copy.stack = value.stack === undefined ? undefined : redactString(value.stack);
+    if (value.cause !== undefined) copy.cause = redact(value.cause, seen);
+    return redactEntries(copy as unknown as Record<string, unknown>);
+  }
+
+  const proto: unknown = Object.getPrototypeOf(value);
+  if (proto === Object.prototype || proto === null) {
+    return redactEntries({});
+  }
+  // Anything else (Headers, Maps, class instances) is printed as text
+  return redactString(inspect(value, { depth: 4 }));
+}
+
+/** Redact everything printed through console.log/info/warn/error/debug */
+export function installLogRedaction(): void {
+  for (const method of ["log", "info", "warn", "error", "debug"] as const) {
+    const print = console[method].bind(console);
+    console[method] = (...args: unknown[]) => {
+      print(...args.map((arg) => redact(arg)));
+    };
+  }
+}
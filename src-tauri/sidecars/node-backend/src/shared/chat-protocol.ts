@@ -0,0 +1,275 @@
+/**
+ * Chat Protocol
+ *
+ * The `/api/chat` contract: the request body, the NDJSON events streamed
+ * back, and the error codes both can carry. The sidecar validates requests
+ * against these schemas and the frontend validates each event, so the two
+ * sides can't drift apart silently.
+ *
+ * Shared with the frontend via the `@shared` alias. Depends only on zod.
+ */
+import { z } from "zod";
+import { isProviderId, type ProviderId } from "./providers.js";
+import type { ModelPrice } from "./pricing.js";
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Machine-readable failure reasons; the UI maps each to a targeted fix
+ * - missing_api_key: the provider needs a key that isn't configured
+ * - auth_failed: the provider rejected the key
+ * - rate_limited: too many requests; retrying later works
+ * - quota_exceeded: the account is out of credits
+ * - context_overflow: the prompt doesn't fit the model's context window
+ * - provider_unavailable: the provider (or local server) couldn't be reached
+ * - invalid_request: the request itself is malformed
+ * - unknown: anything else
+ */
+export const chatErrorCodeSchema = z.enum([
+  "missing_api_key",
+  "auth_failed",
+  "rate_limited",
+  "quota_exceeded",
+  "context_overflow",
+  "provider_unavailable",
+  "invalid_request",
+  "unknown",
+]);
+
+export type ChatErrorCode = z.infer<typeof chatErrorCodeSchema>;
+
+/** JSON body of a failed (non-streamed) response */
+export const chatErrorResponseSchema = z.object({
+  error: z.string(),
+  code: chatErrorCodeSchema,
+});
+
+export type ChatErrorResponse = z.infer<typeof chatErrorResponseSchema>;
+
+// =============================================================================
+// Request
+// =============================================================================
+
+export const providerIdSchema = z.custom<ProviderId>(isProviderId, { message: "Unknown provider" });
+
+/**
+ * File attached to a user message. Images are sent to the model as image
+ * parts; other files arrive with their text already extracted.
+ */
+export const chatAttachmentSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("image"),
+    name: z.string(),
+    mimeType: z.string(),
+    /** Base64, no data: prefix */
+    data: z.string(),
+  }),
+  z.object({
+    type: z.literal("file"),
+    name: z.string(),
+    mimeType: z.string(),
+    text: z.string(),
+  }),
+]);
+
+export const chatToolInvocationSchema = z.object({
+  toolCallId: z.string(),
+  toolName: z.string(),
+  args: z.record(z.unknown()),
+  state: z.string(),
+  result: z.unknown().optional(),
+});
+
+export const chatToolResultSchema = z.object({
+  toolCallId: z.string(),
+  result: z.unknown(),
+});
+
+export const chatMessageSchema = z.object({
+  /** Stored message id; lets a compaction summary record where it stops */
+  id: z.string().optional(),
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  attachments: z.array(chatAttachmentSchema).optional(),
+  toolInvocations: z.array(chatToolInvocationSchema).optional(),
+  toolResults: z.array(chatToolResultSchema).optional(),
+});
+
+export const emailConfigSchema = z.object({
+  address: z.string(),
+  username: z.string().optional(),
+  password: z.string(),
+  imapHost: z.string().optional(),
+  imapPort: z.string().optional(),
+  imapSecurity: z.string().optional(),
+  smtpHost: z.string().optional(),
+  smtpPort: z.string().optional(),
+  smtpSecurity: z.string().optional(),
+  sslVerify: z.string().optional(),
+});
+
+/**
+ * Who drives the tool loop:
+ * - "client": one model step per request; the frontend re-posts history with tool results
+ * - "server": the sidecar runs steps itself and only stops for interactive tools
+ */
+export const chatToolLoopModeSchema = z.enum(["client", "server"]);
+
+/**
+ * What happens to history that outgrows the context window:
+ * - "trim": drop the oldest messages
+ * - "compact": replace them with a model-written summary the client stores
+ */
+export const chatContextStrategySchema = z.enum(["trim", "compact"]);
+
+/** A model to try when the ones before it in the chain fail */
+export const fallbackModelSchema = z.object({
+  provider: providerIdSchema,
+  model: z.string().optional(),
+  baseUrl: z.string().optional(),
+});
+
+/**
+ * Parts of the multi-agent orchestrator that can each run on their own model
+ * - planner: breaks the task into tasks
+ * - explorer: researches for the planner
+ * - executor: works through the planned tasks
+ * - subExecutor: runs parts of a task the executor hands off in parallel
+ */
+export const agentRoleSchema = z.enum(["planner", "explorer", "executor", "subExecutor"]);
+
+/**
+ * Limits on one multi-agent session. Once one is reached the orchestrator
+ * stops its agents and reports what was done so far.
+ */
+export const agentBudgetSchema = z.object({
+  /** Prompt and completion tokens across every agent */
+  maxTokens: z.number().int().positive().optional(),
+  /** Estimated spend in USD; models without a price count as free */
+  maxCostUsd: z.number().positive().optional(),
+  /** Wall-clock time from the start of the session, not counting pauses */
+  maxDurationMs: z.number().int().positive().optional(),
+  /** Explore or executor sub-agents running at once */
+  maxParallelAgents: z.number().int().positive().optional(),
+  /** Tool calls across every agent */
+  maxToolCalls: z.number().int().positive().optional(),
+});
+
+export type AgentBudget = z.infer<typeof agentBudgetSchema>;
+
+/** Applied to the limits a request leaves out */
+export const DEFAULT_AGENT_BUDGET: AgentBudget = {
+  maxDurationMs: 30 * 60 * 1000,
+  maxParallelAgents: 4,
+  maxToolCalls: 200,
+};
+
+export const modelPriceSchema = z.object({
+  model: z.string(),
+  inputPerMTok: z.number().nonnegative(),
+  outputPerMTok: z.number().nonnegative(),
+}) satisfies z.ZodType<ModelPrice>;
+
+export const chatRequestSchema = z.object({
+  messages: z.array(chatMessageSchema),
+  threadId: z.string().optional(),
+  /** API keys for each configured provider, keyed by provider id */
+  apiKeys: z.record(providerIdSchema, z.string()).optional(),
+  perplexityApiKey: z.string().nullable().optional(),
+  firecrawlApiKey: z.string().nullable().optional(),
+  provider: providerIdSchema.optional(),
+  model: z.string().optional(),
+  baseUrl: z.string().optional(),
+  enableTools: z.boolean().optional(),
+  toolLoop: chatToolLoopModeSchema.optional(),
+  /** Extended-thinking token budget */
+  thinkingBudget: z.number().int().positive().optional(),
+  /** Sampling temperature; ignored while extended thinking is on */
+  temperature: z.number().min(0).max(2).optional(),
+  /** Cap on response tokens; also the room reserved for the response when trimming history */
+  maxOutputTokens: z.number().int().positive().optional(),
+  personality: z.string().optional(),
+  emailConfig: emailConfigSchema.optional(),
+  /** Stored summary standing in for messages before `messages` */
+  contextSummary: z.string().optional(),
+  contextStrategy: chatContextStrategySchema.optional(),
+  /** Tried in order when the provider keeps failing; keys come from `apiKeys` */
+  fallbacks: z.array(fallbackModelSchema).optional(),
+  /** Model for each orchestrator role; roles left out use the chat's model. Keys come from `apiKeys` */
+  agentModels: z.record(agentRoleSchema, fallbackModelSchema).optional(),
+  agentBudget: agentBudgetSchema.optional(),
+  /** Pause multi-agent sessions after planning until the user approves the plan */
+  agentPlanApproval: z.boolean().optional(),
+  /** The user's price table, for the agents' spending budget; the built-in one when left out */
+  modelPrices: z.array(modelPriceSchema).optional(),
+});
+
+export type ChatAttachment = z.infer<typeof chatAttachmentSchema>;
+export type ChatToolInvocation = z.infer<typeof chatToolInvocationSchema>;
+export type ChatToolResult = z.infer<typeof chatToolResultSchema>;
+export type ChatIncomingMessage = z.infer<typeof chatMessageSchema>;
+export type EmailConfig = z.infer<typeof emailConfigSchema>;
+export type ChatToolLoopMode = z.infer<typeof chatToolLoopModeSchema>;
+export type ChatContextStrategy = z.infer<typeof chatContextStrategySchema>;
+export type FallbackModel = z.infer<typeof fallbackModelSchema>;
+export type AgentRole = z.infer<typeof agentRoleSchema>;
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
+export type ProviderApiKeys = NonNullable<ChatRequest["apiKeys"]>;
+export type AgentModelAssignments = NonNullable<ChatRequest["agentModels"]>;
+
+// =============================================================================
+// NDJSON Stream Events
+// =============================================================================
+
+/** Counts a provider didn't report (NaN, serialized as null) read as zero */
+const tokenCountSchema = z.number().nullish().transform((value) => value ?? 0);
+
+export const chatUsageSchema = z.object({
+  promptTokens: tokenCountSchema,
+  completionTokens: tokenCountSchema,
+  /** Zero for providers without prompt caching */
+  cacheReadTokens: tokenCountSchema,
+  cacheWriteTokens: tokenCountSchema,
+});
+
+/** One line of the `/api/chat` response stream */
+export const chatStreamEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text"), content: z.string() }),
+  z.object({ type: z.literal("thinking"), content: z.string() }),
+  z.object({
+    type: z.literal("tool_call"),
+    id: z.string(),
+    name: z.string(),
+    args: z.record(z.unknown()),
+  }),
+  z.object({ type: z.literal("tool_result"), id: z.string(), result: z.unknown() }),
+  /** Server tool loop only: a model step begins / ends */
+  z.object({ type: z.literal("step_start"), step: z.number() }),
+  z.object({ type: z.literal("step_end"), step: z.number(), hasToolCalls: z.boolean() }),
+  /** The previous model failed; everything after this comes from `model` */
+  z.object({
+    type: z.literal("provider_switched"),
+    provider: providerIdSchema,
+    model: z.string(),
+    code: chatErrorCodeSchema,
+    message: z.string(),
+  }),
+  /** Old messages were folded into a new summary the client should store */
+  z.object({
+    type: z.literal("context_compacted"),
+    summary: z.string(),
+    throughMessageId: z.string(),
+  }),
+  z.object({
+    type: z.literal("end"),
+    hasToolCalls: z.boolean(),
+    awaitingUser: z.boolean(),
+    usage: chatUsageSchema,
+  }),
+  z.object({ type: z.literal("error"), message: z.string(), code: chatErrorCodeSchema }),
+]);
+
+export type ChatUsage = z.infer<typeof chatUsageSchema>;
+export type ChatStreamEvent = z.infer<typeof chatStreamEventSchema>;
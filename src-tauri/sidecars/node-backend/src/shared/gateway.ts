@@ -0,0 +1,34 @@
+/**
+ * Local API Settings
+ *
+ * The sidecar's OpenAI-compatible endpoints (`/v1/*`) serve other programs,
+ * which don't carry AIOS's configuration the way the app's own requests do.
+ * The app pushes this snapshot of its settings whenever they may have
+ * changed, and the sidecar answers `/v1` requests with it.
+ *
+ * Shared with the frontend via the `@shared` alias. Depends only on zod.
+ */
+import { z } from "zod";
+import { emailConfigSchema, fallbackModelSchema, providerIdSchema } from "./chat-protocol.js";
+
+/** Model id that stands for whatever provider and model the app is set to */
+export const DEFAULT_GATEWAY_MODEL = "aios";
+
+export const gatewaySettingsSchema = z.object({
+  enabled: z.boolean(),
+  /** Bearer token `/v1` callers must present */
+  token: z.string().min(16),
+  /** The app's selected provider and model */
+  defaultModel: fallbackModelSchema,
+  /** Every provider that can serve requests, with the model and URL configured for it */
+  providers: z.array(fallbackModelSchema),
+  apiKeys: z.record(providerIdSchema, z.string()),
+  perplexityApiKey: z.string().optional(),
+  firecrawlApiKey: z.string().optional(),
+  enableTools: z.boolean(),
+  personality: z.string().optional(),
+  emailConfig: emailConfigSchema.optional(),
+  fallbacks: z.array(fallbackModelSchema),
+});
+
+export type GatewaySettings = z.infer<typeof gatewaySettingsSchema>;
@@ -0,0 +1,149 @@
+/**
+ * Model Capability Table
+ *
+ * Context window, tool support and vision for known model families, matched
+ * against the model id by longest prefix. Vendor prefixes ("qwen/") and
+ * Ollama tags (":latest") are ignored, so one entry covers every route to
+ * the same weights. Unknown models fall back to the provider's capabilities
+ * and a conservative context window.
+ *
+ * Shared with the frontend via the `@shared` alias; keep it dependency-free.
+ */
+import { PROVIDERS, type ProviderId } from "./providers.js";
+
+/** Bundled BPE encodings the sidecar can count tokens with */
+export type TokenizerEncoding = "o200k_base" | "cl100k_base";
+
+export interface ModelCapabilities {
+  /** Total context window in tokens (prompt + response) */
+  contextWindow: number;
+  tools: boolean;
+  vision: boolean;
+  /**
+   * Encoding that matches the model's tokenizer, or stands in for it (see
+   * `approximateTokenizer`). Omitted where none does; Anthropic counts
+   * through its API instead.
+   */
+  tokenizer?: TokenizerEncoding;
+  /**
+   * The model's own vocabulary isn't bundled, so `tokenizer` only estimates
+   * its counts and trimming leaves a safety margin
+   */
+  approximateTokenizer?: boolean;
+}
+
+interface ModelEntry extends ModelCapabilities {
+  /** Normalized model id prefix */
+  match: string;
+}
+
+/** Used for models not in the table */
+export const DEFAULT_CONTEXT_WINDOW = 16_000;
+
+/**
+ * Kimi, DeepSeek, Qwen and Llama have their own vocabularies, which we don't
+ * bundle. cl100k_base comes close on English and code but can be well off on
+ * other scripts, so counts made with it are padded (see the sidecar's
+ * `APPROXIMATE_TOKEN_MARGIN`).
+ */
+const CL100K_ESTIMATE = { tokenizer: "cl100k_base", approximateTokenizer: true } as const;
+
+export const MODEL_CAPABILITIES: ModelEntry[] = [
+  // Anthropic
+  { match: "claude", contextWindow: 200_000, tools: true, vision: true },
+
+  // OpenAI
+  { match: "gpt-5", contextWindow: 400_000, tools: true, vision: true, tokenizer: "o200k_base" },
+  { match: "gpt-4.1", contextWindow: 1_047_576, tools: true, vision: true, tokenizer: "o200k_base" },
+  { match: "gpt-4o", contextWindow: 128_000, tools: true, vision: true, tokenizer: "o200k_base" },
+  { match: "gpt-4-turbo", contextWindow: 128_000, tools: true, vision: true, tokenizer: "cl100k_base" },
+  { match: "gpt-4", contextWindow: 8_192, tools: true, vision: false, tokenizer: "cl100k_base" },
+  { match: "gpt-3.5-turbo", contextWindow: 16_385, tools: true, vision: false, tokenizer: "cl100k_base" },
+  { match: "o1", contextWindow: 200_000, tools: true, vision: true, tokenizer: "o200k_base" },
+  { match: "o3", contextWindow: 200_000, tools: true, vision: true, tokenizer: "o200k_base" },
+  { match: "o4-mini", contextWindow: 200_000, tools: true, vision: true, tokenizer: "o200k_base" },
+  { match: "gpt-oss", contextWindow: 131_072, tools: true, vision: false, tokenizer: "o200k_base" },
+
+  // Google
+  { match: "gemini-2.5", contextWindow: 1_048_576, tools: true, vision: true },
+  { match: "gemini-2.0", contextWindow: 1_048_576, tools: true, vision: true },
+  { match: "gemini-1.5-pro", contextWindow: 2_097_152, tools: true, vision: true },
+  { match: "gemini-1.5-flash", contextWindow: 1_048_576, tools: true, vision: true },
+  { match: "gemma3", contextWindow: 131_072, tools: false, vision: true },
+
+  // Moonshot
+  { match: "kimi-k2.5", contextWindow: 262_144, tools: true, vision: false, ...CL100K_ESTIMATE },
+  { match: "kimi-k2", contextWindow: 131_072, tools: true, vision: false, ...CL100K_ESTIMATE },
+
+  // DeepSeek
+  { match: "deepseek-chat", contextWindow: 131_072, tools: true, vision: false, ...CL100K_ESTIMATE },
+  { match: "deepseek-v3", contextWindow: 131_072, tools: true, vision: false, ...CL100K_ESTIMATE },
+  { match: "deepseek-r1", contextWindow: 131_072, tools: false, vision: false, ...CL100K_ESTIMATE },
+
+  // Qwen
+  { match: "qwen3-coder", contextWindow: 262_144, tools: true, vision: false, ...CL100K_ESTIMATE },
+  { match: "qwen3-vl", contextWindow: 262_144, tools: true, vision: true, ...CL100K_ESTIMATE },
+  { match: "qwen3", contextWindow: 40_960, tools: true, vision: false, ...CL100K_ESTIMATE },
+  { match: "qwen2.5vl", contextWindow: 128_000, tools: false, vision: true, ...CL100K_ESTIMATE },
+  { match: "qwen2.5", contextWindow: 32_768, tools: true, vision: false, ...CL100K_ESTIMATE },
+  { match: "qwen", contextWindow: 32_768, tools: false, vision: false, ...CL100K_ESTIMATE },
+
+  // Meta
+  { match: "llama3.2-vision", contextWindow: 131_072, tools: false, vision: true, ...CL100K_ESTIMATE },
+  { match: "llama3.1", contextWindow: 131_072, tools: true, vision: false, ...CL100K_ESTIMATE },
+  { match: "llama3.2", contextWindow: 131_072, tools: true, vision: false, ...CL100K_ESTIMATE },
+  { match: "llama3.3", contextWindow: 131_072, tools: true, vision: false, ...CL100K_ESTIMATE },
+  { match: "llama3", contextWindow: 8_192, tools: false, vision: false, ...CL100K_ESTIMATE },
+  { match: "llama4", contextWindow: 1_048_576, tools: true, vision: true, ...CL100K_ESTIMATE },
+
+  // Mistral
+  { match: "mistral-nemo", contextWindow: 131_072, tools: true, vision: false },
+  { match: "mistral-small", contextWindow: 131_072, tools: true, vision: true },
+  { match: "mistral", contextWindow: 32_768, tools: true, vision: false },
+  { match: "mixtral", contextWindow: 32_768, tools: true, vision: false },
+];
+
+/**
+ * Lowercased model id without vendor prefix or Ollama tag
+ * ("qwen/qwen3-coder" -> "qwen3-coder", "llama3.1:8b" -> "llama3.1")
+ */
+export function normalizeModelId(model: string): string {
+  const withoutVendor = model.slice(model.lastIndexOf("/") + 1);
+  const colon = withoutVendor.indexOf(":");
+  return (colon >= 0 ? withoutVendor.slice(0, colon) : withoutVendor).toLowerCase();
+}
+
+function findModelEntry(model: string): ModelEntry | null {
+  const id = normalizeModelId(model);
+  let best: ModelEntry | null = null;
+  for (const entry of MODEL_CAPABILITIES) {
+    if (!id.startsWith(entry.match)) continue;
+    if (best === null || entry.match.length > best.match.length) {
+      best = entry;
+    }
+  }
+  return best;
+}
+
+/**
+ * Capabilities of a model as served by a provider. A feature the provider's
+ * API doesn't support is off even if the model has it.
+ */
+export function getModelCapabilities(provider: ProviderId, model: string): ModelCapabilities {
+  const providerCapabilities = PROVIDERS[provider].capabilities;
+  const entry = findModelEntry(model);
+  if (entry === null) {
+    return {
+      contextWindow: DEFAULT_CONTEXT_WINDOW,
+      tools: providerCapabilities.tools,
+      vision: providerCapabilities.vision,
+    };
+  }
+
+  const { match: _match, ...capabilities } = entry;
+  return {
+    ...capabilities,
+    tools: capabilities.tools && providerCapabilities.tools,
+    vision: capabilities.vision && providerCapabilities.vision,
+  };
+}
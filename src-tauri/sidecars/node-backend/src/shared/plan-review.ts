@@ -0,0 +1,40 @@
+/**
+ * Plan Review
+ *
+ * When the user asks to review plans, a multi-agent session pauses after
+ * planning until they answer `/api/agent/session/:threadId/plan` with this
+ * decision: the execute tasks to run, edited, reordered or added to, with
+ * what each waits for, or a rejection. Tasks of the plan left out of an
+ * approved list are dropped.
+ *
+ * Shared with the frontend via the `@shared` alias. Depends only on zod.
+ */
+import { z } from "zod";
+
+export const planTaskDraftSchema = z.object({
+  /** The planned task this edits; left out for a task the user added */
+  id: z.string().optional(),
+  title: z.string().trim().min(1),
+  description: z.string(),
+  /** Positions in the approved list of the earlier tasks that must be done first */
+  dependsOn: z.array(z.number().int().nonnegative()),
+});
+
+export const planDecisionSchema = z.discriminatedUnion("approved", [
+  z.object({
+    approved: z.literal(true),
+    tasks: z
+      .array(planTaskDraftSchema)
+      .min(1)
+      .refine((tasks) => tasks.every((task, index) => task.dependsOn.every((dep) => dep < index)), {
+        message: "Tasks can only depend on tasks listed before them",
+      }),
+  }),
+  z.object({
+    approved: z.literal(false),
+    reason: z.string().optional(),
+  }),
+]);
+
+export type PlanTaskDraft = z.infer<typeof planTaskDraftSchema>;
+export type PlanDecision = z.infer<typeof planDecisionSchema>;
@@ -0,0 +1,76 @@
+/**
+ * Model Pricing
+ *
+ * Estimates the cost of model usage from token counts. Prices are USD per
+ * million tokens, matched against the model id by longest prefix so dated
+ * snapshots (e.g. claude-sonnet-4-20250514) share one entry. The user edits
+ * the table in the app; the sidecar receives it with agent requests to keep
+ * sessions within their spending budget.
+ *
+ * Shared with the frontend via the `@shared` alias; keep it dependency-free.
+ */
+
+export interface ModelPrice {
+  /** Model id or id prefix */
+  model: string;
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+export interface PricedUsage {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens?: number | undefined;
+  cacheWriteTokens?: number | undefined;
+}
+
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: "claude-opus-4", inputPerMTok: 15, outputPerMTok: 75 },
+  { model: "claude-sonnet-4", inputPerMTok: 3, outputPerMTok: 15 },
+  { model: "claude-3-5-haiku", inputPerMTok: 0.8, outputPerMTok: 4 },
+  { model: "gpt-4.1-mini", inputPerMTok: 0.4, outputPerMTok: 1.6 },
+  { model: "gpt-4.1", inputPerMTok: 2, outputPerMTok: 8 },
+  { model: "gpt-4o-mini", inputPerMTok: 0.15, outputPerMTok: 0.6 },
+  { model: "gpt-4o", inputPerMTok: 2.5, outputPerMTok: 10 },
+  { model: "o4-mini", inputPerMTok: 1.1, outputPerMTok: 4.4 },
+  { model: "gemini-2.5-pro", inputPerMTok: 1.25, outputPerMTok: 10 },
+  { model: "gemini-2.5-flash", inputPerMTok: 0.3, outputPerMTok: 2.5 },
+  { model: "gemini-2.0-flash", inputPerMTok: 0.1, outputPerMTok: 0.4 },
+  { model: "moonshotai/kimi-k2.5", inputPerMTok: 0.6, outputPerMTok: 2.5 },
+  { model: "deepseek/deepseek-chat-v3.1", inputPerMTok: 0.27, outputPerMTok: 1.1 },
+  { model: "qwen/qwen3-coder", inputPerMTok: 0.4, outputPerMTok: 1.6 },
+];
+
+/** Anthropic bills cache writes at 1.25x and cache reads at 0.1x the input price */
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+
+/** Providers that run locally and never cost anything */
+const FREE_PROVIDERS = new Set(["ollama"]);
+
+export function getModelPrice(model: string, prices: ModelPrice[]): ModelPrice | null {
+  let best: ModelPrice | null = null;
+  for (const price of prices) {
+    if (price.model === "" || !model.startsWith(price.model)) continue;
+    if (best === null || price.model.length > best.model.length) {
+      best = price;
+    }
+  }
+  return best;
+}
+
+/**
+ * Estimated cost in USD, or null when the model has no price
+ */
+export function estimateCost(usage: PricedUsage, prices: ModelPrice[]): number | null {
+  if (FREE_PROVIDERS.has(usage.provider)) return 0;
+  const price = getModelPrice(usage.model, prices);
+  if (price === null) return null;
+  const inputTokens =
+    usage.promptTokens +
+    (usage.cacheWriteTokens ?? 0) * CACHE_WRITE_MULTIPLIER +
+    (usage.cacheReadTokens ?? 0) * CACHE_READ_MULTIPLIER;
+  return (inputTokens * price.inputPerMTok + usage.completionTokens * price.outputPerMTok) / 1_000_000;
+}
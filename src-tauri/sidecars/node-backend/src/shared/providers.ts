@@ -0,0 +1,173 @@
+/**
+ * Provider Registry
+ *
+ * Single source of truth for every AI provider AIOS can talk to.
+ * Shared between the sidecar (model creation, validation) and the
+ * frontend (settings pages, credential lookup) via the `@shared` alias.
+ *
+ * Keep this module dependency-free so both builds can import it.
+ */
+
+export type ProviderId =
+  | "anthropic"
+  | "openai"
+  | "google"
+  | "redpill"
+  | "ollama"
+  | "openai-compatible";
+
+/** Credential keys (secure storage) that hold provider API keys */
+export type ProviderCredentialKey =
+  | "anthropic_api_key"
+  | "openai_api_key"
+  | "google_api_key"
+  | "redpill_api_key"
+  | "openai_compatible_api_key";
+
+export interface ProviderCapabilities {
+  /** Supports tool/function calling */
+  tools: boolean;
+  /** Accepts image content parts */
+  vision: boolean;
+  /** Can stream reasoning ("thinking") tokens */
+  reasoning: boolean;
+  /** Accepts an explicit extended-thinking token budget */
+  thinkingBudget: boolean;
+  /** Honors cache breakpoints on the prompt prefix */
+  promptCaching: boolean;
+}
+
+export interface ProviderDefinition {
+  id: ProviderId;
+  name: string;
+  description: string;
+  /** Secure-storage key for the API key, or null if the provider needs none */
+  credentialKey: ProviderCredentialKey | null;
+  /** Whether requests fail without an API key */
+  requiresApiKey: boolean;
+  /** Base URL used when the user hasn't set one (null = SDK default) */
+  defaultBaseUrl: string | null;
+  /** Whether the settings page lets the user override the base URL */
+  baseUrlConfigurable: boolean;
+  /** Suggested models; users may still type any model id */
+  models: string[];
+  defaultModel: string;
+  capabilities: ProviderCapabilities;
+  /** Tools default to on only where the default model reliably supports them */
+  toolsEnabledByDefault: boolean;
+  keyPlaceholder?: string;
+  keyUrl?: string;
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderDefinition> = {
+  redpill: {
+    id: "redpill",
+    name: "RedPill",
+    description: "Confidential inference in GPU TEEs (OpenAI-compatible)",
+    credentialKey: "redpill_api_key",
+    requiresApiKey: true,
+    defaultBaseUrl: "https://api.redpill.ai/v1",
+    baseUrlConfigurable: false,
+    models: ["moonshotai/kimi-k2.5", "deepseek/deepseek-chat-v3.1", "qwen/qwen3-coder"],
+    defaultModel: "moonshotai/kimi-k2.5",
+    capabilities: { tools: true, vision: false, reasoning: true, thinkingBudget: false, promptCaching: false },
+    toolsEnabledByDefault: true,
+    keyPlaceholder: "sk-...",
+    keyUrl: "https://api.redpill.ai",
+  },
+  anthropic: {
+    id: "anthropic",
+    name: "Anthropic",
+    description: "Claude models",
+    credentialKey: "anthropic_api_key",
+    requiresApiKey: true,
+    defaultBaseUrl: null,
+    baseUrlConfigurable: false,
+    models: [
+      "claude-sonnet-4-20250514",
+      "claude-opus-4-20250514",
+      "claude-3-5-haiku-20241022",
+    ],
+    defaultModel: "claude-sonnet-4-20250514",
+    capabilities: { tools: true, vision: true, reasoning: true, thinkingBudget: true, promptCaching: true },
+    toolsEnabledByDefault: true,
+    keyPlaceholder: "sk-ant-api03-...",
+    keyUrl: "https://console.anthropic.com/settings/keys",
+  },
+  openai: {
+    id: "openai",
+    name: "OpenAI",
+    description: "GPT models",
+    credentialKey: "openai_api_key",
+    requiresApiKey: true,
+    defaultBaseUrl: null,
+    baseUrlConfigurable: false,
+    models: ["gpt-4.1", "gpt-4.1-mini", "gpt-4o", "gpt-4o-mini", "o4-mini"],
+    defaultModel: "gpt-4.1",
+    capabilities: { tools: true, vision: true, reasoning: false, thinkingBudget: false, promptCaching: false },
+    toolsEnabledByDefault: true,
+    keyPlaceholder: "sk-proj-...",
+    keyUrl: "https://platform.openai.com/api-keys",
+  },
+  google: {
+    id: "google",
+    name: "Google",
+    description: "Gemini models",
+    credentialKey: "google_api_key",
+    requiresApiKey: true,
+    defaultBaseUrl: null,
+    baseUrlConfigurable: false,
+    models: ["gemini-2.5-pro", "gemini-2.5-flash", "gemini-2.0-flash"],
+    defaultModel: "gemini-2.5-flash",
+    capabilities: { tools: true, vision: true, reasoning: true, thinkingBudget: false, promptCaching: false },
+    toolsEnabledByDefault: true,
+    keyPlaceholder: "AIza...",
+    keyUrl: "https://aistudio.google.com/app/apikey",
+  },
+  ollama: {
+    id: "ollama",
+    name: "Ollama (Local)",
+    description: "Models running on your machine",
+    credentialKey: null,
+    requiresApiKey: false,
+    defaultBaseUrl: "http://localhost:11434",
+    baseUrlConfigurable: true,
+    models: ["qwen3-vl:latest", "llama3.1:latest", "deepseek-r1:latest"],
+    defaultModel: "qwen3-vl:latest",
+    capabilities: { tools: true, vision: true, reasoning: true, thinkingBudget: false, promptCaching: false },
+    toolsEnabledByDefault: false,
+    keyUrl: "https://ollama.com/library",
+  },
+  "openai-compatible": {
+    id: "openai-compatible",
+    name: "OpenAI-Compatible",
+    description: "Any endpoint speaking the OpenAI chat API (LM Studio, vLLM, OpenRouter...)",
+    credentialKey: "openai_compatible_api_key",
+    requiresApiKey: false,
+    defaultBaseUrl: "http://localhost:1234/v1",
+    baseUrlConfigurable: true,
+    models: [],
+    defaultModel: "",
+    capabilities: { tools: true, vision: false, reasoning: false, thinkingBudget: false, promptCaching: false },
+    toolsEnabledByDefault: false,
+    keyPlaceholder: "optional",
+  },
+};
+
+/** Providers in the order they are presented in settings */
+export const PROVIDER_IDS: ProviderId[] = [
+  "redpill",
+  "ollama",
+  "anthropic",
+  "openai",
+  "google",
+  "openai-compatible",
+];
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+}
+
+export function getProviderDefinition(id: ProviderId): ProviderDefinition {
+  return PROVIDERS[id];
+}
@@ -0,0 +1,22 @@
+/**
+ * Sidecar Authentication
+ *
+ * The sidecar only serves the app that launched it: every HTTP request
+ * carries the per-launch secret in a header, and the agent WebSocket, which
+ * browsers can't give custom headers, carries it as a query parameter.
+ *
+ * Shared with the frontend via the `@shared` alias.
+ */
+
+/** Header carrying the secret on HTTP requests */
+export const SIDECAR_SECRET_HEADER = "X-AIOS-Secret";
+
+/** Query parameter carrying the secret on the WebSocket handshake */
+export const SIDECAR_SECRET_PARAM = "secret";
+
+/** What `/health` answers once the sidecar is serving */
+export interface SidecarHealth {
+  status: "ok";
+  /** Whether the app has pushed local API settings to this process yet */
+  localApiSettings: boolean;
+}
@@ -0,0 +1,21 @@
+/**
+ * Thread Tags
+ *
+ * Tags the user types and tags the model suggests are normalized the same
+ * way, so `#machine-learning` finds a thread tagged "Machine Learning".
+ *
+ * Shared with the frontend via the `@shared` alias.
+ */
+
+const MAX_TAG_LENGTH = 24;
+
+/** Lowercase, unprefixed, dash-separated: "Machine Learning" -> "machine-learning" */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .slice(0, MAX_TAG_LENGTH)
+    .replace(/^-+|-+$/g, "");
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from "vitest";
+import { addTaskToSession, createAgentSession, setAgentContext } from "../agent/sessions.js";
+import { createSetTaskTool } from "./builtin.js";
+
+// Keep sessions off disk
+vi.mock("../agent/store.js");
+
+const options = { toolCallId: "call", messages: [] };
+
+describe("createSetTaskTool", () => {
+  it("updates the task in its own session whatever the current agent context", async () => {
+    const session = createAgentSession("thread-own");
+    const other = createAgentSession("thread-other");
+    const task = addTaskToSession(session.id, "Build", "", "execute");
+    const setTask = createSetTaskTool(session.id, task.id);
+
+    // A chat request for another thread arrives while the executor runs
+    setAgentContext({ threadId: other.threadId });
+    await setTask.execute({ taskId: task.id, status: "done", result: "built" }, options);
+
+    expect(session.tasks.get(task.id)).toMatchObject({ status: "done", result: "built" });
+  });
+
+  it("rejects updates to other tasks", async () => {
+    const session = createAgentSession("thread-rejects");
+    const own = addTaskToSession(session.id, "Build", "", "execute");
+    const other = addTaskToSession(session.id, "Test", "", "execute");
+    const setTask = createSetTaskTool(session.id, own.id);
+
+    expect(await setTask.execute({ taskId: other.id, status: "done" }, options)).toEqual({
+      error: `You can only update your own task (${own.id})`,
+    });
+    expect(other.status).toBe("staged");
+  });
+});
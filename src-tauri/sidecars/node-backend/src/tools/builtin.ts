@@ -8,14 +8,15 @@ import { tool, type CoreTool } from "ai";
 import { z } from "zod";
 import {
   getAgentContext,
-  setAgentContext,
   createAgentSession,
   addTaskToSession,
   updateTaskStatus,
   getSessionTasks,
   clearCompletedTasks,
+  cancelAgentSession,
 } from "../agent/sessions.js";
 import { runOrchestrationPipeline } from "../agent/orchestrator.js";
+import { endSessionBudget, startSessionBudget } from "../agent/budget.js";
 import type { AgentTaskStatus } from "../types.js";
 
 // =============================================================================
@@ -60,9 +61,12 @@ export const configureSettingsTool = tool({
   description: `Request user to configure specific settings inline. Use when you need API keys, email credentials, or other configuration before proceeding with a task.
 
 Settings keys (hierarchical dot-notation):
-- "settings.provider": AI provider selection (Ollama/Anthropic)
+- "settings.provider": AI provider selection (RedPill/Ollama/Anthropic/OpenAI/Google/OpenAI-compatible)
 - "settings.keys": All API keys
 - "settings.keys.anthropic": Anthropic API key only
+- "settings.keys.openai": OpenAI API key only
+- "settings.keys.google": Google (Gemini) API key only
+- "settings.keys.redpill": RedPill API key only
 - "settings.keys.perplexity": Perplexity API key only
 - "settings.keys.firecrawl": Firecrawl API key only (for web fetch & search)
 - "settings.email": Full email settings (address, password, IMAP, SMTP)
@@ -70,7 +74,7 @@ Settings keys (hierarchical dot-notation):
 - "settings.email.imap": IMAP host/port/security only
 - "settings.email.smtp": SMTP host/port/security only
 
-Legacy flat keys also supported: "email", "perplexity", "anthropic", "ollama"
+Legacy flat keys also supported: "email", "perplexity", "anthropic", "openai", "google", "redpill", "ollama"
 
 The tool returns with awaiting_user_input=true. The user will fill out a form in the chat UI, then you can retry the operation.`,
   parameters: z.object({
@@ -238,95 +242,112 @@ Use this when sharing relevant media content or locations.`,
 // Agent Task Management Tools
 // =============================================================================
 
-export const addTaskTool = tool({
-  description: `Add a task to track during this agent session.
+/**
+ * The task tools work on the session they're created for. They take it as an
+ * argument rather than from the agent context, which the next chat request
+ * replaces while the session's agents are still running.
+ */
+export function createAddTaskTool(sessionId: string) {
+  return tool({
+    description: `Add a task to track during this agent session.
 
 Use this to break down complex work into trackable steps.
-Each task should be specific and actionable.`,
-  parameters: z.object({
-    title: z.string().describe("Short task title"),
-    description: z.string().describe("Detailed description of what to do"),
-    type: z.enum(["plan", "explore", "execute"]).describe("Task category"),
-  }),
-  execute: async ({ title, description, type }) => {
-    const { sessionId } = getAgentContext();
-    if (!sessionId) {
-      return { error: "No active agent session" };
-    }
-    const task = addTaskToSession(sessionId, title, description, type);
-    return { taskId: task.id, status: "created" };
-  },
-});
+Each task should be specific and actionable.
+List in dependsOn the IDs of tasks that must finish first; their results are
+passed to this task. Tasks without pending dependencies run in parallel.`,
+    parameters: z.object({
+      title: z.string().describe("Short task title"),
+      description: z.string().describe("Detailed description of what to do"),
+      type: z.enum(["plan", "explore", "execute"]).describe("Task category"),
+      dependsOn: z
+        .array(z.string())
+        .optional()
+        .describe("IDs of tasks already added that must be done before this one starts"),
+    }),
+    execute: async ({ title, description, type, dependsOn = [] }) => {
+      // Dependencies must already exist, which also keeps the graph acyclic
+      const known = new Set(getSessionTasks(sessionId).map((t) => t.id));
+      const unknown = dependsOn.filter((id) => !known.has(id));
+      if (unknown.length > 0) {
+        return { error: `Unknown task IDs in dependsOn: ${unknown.join(", ")}. Add those tasks first.` };
+      }
+      const task = addTaskToSession(sessionId, title, description, type, [...new Set(dependsOn)]);
+      return { taskId: task.id, status: "created" };
+    },
+  });
+}
 
-export const setTaskTool = tool({
-  description: `Update a task's status.
+/**
+ * Create a set_task tool; given `ownTaskId`, updates to any other task are
+ * rejected, for agents that run a single task of the plan
+ */
+export function createSetTaskTool(sessionId: string, ownTaskId?: string) {
+  return tool({
+    description: `Update a task's status.
 
 Use 'in_progress' when starting work on a task.
 Use 'done' when the task is complete.
 Use 'cancelled' if the task cannot be completed.`,
-  parameters: z.object({
-    taskId: z.string().describe("The task ID to update"),
-    status: z
-      .enum(["staged", "in_progress", "done", "cancelled"])
-      .describe("New status"),
-    result: z.unknown().optional().describe("Result data when marking done"),
-  }),
-  execute: async ({ taskId, status, result }) => {
-    const { sessionId } = getAgentContext();
-    if (!sessionId) {
-      return { error: "No active agent session" };
-    }
-    updateTaskStatus(sessionId, taskId, status, result);
-    return { taskId, status, updated: true };
-  },
-});
+    parameters: z.object({
+      taskId: z.string().describe("The task ID to update"),
+      status: z
+        .enum(["staged", "in_progress", "done", "cancelled"])
+        .describe("New status"),
+      result: z.unknown().optional().describe("Result data when marking done"),
+    }),
+    execute: async ({ taskId, status, result }) => {
+      if (ownTaskId !== undefined && taskId !== ownTaskId) {
+        return { error: `You can only update your own task (${ownTaskId})` };
+      }
+      updateTaskStatus(sessionId, taskId, status, result);
+      return { taskId, status, updated: true };
+    },
+  });
+}
 
-export const viewTasksTool = tool({
-  description: "View all tasks in the current agent session.",
-  parameters: z.object({
-    filter: z
-      .enum(["all", "pending", "in_progress", "done"])
-      .optional()
-      .describe("Filter by status"),
-  }),
-  execute: async ({ filter }) => {
-    const { sessionId } = getAgentContext();
-    if (!sessionId) {
-      return { error: "No active agent session", tasks: [] };
-    }
-    let tasks = getSessionTasks(sessionId);
-    if (filter && filter !== "all") {
-      const statusMap: Record<string, AgentTaskStatus[]> = {
-        pending: ["staged"],
-        in_progress: ["in_progress"],
-        done: ["done", "cancelled"],
+export function createViewTasksTool(sessionId: string) {
+  return tool({
+    description: "View all tasks in the current agent session.",
+    parameters: z.object({
+      filter: z
+        .enum(["all", "pending", "in_progress", "done"])
+        .optional()
+        .describe("Filter by status"),
+    }),
+    execute: async ({ filter }) => {
+      let tasks = getSessionTasks(sessionId);
+      if (filter && filter !== "all") {
+        const statusMap: Record<string, AgentTaskStatus[]> = {
+          pending: ["staged"],
+          in_progress: ["in_progress"],
+          done: ["done", "cancelled"],
+        };
+        const statuses = statusMap[filter];
+        tasks = tasks.filter((t) => statuses.includes(t.status));
+      }
+      return {
+        tasks: tasks.map((t) => ({
+          id: t.id,
+          title: t.title,
+          type: t.type,
+          status: t.status,
+          dependsOn: t.dependsOn,
+        })),
       };
-      const statuses = statusMap[filter];
-      tasks = tasks.filter((t) => statuses.includes(t.status));
-    }
-    return {
-      tasks: tasks.map((t) => ({
-        id: t.id,
-        title: t.title,
-        type: t.type,
-        status: t.status,
-      })),
-    };
-  },
-});
+    },
+  });
+}
 
-export const clearTasksTool = tool({
-  description: "Clear completed and cancelled tasks from the list.",
-  parameters: z.object({}),
-  execute: async () => {
-    const { sessionId } = getAgentContext();
-    if (!sessionId) {
-      return { error: "No active agent session" };
-    }
-    clearCompletedTasks(sessionId);
-    return { cleared: true };
-  },
-});
+export function createClearTasksTool(sessionId: string) {
+  return tool({
+    description: "Clear completed and cancelled tasks from the list.",
+    parameters: z.object({}),
+    execute: async () => {
+      clearCompletedTasks(sessionId);
+      return { cleared: true };
+    },
+  });
+}
 
 export const summarizeFindingsTool = tool({
   description:
@@ -343,9 +364,9 @@ export const summarizeFindingsTool = tool({
 
 export const reportCompletionTool = tool({
   description:
-    "Report completion of your assigned tasks. This ends your work and returns results to the parent agent.",
+    "Report completion of your assigned work. This ends your work and returns results to the parent agent.",
   parameters: z.object({
-    success: z.boolean().describe("Whether all tasks completed successfully"),
+    success: z.boolean().describe("Whether the work completed successfully"),
     summary: z.string().describe("Summary of what was done"),
     errors: z.array(z.string()).optional().describe("Any errors encountered"),
   }),
@@ -374,25 +395,35 @@ Do NOT use for:
 - Small, direct edits
 
 This tool will plan and execute the task, then return the final result.
-Progress will be shown in the task panel while work is ongoing.`,
+Progress will be shown in the task panel while work is ongoing. If the user
+reviews plans, execution waits for them to approve, edit or reject the plan.`,
   parameters: z.object({
     task: z.string().describe("Description of the complex task to plan and execute"),
   }),
-  execute: async ({ task }) => {
-    const { threadId, apiKey, perplexityApiKey } = getAgentContext();
+  execute: async ({ task }, { abortSignal }) => {
+    const { threadId, models, budget, planApproval, prices, perplexityApiKey, fallbacks } = getAgentContext();
     if (!threadId) {
       return { error: "No thread context available", success: false };
     }
-    if (!apiKey) {
-      return { error: "No API key available for plan agent", success: false };
+    if (!models) {
+      return { error: "No models configured for the agents", success: false };
     }
 
-    const session = createAgentSession(threadId);
+    const session = createAgentSession(threadId, budget);
     session.planContent = task;
-    setAgentContext({ sessionId: session.id, threadId, apiKey, perplexityApiKey });
+    startSessionBudget(session, prices);
+
+    // Stopping the chat request stops the whole orchestration
+    abortSignal?.addEventListener(
+      "abort",
+      () => {
+        cancelAgentSession(session.id, "Cancelled by user");
+      },
+      { once: true }
+    );
 
     try {
-      return await runOrchestrationPipeline(session, task, apiKey, perplexityApiKey);
+      return await runOrchestrationPipeline(session, task, models, perplexityApiKey, fallbacks, planApproval);
     } catch (err) {
       console.error("[ComplexTool] Orchestration error:", err);
       return {
@@ -401,6 +432,8 @@ Progress will be shown in the task panel while work is ongoing.`,
         summary: "Orchestration failed",
         tasksSummary: [],
       };
+    } finally {
+      endSessionBudget(session.id);
     }
   },
 });
@@ -446,6 +479,16 @@ export const updatePersonalityTool = tool({
   },
 });
 
+/**
+ * Tools whose result waits on the user. The server-side tool loop stops
+ * after a step that calls one of these and hands control to the frontend.
+ */
+export const INTERACTIVE_TOOL_NAMES: ReadonlySet<string> = new Set([
+  "ask_user",
+  "configure_settings",
+  "update_personality",
+]);
+
 /**
  * Get all built-in tools as a record
  */
@@ -16,10 +16,12 @@ export function createPerplexityTools(
 
   const callPerplexity = async (
     model: string,
-    query: string
+    query: string,
+    abortSignal: AbortSignal | undefined
   ): Promise<{ content: string; citations: string[] }> => {
     const response = await fetch("https://api.perplexity.ai/chat/completions", {
       method: "POST",
+      signal: abortSignal,
       headers: {
         Authorization: `Bearer ${apiKey}`,
         "Content-Type": "application/json",
@@ -53,8 +55,8 @@ export function createPerplexityTools(
       parameters: z.object({
         query: z.string().describe("The question or search query"),
       }),
-      execute: async ({ query }) => {
-        const result = await callPerplexity("sonar", query);
+      execute: async ({ query }, { abortSignal }) => {
+        const result = await callPerplexity("sonar", query, abortSignal);
         return truncateToolResultForContext({
           answer: result.content,
           citations: result.citations,
@@ -68,8 +70,8 @@ export function createPerplexityTools(
       parameters: z.object({
         query: z.string().describe("The research topic or question"),
       }),
-      execute: async ({ query }) => {
-        const result = await callPerplexity("sonar-pro", query);
+      execute: async ({ query }, { abortSignal }) => {
+        const result = await callPerplexity("sonar-pro", query, abortSignal);
         return truncateToolResultForContext({
           research: result.content,
           citations: result.citations,
@@ -83,8 +85,8 @@ export function createPerplexityTools(
       parameters: z.object({
         query: z.string().describe("The problem or question to analyze"),
       }),
-      execute: async ({ query }) => {
-        const result = await callPerplexity("sonar-reasoning", query);
+      execute: async ({ query }, { abortSignal }) => {
+        const result = await callPerplexity("sonar-reasoning", query, abortSignal);
         return truncateToolResultForContext({
           reasoning: result.content,
           citations: result.citations,
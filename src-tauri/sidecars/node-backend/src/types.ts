@@ -16,6 +16,8 @@ export interface AgentTask {
   description: string;
   type: AgentTaskType;
   status: AgentTaskStatus;
+  /** Ids of the tasks that must be done before this one can start */
+  dependsOn: string[];
   result?: unknown;
   createdAt: Date;
   startedAt?: Date;
@@ -25,22 +27,101 @@ export interface AgentTask {
 export type AgentSessionStatus =
   | "planning"
   | "exploring"
+  | "awaiting_approval"
   | "executing"
+  | "paused"
   | "waiting_user"
   | "complete"
-  | "error";
+  | "error"
+  | "cancelled";
+
+/** What a session has consumed of its budget */
+export interface AgentUsage {
+  tokens: number;
+  /** Estimated; models without a price count as free */
+  costUsd: number;
+  toolCalls: number;
+  /** Wall-clock time since the session started */
+  elapsedMs: number;
+}
+
+export type AgentBudget = import("./shared/chat-protocol.js").AgentBudget;
 
 export interface AgentSession {
   id: string;
   threadId: string;
   status: AgentSessionStatus;
   tasks: Map<string, AgentTask>;
+  transcripts: AgentTranscript[];
+  budget: AgentBudget;
+  usage: AgentUsage;
   planContent?: string;
   error?: string;
   createdAt: Date;
   lastActivityAt: Date;
 }
 
+// =============================================================================
+// Agent Transcripts
+// =============================================================================
+
+export type AgentTranscriptRole = "plan" | "explore" | "executor" | "sub_executor";
+
+export type AgentTranscriptEntry =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; toolCallId: string; toolName: string; args: unknown }
+  | { type: "tool_result"; toolCallId: string; toolName: string; result: string };
+
+/** What one agent of a session was asked and everything it did */
+export interface AgentTranscript {
+  id: string;
+  role: AgentTranscriptRole;
+  /** e.g. "Plan", "Explore 2" */
+  label: string;
+  /** System prompt including its assignment */
+  prompt: string;
+  entries: AgentTranscriptEntry[];
+  status: "running" | "done" | "error";
+  error?: string;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+// =============================================================================
+// Stored Agent Sessions (dates as ISO strings, as saved and served)
+// =============================================================================
+
+export interface AgentTaskRecord extends Omit<AgentTask, "createdAt" | "startedAt" | "completedAt"> {
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface AgentTranscriptRecord extends Omit<AgentTranscript, "startedAt" | "completedAt"> {
+  startedAt: string;
+  completedAt?: string;
+}
+
+/** A session in a thread's history */
+export interface AgentSessionSummary {
+  id: string;
+  threadId: string;
+  status: AgentSessionStatus;
+  planContent?: string;
+  error?: string;
+  createdAt: string;
+  lastActivityAt: string;
+  taskCount: number;
+  /** Missing on sessions saved before budgets existed */
+  budget?: AgentBudget;
+  usage?: AgentUsage;
+}
+
+export interface AgentSessionRecord extends AgentSessionSummary {
+  tasks: AgentTaskRecord[];
+  transcripts: AgentTranscriptRecord[];
+}
+
 // =============================================================================
 // WebSocket Update Types
 // =============================================================================
@@ -91,13 +172,49 @@ export interface WSToolCallUpdate extends WSUpdateBase {
   };
 }
 
+/** The tasks as the user edited them when approving the plan, in order */
+export interface WSPlanUpdate extends WSUpdateBase {
+  type: "plan_updated";
+  tasks: AgentTask[];
+}
+
+export interface WSBudgetUpdate extends WSUpdateBase {
+  type: "budget_updated";
+  budget: AgentBudget;
+  usage: AgentUsage;
+}
+
 export type WSUpdate =
   | WSSessionUpdate
+  | WSBudgetUpdate
   | WSTaskUpdate
+  | WSPlanUpdate
   | WSExploreUpdate
   | WSSubAgentUpdate
   | WSToolCallUpdate;
 
+/**
+ * Sent instead of a replay when a client can't resume from `?since=N`:
+ * the session's current state, which the events that follow build on.
+ */
+export interface WSSessionSnapshot extends WSUpdateBase {
+  type: "session_snapshot";
+  session: {
+    id: string;
+    status: AgentSessionStatus;
+    error?: string;
+  };
+  tasks: AgentTask[];
+  budget: AgentBudget;
+  usage: AgentUsage;
+}
+
+/**
+ * What clients receive: an update stamped with its place in the sequence
+ * and the sidecar process that numbered it
+ */
+export type WSMessage = (WSUpdate | WSSessionSnapshot) & { seq: number; epoch: string };
+
 // =============================================================================
 // MCP Types
 // =============================================================================
@@ -119,48 +236,41 @@ export interface MCPConnection {
 // Chat API Types
 // =============================================================================
 
-export interface EmailConfig {
-  address: string;
-  username?: string;
-  password: string;
-  imapHost?: string;
-  imapPort?: string;
-  imapSecurity?: string;
-  smtpHost?: string;
-  smtpPort?: string;
-  smtpSecurity?: string;
-  sslVerify?: string;
-}
-
-export interface ChatToolInvocation {
-  toolCallId: string;
-  toolName: string;
-  args: Record<string, unknown>;
-  state: string;
-  result?: unknown;
-}
-
-export interface ChatToolResult {
-  toolCallId: string;
-  result: unknown;
-}
-
-export interface ChatIncomingMessage {
-  role: "user" | "assistant";
-  content: string;
-  toolInvocations?: ChatToolInvocation[];
-  toolResults?: ChatToolResult[];
-}
+// Defined as zod schemas in the protocol shared with the frontend
+export type {
+  ChatAttachment,
+  ChatContextStrategy,
+  ChatIncomingMessage,
+  ChatToolInvocation,
+  ChatToolLoopMode,
+  ChatToolResult,
+  EmailConfig,
+  FallbackModel,
+  ProviderApiKeys,
+} from "./shared/chat-protocol.js";
 
 // =============================================================================
 // Agent Tool Context
 // =============================================================================
 
+/** Model each orchestrator role runs on, with its API key */
+export type AgentModels = Record<
+  import("./shared/chat-protocol.js").AgentRole,
+  import("./chat/providers.js").ModelSettings
+>;
+
 export interface AgentToolContext {
-  sessionId?: string;
   threadId?: string;
-  apiKey?: string;
+  models?: AgentModels;
+  /** Limits for sessions started from this request */
+  budget?: AgentBudget;
+  /** Pause sessions after planning until the user approves the plan */
+  planApproval?: boolean;
+  /** The user's price table, to estimate agent spend with */
+  prices?: import("./shared/pricing.js").ModelPrice[];
   perplexityApiKey?: string | null;
+  /** The user's fallback chain, tried after the agents' own model */
+  fallbacks?: import("./chat/providers.js").ModelSettings[];
 }
 
 // =============================================================================
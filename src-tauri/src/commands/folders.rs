@@ -0,0 +1,36 @@
+use tauri::AppHandle;
+
+use crate::db::{self, Folder};
+
+#[tauri::command]
+#[allow(clippy::needless_pass_by_value)]
+pub fn create_folder(app: AppHandle, name: String) -> Result<Folder, String> {
+    let db = db::get_db(&app);
+    let conn = db.conn();
+    db::folders::create_folder(&conn, &name).map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+#[allow(clippy::needless_pass_by_value)]
+pub fn list_folders(app: AppHandle) -> Result<Vec<Folder>, String> {
+    let db = db::get_db(&app);
+    let conn = db.conn();
+    db::folders::list_folders(&conn).map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+#[allow(clippy::needless_pass_by_value)]
+pub fn rename_folder(app: AppHandle, id: String, name: String) -> Result<(), String> {
+    let db = db::get_db(&app);
+    let conn = db.conn();
+    db::folders::rename_folder(&conn, &id, &name).map_err(|e| e.to_string())
+}
+
+/// Delete a folder; the threads in it are kept
+#[tauri::command]
+#[allow(clippy::needless_pass_by_value)]
+pub fn delete_folder(app: AppHandle, id: String) -> Result<(), String> {
+    let db = db::get_db(&app);
+    let conn = db.conn();
+    db::folders::delete_folder(&conn, &id).map_err(|e| e.to_string())
+}
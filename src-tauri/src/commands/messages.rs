@@ -1,6 +1,6 @@
 use tauri::AppHandle;
 
-use crate::db::{self, Message, NewMessage};
+use crate::db::{self, Message, NewMessage, SearchResult, UsageRecord};
 
 #[tauri::command]
 #[allow(clippy::needless_pass_by_value)]
@@ -22,19 +22,24 @@ pub fn get_messages(app: AppHandle, thread_id: String) -> Result<Vec<Message>, S
     db::messages::get_messages(&conn, &thread_id).map_err(|e| e.to_string())
 }
 
+/// Usage metadata of every assistant message, for the usage settings page
 #[tauri::command]
 #[allow(clippy::needless_pass_by_value)]
-pub fn delete_message(app: AppHandle, message_id: String) -> Result<(), String> {
+pub fn get_usage_records(app: AppHandle) -> Result<Vec<UsageRecord>, String> {
     let db = db::get_db(&app);
     let conn = db.conn();
-    db::messages::delete_message(&conn, &message_id).map_err(|e| e.to_string())
+    db::messages::get_usage_records(&conn).map_err(|e| e.to_string())
 }
 
-/// Delete a message and all messages after it in the same thread
+/// Full-text search over message content and tool results in every thread
 #[tauri::command]
 #[allow(clippy::needless_pass_by_value)]
-pub fn delete_messages_from(app: AppHandle, message_id: String) -> Result<(), String> {
+pub fn search_messages(
+    app: AppHandle,
+    query: String,
+    limit: Option<u32>,
+) -> Result<Vec<SearchResult>, String> {
     let db = db::get_db(&app);
     let conn = db.conn();
-    db::messages::delete_messages_from(&conn, &message_id).map_err(|e| e.to_string())
+    db::search::search_messages(&conn, &query, limit.unwrap_or(20)).map_err(|e| e.to_string())
 }
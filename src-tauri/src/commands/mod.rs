@@ -1,3 +1,4 @@
+pub mod folders;
 pub mod messages;
 pub mod settings;
 pub mod threads;
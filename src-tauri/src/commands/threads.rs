@@ -1,6 +1,7 @@
+use serde_json::Value;
 use tauri::AppHandle;
 
-use crate::db::{self, Thread};
+use crate::db::{self, Thread, ThreadImport};
 
 #[tauri::command]
 #[allow(clippy::needless_pass_by_value)]
@@ -33,3 +34,95 @@ pub fn update_thread_title(app: AppHandle, id: String, title: String) -> Result<
     let conn = db.conn();
     db::threads::update_thread_title(&conn, &id, &title).map_err(|e| e.to_string())
 }
+
+#[tauri::command]
+#[allow(clippy::needless_pass_by_value)]
+pub fn get_thread(app: AppHandle, id: String) -> Result<Option<Thread>, String> {
+    let db = db::get_db(&app);
+    let conn = db.conn();
+    db::threads::get_thread(&conn, &id).map_err(|e| e.to_string())
+}
+
+/// Store the compacted-context summary covering messages up to `summarized_through`
+#[tauri::command]
+#[allow(clippy::needless_pass_by_value)]
+pub fn update_thread_summary(
+    app: AppHandle,
+    id: String,
+    summary: String,
+    summarized_through: String,
+) -> Result<(), String> {
+    let db = db::get_db(&app);
+    let conn = db.conn();
+    db::threads::update_thread_summary(&conn, &id, &summary, &summarized_through)
+        .map_err(|e| e.to_string())
+}
+
+/// Set the thread's provider/model/generation overrides, or clear them with `None`
+#[tauri::command]
+#[allow(clippy::needless_pass_by_value)]
+pub fn update_thread_settings(
+    app: AppHandle,
+    id: String,
+    settings: Option<Value>,
+) -> Result<(), String> {
+    let db = db::get_db(&app);
+    let conn = db.conn();
+    db::threads::update_thread_settings(&conn, &id, settings.as_ref()).map_err(|e| e.to_string())
+}
+
+/// Show the branch ending at `message_id`
+#[tauri::command]
+#[allow(clippy::needless_pass_by_value)]
+pub fn update_thread_active_leaf(app: AppHandle, id: String, message_id: String) -> Result<(), String> {
+    let db = db::get_db(&app);
+    let conn = db.conn();
+    db::threads::update_thread_active_leaf(&conn, &id, &message_id).map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+#[allow(clippy::needless_pass_by_value)]
+pub fn update_thread_pinned(app: AppHandle, id: String, pinned: bool) -> Result<(), String> {
+    let db = db::get_db(&app);
+    let conn = db.conn();
+    db::threads::update_thread_pinned(&conn, &id, pinned).map_err(|e| e.to_string())
+}
+
+/// Archive a thread (hide it from the lists) or bring it back
+#[tauri::command]
+#[allow(clippy::needless_pass_by_value)]
+pub fn update_thread_archived(app: AppHandle, id: String, archived: bool) -> Result<(), String> {
+    let db = db::get_db(&app);
+    let conn = db.conn();
+    db::threads::update_thread_archived(&conn, &id, archived).map_err(|e| e.to_string())
+}
+
+/// Move a thread into a folder, or out of its folder with `None`
+#[tauri::command]
+#[allow(clippy::needless_pass_by_value)]
+pub fn update_thread_folder(
+    app: AppHandle,
+    id: String,
+    folder_id: Option<String>,
+) -> Result<(), String> {
+    let db = db::get_db(&app);
+    let conn = db.conn();
+    db::threads::update_thread_folder(&conn, &id, folder_id.as_deref()).map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+#[allow(clippy::needless_pass_by_value)]
+pub fn update_thread_tags(app: AppHandle, id: String, tags: Vec<String>) -> Result<(), String> {
+    let db = db::get_db(&app);
+    let conn = db.conn();
+    db::threads::update_thread_tags(&conn, &id, &tags).map_err(|e| e.to_string())
+}
+
+/// Create a new thread from an exported conversation
+#[tauri::command]
+#[allow(clippy::needless_pass_by_value)]
+pub fn import_thread(app: AppHandle, thread: ThreadImport) -> Result<Thread, String> {
+    let db = db::get_db(&app);
+    let mut conn = db.conn();
+    db::import::import_thread(&mut conn, &thread).map_err(|e| e.to_string())
+}
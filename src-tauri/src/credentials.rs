@@ -26,6 +26,11 @@ const CREDENTIAL_KEYS: &[&str] = &[
     "email_smtp_security",
     "email_ssl_verify",
     "firecrawl_api_key",
+    "redpill_api_key",
+    "openai_api_key",
+    "google_api_key",
+    "openai_compatible_api_key",
+    "local_api_token",
 ];
 
 /// Get a credential from the secure store
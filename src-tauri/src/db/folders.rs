@@ -0,0 +1,61 @@
+use anyhow::Result;
+use chrono::{DateTime, Utc};
+use rusqlite::{params, Connection};
+use serde::{Deserialize, Serialize};
+use uuid::Uuid;
+
+/// User-defined group of threads
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct Folder {
+    pub id: String,
+    pub name: String,
+    pub created_at: DateTime<Utc>,
+}
+
+pub fn create_folder(conn: &Connection, name: &str) -> Result<Folder> {
+    let id = Uuid::new_v4().to_string();
+    let now = Utc::now();
+
+    conn.execute(
+        "INSERT INTO folders (id, name, created_at) VALUES (?1, ?2, ?3)",
+        params![id, name, now.to_rfc3339()],
+    )?;
+
+    Ok(Folder {
+        id,
+        name: name.to_string(),
+        created_at: now,
+    })
+}
+
+/// All folders, by name
+pub fn list_folders(conn: &Connection) -> Result<Vec<Folder>> {
+    let mut stmt = conn.prepare("SELECT id, name, created_at FROM folders ORDER BY name COLLATE NOCASE")?;
+
+    let folders = stmt
+        .query_map([], |row| {
+            Ok(Folder {
+                id: row.get(0)?,
+                name: row.get(1)?,
+                created_at: row.get::<_, String>(2)?.parse().unwrap_or_else(|_| Utc::now()),
+            })
+        })?
+        .collect::<Result<Vec<_>, _>>()?;
+
+    Ok(folders)
+}
+
+pub fn rename_folder(conn: &Connection, id: &str, name: &str) -> Result<()> {
+    conn.execute(
+        "UPDATE folders SET name = ?1 WHERE id = ?2",
+        params![name, id],
+    )?;
+    Ok(())
+}
+
+/// Delete a folder; its threads stay, outside any folder
+pub fn delete_folder(conn: &Connection, id: &str) -> Result<()> {
+    conn.execute("DELETE FROM folders WHERE id = ?1", params![id])?;
+    Ok(())
+}
@@ -0,0 +1,150 @@
+use std::collections::{HashMap, HashSet};
+
+use anyhow::{bail, Result};
+use chrono::{DateTime, Utc};
+use rusqlite::{params, Connection};
+use serde::{Deserialize, Serialize};
+use serde_json::Value;
+use uuid::Uuid;
+
+use super::threads::Thread;
+
+/// Thread read back from a JSON export. Ids are the exporting app's; the
+/// import gives the thread and every message fresh ones. Folders belong to
+/// the exporting app, so the thread arrives outside any.
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ThreadImport {
+    pub title: Option<String>,
+    pub context_summary: Option<String>,
+    pub summarized_through: Option<String>,
+    pub settings: Option<Value>,
+    pub active_leaf_id: Option<String>,
+    pub pinned: Option<bool>,
+    pub archived: Option<bool>,
+    pub tags: Option<Vec<String>>,
+    pub created_at: Option<DateTime<Utc>>,
+    pub messages: Vec<MessageImport>,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct MessageImport {
+    pub id: String,
+    pub parent_id: Option<String>,
+    pub role: String,
+    pub content: String,
+    pub tool_invocations: Option<Vec<Value>>,
+    pub metadata: Option<Value>,
+    pub created_at: DateTime<Utc>,
+}
+
+/// Create a new thread holding an exported conversation, every branch
+/// included. Messages keep their timestamps; a parent that isn't in the
+/// export makes its reply a root. All or nothing.
+pub fn import_thread(conn: &mut Connection, import: &ThreadImport) -> Result<Thread> {
+    if let Some(message) = import
+        .messages
+        .iter()
+        .find(|m| m.role != "user" && m.role != "assistant")
+    {
+        bail!("Message {} has unknown role \"{}\"", message.id, message.role);
+    }
+
+    let messages = parents_first(&import.messages)?;
+
+    let tx = conn.transaction()?;
+    let thread_id = Uuid::new_v4().to_string();
+    let created_at = import.created_at.unwrap_or_else(Utc::now);
+    let updated_at = messages.iter().map(|m| m.created_at).max().unwrap_or(created_at);
+    let settings_json = import
+        .settings
+        .as_ref()
+        .map(|s| serde_json::to_string(s).unwrap_or_default());
+    let tags_json = serde_json::to_string(import.tags.as_deref().unwrap_or_default())?;
+
+    tx.execute(
+        "INSERT INTO threads (id, title, settings, pinned, archived, tags, created_at, updated_at) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)",
+        params![
+            thread_id,
+            import.title,
+            settings_json,
+            import.pinned.unwrap_or(false),
+            import.archived.unwrap_or(false),
+            tags_json,
+            created_at.to_rfc3339(),
+            updated_at.to_rfc3339()
+        ],
+    )?;
+
+    let mut new_ids: HashMap<&str, String> = HashMap::new();
+    for message in messages {
+        let id = Uuid::new_v4().to_string();
+        let parent_id = message
+            .parent_id
+            .as_deref()
+            .and_then(|parent| new_ids.get(parent).cloned());
+        let tool_invocations_json = message
+            .tool_invocations
+            .as_ref()
+            .map(|ti| serde_json::to_string(ti).unwrap_or_default());
+        let metadata_json = message
+            .metadata
+            .as_ref()
+            .map(|m| serde_json::to_string(m).unwrap_or_default());
+
+        tx.execute(
+            "INSERT INTO messages (id, thread_id, parent_id, role, content, tool_invocations, metadata, created_at) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)",
+            params![id, thread_id, parent_id, message.role, message.content, tool_invocations_json, metadata_json, message.created_at.to_rfc3339()],
+        )?;
+        new_ids.insert(message.id.as_str(), id);
+    }
+
+    // The summary only carries over if the message it runs up to did
+    let remap = |id: Option<&str>| id.and_then(|id| new_ids.get(id).cloned());
+    let summarized_through = remap(import.summarized_through.as_deref());
+    if let (Some(summary), Some(through)) = (&import.context_summary, &summarized_through) {
+        super::threads::update_thread_summary(&tx, &thread_id, summary, through)?;
+    }
+    if let Some(leaf_id) = remap(import.active_leaf_id.as_deref()) {
+        super::threads::update_thread_active_leaf(&tx, &thread_id, &leaf_id)?;
+    }
+
+    let thread = super::threads::get_thread(&tx, &thread_id)?;
+    tx.commit()?;
+    thread.ok_or_else(|| anyhow::anyhow!("Imported thread {thread_id} not found"))
+}
+
+/// Messages ordered so every parent comes before its replies, siblings
+/// oldest first. Timestamps alone can't be trusted for this: clocks move and
+/// edited exports can list a reply before its parent. Fails if parent links
+/// form a cycle.
+fn parents_first(messages: &[MessageImport]) -> Result<Vec<&MessageImport>> {
+    let ids: HashSet<&str> = messages.iter().map(|m| m.id.as_str()).collect();
+    let mut ordered: Vec<&MessageImport> = Vec::with_capacity(messages.len());
+    let mut replies: HashMap<&str, Vec<&MessageImport>> = HashMap::new();
+    for message in messages {
+        match message.parent_id.as_deref() {
+            Some(parent) if ids.contains(parent) => replies.entry(parent).or_default().push(message),
+            _ => ordered.push(message),
+        }
+    }
+    ordered.sort_by_key(|m| m.created_at);
+    for siblings in replies.values_mut() {
+        siblings.sort_by_key(|m| m.created_at);
+    }
+
+    // Breadth-first from the roots, appending each message's replies
+    let mut next = 0;
+    while let Some(&message) = ordered.get(next) {
+        if let Some(siblings) = replies.remove(message.id.as_str()) {
+            ordered.extend(siblings);
+        }
+        next += 1;
+    }
+
+    if ordered.len() < messages.len() {
+        bail!("The export's messages reply to each other in a cycle");
+    }
+    Ok(ordered)
+}
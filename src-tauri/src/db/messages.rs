@@ -10,20 +10,40 @@ use uuid::Uuid;
 pub struct Message {
     pub id: String,
     pub thread_id: String,
+    /// Message this one follows; `None` for the first message of the thread.
+    /// Edits and regenerations add siblings, so a thread is a tree.
+    pub parent_id: Option<String>,
     pub role: String,
     pub content: String,
     #[serde(skip_serializing_if = "Option::is_none")]
     pub tool_invocations: Option<Vec<Value>>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub metadata: Option<Value>,
     pub created_at: DateTime<Utc>,
 }
 
 #[derive(Debug, Clone, Serialize, Deserialize)]
 #[serde(rename_all = "camelCase")]
 pub struct NewMessage {
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub parent_id: Option<String>,
     pub role: String,
     pub content: String,
     #[serde(skip_serializing_if = "Option::is_none")]
     pub tool_invocations: Option<Vec<Value>>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub metadata: Option<Value>,
+}
+
+/// Token usage recorded on an assistant message, with its thread for aggregation
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct UsageRecord {
+    pub message_id: String,
+    pub thread_id: String,
+    pub thread_title: Option<String>,
+    pub usage: Value,
+    pub created_at: DateTime<Utc>,
 }
 
 pub fn save_message(conn: &Connection, thread_id: &str, message: &NewMessage) -> Result<Message> {
@@ -36,43 +56,56 @@ pub fn save_message(conn: &Connection, thread_id: &str, message: &NewMessage) ->
         .tool_invocations
         .as_ref()
         .map(|ti| serde_json::to_string(ti).unwrap_or_default());
+    let metadata_json: Option<String> = message
+        .metadata
+        .as_ref()
+        .map(|m| serde_json::to_string(m).unwrap_or_default());
 
     conn.execute(
-        "INSERT INTO messages (id, thread_id, role, content, tool_invocations, created_at) VALUES (?1, ?2, ?3, ?4, ?5, ?6)",
-        params![id, thread_id, message.role, message.content, tool_invocations_json, now_str],
+        "INSERT INTO messages (id, thread_id, parent_id, role, content, tool_invocations, metadata, created_at) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)",
+        params![id, thread_id, message.parent_id, message.role, message.content, tool_invocations_json, metadata_json, now_str],
     )?;
 
-    // Update thread timestamp
+    // Update thread timestamp; the new message is the tip of the branch being shown
     super::threads::update_thread_timestamp(conn, thread_id)?;
+    super::threads::update_thread_active_leaf(conn, thread_id, &id)?;
 
     Ok(Message {
         id,
         thread_id: thread_id.to_string(),
+        parent_id: message.parent_id.clone(),
         role: message.role.clone(),
         content: message.content.clone(),
         tool_invocations: message.tool_invocations.clone(),
+        metadata: message.metadata.clone(),
         created_at: now,
     })
 }
 
+/// All messages of a thread, every branch, oldest first
 pub fn get_messages(conn: &Connection, thread_id: &str) -> Result<Vec<Message>> {
     let mut stmt = conn.prepare(
-        "SELECT id, thread_id, role, content, tool_invocations, created_at FROM messages WHERE thread_id = ?1 ORDER BY created_at ASC",
+        "SELECT id, thread_id, parent_id, role, content, tool_invocations, metadata, created_at FROM messages WHERE thread_id = ?1 ORDER BY created_at ASC",
     )?;
 
     let messages = stmt
         .query_map(params![thread_id], |row| {
-            let tool_invocations_json: Option<String> = row.get(4)?;
+            let tool_invocations_json: Option<String> = row.get(5)?;
             let tool_invocations: Option<Vec<Value>> = tool_invocations_json
                 .and_then(|json| serde_json::from_str(&json).ok());
+            let metadata_json: Option<String> = row.get(6)?;
+            let metadata: Option<Value> = metadata_json
+                .and_then(|json| serde_json::from_str(&json).ok());
 
             Ok(Message {
                 id: row.get(0)?,
                 thread_id: row.get(1)?,
-                role: row.get(2)?,
-                content: row.get(3)?,
+                parent_id: row.get(2)?,
+                role: row.get(3)?,
+                content: row.get(4)?,
                 tool_invocations,
-                created_at: row.get::<_, String>(5)?.parse().unwrap_or_else(|_| Utc::now()),
+                metadata,
+                created_at: row.get::<_, String>(7)?.parse().unwrap_or_else(|_| Utc::now()),
             })
         })?
         .collect::<Result<Vec<_>, _>>()?;
@@ -80,25 +113,41 @@ pub fn get_messages(conn: &Connection, thread_id: &str) -> Result<Vec<Message>>
     Ok(messages)
 }
 
-pub fn delete_message(conn: &Connection, message_id: &str) -> Result<()> {
-    conn.execute("DELETE FROM messages WHERE id = ?1", params![message_id])?;
-    Ok(())
-}
-
-/// Delete a message and all messages after it in the same thread (by created_at)
-pub fn delete_messages_from(conn: &Connection, message_id: &str) -> Result<()> {
-    // Get the message's thread_id and created_at
-    let (thread_id, created_at): (String, String) = conn.query_row(
-        "SELECT thread_id, created_at FROM messages WHERE id = ?1",
-        params![message_id],
-        |row| Ok((row.get(0)?, row.get(1)?)),
+/// All assistant messages that carry usage metadata, oldest first
+pub fn get_usage_records(conn: &Connection) -> Result<Vec<UsageRecord>> {
+    let mut stmt = conn.prepare(
+        "SELECT m.id, m.thread_id, t.title, m.metadata, m.created_at FROM messages m JOIN threads t ON t.id = m.thread_id WHERE m.role = 'assistant' AND m.metadata IS NOT NULL ORDER BY m.created_at ASC",
     )?;
 
-    conn.execute(
-        "DELETE FROM messages WHERE thread_id = ?1 AND created_at >= ?2",
-        params![thread_id, created_at],
-    )?;
-    Ok(())
+    let rows = stmt
+        .query_map([], |row| {
+            let metadata_json: String = row.get(3)?;
+            Ok((
+                row.get::<_, String>(0)?,
+                row.get::<_, String>(1)?,
+                row.get::<_, Option<String>>(2)?,
+                metadata_json,
+                row.get::<_, String>(4)?,
+            ))
+        })?
+        .collect::<Result<Vec<_>, _>>()?;
+
+    let records = rows
+        .into_iter()
+        .filter_map(|(message_id, thread_id, thread_title, metadata_json, created_at)| {
+            let mut metadata: Value = serde_json::from_str(&metadata_json).ok()?;
+            let usage = metadata.get_mut("usage")?.take();
+            Some(UsageRecord {
+                message_id,
+                thread_id,
+                thread_title,
+                usage,
+                created_at: created_at.parse().unwrap_or_else(|_| Utc::now()),
+            })
+        })
+        .collect();
+
+    Ok(records)
 }
 
 #[allow(dead_code)]
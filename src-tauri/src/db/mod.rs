@@ -1,5 +1,8 @@
+pub mod folders;
+pub mod import;
 pub mod messages;
 mod schema;
+pub mod search;
 pub mod threads;
 
 use std::path::PathBuf;
@@ -9,7 +12,10 @@ use anyhow::Result;
 use rusqlite::Connection;
 use tauri::{AppHandle, Manager};
 
-pub use messages::{Message, NewMessage};
+pub use folders::Folder;
+pub use import::ThreadImport;
+pub use messages::{Message, NewMessage, UsageRecord};
+pub use search::SearchResult;
 pub use threads::Thread;
 
 pub struct Database {
@@ -52,5 +52,149 @@ pub fn init(conn: &Connection) -> Result<()> {
         )?;
     }
 
+    // Migration: add metadata column (JSON: interrupted flag, etc.)
+    let has_metadata: bool = conn
+        .prepare("SELECT COUNT(*) FROM pragma_table_info('messages') WHERE name='metadata'")?
+        .query_row([], |row| row.get::<_, i32>(0))
+        .map(|count| count > 0)
+        .unwrap_or(false);
+
+    if !has_metadata {
+        conn.execute("ALTER TABLE messages ADD COLUMN metadata TEXT", [])?;
+    }
+
+    // Migration: add context summary columns (compacted history of older messages)
+    let has_context_summary: bool = conn
+        .prepare("SELECT COUNT(*) FROM pragma_table_info('threads') WHERE name='context_summary'")?
+        .query_row([], |row| row.get::<_, i32>(0))
+        .map(|count| count > 0)
+        .unwrap_or(false);
+
+    if !has_context_summary {
+        conn.execute("ALTER TABLE threads ADD COLUMN context_summary TEXT", [])?;
+        conn.execute("ALTER TABLE threads ADD COLUMN summarized_through TEXT", [])?;
+    }
+
+    // Migration: add settings column (per-thread model and generation overrides)
+    let has_settings: bool = conn
+        .prepare("SELECT COUNT(*) FROM pragma_table_info('threads') WHERE name='settings'")?
+        .query_row([], |row| row.get::<_, i32>(0))
+        .map(|count| count > 0)
+        .unwrap_or(false);
+
+    if !has_settings {
+        conn.execute("ALTER TABLE threads ADD COLUMN settings TEXT", [])?;
+    }
+
+    // Migration: add parent_id (threads become trees of branches) and the
+    // thread's active leaf. Existing threads are linear, so each message's
+    // parent is the one before it; messages written in the same instant are
+    // ordered by insertion (rowid).
+    let tx = conn.unchecked_transaction()?;
+    if !has_column(&tx, "messages", "parent_id")? {
+        tx.execute("ALTER TABLE messages ADD COLUMN parent_id TEXT", [])?;
+        tx.execute(
+            "UPDATE messages SET parent_id = (
+                SELECT prev.id FROM messages prev
+                WHERE prev.thread_id = messages.thread_id
+                    AND (prev.created_at, prev.rowid) < (messages.created_at, messages.rowid)
+                ORDER BY prev.created_at DESC, prev.rowid DESC LIMIT 1
+            )",
+            [],
+        )?;
+    }
+    if !has_column(&tx, "threads", "active_leaf_id")? {
+        tx.execute("ALTER TABLE threads ADD COLUMN active_leaf_id TEXT", [])?;
+    }
+    tx.commit()?;
+    conn.execute(
+        "CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON messages(parent_id)",
+        [],
+    )?;
+
+    // Migration: add thread organization (pinning, archive, folders, tags as a JSON array)
+    conn.execute_batch(
+        r"
+        CREATE TABLE IF NOT EXISTS folders (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            created_at TEXT NOT NULL
+        );
+        ",
+    )?;
+    let tx = conn.unchecked_transaction()?;
+    for (column, definition) in [
+        ("pinned", "INTEGER NOT NULL DEFAULT 0"),
+        ("archived", "INTEGER NOT NULL DEFAULT 0"),
+        ("folder_id", "TEXT REFERENCES folders(id) ON DELETE SET NULL"),
+        ("tags", "TEXT"),
+    ] {
+        if !has_column(&tx, "threads", column)? {
+            tx.execute(&format!("ALTER TABLE threads ADD COLUMN {column} {definition}"), [])?;
+        }
+    }
+    tx.commit()?;
+
+    init_search_index(conn)?;
+
+    Ok(())
+}
+
+/// Whether `table` already has `column`; SQLite has no `ADD COLUMN IF NOT EXISTS`
+fn has_column(conn: &Connection, table: &str, column: &str) -> Result<bool> {
+    let count: i32 = conn.query_row(
+        "SELECT COUNT(*) FROM pragma_table_info(?1) WHERE name = ?2",
+        [table, column],
+        |row| row.get(0),
+    )?;
+    Ok(count > 0)
+}
+
+/// SQL for the text of a row's tool results, for the search index
+fn tool_text_sql(row: &str) -> String {
+    format!(
+        "COALESCE((SELECT group_concat(json_extract(value, '$.result'), ' ')
+         FROM json_each(COALESCE({row}.tool_invocations, '[]'))), '')"
+    )
+}
+
+/// Full-text index over message content and tool results (FTS5), kept in
+/// sync with `messages` by triggers. Rows share the message's rowid.
+fn init_search_index(conn: &Connection) -> Result<()> {
+    let has_index: bool = conn
+        .prepare("SELECT COUNT(*) FROM sqlite_master WHERE type='table' AND name='messages_fts'")?
+        .query_row([], |row| row.get::<_, i32>(0))
+        .map(|count| count > 0)
+        .unwrap_or(false);
+
+    if !has_index {
+        conn.execute(
+            "CREATE VIRTUAL TABLE messages_fts USING fts5(content, tool_text, tokenize = 'porter unicode61')",
+            [],
+        )?;
+        // Index messages saved before search existed
+        let tool_text = tool_text_sql("messages");
+        conn.execute(
+            &format!(
+                "INSERT INTO messages_fts (rowid, content, tool_text)
+                 SELECT rowid, content, {tool_text} FROM messages"
+            ),
+            [],
+        )?;
+    }
+
+    let tool_text = tool_text_sql("NEW");
+    conn.execute_batch(&format!(
+        "CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+            INSERT INTO messages_fts (rowid, content, tool_text) VALUES (NEW.rowid, NEW.content, {tool_text});
+        END;
+        CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content, tool_invocations ON messages BEGIN
+            UPDATE messages_fts SET content = NEW.content, tool_text = {tool_text} WHERE rowid = NEW.rowid;
+        END;
+        CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+            DELETE FROM messages_fts WHERE rowid = OLD.rowid;
+        END;"
+    ))?;
+
     Ok(())
 }
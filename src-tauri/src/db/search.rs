@@ -0,0 +1,97 @@
+use anyhow::Result;
+use chrono::{DateTime, Utc};
+use rusqlite::{params, Connection};
+use serde::{Deserialize, Serialize};
+
+/// Message matching a full-text search, with an excerpt around the match
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct SearchResult {
+    pub message_id: String,
+    pub thread_id: String,
+    pub thread_title: Option<String>,
+    pub role: String,
+    /// Excerpt of the best-matching column; matched terms are wrapped in
+    /// `\u{2}` … `\u{3}`
+    pub snippet: String,
+    pub created_at: DateTime<Utc>,
+}
+
+/// Turn typed text into an FTS5 query: every word must match, the last one
+/// as a prefix so results follow typing. Quoting keeps FTS5 operators and
+/// punctuation in the input literal.
+fn to_match_query(query: &str) -> Option<String> {
+    let terms: Vec<String> = query
+        .split_whitespace()
+        .map(|term| format!("\"{}\"", term.replace('"', "\"\"")))
+        .collect();
+    if terms.is_empty() {
+        return None;
+    }
+    Some(format!("{}*", terms.join(" ")))
+}
+
+/// Search message content and tool results across all threads, best match
+/// first (BM25; content matches weigh more than tool output)
+pub fn search_messages(conn: &Connection, query: &str, limit: u32) -> Result<Vec<SearchResult>> {
+    let Some(match_query) = to_match_query(query) else {
+        return Ok(Vec::new());
+    };
+
+    let mut stmt = conn.prepare(
+        "SELECT m.id, m.thread_id, t.title, m.role,
+                snippet(messages_fts, -1, char(2), char(3), '…', 16), m.created_at
+         FROM messages_fts
+         JOIN messages m ON m.rowid = messages_fts.rowid
+         JOIN threads t ON t.id = m.thread_id
+         WHERE messages_fts MATCH ?1
+         ORDER BY bm25(messages_fts, 1.0, 0.5)
+         LIMIT ?2",
+    )?;
+
+    let results = stmt
+        .query_map(params![match_query, limit], |row| {
+            Ok(SearchResult {
+                message_id: row.get(0)?,
+                thread_id: row.get(1)?,
+                thread_title: row.get(2)?,
+                role: row.get(3)?,
+                snippet: row.get(4)?,
+                created_at: row.get::<_, String>(5)?.parse().unwrap_or_else(|_| Utc::now()),
+            })
+        })?
+        .collect::<Result<Vec<_>, _>>()?;
+
+    Ok(results)
+}
+
+#[cfg(test)]
+mod tests {
+    use super::to_match_query;
+
+    #[test]
+    fn requires_every_word_with_the_last_as_a_prefix() {
+        assert_eq!(
+            to_match_query("rust  borrow chec").as_deref(),
+            Some("\"rust\" \"borrow\" \"chec\"*")
+        );
+    }
+
+    #[test]
+    fn keeps_operators_and_quotes_literal() {
+        assert_eq!(
+            to_match_query("a OR b").as_deref(),
+            Some("\"a\" \"OR\" \"b\"*")
+        );
+        assert_eq!(
+            to_match_query("say \"hi\"").as_deref(),
+            Some("\"say\" \"\"\"hi\"\"\"*")
+        );
+    }
+
+    #[test]
+    fn is_none_without_words() {
+        assert_eq!(to_match_query(""), None);
+        assert_eq!(to_match_query("  \t\n"), None);
+    }
+}
@@ -2,6 +2,7 @@ use anyhow::Result;
 use chrono::{DateTime, Utc};
 use rusqlite::{params, Connection};
 use serde::{Deserialize, Serialize};
+use serde_json::Value;
 use uuid::Uuid;
 
 #[derive(Debug, Clone, Serialize, Deserialize)]
@@ -9,10 +10,53 @@ use uuid::Uuid;
 pub struct Thread {
     pub id: String,
     pub title: Option<String>,
+    /// Model-written summary standing in for the messages up to `summarized_through`
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub context_summary: Option<String>,
+    /// Id of the last message covered by `context_summary`
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub summarized_through: Option<String>,
+    /// Provider, model and generation overrides for this thread (JSON)
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub settings: Option<Value>,
+    /// Last message of the branch being shown; the path to it is the conversation
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub active_leaf_id: Option<String>,
+    /// Listed above the other threads
+    pub pinned: bool,
+    /// Hidden from the thread lists without being deleted
+    pub archived: bool,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    pub folder_id: Option<String>,
+    pub tags: Vec<String>,
     pub created_at: DateTime<Utc>,
     pub updated_at: DateTime<Utc>,
 }
 
+const THREAD_COLUMNS: &str = "id, title, context_summary, summarized_through, settings, active_leaf_id, pinned, archived, folder_id, tags, created_at, updated_at";
+
+fn thread_from_row(row: &rusqlite::Row<'_>) -> rusqlite::Result<Thread> {
+    Ok(Thread {
+        id: row.get(0)?,
+        title: row.get(1)?,
+        context_summary: row.get(2)?,
+        summarized_through: row.get(3)?,
+        settings: row
+            .get::<_, Option<String>>(4)?
+            .and_then(|json| serde_json::from_str(&json).ok()),
+        active_leaf_id: row.get(5)?,
+        pinned: row.get(6)?,
+        archived: row.get(7)?,
+        folder_id: row.get(8)?,
+        tags: row
+            .get::<_, Option<String>>(9)?
+            .and_then(|json| serde_json::from_str(&json).ok())
+            .unwrap_or_default(),
+        created_at: row.get::<_, String>(10)?.parse().unwrap_or_else(|_| Utc::now()),
+        updated_at: row.get::<_, String>(11)?.parse().unwrap_or_else(|_| Utc::now()),
+    })
+}
+
 pub fn create_thread(conn: &Connection) -> Result<Thread> {
     let id = Uuid::new_v4().to_string();
     let now = Utc::now();
@@ -26,23 +70,23 @@ pub fn create_thread(conn: &Connection) -> Result<Thread> {
     Ok(Thread {
         id,
         title: None,
+        context_summary: None,
+        summarized_through: None,
+        settings: None,
+        active_leaf_id: None,
+        pinned: false,
+        archived: false,
+        folder_id: None,
+        tags: Vec::new(),
         created_at: now,
         updated_at: now,
     })
 }
 
-#[allow(dead_code)]
 pub fn get_thread(conn: &Connection, id: &str) -> Result<Option<Thread>> {
-    let mut stmt = conn.prepare("SELECT id, title, created_at, updated_at FROM threads WHERE id = ?1")?;
+    let mut stmt = conn.prepare(&format!("SELECT {THREAD_COLUMNS} FROM threads WHERE id = ?1"))?;
 
-    let thread = stmt.query_row(params![id], |row| {
-        Ok(Thread {
-            id: row.get(0)?,
-            title: row.get(1)?,
-            created_at: row.get::<_, String>(2)?.parse().unwrap_or_else(|_| Utc::now()),
-            updated_at: row.get::<_, String>(3)?.parse().unwrap_or_else(|_| Utc::now()),
-        })
-    });
+    let thread = stmt.query_row(params![id], thread_from_row);
 
     match thread {
         Ok(t) => Ok(Some(t)),
@@ -52,17 +96,12 @@ pub fn get_thread(conn: &Connection, id: &str) -> Result<Option<Thread>> {
 }
 
 pub fn list_threads(conn: &Connection) -> Result<Vec<Thread>> {
-    let mut stmt = conn.prepare("SELECT id, title, created_at, updated_at FROM threads ORDER BY updated_at DESC")?;
+    let mut stmt = conn.prepare(&format!(
+        "SELECT {THREAD_COLUMNS} FROM threads ORDER BY pinned DESC, updated_at DESC"
+    ))?;
 
     let threads = stmt
-        .query_map([], |row| {
-            Ok(Thread {
-                id: row.get(0)?,
-                title: row.get(1)?,
-                created_at: row.get::<_, String>(2)?.parse().unwrap_or_else(|_| Utc::now()),
-                updated_at: row.get::<_, String>(3)?.parse().unwrap_or_else(|_| Utc::now()),
-            })
-        })?
+        .query_map([], thread_from_row)?
         .collect::<Result<Vec<_>, _>>()?;
 
     Ok(threads)
@@ -77,6 +116,72 @@ pub fn update_thread_title(conn: &Connection, id: &str, title: &str) -> Result<(
     Ok(())
 }
 
+pub fn update_thread_summary(
+    conn: &Connection,
+    id: &str,
+    summary: &str,
+    summarized_through: &str,
+) -> Result<()> {
+    conn.execute(
+        "UPDATE threads SET context_summary = ?1, summarized_through = ?2 WHERE id = ?3",
+        params![summary, summarized_through, id],
+    )?;
+    Ok(())
+}
+
+/// Replace the thread's overrides; `None` goes back to the global defaults
+pub fn update_thread_settings(conn: &Connection, id: &str, settings: Option<&Value>) -> Result<()> {
+    let json = settings.map(|s| serde_json::to_string(s).unwrap_or_default());
+    conn.execute(
+        "UPDATE threads SET settings = ?1 WHERE id = ?2",
+        params![json, id],
+    )?;
+    Ok(())
+}
+
+/// Switch the branch shown for the thread
+pub fn update_thread_active_leaf(conn: &Connection, id: &str, message_id: &str) -> Result<()> {
+    conn.execute(
+        "UPDATE threads SET active_leaf_id = ?1 WHERE id = ?2",
+        params![message_id, id],
+    )?;
+    Ok(())
+}
+
+pub fn update_thread_pinned(conn: &Connection, id: &str, pinned: bool) -> Result<()> {
+    conn.execute(
+        "UPDATE threads SET pinned = ?1 WHERE id = ?2",
+        params![pinned, id],
+    )?;
+    Ok(())
+}
+
+pub fn update_thread_archived(conn: &Connection, id: &str, archived: bool) -> Result<()> {
+    conn.execute(
+        "UPDATE threads SET archived = ?1 WHERE id = ?2",
+        params![archived, id],
+    )?;
+    Ok(())
+}
+
+/// Move the thread into a folder; `None` takes it out of its folder
+pub fn update_thread_folder(conn: &Connection, id: &str, folder_id: Option<&str>) -> Result<()> {
+    conn.execute(
+        "UPDATE threads SET folder_id = ?1 WHERE id = ?2",
+        params![folder_id, id],
+    )?;
+    Ok(())
+}
+
+pub fn update_thread_tags(conn: &Connection, id: &str, tags: &[String]) -> Result<()> {
+    let json = serde_json::to_string(tags)?;
+    conn.execute(
+        "UPDATE threads SET tags = ?1 WHERE id = ?2",
+        params![json, id],
+    )?;
+    Ok(())
+}
+
 pub fn update_thread_timestamp(conn: &Connection, id: &str) -> Result<()> {
     let now = Utc::now().to_rfc3339();
     conn.execute(
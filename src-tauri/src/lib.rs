@@ -1,12 +1,14 @@
 mod commands;
 mod credentials;
 mod db;
+mod sidecar;
 
 use std::fs;
 
 use db::Database;
 use tauri::menu::{MenuBuilder, SubmenuBuilder};
-use tauri::Manager;
+use sidecar::Sidecar;
+use tauri::{Manager, RunEvent};
 
 /// # Panics
 ///
@@ -23,9 +25,11 @@ pub fn run() {
             let database = Database::new(db_path)?;
             app.manage(database);
 
-            // Note: Node backend runs separately during development.
-            // For production, add sidecar spawning here.
-            // See: src-tauri/sidecars/node-backend/
+            // The Node backend gets a fresh secret every launch; the frontend
+            // asks for it through `get_sidecar_secret`
+            let sidecar = Sidecar::default();
+            sidecar.spawn(&app_data_dir)?;
+            app.manage(sidecar);
 
             // Create a custom menu with standard text editing shortcuts (Cmd+A, Cmd+C, etc.)
             // but without shortcuts that conflict with our app (the default Edit menu has Cmd+F for Find)
@@ -68,17 +72,36 @@ pub fn run() {
             commands::threads::list_threads,
             commands::threads::delete_thread,
             commands::threads::update_thread_title,
+            commands::threads::get_thread,
+            commands::threads::update_thread_summary,
+            commands::threads::update_thread_settings,
+            commands::threads::update_thread_active_leaf,
+            commands::threads::update_thread_pinned,
+            commands::threads::update_thread_archived,
+            commands::threads::update_thread_folder,
+            commands::threads::update_thread_tags,
+            commands::threads::import_thread,
+            commands::folders::create_folder,
+            commands::folders::list_folders,
+            commands::folders::rename_folder,
+            commands::folders::delete_folder,
             commands::messages::save_message,
             commands::messages::get_messages,
-            commands::messages::delete_message,
-            commands::messages::delete_messages_from,
+            commands::messages::get_usage_records,
+            commands::messages::search_messages,
             credentials::get_credential,
             credentials::set_credential,
             credentials::delete_credential,
             credentials::get_all_credentials,
             commands::settings::mark_settings_submitted,
             commands::settings::is_settings_submitted,
+            sidecar::get_sidecar_secret,
         ])
-        .run(tauri::generate_context!())
-        .expect("error while running tauri application");
+        .build(tauri::generate_context!())
+        .expect("error while building tauri application")
+        .run(|app, event| {
+            if let RunEvent::Exit = event {
+                sidecar::get_sidecar(app).stop();
+            }
+        });
 }
@@ -0,0 +1,117 @@
+//! Node backend sidecar
+//!
+//! The sidecar answers HTTP on port 3001 and streams agent updates over a
+//! WebSocket on 3002. Both only accept callers presenting a secret generated
+//! for this launch: the shell passes it to the sidecar through its
+//! environment and hands it to the frontend with `get_sidecar_secret`, so
+//! other local processes can't read agent activity or drive its tools.
+
+use std::path::Path;
+use std::process::{Child, Command};
+use std::sync::Mutex;
+use std::thread;
+use std::time::{Duration, Instant};
+
+use tauri::{AppHandle, Manager};
+
+/// Environment variable the sidecar reads its secret from
+const SECRET_ENV: &str = "AIOS_SIDECAR_SECRET";
+
+/// Environment variable naming the directory the sidecar saves agent sessions in
+const DATA_DIR_ENV: &str = "AIOS_DATA_DIR";
+
+/// How long the sidecar gets to save sessions and stop MCP servers on exit
+const SHUTDOWN_TIMEOUT: Duration = Duration::from_secs(5);
+
+pub struct Sidecar {
+    secret: String,
+    child: Mutex<Option<Child>>,
+}
+
+impl Default for Sidecar {
+    fn default() -> Self {
+        // Two v4 UUIDs: 244 random bits from the OS generator
+        let secret = format!(
+            "{}{}",
+            uuid::Uuid::new_v4().simple(),
+            uuid::Uuid::new_v4().simple()
+        );
+        Self {
+            secret,
+            child: Mutex::new(None),
+        }
+    }
+}
+
+impl Sidecar {
+    /// Start the backend with this launch's secret, saving its data
+    /// alongside the app's.
+    ///
+    /// Debug builds run it from the source tree; production bundling of the
+    /// sidecar isn't set up yet, see `sidecars/node-backend/`.
+    pub fn spawn(&self, data_dir: &Path) -> std::io::Result<()> {
+        if !cfg!(debug_assertions) {
+            return Ok(());
+        }
+
+        // A single process (no watcher) so stopping it stops the server
+        let child = Command::new("node")
+            .args(["--import", "tsx", "src/index.ts"])
+            .current_dir(concat!(env!("CARGO_MANIFEST_DIR"), "/sidecars/node-backend"))
+            .env(SECRET_ENV, &self.secret)
+            .env(DATA_DIR_ENV, data_dir)
+            .spawn()?;
+        *self.child.lock().expect("Sidecar mutex poisoned") = Some(child);
+        Ok(())
+    }
+
+    /// Stop the backend if this launch started it: ask it to shut down
+    /// cleanly, killing it if it hasn't within `SHUTDOWN_TIMEOUT`
+    pub fn stop(&self) {
+        let child = self.child.lock().expect("Sidecar mutex poisoned").take();
+        if let Some(mut child) = child {
+            if !(request_shutdown(&child) && wait_for_exit(&mut child, SHUTDOWN_TIMEOUT)) {
+                let _ = child.kill();
+                let _ = child.wait();
+            }
+        }
+    }
+}
+
+/// Send SIGTERM, which the sidecar handles by flushing sessions and stopping
+/// MCP servers. `Child::kill` sends SIGKILL, which skips that.
+#[cfg(unix)]
+fn request_shutdown(child: &Child) -> bool {
+    Command::new("kill")
+        .args(["-TERM", &child.id().to_string()])
+        .status()
+        .is_ok_and(|status| status.success())
+}
+
+#[cfg(not(unix))]
+const fn request_shutdown(_child: &Child) -> bool {
+    false
+}
+
+/// Whether the child exited within `timeout`
+fn wait_for_exit(child: &mut Child, timeout: Duration) -> bool {
+    let deadline = Instant::now() + timeout;
+    loop {
+        match child.try_wait() {
+            Ok(Some(_)) => return true,
+            Ok(None) if Instant::now() < deadline => thread::sleep(Duration::from_millis(50)),
+            _ => return false,
+        }
+    }
+}
+
+pub fn get_sidecar(app: &AppHandle) -> &Sidecar {
+    app.state::<Sidecar>().inner()
+}
+
+/// The secret the frontend must send with every sidecar request
+#[tauri::command]
+#[allow(clippy::needless_pass_by_value)]
+pub fn get_sidecar_secret(app: AppHandle) -> String {
+    get_sidecar(&app).secret.clone()
+}
@@ -0,0 +1,60 @@
+/**
+ * AgentBudgetUsage - What an agent session has used of its budget
+ *
+ * One meter per limit; limits the session doesn't have show the usage alone.
+ */
+import { formatCost } from "@app/lib/pricing";
+import { formatDuration, formatTokens } from "./format";
+import type { AgentBudget, AgentUsage } from "@app/types/agent";
+
+/** Meters turn red from this share of their limit */
+const WARNING_FRACTION = 0.9;
+
+interface Meter {
+  label: string;
+  used: number;
+  limit: number | undefined;
+  format: (value: number) => string;
+}
+
+function MeterRow({ meter }: { meter: Meter }) {
+  const fraction = meter.limit !== undefined ? Math.min(1, meter.used / meter.limit) : null;
+  const color = fraction !== null && fraction >= WARNING_FRACTION ? "var(--danger)" : "var(--fg-accent)";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs" style={{ color: "var(--fg-muted)" }}>
+        <span>{meter.label}</span>
+        <span>
+          {meter.format(meter.used)}
+          {meter.limit !== undefined && ` / ${meter.format(meter.limit)}`}
+        </span>
+      </div>
+      {fraction !== null && (
+        <div className="mt-1 h-1 overflow-hidden rounded-full" style={{ background: "var(--bg-tertiary)" }}>
+          <div
+            className="h-full rounded-full transition-all duration-300"
+            style={{ width: `${String(Math.round(fraction * 100))}%`, background: color }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function AgentBudgetUsage({ budget, usage }: { budget: AgentBudget; usage: AgentUsage }) {
+  const meters: Meter[] = [
+    { label: "Tokens", used: usage.tokens, limit: budget.maxTokens, format: formatTokens },
+    { label: "Spend", used: usage.costUsd, limit: budget.maxCostUsd, format: formatCost },
+    { label: "Tool calls", used: usage.toolCalls, limit: budget.maxToolCalls, format: String },
+    { label: "Time", used: usage.elapsedMs, limit: budget.maxDurationMs, format: formatDuration },
+  ];
+
+  return (
+    <div className="space-y-2">
+      {meters.map((meter) => (
+        <MeterRow key={meter.label} meter={meter} />
+      ))}
+    </div>
+  );
+}
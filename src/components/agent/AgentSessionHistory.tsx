@@ -0,0 +1,222 @@
+/**
+ * AgentSessionHistory - Past and running agent sessions of a thread
+ *
+ * Lists every session the thread has had; selecting one shows its tasks and
+ * the transcript of each agent (plan, explore, executors) as saved by the
+ * backend.
+ */
+import { useEffect, useState } from "react";
+import { AlertCircle, CheckCircle2, ChevronDown, ChevronRight, History, Loader2, Wrench } from "lucide-react";
+import { Modal } from "@app/components/ui/Modal";
+import { getAgentSessionRecord, listAgentSessions } from "@app/lib/ai";
+import { AgentTaskGraph } from "./AgentTaskGraph";
+import { AgentBudgetUsage } from "./AgentBudgetUsage";
+import { formatToolName, getStatusColor, getStatusLabel } from "./format";
+import type {
+  AgentSessionRecord,
+  AgentSessionSummary,
+  AgentTranscript,
+  AgentTranscriptEntry,
+} from "@app/types/agent";
+
+interface AgentSessionHistoryProps {
+  threadId: string;
+  isOpen: boolean;
+  /** Session to show first; defaults to the most recent */
+  initialSessionId?: string;
+  onClose: () => void;
+}
+
+function formatArgs(args: unknown): string {
+  return typeof args === "string" ? args : JSON.stringify(args, null, 2);
+}
+
+function TranscriptEntry({ entry }: { entry: AgentTranscriptEntry }) {
+  switch (entry.type) {
+    case "text":
+      return (
+        <p className="whitespace-pre-wrap text-sm" style={{ color: "var(--fg-primary)" }}>
+          {entry.text}
+        </p>
+      );
+    case "tool_call":
+    case "tool_result":
+      return (
+        <details className="rounded-lg px-3 py-2" style={{ background: "var(--bg-tertiary)" }}>
+          <summary className="flex cursor-pointer items-center gap-2 text-xs" style={{ color: "var(--fg-secondary)" }}>
+            <Wrench className="h-3 w-3 flex-shrink-0" style={{ color: "var(--fg-muted)" }} />
+            {formatToolName(entry.toolName)}
+            <span style={{ color: "var(--fg-muted)" }}>{entry.type === "tool_call" ? "call" : "result"}</span>
+          </summary>
+          <pre className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap text-xs" style={{ color: "var(--fg-secondary)" }}>
+            {entry.type === "tool_call" ? formatArgs(entry.args) : entry.result}
+          </pre>
+        </details>
+      );
+  }
+}
+
+function TranscriptSection({ transcript }: { transcript: AgentTranscript }) {
+  const [isExpanded, setIsExpanded] = useState(transcript.role === "plan");
+  const [showPrompt, setShowPrompt] = useState(false);
+
+  return (
+    <div className="rounded-xl border" style={{ borderColor: "var(--border-secondary)" }}>
+      <button
+        type="button"
+        onClick={() => { setIsExpanded(!isExpanded); }}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left"
+      >
+        {isExpanded ? (
+          <ChevronDown className="h-4 w-4" style={{ color: "var(--fg-muted)" }} />
+        ) : (
+          <ChevronRight className="h-4 w-4" style={{ color: "var(--fg-muted)" }} />
+        )}
+        <span className="flex-1 text-sm font-medium" style={{ color: "var(--fg-primary)" }}>
+          {transcript.label}
+        </span>
+        {transcript.status === "running" ? (
+          <Loader2 className="h-3.5 w-3.5 animate-spin" style={{ color: "var(--fg-accent)" }} />
+        ) : transcript.status === "done" ? (
+          <CheckCircle2 className="h-3.5 w-3.5" style={{ color: "var(--success)" }} />
+        ) : (
+          <AlertCircle className="h-3.5 w-3.5" style={{ color: "var(--danger)" }} />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="space-y-2 border-t px-3 py-3" style={{ borderColor: "var(--border-secondary)" }}>
+          <button
+            type="button"
+            onClick={() => { setShowPrompt(!showPrompt); }}
+            className="text-xs underline"
+            style={{ color: "var(--fg-muted)" }}
+          >
+            {showPrompt ? "Hide instructions" : "Show instructions"}
+          </button>
+          {showPrompt && (
+            <pre className="whitespace-pre-wrap rounded-lg p-3 text-xs" style={{ background: "var(--bg-secondary)", color: "var(--fg-secondary)" }}>
+              {transcript.prompt}
+            </pre>
+          )}
+          {transcript.entries.length === 0 && (
+            <p className="text-xs" style={{ color: "var(--fg-muted)" }}>No steps recorded</p>
+          )}
+          {transcript.entries.map((entry, index) => (
+            // Entries are append-only, so their position is stable
+            <TranscriptEntry key={index} entry={entry} />
+          ))}
+          {transcript.error !== undefined && (
+            <p className="text-xs" style={{ color: "var(--danger)" }}>{transcript.error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function AgentSessionHistory({ threadId, isOpen, initialSessionId, onClose }: AgentSessionHistoryProps) {
+  const [sessions, setSessions] = useState<AgentSessionSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [record, setRecord] = useState<AgentSessionRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    listAgentSessions(threadId)
+      .then((list) => {
+        setSessions(list);
+        setSelectedId(initialSessionId ?? list[0]?.id ?? null);
+      })
+      .catch((e: unknown) => { setError(e instanceof Error ? e.message : String(e)); });
+  }, [isOpen, threadId, initialSessionId]);
+
+  useEffect(() => {
+    if (!isOpen || selectedId === null) {
+      setRecord(null);
+      return;
+    }
+    let cancelled = false;
+    getAgentSessionRecord(threadId, selectedId)
+      .then((loaded) => { if (!cancelled) setRecord(loaded); })
+      .catch((e: unknown) => { if (!cancelled) setError(e instanceof Error ? e.message : String(e)); });
+    return () => { cancelled = true; };
+  }, [isOpen, threadId, selectedId]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} className="flex h-[80vh] w-full max-w-4xl overflow-hidden">
+      <div className="flex w-64 flex-shrink-0 flex-col border-r" style={{ borderColor: "var(--border-primary)" }}>
+        <div className="flex items-center gap-2 border-b px-4 py-3" style={{ borderColor: "var(--border-primary)" }}>
+          <History className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+          <span className="text-sm font-medium" style={{ color: "var(--fg-primary)" }}>Agent Sessions</span>
+        </div>
+        <div className="flex-1 space-y-1 overflow-y-auto p-2">
+          {sessions.map((s) => (
+            <button
+              key={s.id}
+              type="button"
+              onClick={() => { setSelectedId(s.id); }}
+              className="w-full rounded-lg px-3 py-2 text-left transition-colors hover:bg-[var(--bg-hover)]"
+              style={{ background: s.id === selectedId ? "var(--bg-tertiary)" : "transparent" }}
+            >
+              <p className="truncate text-sm" style={{ color: "var(--fg-primary)" }}>
+                {s.planContent ?? "Agent session"}
+              </p>
+              <p className="text-xs" style={{ color: "var(--fg-muted)" }}>
+                <span style={{ color: getStatusColor(s.status) }}>{getStatusLabel(s.status)}</span>
+                {" · "}
+                {new Date(s.createdAt).toLocaleString()}
+              </p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 space-y-4 overflow-y-auto p-5">
+        {error !== null && (
+          <p className="text-sm" style={{ color: "var(--danger)" }}>{error}</p>
+        )}
+        {record === null ? (
+          error === null && sessions.length > 0 && (
+            <Loader2 className="mx-auto h-6 w-6 animate-spin" style={{ color: "var(--fg-muted)" }} />
+          )
+        ) : (
+          <>
+            <div>
+              <p className="whitespace-pre-wrap text-sm font-medium" style={{ color: "var(--fg-primary)" }}>
+                {record.planContent ?? "Agent session"}
+              </p>
+              <p className="mt-1 text-xs" style={{ color: getStatusColor(record.status) }}>
+                {getStatusLabel(record.status)}
+                {record.error !== undefined && ` — ${record.error}`}
+              </p>
+            </div>
+
+            {record.budget !== undefined && record.usage !== undefined && (
+              <div className="max-w-sm">
+                <AgentBudgetUsage budget={record.budget} usage={record.usage} />
+              </div>
+            )}
+
+            {record.tasks.length > 0 && (
+              <div>
+                <p className="mb-1 text-xs font-medium uppercase tracking-wider" style={{ color: "var(--fg-muted)" }}>Tasks</p>
+                <AgentTaskGraph tasks={record.tasks} />
+              </div>
+            )}
+
+            <div>
+              <p className="mb-1 text-xs font-medium uppercase tracking-wider" style={{ color: "var(--fg-muted)" }}>Transcripts</p>
+              <div className="space-y-2">
+                {record.transcripts.map((transcript) => (
+                  <TranscriptSection key={transcript.id} transcript={transcript} />
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * AgentTaskGraph - Tasks grouped into the stages their dependencies impose
+ *
+ * A task's stage is one past the latest stage of the tasks it depends on, so
+ * every task in a stage can run in parallel once the earlier stages are done.
+ * Without dependencies this is a plain list.
+ */
+import { AgentTaskItem } from "./AgentTaskItem";
+import type { AgentTask } from "@app/types/agent";
+
+function taskStages(tasks: AgentTask[]): AgentTask[][] {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const depths = new Map<string, number>();
+
+  // Dependencies always name earlier tasks, so there are no cycles to guard against
+  const depthOf = (task: AgentTask): number => {
+    const known = depths.get(task.id);
+    if (known !== undefined) return known;
+    let depth = 0;
+    for (const id of task.dependsOn ?? []) {
+      const dep = byId.get(id);
+      if (dep !== undefined) depth = Math.max(depth, depthOf(dep) + 1);
+    }
+    depths.set(task.id, depth);
+    return depth;
+  };
+
+  const stages: AgentTask[][] = [];
+  for (const task of tasks) {
+    const depth = depthOf(task);
+    (stages[depth] ??= []).push(task);
+  }
+  // Stages may be missing when dependencies point at tasks no longer listed
+  return stages.filter((stage) => stage.length > 0);
+}
+
+export function AgentTaskGraph({ tasks }: { tasks: AgentTask[] }) {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const stages = taskStages(tasks);
+
+  const renderTask = (task: AgentTask) => (
+    <AgentTaskItem
+      key={task.id}
+      task={task}
+      dependencies={(task.dependsOn ?? []).flatMap((id) => byId.get(id) ?? [])}
+    />
+  );
+
+  if (stages.length <= 1) {
+    return <div className="space-y-1">{tasks.map(renderTask)}</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {stages.map((stage, index) => (
+        // Stages are derived from the tasks, so their position is their identity
+        <div key={index}>
+          <p className="px-3 pb-1 text-xs font-medium uppercase tracking-wider" style={{ color: "var(--fg-muted)" }}>
+            Stage {String(index + 1)}
+          </p>
+          <div className="space-y-1">{stage.map(renderTask)}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
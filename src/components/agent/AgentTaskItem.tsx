@@ -1,15 +1,25 @@
 /**
  * AgentTaskItem - Individual task display in the agent panel
+ *
+ * Shows what the task is waiting on while its dependencies run, and why it
+ * was cancelled.
  */
 import { Circle, CheckCircle2, Loader2, XCircle } from "lucide-react";
 import type { AgentTask } from "@app/types/agent";
 
 interface AgentTaskItemProps {
   task: AgentTask;
+  /** The tasks this one depends on */
+  dependencies?: AgentTask[];
 }
 
-export function AgentTaskItem({ task }: AgentTaskItemProps) {
+function titles(tasks: AgentTask[]): string {
+  return tasks.map((t) => t.title).join(", ");
+}
+
+export function AgentTaskItem({ task, dependencies = [] }: AgentTaskItemProps) {
   const { title, status, type } = task;
+  const waitingOn = dependencies.filter((t) => t.status !== "done");
 
   const getStatusIcon = () => {
     switch (status) {
@@ -64,6 +74,19 @@ export function AgentTaskItem({ task }: AgentTaskItemProps) {
         >
           {type}
         </span>
+        {status === "cancelled" && typeof task.result === "string" ? (
+          <p className="mt-0.5 text-xs" style={{ color: "var(--fg-muted)" }}>
+            {task.result}
+          </p>
+        ) : status === "staged" && waitingOn.length > 0 ? (
+          <p className="mt-0.5 text-xs" style={{ color: "var(--warning)" }}>
+            Waiting on {titles(waitingOn)}
+          </p>
+        ) : dependencies.length > 0 && (
+          <p className="mt-0.5 text-xs" style={{ color: "var(--fg-muted)" }}>
+            After {titles(dependencies)}
+          </p>
+        )}
       </div>
     </div>
   );
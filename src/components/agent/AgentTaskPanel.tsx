@@ -3,19 +3,15 @@
  *
  * Displays when an agent session is active, showing tasks and progress.
  */
-import { CheckCircle2, Loader2, AlertCircle, X, Sparkles, Wrench } from "lucide-react";
+import { useState } from "react";
+import { CheckCircle2, Loader2, AlertCircle, X, Sparkles, Wrench, History, ListChecks, Pause, Play, Square } from "lucide-react";
 import { useAgentSession } from "@app/hooks/useAgentSession";
-import { AgentTaskItem } from "./AgentTaskItem";
-import type { AgentSessionStatus, AgentToolCall } from "@app/types/agent";
-
-/**
- * Format tool name for display (e.g., "perplexity_ask" -> "Perplexity Ask")
- */
-function formatToolName(name: string): string {
-  return name
-    .replace(/_/g, " ")
-    .replace(/\b\w/g, (c) => c.toUpperCase());
-}
+import { cancelAgentSession, pauseAgentSession, resumeAgentSession } from "@app/lib/ai";
+import { AgentTaskGraph } from "./AgentTaskGraph";
+import { AgentSessionHistory } from "./AgentSessionHistory";
+import { AgentBudgetUsage } from "./AgentBudgetUsage";
+import { formatToolName, getStatusColor, getStatusLabel } from "./format";
+import type { AgentToolCall } from "@app/types/agent";
 
 /**
  * ToolCallItem - Shows a single tool call in the panel
@@ -45,47 +41,27 @@ interface AgentTaskPanelProps {
   onClose?: () => void;
 }
 
-function getStatusLabel(status: AgentSessionStatus): string {
-  switch (status) {
-    case "planning":
-      return "Planning...";
-    case "exploring":
-      return "Exploring...";
-    case "executing":
-      return "Executing...";
-    case "waiting_user":
-      return "Waiting for input";
-    case "complete":
-      return "Complete";
-    case "error":
-      return "Error";
-  }
-}
-
-function getStatusColor(status: AgentSessionStatus): string {
-  switch (status) {
-    case "planning":
-    case "exploring":
-    case "executing":
-      return "var(--fg-accent)";
-    case "waiting_user":
-      return "var(--warning)";
-    case "complete":
-      return "var(--success)";
-    case "error":
-      return "var(--danger)";
-  }
-}
-
 export function AgentTaskPanel({ threadId, onClose }: AgentTaskPanelProps) {
   const { session, tasks, progress, toolCalls } = useAgentSession(threadId);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // A pause, resume or cancel request in flight; the new status arrives over the WebSocket
+  const [isControlPending, setIsControlPending] = useState(false);
 
   // Don't render if no session
   if (!session) {
     return null;
   }
 
-  const isActive = session.status !== "complete" && session.status !== "error";
+  const isActive = session.status !== "complete" && session.status !== "error" && session.status !== "cancelled";
+  const canPause = isActive && session.status !== "paused" && session.status !== "awaiting_approval";
+
+  const runControl = (action: (threadId: string) => Promise<boolean>) => {
+    if (threadId === null) return;
+    setIsControlPending(true);
+    void action(threadId)
+      .catch(() => false)
+      .finally(() => { setIsControlPending(false); });
+  };
 
   return (
     <aside
@@ -106,24 +82,48 @@ export function AgentTaskPanel({ threadId, onClose }: AgentTaskPanelProps) {
             Agent Tasks
           </span>
         </div>
-        {onClose && (
+        <div className="flex items-center gap-1">
           <button
             type="button"
-            onClick={onClose}
+            onClick={() => { setIsHistoryOpen(true); }}
             className="rounded-lg p-1 transition-colors hover:bg-[var(--bg-hover)]"
             style={{ color: "var(--fg-muted)" }}
+            title="Session history and transcripts"
           >
-            <X className="h-4 w-4" />
+            <History className="h-4 w-4" />
           </button>
-        )}
+          {onClose && (
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-lg p-1 transition-colors hover:bg-[var(--bg-hover)]"
+              style={{ color: "var(--fg-muted)" }}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
       </div>
 
+      {threadId !== null && (
+        <AgentSessionHistory
+          threadId={threadId}
+          isOpen={isHistoryOpen}
+          initialSessionId={session.id}
+          onClose={() => { setIsHistoryOpen(false); }}
+        />
+      )}
+
       {/* Status */}
       <div
         className="flex items-center gap-2 border-b px-4 py-2"
         style={{ borderColor: "var(--border-secondary)" }}
       >
-        {isActive ? (
+        {session.status === "awaiting_approval" ? (
+          <ListChecks className="h-3.5 w-3.5" style={{ color: getStatusColor(session.status) }} />
+        ) : session.status === "paused" ? (
+          <Pause className="h-3.5 w-3.5" style={{ color: getStatusColor(session.status) }} />
+        ) : isActive ? (
           <Loader2 className="h-3.5 w-3.5 animate-spin" style={{ color: getStatusColor(session.status) }} />
         ) : session.status === "complete" ? (
           <CheckCircle2 className="h-3.5 w-3.5" style={{ color: getStatusColor(session.status) }} />
@@ -133,6 +133,43 @@ export function AgentTaskPanel({ threadId, onClose }: AgentTaskPanelProps) {
         <span className="text-xs font-medium" style={{ color: getStatusColor(session.status) }}>
           {getStatusLabel(session.status)}
         </span>
+        {isActive && threadId !== null && (
+          <div className="ml-auto flex items-center gap-1">
+            {session.status === "paused" ? (
+              <button
+                type="button"
+                onClick={() => { runControl(resumeAgentSession); }}
+                disabled={isControlPending}
+                className="rounded-lg p-1 transition-colors hover:bg-[var(--bg-hover)] disabled:opacity-50"
+                style={{ color: "var(--fg-muted)" }}
+                title="Resume"
+              >
+                <Play className="h-3.5 w-3.5" />
+              </button>
+            ) : canPause && (
+              <button
+                type="button"
+                onClick={() => { runControl(pauseAgentSession); }}
+                disabled={isControlPending}
+                className="rounded-lg p-1 transition-colors hover:bg-[var(--bg-hover)] disabled:opacity-50"
+                style={{ color: "var(--fg-muted)" }}
+                title="Pause before the agents' next step"
+              >
+                <Pause className="h-3.5 w-3.5" />
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => { runControl(cancelAgentSession); }}
+              disabled={isControlPending}
+              className="rounded-lg p-1 transition-colors hover:bg-[var(--bg-hover)] disabled:opacity-50"
+              style={{ color: "var(--danger)" }}
+              title="Cancel"
+            >
+              <Square className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Progress bar */}
@@ -157,6 +194,13 @@ export function AgentTaskPanel({ threadId, onClose }: AgentTaskPanelProps) {
         </div>
       )}
 
+      {/* Budget */}
+      {session.budget !== undefined && session.usage !== undefined && (
+        <div className="border-b px-4 py-3" style={{ borderColor: "var(--border-secondary)" }}>
+          <AgentBudgetUsage budget={session.budget} usage={session.usage} />
+        </div>
+      )}
+
       {/* Task list or tool calls */}
       <div className="flex-1 overflow-y-auto px-2 py-2">
         {tasks.length === 0 ? (
@@ -183,11 +227,7 @@ export function AgentTaskPanel({ threadId, onClose }: AgentTaskPanelProps) {
             </div>
           )
         ) : (
-          <div className="space-y-1">
-            {tasks.map((task) => (
-              <AgentTaskItem key={task.id} task={task} />
-            ))}
-          </div>
+          <AgentTaskGraph tasks={tasks} />
         )}
       </div>
 
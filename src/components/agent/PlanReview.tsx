@@ -0,0 +1,259 @@
+/**
+ * PlanReview - Editable checklist of a plan waiting for the user's approval
+ *
+ * Shown above the chat composer while the thread's agent session is paused
+ * after planning. The user can edit, reorder, remove or add execute tasks and
+ * choose which earlier tasks each waits for, then approve the plan as edited
+ * or reject it. Tasks that don't wait on each other run in parallel.
+ */
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Check, ListChecks, Loader2, Plus, X } from "lucide-react";
+import { useAgentSession } from "@app/hooks/useAgentSession";
+import { submitPlanDecision } from "@app/lib/ai";
+import type { AgentTask } from "@app/types/agent";
+import type { PlanTaskDraft } from "@shared/plan-review";
+
+interface DraftTask {
+  /** Stable React key; the task id for planned tasks */
+  key: string;
+  /** The planned task this edits; undefined for tasks the user added */
+  id: string | undefined;
+  title: string;
+  description: string;
+  /** Keys of the drafts this waits for; only those listed before it count */
+  dependsOn: string[];
+}
+
+function toDrafts(tasks: AgentTask[]): DraftTask[] {
+  return tasks
+    .filter((t) => t.type === "execute")
+    .map((t) => ({
+      key: t.id,
+      id: t.id,
+      title: t.title,
+      description: t.description,
+      dependsOn: t.dependsOn ?? [],
+    }));
+}
+
+/** The approved list, with each task's dependencies as positions in it */
+function toPlanTasks(drafts: DraftTask[]): PlanTaskDraft[] {
+  const positions = new Map(drafts.map((d, index) => [d.key, index]));
+  return drafts.map(({ id, title, description, dependsOn }, index) => ({
+    id,
+    title,
+    description,
+    dependsOn: dependsOn.flatMap((key) => {
+      const position = positions.get(key);
+      return position !== undefined && position < index ? [position] : [];
+    }),
+  }));
+}
+
+function PlanChecklist({ threadId, tasks }: { threadId: string; tasks: AgentTask[] }) {
+  const [drafts, setDrafts] = useState(() => toDrafts(tasks));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runnable = drafts.filter((d) => d.title.trim() !== "");
+
+  const updateDraft = (key: string, changes: Partial<Pick<DraftTask, "title" | "description" | "dependsOn">>) => {
+    setDrafts(drafts.map((d) => (d.key === key ? { ...d, ...changes } : d)));
+  };
+
+  const toggleDependency = (draft: DraftTask, key: string) => {
+    updateDraft(draft.key, {
+      dependsOn: draft.dependsOn.includes(key)
+        ? draft.dependsOn.filter((k) => k !== key)
+        : [...draft.dependsOn, key],
+    });
+  };
+
+  const moveDraft = (index: number, offset: -1 | 1) => {
+    const next = [...drafts];
+    const [moved] = next.splice(index, 1);
+    if (moved === undefined) return;
+    next.splice(index + offset, 0, moved);
+    setDrafts(next);
+  };
+
+  const addDraft = () => {
+    setDrafts([...drafts, { key: crypto.randomUUID(), id: undefined, title: "", description: "", dependsOn: [] }]);
+  };
+
+  const submit = async (approved: boolean) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await submitPlanDecision(
+        threadId,
+        approved
+          ? { approved, tasks: toPlanTasks(runnable) }
+          : { approved }
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="overflow-hidden rounded-2xl border"
+      style={{ background: "var(--bg-tertiary)", borderColor: "var(--border-primary)" }}
+    >
+      {/* Header */}
+      <div className="flex items-start gap-2 px-4 py-3" style={{ background: "var(--bg-secondary)" }}>
+        <ListChecks className="mt-0.5 h-4 w-4 shrink-0" style={{ color: "var(--warning)" }} />
+        <div>
+          <p className="text-sm" style={{ color: "var(--fg-primary)" }}>Review the plan</p>
+          <p className="text-xs" style={{ color: "var(--fg-muted)" }}>
+            Edit, reorder or remove tasks and pick what each waits for, then approve to start running them.
+          </p>
+        </div>
+      </div>
+
+      {/* Tasks */}
+      <ol className="max-h-80 space-y-1 overflow-y-auto p-2">
+        {drafts.map((draft, index) => (
+          <li
+            key={draft.key}
+            className="flex items-start gap-2 rounded-xl px-3 py-2"
+            style={{ background: "var(--bg-hover)" }}
+          >
+            <span className="mt-1 text-xs" style={{ color: "var(--fg-muted)" }}>{index + 1}.</span>
+            <div className="min-w-0 flex-1 space-y-1">
+              <input
+                type="text"
+                value={draft.title}
+                onChange={(e) => { updateDraft(draft.key, { title: e.target.value }); }}
+                placeholder="Task title"
+                disabled={isSubmitting}
+                className="w-full bg-transparent text-sm focus:outline-none"
+                style={{ color: "var(--fg-primary)" }}
+              />
+              <textarea
+                value={draft.description}
+                onChange={(e) => { updateDraft(draft.key, { description: e.target.value }); }}
+                placeholder="What to do"
+                rows={2}
+                disabled={isSubmitting}
+                className="w-full resize-none bg-transparent text-xs focus:outline-none"
+                style={{ color: "var(--fg-secondary)" }}
+              />
+              {index > 0 && (
+                <div className="flex flex-wrap items-center gap-1 text-xs" style={{ color: "var(--fg-muted)" }}>
+                  <span>Waits for</span>
+                  {drafts.slice(0, index).map((earlier, earlierIndex) => {
+                    const isSelected = draft.dependsOn.includes(earlier.key);
+                    return (
+                      <button
+                        key={earlier.key}
+                        type="button"
+                        onClick={() => { toggleDependency(draft, earlier.key); }}
+                        disabled={isSubmitting}
+                        className="rounded-md px-1.5 py-0.5 transition-colors disabled:opacity-50"
+                        style={{
+                          background: isSelected ? "var(--bg-active)" : "transparent",
+                          color: isSelected ? "var(--fg-primary)" : "var(--fg-muted)",
+                        }}
+                        title={earlier.title || "Untitled task"}
+                      >
+                        {earlierIndex + 1}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+            <div className="flex shrink-0 items-center">
+              <button
+                type="button"
+                onClick={() => { moveDraft(index, -1); }}
+                disabled={isSubmitting || index === 0}
+                className="rounded-lg p-1 transition-colors hover:bg-[var(--bg-active)] disabled:opacity-30"
+                style={{ color: "var(--fg-muted)" }}
+                title="Move up"
+              >
+                <ArrowUp className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => { moveDraft(index, 1); }}
+                disabled={isSubmitting || index === drafts.length - 1}
+                className="rounded-lg p-1 transition-colors hover:bg-[var(--bg-active)] disabled:opacity-30"
+                style={{ color: "var(--fg-muted)" }}
+                title="Move down"
+              >
+                <ArrowDown className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => { setDrafts(drafts.filter((d) => d.key !== draft.key)); }}
+                disabled={isSubmitting}
+                className="rounded-lg p-1 transition-colors hover:bg-[var(--bg-active)] disabled:opacity-30"
+                style={{ color: "var(--fg-muted)" }}
+                title="Remove"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </li>
+        ))}
+        <li>
+          <button
+            type="button"
+            onClick={addDraft}
+            disabled={isSubmitting}
+            className="flex w-full items-center gap-2 rounded-xl px-3 py-2 text-left text-xs transition-colors hover:bg-[var(--bg-hover)]"
+            style={{ color: "var(--fg-muted)" }}
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add task
+          </button>
+        </li>
+      </ol>
+
+      {error !== null && (
+        <p className="px-4 pb-2 text-xs" style={{ color: "var(--danger)" }}>{error}</p>
+      )}
+
+      {/* Decision */}
+      <div className="flex gap-2 p-2">
+        <button
+          type="button"
+          onClick={() => { void submit(true); }}
+          disabled={isSubmitting || runnable.length === 0}
+          className="flex flex-1 items-center justify-center gap-2 rounded-xl px-4 py-2.5 text-sm font-medium transition-all hover:opacity-90 disabled:opacity-50"
+          style={{ background: "var(--success)", color: "white" }}
+        >
+          {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+          Approve and run
+        </button>
+        <button
+          type="button"
+          onClick={() => { void submit(false); }}
+          disabled={isSubmitting}
+          className="flex flex-1 items-center justify-center gap-2 rounded-xl px-4 py-2.5 text-sm font-medium transition-all hover:opacity-90 disabled:opacity-50"
+          style={{ background: "var(--bg-hover)", color: "var(--fg-primary)" }}
+        >
+          <X className="h-4 w-4" />
+          Reject
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function PlanReview({ threadId }: { threadId: string }) {
+  const { session, tasks } = useAgentSession(threadId);
+
+  if (session?.status !== "awaiting_approval") {
+    return null;
+  }
+  return (
+    <div className="mb-3">
+      <PlanChecklist key={session.id} threadId={threadId} tasks={tasks} />
+    </div>
+  );
+}
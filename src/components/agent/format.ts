@@ -0,0 +1,68 @@
+/**
+ * Display helpers shared by the agent panel and session history
+ */
+import type { AgentSessionStatus } from "@app/types/agent";
+
+/**
+ * Format tool name for display (e.g., "perplexity_ask" -> "Perplexity Ask")
+ */
+export function formatToolName(name: string): string {
+  return name
+    .replace(/_/g, " ")
+    .replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+export function getStatusLabel(status: AgentSessionStatus): string {
+  switch (status) {
+    case "planning":
+      return "Planning...";
+    case "exploring":
+      return "Exploring...";
+    case "awaiting_approval":
+      return "Awaiting plan approval";
+    case "executing":
+      return "Executing...";
+    case "paused":
+      return "Paused";
+    case "waiting_user":
+      return "Waiting for input";
+    case "complete":
+      return "Complete";
+    case "error":
+      return "Error";
+    case "cancelled":
+      return "Cancelled";
+  }
+}
+
+export function getStatusColor(status: AgentSessionStatus): string {
+  switch (status) {
+    case "planning":
+    case "exploring":
+    case "executing":
+      return "var(--fg-accent)";
+    case "awaiting_approval":
+    case "paused":
+    case "waiting_user":
+      return "var(--warning)";
+    case "complete":
+      return "var(--success)";
+    case "error":
+      return "var(--danger)";
+    case "cancelled":
+      return "var(--fg-muted)";
+  }
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+/**
+ * Format a duration as minutes and seconds (e.g. 125000 -> "2m 05s")
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${String(minutes)}m ${String(seconds % 60).padStart(2, "0")}s` : `${String(seconds)}s`;
+}
@@ -1,2 +1,6 @@
 export { AgentTaskPanel } from "./AgentTaskPanel";
 export { AgentTaskItem } from "./AgentTaskItem";
+export { AgentTaskGraph } from "./AgentTaskGraph";
+export { AgentSessionHistory } from "./AgentSessionHistory";
+export { AgentBudgetUsage } from "./AgentBudgetUsage";
+export { PlanReview } from "./PlanReview";
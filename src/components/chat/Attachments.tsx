@@ -0,0 +1,127 @@
+import { useEffect, useState, type DragEvent, type ReactNode } from "react";
+import { AttachmentPrimitive, ComposerPrimitive, MessagePrimitive, useAttachment, useComposerRuntime } from "@assistant-ui/react";
+import { FileText, Paperclip, X } from "lucide-react";
+
+/**
+ * Image source for an attachment: the stored data URL once sent, or a
+ * local object URL while it's still a pending file in the composer
+ */
+function useAttachmentImageSrc(): string | null {
+  const attachment = useAttachment();
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const storedImage = attachment.content?.find((part) => part.type === "image")?.image;
+  const pendingFile = attachment.type === "image" && storedImage === undefined ? attachment.file : undefined;
+
+  useEffect(() => {
+    if (pendingFile === undefined) return;
+    const url = URL.createObjectURL(pendingFile);
+    setObjectUrl(url);
+    return () => { URL.revokeObjectURL(url); };
+  }, [pendingFile]);
+
+  return storedImage ?? (pendingFile !== undefined ? objectUrl : null);
+}
+
+function AttachmentTile({ removable }: { removable: boolean }) {
+  const imageSrc = useAttachmentImageSrc();
+
+  return (
+    <AttachmentPrimitive.Root
+      className="relative flex h-14 max-w-48 items-center gap-2 overflow-hidden rounded-xl border"
+      style={{ borderColor: "var(--border-secondary)", background: "var(--bg-secondary)" }}
+    >
+      {imageSrc !== null ? (
+        <img src={imageSrc} alt="" className="h-14 w-14 shrink-0 object-cover" />
+      ) : (
+        <div className="flex items-center gap-2 px-3 text-xs" style={{ color: "var(--fg-secondary)" }}>
+          <FileText className="h-4 w-4 shrink-0" style={{ color: "var(--fg-accent)" }} />
+          <span className="truncate">
+            <AttachmentPrimitive.Name />
+          </span>
+        </div>
+      )}
+      {removable && (
+        <AttachmentPrimitive.Remove
+          className="absolute right-1 top-1 flex h-4 w-4 items-center justify-center rounded-full"
+          style={{ background: "var(--bg-tertiary)", color: "var(--fg-muted)" }}
+          title="Remove attachment"
+        >
+          <X className="h-3 w-3" />
+        </AttachmentPrimitive.Remove>
+      )}
+    </AttachmentPrimitive.Root>
+  );
+}
+
+function ComposerAttachmentTile() {
+  return <AttachmentTile removable />;
+}
+
+function MessageAttachmentTile() {
+  return <AttachmentTile removable={false} />;
+}
+
+/** Attachments waiting to be sent, shown above the composer input */
+export function ComposerAttachments() {
+  return (
+    <div className="flex flex-wrap gap-2 px-3 pt-3 empty:hidden">
+      <ComposerPrimitive.Attachments components={{ Attachment: ComposerAttachmentTile }} />
+    </div>
+  );
+}
+
+/** Accepts files dropped anywhere on the composer */
+export function ComposerDropzone({ children }: { children: ReactNode }) {
+  const composerRuntime = useComposerRuntime();
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    for (const file of Array.from(e.dataTransfer.files)) {
+      composerRuntime.addAttachment(file).catch((error: unknown) => {
+        console.error("[Attachments] Failed to attach", file.name, error);
+      });
+    }
+  };
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={() => { setIsDragging(false); }}
+      onDrop={handleDrop}
+      className="flex flex-col rounded-2xl transition-colors"
+      style={isDragging ? { background: "var(--bg-hover)" } : undefined}
+    >
+      {children}
+    </div>
+  );
+}
+
+/** Paperclip button opening the file picker */
+export function ComposerAddAttachment() {
+  return (
+    <ComposerPrimitive.AddAttachment
+      className="m-2 mr-0 flex h-9 w-9 shrink-0 items-center justify-center rounded-xl transition-colors"
+      style={{ color: "var(--fg-muted)" }}
+      title="Attach files"
+    >
+      <Paperclip className="h-4 w-4" />
+    </ComposerPrimitive.AddAttachment>
+  );
+}
+
+/** Attachments of a sent user message */
+export function UserMessageAttachments() {
+  return (
+    <div className="flex flex-wrap justify-end gap-2 empty:hidden">
+      <MessagePrimitive.Attachments components={{ Attachment: MessageAttachmentTile }} />
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { FoldVertical, KeyRound, RotateCcw, Settings } from "lucide-react";
+import type { ChatErrorCode } from "@shared/chat-protocol";
+import { getProvider } from "@app/lib/ai";
+import type { ProviderId } from "@app/lib/ai-providers";
+
+interface ChatErrorNoticeProps {
+  code: ChatErrorCode;
+  /** Provider whose keys to open; the global one when unset */
+  provider?: ProviderId | undefined;
+  /** Open settings at a registry key, e.g. "settings.keys.openai" */
+  onOpenSettings?: ((page: string) => void) | undefined;
+  onRetry?: (() => void) | undefined;
+  onCompact?: (() => void) | undefined;
+}
+
+interface ErrorFix {
+  hint: string;
+  actions: { label: string; icon: typeof Settings; onClick: () => void }[];
+}
+
+/**
+ * What the user can do about a failed response, by error code
+ */
+function getErrorFix(
+  code: ChatErrorCode,
+  { provider = getProvider(), onOpenSettings, onRetry, onCompact }: Omit<ChatErrorNoticeProps, "code">
+): ErrorFix | null {
+  const openKeys = onOpenSettings !== undefined
+    ? [{ label: "Open API key settings", icon: KeyRound, onClick: () => { onOpenSettings(`settings.keys.${provider}`); } }]
+    : [];
+  const openProvider = onOpenSettings !== undefined
+    ? [{ label: "Provider settings", icon: Settings, onClick: () => { onOpenSettings("settings.provider"); } }]
+    : [];
+  const retry = onRetry !== undefined ? [{ label: "Retry", icon: RotateCcw, onClick: onRetry }] : [];
+
+  switch (code) {
+    case "missing_api_key":
+      return { hint: "Add an API key for this provider to start chatting.", actions: openKeys };
+    case "auth_failed":
+      return { hint: "Check that the API key is correct and still active.", actions: openKeys };
+    case "rate_limited":
+      return { hint: "The provider is throttling requests. Wait a moment, then retry.", actions: retry };
+    case "quota_exceeded":
+      return { hint: "Add credits in your provider's dashboard, or switch to another provider.", actions: openProvider };
+    case "context_overflow":
+      return {
+        hint: "Summarize older messages to make room, or switch to a model with a larger context window.",
+        actions: [
+          ...(onCompact !== undefined ? [{ label: "Compact now", icon: FoldVertical, onClick: onCompact }] : []),
+          ...openProvider,
+        ],
+      };
+    case "provider_unavailable":
+      return { hint: "Check your connection, or that the local server is running at the configured URL.", actions: [...retry, ...openProvider] };
+    case "invalid_request":
+    case "unknown":
+      return null;
+  }
+}
+
+/**
+ * Targeted fix shown under a failed response
+ */
+export function ChatErrorNotice({ code, ...handlers }: ChatErrorNoticeProps) {
+  const fix = getErrorFix(code, handlers);
+  if (fix === null) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs" style={{ color: "var(--fg-muted)" }}>
+      <span>{fix.hint}</span>
+      {fix.actions.map(({ label, icon: Icon, onClick }) => (
+        <button
+          key={label}
+          type="button"
+          onClick={onClick}
+          className="flex items-center gap-1 rounded-lg px-2 py-1 font-medium transition-colors hover:bg-[var(--bg-hover)]"
+          style={{ color: "var(--fg-accent)" }}
+        >
+          <Icon className="h-3 w-3" />
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -7,14 +7,24 @@ import {
   useThreadRuntime,
   useMessage,
 } from "@assistant-ui/react";
-import { ArrowUp, Square, Sparkles, MessageCircle, RotateCcw, Pencil, Check, X, AlertTriangle } from "lucide-react";
-import type { Thread } from "@app/types/thread";
+import { ArrowUp, ArrowRightLeft, Square, Sparkles, MessageCircle, RotateCcw, Pencil, Check, X, AlertTriangle, ChevronLeft, ChevronRight } from "lucide-react";
+import type { Thread, ThreadSettings } from "@app/types/thread";
 import { useChatRuntime } from "@app/hooks/useChatRuntime";
 import { Markdown } from "./Markdown";
 import { ToolDisplay } from "./ToolDisplay";
+import { ThinkingBlock } from "./ThinkingBlock";
+import { UsageFooter } from "./UsageFooter";
+import { ContextCompactedDivider } from "./ContextCompactedDivider";
+import { ChatErrorNotice } from "./ChatErrorNotice";
+import { ThreadHeader } from "./ThreadHeader";
+import { ComposerAddAttachment, ComposerAttachments, ComposerDropzone, UserMessageAttachments } from "./Attachments";
 import { AskUserQuestion, type AskUserQuestionArgs } from "./AskUserQuestion";
-import type { ToolInvocation } from "@app/types/message";
+import { PlanReview } from "@app/components/agent/PlanReview";
+import type { MessageBranch, MessageFallback, MessageUsage, ToolInvocation } from "@app/types/message";
+import { getProviderDefinition, type ProviderId } from "@app/lib/ai-providers";
+import { getThreadModel } from "@app/lib/ai";
 import type { StreamingContentPart } from "@app/hooks/useChatRuntime";
+import type { ChatErrorCode } from "@shared/chat-protocol";
 
 // Error boundary to prevent individual message/tool render errors from blanking the screen
 interface MessageErrorBoundaryProps {
@@ -53,12 +63,34 @@ const scrollPositions = new Map<string, number>();
 
 interface ChatThreadProps {
   threadId: string | null;
-  onTitleGenerated?: ((title: string) => void) | undefined;
+  /** The active thread; supplies the title and model overrides for the header, hidden without one */
+  thread?: Thread | undefined;
+  /** Replace the active thread's overrides; null goes back to the global defaults */
+  onUpdateThreadSettings?: ((settings: ThreadSettings | null) => void) | undefined;
+  onTitleGenerated?: ((title: string, suggestedTags: string[]) => void) | undefined;
+  /** The user's tags, most used first, for tag suggestions to reuse */
+  knownTags?: string[] | undefined;
   onStartChatWithMessage?: ((message: string) => void) | undefined;
   onSelectThread?: ((id: string) => void) | undefined;
   recentThreads?: Thread[] | undefined;
   initialMessage?: string | null | undefined;
   onInitialMessageConsumed?: (() => void) | undefined;
+  /** Open settings at a registry key, e.g. "settings.keys.openai" */
+  onOpenSettings?: ((page: string) => void) | undefined;
+  /** Message to scroll to and highlight, e.g. a search hit */
+  focusMessageId?: string | null | undefined;
+  /** Called once the focused message has been brought into view */
+  onFocusMessageHandled?: (() => void) | undefined;
+}
+
+/** How long a focused message stays highlighted */
+const FOCUS_HIGHLIGHT_MS = 2500;
+/** How long to wait for a focused message to render before giving up */
+const FOCUS_TIMEOUT_MS = 3000;
+
+/** Highlight ring for a message jumped to from search */
+function focusRing(isHighlighted: boolean): string {
+  return isHighlighted ? " rounded-2xl ring-2 ring-[var(--fg-accent)] ring-offset-4 ring-offset-[var(--bg-primary)]" : "";
 }
 
 function WelcomeScreen({ onStartChatWithMessage, onSelectThread, recentThreads }: {
@@ -167,6 +199,17 @@ interface ChatContext {
   onRegenerate: () => void | Promise<void>;
   onRegenerateMessage: (messageId: string) => void | Promise<void>;
   onEditUserMessage: (messageId: string, newContent: string) => void | Promise<void>;
+  onCompactContext: () => void | Promise<void>;
+  /** Show another variant of a message */
+  onSelectBranch: (messageId: string) => void | Promise<void>;
+  onOpenSettings?: ((page: string) => void) | undefined;
+  /** Provider the thread runs on, for error fixes that open its settings */
+  provider: ProviderId;
+  focusMessageId: string | null;
+  onFocusMessageHandled: () => void;
+  /** Message currently highlighted after a jump */
+  highlightedMessageId: string | null;
+  onHighlightMessage: (messageId: string) => void;
   isRunning: boolean;
   streamingContentParts: StreamingContentPart[];
   streamingContent: string;
@@ -176,8 +219,20 @@ function useChatContext() {
   return useContext(ChatContextProvider);
 }
 
-export function ChatThread({ threadId, onTitleGenerated, onStartChatWithMessage, onSelectThread, recentThreads, initialMessage, onInitialMessageConsumed }: ChatThreadProps) {
-  const { runtime, isRunning, streamingContentParts, streamingContent, pendingAskUser, handleAskUserSubmit, handleAskUserCancel, regenerateLastMessage, regenerateMessage, editUserMessage } = useChatRuntime({ threadId, onTitleGenerated, initialMessage, onInitialMessageConsumed });
+export function ChatThread({ threadId, thread, onUpdateThreadSettings, onTitleGenerated, knownTags, onStartChatWithMessage, onSelectThread, recentThreads, initialMessage, onInitialMessageConsumed, onOpenSettings, focusMessageId = null, onFocusMessageHandled }: ChatThreadProps) {
+  const threadSettings = thread?.settings;
+  const { runtime, isRunning, streamingContentParts, streamingContent, pendingAskUser, handleAskUserSubmit, handleAskUserCancel, regenerateLastMessage, regenerateMessage, selectMessageBranch, editUserMessage, compactContext } = useChatRuntime({ threadId, threadSettings, onTitleGenerated, knownTags, initialMessage, onInitialMessageConsumed, focusMessageId });
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (highlightedMessageId === null) return;
+    const timer = setTimeout(() => { setHighlightedMessageId(null); }, FOCUS_HIGHLIGHT_MS);
+    return () => { clearTimeout(timer); };
+  }, [highlightedMessageId]);
+
+  const handleFocusMessageHandled = useCallback(() => {
+    onFocusMessageHandled?.();
+  }, [onFocusMessageHandled]);
   const prevThreadIdRef = useRef<string | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement | null>(null);
 
@@ -219,6 +274,14 @@ export function ChatThread({ threadId, onTitleGenerated, onStartChatWithMessage,
     onRegenerate: regenerateLastMessage,
     onRegenerateMessage: regenerateMessage,
     onEditUserMessage: editUserMessage,
+    onCompactContext: compactContext,
+    onSelectBranch: selectMessageBranch,
+    onOpenSettings,
+    provider: getThreadModel(threadSettings).provider,
+    focusMessageId,
+    onFocusMessageHandled: handleFocusMessageHandled,
+    highlightedMessageId,
+    onHighlightMessage: setHighlightedMessageId,
     isRunning,
     streamingContentParts,
     streamingContent,
@@ -227,17 +290,26 @@ export function ChatThread({ threadId, onTitleGenerated, onStartChatWithMessage,
   return (
     <ChatContextProvider.Provider value={chatContextValue}>
       <AssistantRuntimeProvider runtime={runtime}>
-        <ThreadContent scrollRef={setScrollRef} />
+        <div className="flex h-full flex-col">
+          {/* Overrides are saved on the thread, so there's nothing to edit until it exists */}
+          {thread !== undefined && onUpdateThreadSettings !== undefined && (
+            <ThreadHeader title={thread.title ?? null} settings={threadSettings} onChange={onUpdateThreadSettings} />
+          )}
+          <div className="min-h-0 flex-1">
+            <ThreadContent threadId={threadId} scrollRef={setScrollRef} />
+          </div>
+        </div>
       </AssistantRuntimeProvider>
     </ChatContextProvider.Provider>
   );
 }
 
 interface ThreadContentProps {
+  threadId: string;
   scrollRef: (el: HTMLDivElement | null) => void;
 }
 
-function ThreadContent({ scrollRef }: ThreadContentProps) {
+function ThreadContent({ threadId, scrollRef }: ThreadContentProps) {
   const runtime = useThreadRuntime();
   const chatContext = useChatContext();
   const scrollContainerRef = useRef<HTMLDivElement | null>(null);
@@ -275,6 +347,28 @@ function ThreadContent({ scrollRef }: ThreadContentProps) {
     return () => { clearInterval(interval); };
   }, [runtime]);
 
+  // Jump to a focused message once it has rendered (its branch may still be loading)
+  const focusMessageId = chatContext?.focusMessageId ?? null;
+  const onFocusMessageHandled = chatContext?.onFocusMessageHandled;
+  const onHighlightMessage = chatContext?.onHighlightMessage;
+  useEffect(() => {
+    if (focusMessageId === null) return;
+    const startedAt = Date.now();
+    const interval = setInterval(() => {
+      const element = scrollContainerRef.current?.querySelector(`[data-message-id="${CSS.escape(focusMessageId)}"]`);
+      if (element !== null && element !== undefined) {
+        element.scrollIntoView({ block: "center", behavior: "smooth" });
+        isNearBottomRef.current = false;
+        onHighlightMessage?.(focusMessageId);
+      } else if (Date.now() - startedAt < FOCUS_TIMEOUT_MS) {
+        return;
+      }
+      clearInterval(interval);
+      onFocusMessageHandled?.();
+    }, 100);
+    return () => { clearInterval(interval); };
+  }, [focusMessageId, onFocusMessageHandled, onHighlightMessage]);
+
   // Subscribe to runtime state changes for streaming
   useEffect(() => {
     const unsubscribe = runtime.subscribe(() => {
@@ -319,8 +413,8 @@ function ThreadContent({ scrollRef }: ThreadContentProps) {
           </ThreadPrimitive.If>
           <ThreadPrimitive.Messages
             components={{
-              UserMessage: () => <MessageErrorBoundary><UserMessage /></MessageErrorBoundary>,
-              AssistantMessage: AssistantMessage,
+              UserMessage: () => <><ContextCompactedDivider /><MessageErrorBoundary><UserMessage /></MessageErrorBoundary></>,
+              AssistantMessage: () => <><ContextCompactedDivider /><AssistantMessage /></>,
             }}
           />
           <StreamingMessage />
@@ -333,6 +427,8 @@ function ThreadContent({ scrollRef }: ThreadContentProps) {
         style={{ borderColor: "var(--border-primary)", background: "var(--bg-primary)" }}
       >
         <div className="mx-auto max-w-3xl">
+          {/* Plan waiting for the user's approval */}
+          <PlanReview threadId={threadId} />
           {/* AskUserQuestion inline UI */}
           {chatContext?.pendingAskUser !== null && chatContext?.pendingAskUser !== undefined && (
             <div className="mb-3">
@@ -344,33 +440,39 @@ function ThreadContent({ scrollRef }: ThreadContentProps) {
             </div>
           )}
           <ComposerPrimitive.Root
-            className="aui-composer relative flex items-end rounded-2xl border shadow-lg transition-colors"
+            className="aui-composer relative rounded-2xl border shadow-lg transition-colors"
             style={{ borderColor: "var(--border-secondary)", background: "var(--bg-tertiary)" }}
           >
-            <ComposerPrimitive.Input
-              placeholder="Message AIOS..."
-              className="aui-composer-input min-h-[52px] flex-1 resize-none bg-transparent px-4 py-3 focus:outline-none"
-              style={{ color: "var(--fg-primary)" }}
-              autoFocus
-            />
-            {chatContext?.isRunning === true ? (
-              <button
-                type="button"
-                onClick={() => { runtime.cancelRun(); }}
-                className="m-2 flex h-9 w-9 items-center justify-center rounded-xl transition-colors"
-                style={{ background: "var(--danger, #ef4444)", color: "white" }}
-                title="Stop generating"
-              >
-                <Square className="h-4 w-4" />
-              </button>
-            ) : (
-              <ComposerPrimitive.Send
-                className="aui-composer-send m-2 flex h-9 w-9 items-center justify-center rounded-xl text-white transition-colors"
-                style={{ background: "var(--bg-accent)" }}
-              >
-                <ArrowUp className="h-4 w-4" />
-              </ComposerPrimitive.Send>
-            )}
+            <ComposerDropzone>
+              <ComposerAttachments />
+              <div className="flex items-end">
+                <ComposerAddAttachment />
+                <ComposerPrimitive.Input
+                  placeholder="Message AIOS..."
+                  className="aui-composer-input min-h-[52px] flex-1 resize-none bg-transparent px-4 py-3 focus:outline-none"
+                  style={{ color: "var(--fg-primary)" }}
+                  autoFocus
+                />
+                {chatContext?.isRunning === true ? (
+                  <button
+                    type="button"
+                    onClick={() => { runtime.cancelRun(); }}
+                    className="m-2 flex h-9 w-9 items-center justify-center rounded-xl transition-colors"
+                    style={{ background: "var(--danger, #ef4444)", color: "white" }}
+                    title="Stop generating"
+                  >
+                    <Square className="h-4 w-4" />
+                  </button>
+                ) : (
+                  <ComposerPrimitive.Send
+                    className="aui-composer-send m-2 flex h-9 w-9 items-center justify-center rounded-xl text-white transition-colors"
+                    style={{ background: "var(--bg-accent)" }}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </ComposerPrimitive.Send>
+                )}
+              </div>
+            </ComposerDropzone>
           </ComposerPrimitive.Root>
           <p className="mt-2 text-center text-xs" style={{ color: "var(--fg-muted)" }}>
             AI can make mistakes. Consider checking important information.
@@ -465,6 +567,7 @@ function UserMessage() {
   const [editText, setEditText] = useState("");
 
   const messageId = message.id;
+  const branch = (message.metadata.custom as { branch?: MessageBranch } | undefined)?.branch;
   const textContent = message.content
     .filter((p): p is { type: "text"; text: string } => p.type === "text")
     .map((p) => p.text)
@@ -488,7 +591,7 @@ function UserMessage() {
 
   if (isEditing) {
     return (
-      <MessagePrimitive.Root className="flex justify-end">
+      <MessagePrimitive.Root className="flex justify-end" data-message-id={messageId}>
         <div className="flex w-full max-w-[85%] flex-col gap-2">
           <textarea
             value={editText}
@@ -533,32 +636,41 @@ function UserMessage() {
   }
 
   return (
-    <MessagePrimitive.Root className="group flex justify-end">
+    <MessagePrimitive.Root
+      className={`group flex justify-end${focusRing(chatContext?.highlightedMessageId === messageId)}`}
+      data-message-id={messageId}
+    >
       <div className="flex max-w-[85%] flex-col items-end gap-1">
-        <div
-          className="rounded-2xl px-4 py-3 shadow-md"
-          style={{ background: "var(--bg-hover)", color: "var(--fg-primary)" }}
-        >
-          <MessagePrimitive.Content
-            components={{
-              Text: ({ text }) => <Markdown content={text} />,
-            }}
-          />
-        </div>
-        {chatContext?.isRunning !== true && (
-          <div className="flex opacity-0 transition-opacity group-hover:opacity-100">
-            <button
-              type="button"
-              onClick={handleStartEdit}
-              className="flex items-center gap-1 rounded-lg px-2 py-1 text-xs transition-colors"
-              style={{ color: "var(--fg-muted)" }}
-              title="Edit message"
-            >
-              <Pencil className="h-3 w-3" />
-              Edit
-            </button>
+        <UserMessageAttachments />
+        {textContent.trim().length > 0 && (
+          <div
+            className="rounded-2xl px-4 py-3 shadow-md"
+            style={{ background: "var(--bg-hover)", color: "var(--fg-primary)" }}
+          >
+            <MessagePrimitive.Content
+              components={{
+                Text: ({ text }) => <Markdown content={text} />,
+              }}
+            />
           </div>
         )}
+        <div className="flex items-center">
+          {chatContext?.isRunning !== true && (
+            <div className="flex opacity-0 transition-opacity group-hover:opacity-100">
+              <button
+                type="button"
+                onClick={handleStartEdit}
+                className="flex items-center gap-1 rounded-lg px-2 py-1 text-xs transition-colors"
+                style={{ color: "var(--fg-muted)" }}
+                title="Edit message"
+              >
+                <Pencil className="h-3 w-3" />
+                Edit
+              </button>
+            </div>
+          )}
+          {branch !== undefined && <BranchPicker branch={branch} />}
+        </div>
       </div>
     </MessagePrimitive.Root>
   );
@@ -574,8 +686,14 @@ function AssistantMessage() {
   );
 
   // Check if message has tool invocations
-  const custom = message.metadata.custom as { toolInvocations?: ToolInvocation[] } | undefined;
+  const custom = message.metadata.custom as { toolInvocations?: ToolInvocation[]; interrupted?: boolean; thinking?: string; usage?: MessageUsage; answeredBy?: MessageFallback; errorCode?: ChatErrorCode; branch?: MessageBranch } | undefined;
   const hasToolInvocations = (custom?.toolInvocations?.length ?? 0) > 0;
+  const wasInterrupted = custom?.interrupted === true;
+  const thinking = custom?.thinking;
+  const usage = custom?.usage;
+  const errorCode = custom?.errorCode;
+  const answeredBy = custom?.answeredBy;
+  const branch = custom?.branch;
 
   // Don't render anything if there's no content and no tools
   if (!hasTextContent && !hasToolInvocations) {
@@ -585,7 +703,10 @@ function AssistantMessage() {
   const canRegenerate = chatContext?.isRunning !== true && chatContext?.onRegenerateMessage !== undefined;
 
   return (
-    <MessagePrimitive.Root className="group flex justify-start">
+    <MessagePrimitive.Root
+      className={`group flex justify-start${focusRing(chatContext?.highlightedMessageId === message.id)}`}
+      data-message-id={message.id}
+    >
       <div className="flex max-w-[85%] gap-3 overflow-hidden">
         <div
           className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full shadow-md"
@@ -595,6 +716,7 @@ function AssistantMessage() {
         </div>
         <div className="flex min-w-0 flex-1 flex-col gap-2 overflow-hidden">
           <MessageErrorBoundary>
+            {thinking !== undefined && <ThinkingBlock text={thinking} />}
             {hasTextContent && (
               <div
                 className="rounded-2xl px-4 py-3 shadow-md"
@@ -609,18 +731,49 @@ function AssistantMessage() {
             )}
             <ToolInvocationsRenderer />
           </MessageErrorBoundary>
-          {canRegenerate && (
-            <div className="flex opacity-0 transition-opacity group-hover:opacity-100">
-              <button
-                type="button"
-                onClick={() => { void chatContext.onRegenerateMessage(message.id); }}
-                className="flex items-center gap-1.5 rounded-lg px-2 py-1 text-xs transition-colors"
-                style={{ color: "var(--fg-muted)" }}
-                title="Regenerate from here"
-              >
-                <RotateCcw className="h-3 w-3" />
-                Regenerate
-              </button>
+          {wasInterrupted && (
+            <div className="flex items-center gap-1.5 text-xs" style={{ color: "var(--fg-muted)" }}>
+              <Square className="h-3 w-3" />
+              Interrupted
+            </div>
+          )}
+          {answeredBy !== undefined && (
+            <div
+              className="flex items-center gap-1.5 text-xs"
+              style={{ color: "var(--fg-muted)" }}
+              title={`The selected model failed (${answeredBy.reason.replace(/_/g, " ")}), so a fallback answered`}
+            >
+              <ArrowRightLeft className="h-3 w-3" />
+              Answered by {getProviderDefinition(answeredBy.provider).name} · {answeredBy.model}
+            </div>
+          )}
+          {errorCode !== undefined && chatContext?.isRunning !== true && (
+            <ChatErrorNotice
+              code={errorCode}
+              provider={chatContext?.provider}
+              onOpenSettings={chatContext?.onOpenSettings}
+              onRetry={() => { void chatContext?.onRegenerateMessage(message.id); }}
+              onCompact={() => { void chatContext?.onCompactContext(); }}
+            />
+          )}
+          {(canRegenerate || usage !== undefined || branch !== undefined) && (
+            <div className="flex min-w-0 items-center gap-2">
+              {branch !== undefined && <BranchPicker branch={branch} />}
+              <div className="flex min-w-0 items-center gap-2 opacity-0 transition-opacity group-hover:opacity-100">
+                {canRegenerate && (
+                  <button
+                    type="button"
+                    onClick={() => { void chatContext.onRegenerateMessage(message.id); }}
+                    className="flex shrink-0 items-center gap-1.5 rounded-lg px-2 py-1 text-xs transition-colors"
+                    style={{ color: "var(--fg-muted)" }}
+                    title="Regenerate as a new version"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    Regenerate
+                  </button>
+                )}
+                {usage !== undefined && <UsageFooter usage={usage} />}
+              </div>
             </div>
           )}
         </div>
@@ -629,10 +782,50 @@ function AssistantMessage() {
   );
 }
 
+/**
+ * "< 2/3 >" navigation between the variants of a message
+ */
+function BranchPicker({ branch }: { branch: MessageBranch }) {
+  const chatContext = useChatContext();
+  const isDisabled = chatContext?.isRunning === true;
+
+  const select = (messageId: string | undefined) => {
+    if (messageId !== undefined) void chatContext?.onSelectBranch(messageId);
+  };
+
+  return (
+    <div className="flex shrink-0 items-center text-xs" style={{ color: "var(--fg-muted)" }}>
+      <button
+        type="button"
+        onClick={() => { select(branch.previousId); }}
+        disabled={isDisabled || branch.previousId === undefined}
+        className="rounded p-0.5 transition-colors hover:bg-[var(--bg-hover)] disabled:opacity-40"
+        title="Previous version"
+      >
+        <ChevronLeft className="h-3.5 w-3.5" />
+      </button>
+      <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+      <button
+        type="button"
+        onClick={() => { select(branch.nextId); }}
+        disabled={isDisabled || branch.nextId === undefined}
+        className="rounded p-0.5 transition-colors hover:bg-[var(--bg-hover)] disabled:opacity-40"
+        title="Next version"
+      >
+        <ChevronRight className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
+
 function InterleavedContent({ parts }: { parts: StreamingContentPart[] }) {
   return (
     <>
       {parts.map((part, i) => {
+        if (part.type === "thinking") {
+          // Only the trailing block is still receiving tokens
+          return <ThinkingBlock key={`thinking-${String(i)}`} text={part.text} isStreaming={i === parts.length - 1} />;
+        }
         if (part.type === "text") {
           if (part.text.trim().length === 0) return null;
           return (
@@ -0,0 +1,43 @@
+import { useState } from "react";
+import { useMessage } from "@assistant-ui/react";
+import { ChevronDown, ChevronRight, FoldVertical } from "lucide-react";
+
+/**
+ * Divider above the first message after the compacted history. Messages
+ * above it are no longer sent to the model; the summary replaces them.
+ */
+export function ContextCompactedDivider() {
+  const message = useMessage();
+  const [expanded, setExpanded] = useState(false);
+
+  const custom = message.metadata.custom as { compactedSummary?: string } | undefined;
+  const summary = custom?.compactedSummary;
+  if (summary === undefined) return null;
+
+  return (
+    <div className="flex flex-col gap-2" style={{ color: "var(--fg-muted)" }}>
+      <div className="flex items-center gap-3">
+        <div className="h-px flex-1" style={{ background: "var(--border-secondary)" }} />
+        <button
+          type="button"
+          onClick={() => { setExpanded(!expanded); }}
+          className="flex items-center gap-1.5 text-xs font-medium"
+          title="Earlier messages were replaced by a summary"
+        >
+          {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          <FoldVertical className="h-3.5 w-3.5" style={{ color: "var(--fg-accent)" }} />
+          Context compacted
+        </button>
+        <div className="h-px flex-1" style={{ background: "var(--border-secondary)" }} />
+      </div>
+      {expanded && (
+        <div
+          className="mx-auto max-h-80 w-full max-w-[85%] overflow-y-auto whitespace-pre-wrap rounded-2xl border px-4 py-3 text-xs leading-relaxed"
+          style={{ borderColor: "var(--border-secondary)" }}
+        >
+          {summary}
+        </div>
+      )}
+    </div>
+  );
+}
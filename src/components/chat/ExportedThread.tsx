@@ -0,0 +1,209 @@
+/**
+ * ExportedThread - Static rendering of a conversation for HTML export
+ *
+ * Mirrors the chat view without anything that needs the app to run:
+ * collapsible parts use <details>, and `show_content` documents are shown
+ * inline instead of in the side panel.
+ */
+import { ArrowRightLeft, Brain, FileText, Globe, Search, Sparkles, Terminal } from "lucide-react";
+import type { Message, ToolInvocation } from "@app/types/message";
+import type { Thread } from "@app/types/thread";
+import { getProviderDefinition } from "@app/lib/ai-providers";
+import { Markdown } from "./Markdown";
+import { EmbedDisplay } from "./tools/EmbedDisplay";
+import { getPerplexityContent, withCitations } from "./tools/PerplexityDisplay";
+import { parseToolResult } from "./tools/parseToolResult";
+
+interface ExportedThreadProps {
+  thread: Thread;
+  /** Messages of the branch being shown, first to last */
+  messages: Message[];
+}
+
+const cardStyle = { background: "var(--bg-secondary)", border: "1px solid var(--border-secondary)" };
+
+function formatJson(value: unknown): string {
+  const parsed = typeof value === "string" ? (parseToolResult<unknown>(value) ?? value) : value;
+  return typeof parsed === "string" ? parsed : JSON.stringify(parsed, null, 2);
+}
+
+function ExportedTool({ toolInvocation }: { toolInvocation: ToolInvocation }) {
+  const { toolName, args, result } = toolInvocation;
+
+  if (toolName.startsWith("perplexity_")) {
+    const { content, citations } = getPerplexityContent(toolName, result);
+    const query = (args as { query?: string }).query ?? "";
+    return (
+      <details className="overflow-hidden rounded-xl" style={{ background: "var(--bg-hover)" }}>
+        <summary className="flex cursor-pointer items-center gap-2.5 px-3 py-2 text-sm" style={{ color: "var(--fg-secondary)" }}>
+          <Search className="h-4 w-4 shrink-0" style={{ color: "var(--fg-accent)" }} />
+          <span className="truncate">{query !== "" ? query : "Search result"}</span>
+        </summary>
+        <div className="px-3 py-2 text-sm" style={{ borderTop: "1px solid var(--border-secondary)" }}>
+          <Markdown content={withCitations(content, citations)} />
+        </div>
+      </details>
+    );
+  }
+
+  if (toolName === "embed") {
+    return <EmbedDisplay toolInvocation={toolInvocation} />;
+  }
+
+  if (toolName === "show_content") {
+    const parsed = parseToolResult<{ title?: string; content?: string }>(result) ?? {};
+    const title = parsed.title ?? (args as { title?: string }).title ?? "Content";
+    return (
+      <div className="overflow-hidden rounded-xl" style={cardStyle}>
+        <div className="flex items-center gap-2 border-b px-4 py-3" style={{ borderColor: "var(--border-secondary)" }}>
+          <FileText className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+          <span className="text-sm font-medium" style={{ color: "var(--fg-primary)" }}>{title}</span>
+        </div>
+        <div className="p-4">
+          <Markdown content={parsed.content ?? ""} />
+        </div>
+      </div>
+    );
+  }
+
+  if (toolName === "show_document") {
+    const parsed = parseToolResult<{ uri?: string; title?: string }>(result) ?? {};
+    const uri = parsed.uri ?? (args as { uri?: string }).uri ?? "";
+    const isWeb = uri.startsWith("http://") || uri.startsWith("https://");
+    const label = parsed.title ?? (args as { title?: string }).title ?? uri;
+    return (
+      <div className="flex items-center gap-3 rounded-xl px-4 py-3" style={cardStyle}>
+        {isWeb ? (
+          <Globe className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+        ) : (
+          <FileText className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+        )}
+        {isWeb ? (
+          <a href={uri} className="truncate text-sm font-medium underline" style={{ color: "var(--fg-primary)" }}>{label}</a>
+        ) : (
+          <span className="truncate text-sm font-medium" style={{ color: "var(--fg-primary)" }}>{label}</span>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <details className="overflow-hidden rounded-xl" style={cardStyle}>
+      <summary className="flex cursor-pointer items-center gap-3 px-4 py-3 text-sm font-medium" style={{ color: "var(--fg-primary)" }}>
+        <Terminal className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+        {toolName}
+      </summary>
+      <div className="space-y-2 border-t px-4 py-3" style={{ borderColor: "var(--border-secondary)" }}>
+        <pre className="overflow-x-auto rounded-lg p-3 font-mono text-xs" style={{ background: "var(--bg-tertiary)", color: "var(--fg-secondary)" }}>
+          {JSON.stringify(args, null, 2)}
+        </pre>
+        {result !== undefined && (
+          <pre className="max-h-80 overflow-auto rounded-lg p-3 font-mono text-xs" style={{ background: "var(--bg-tertiary)", color: "var(--fg-secondary)" }}>
+            {formatJson(result)}
+          </pre>
+        )}
+      </div>
+    </details>
+  );
+}
+
+function ExportedUserMessage({ message }: { message: Message }) {
+  const attachments = message.metadata?.attachments ?? [];
+  return (
+    <div className="flex justify-end">
+      <div className="flex max-w-[85%] flex-col items-end gap-1">
+        {attachments.length > 0 && (
+          <div className="flex flex-wrap justify-end gap-2">
+            {attachments.map((attachment, index) =>
+              attachment.type === "image" ? (
+                <img
+                  key={index}
+                  src={`data:${attachment.mimeType};base64,${attachment.data}`}
+                  alt={attachment.name}
+                  className="max-h-48 rounded-xl border object-cover"
+                  style={{ borderColor: "var(--border-secondary)" }}
+                />
+              ) : (
+                <div key={index} className="flex h-14 items-center gap-2 rounded-xl border px-3 text-xs" style={{ ...cardStyle, color: "var(--fg-secondary)" }}>
+                  <FileText className="h-4 w-4 shrink-0" style={{ color: "var(--fg-accent)" }} />
+                  <span className="truncate">{attachment.name}</span>
+                </div>
+              )
+            )}
+          </div>
+        )}
+        {message.content.trim().length > 0 && (
+          <div className="rounded-2xl px-4 py-3 shadow-md" style={{ background: "var(--bg-hover)", color: "var(--fg-primary)" }}>
+            <Markdown content={message.content} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ExportedAssistantMessage({ message }: { message: Message }) {
+  const thinking = message.metadata?.thinking;
+  const answeredBy = message.metadata?.answeredBy;
+  const isError = message.metadata?.error !== undefined;
+
+  return (
+    <div className="flex justify-start">
+      <div className="flex max-w-[85%] gap-3 overflow-hidden">
+        <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full shadow-md" style={{ background: "var(--bg-tertiary)" }}>
+          <Sparkles className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+        </div>
+        <div className="flex min-w-0 flex-1 flex-col gap-2 overflow-hidden">
+          {thinking !== undefined && thinking.trim().length > 0 && (
+            <details className="rounded-2xl border px-4 py-2" style={{ borderColor: "var(--border-secondary)", color: "var(--fg-muted)" }}>
+              <summary className="flex cursor-pointer items-center gap-2 text-xs font-medium">
+                <Brain className="h-3.5 w-3.5" style={{ color: "var(--fg-accent)" }} />
+                Thought process
+              </summary>
+              <div className="mt-2 whitespace-pre-wrap text-xs leading-relaxed">{thinking}</div>
+            </details>
+          )}
+          {message.content.trim().length > 0 && (
+            <div
+              className="rounded-2xl px-4 py-3 shadow-md"
+              style={{ background: "var(--bg-tertiary)", color: isError ? "var(--fg-muted)" : "var(--fg-primary)" }}
+            >
+              <Markdown content={message.content} />
+            </div>
+          )}
+          {message.toolInvocations?.map((toolInvocation) => (
+            <ExportedTool key={toolInvocation.toolCallId} toolInvocation={toolInvocation} />
+          ))}
+          {answeredBy !== undefined && (
+            <div className="flex items-center gap-1.5 text-xs" style={{ color: "var(--fg-muted)" }}>
+              <ArrowRightLeft className="h-3 w-3" />
+              Answered by {getProviderDefinition(answeredBy.provider).name} · {answeredBy.model}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ExportedThread({ thread, messages }: ExportedThreadProps) {
+  return (
+    <article className="mx-auto max-w-3xl space-y-6 px-4 py-8">
+      <header className="border-b pb-4" style={{ borderColor: "var(--border-primary)" }}>
+        <h1 className="text-2xl font-bold" style={{ color: "var(--fg-primary)" }}>
+          {thread.title ?? "New conversation"}
+        </h1>
+        <p className="mt-1 text-xs" style={{ color: "var(--fg-muted)" }}>
+          {new Date(thread.createdAt).toLocaleString()}
+        </p>
+      </header>
+      {messages.map((message) =>
+        message.role === "user" ? (
+          <ExportedUserMessage key={message.id} message={message} />
+        ) : (
+          <ExportedAssistantMessage key={message.id} message={message} />
+        )
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,40 @@
+import { useState } from "react";
+import { Brain, ChevronDown, ChevronRight } from "lucide-react";
+
+interface ThinkingBlockProps {
+  text: string;
+  /** Still receiving reasoning tokens — shown expanded with a live label */
+  isStreaming?: boolean;
+}
+
+/**
+ * Collapsible view of model reasoning ("thinking") shown above the answer
+ */
+export function ThinkingBlock({ text, isStreaming = false }: ThinkingBlockProps) {
+  const [expanded, setExpanded] = useState(false);
+  const isOpen = expanded || isStreaming;
+
+  if (text.trim().length === 0) return null;
+
+  return (
+    <div
+      className="rounded-2xl border px-4 py-2"
+      style={{ borderColor: "var(--border-secondary)", color: "var(--fg-muted)" }}
+    >
+      <button
+        type="button"
+        onClick={() => { setExpanded(!expanded); }}
+        className="flex w-full items-center gap-2 text-xs font-medium"
+      >
+        {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Brain className="h-3.5 w-3.5" style={{ color: "var(--fg-accent)" }} />
+        {isStreaming ? "Thinking..." : "Thought process"}
+      </button>
+      {isOpen && (
+        <div className="mt-2 max-h-80 overflow-y-auto whitespace-pre-wrap text-xs leading-relaxed">
+          {text}
+        </div>
+      )}
+    </div>
+  );
+}
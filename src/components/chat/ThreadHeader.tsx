@@ -0,0 +1,236 @@
+import { useEffect, useRef, useState } from "react";
+import { ChevronDown, RotateCcw, SlidersHorizontal, Wrench } from "lucide-react";
+import type { ThreadSettings } from "@app/types/thread";
+import { getEnableTools, getThreadModel, mergeThreadSettings } from "@app/lib/ai";
+import { getProviderDefinition, providers } from "@app/lib/ai-providers";
+
+interface ThreadHeaderProps {
+  title: string | null;
+  settings: ThreadSettings | undefined;
+  /** Replace the thread's overrides; null goes back to the global defaults */
+  onChange: (settings: ThreadSettings | null) => void;
+}
+
+/** Empty input means "use the default" */
+function parseOptionalNumber(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (trimmed === "") return undefined;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+const inputClassName = "w-full rounded-lg border px-3 py-2 text-sm transition-colors focus:outline-none focus:ring-2";
+const inputStyle = { background: "var(--bg-input)", borderColor: "var(--border-secondary)", color: "var(--fg-primary)" };
+
+/**
+ * Thread title with a quick switcher for the thread's provider, model and
+ * generation parameters
+ */
+export function ThreadHeader({ title, settings, onChange }: ThreadHeaderProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [model, setModel] = useState("");
+  const [temperature, setTemperature] = useState("");
+  const [maxOutputTokens, setMaxOutputTokens] = useState("");
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  const { provider, model: activeModel } = getThreadModel(settings);
+  const definition = getProviderDefinition(provider);
+  const toolsEnabled = settings?.enableTools ?? getEnableTools();
+  const hasOverrides = settings !== undefined;
+
+  // Drafts follow the stored values whenever they change
+  useEffect(() => {
+    setModel(settings?.model ?? "");
+    setTemperature(settings?.temperature !== undefined ? String(settings.temperature) : "");
+    setMaxOutputTokens(settings?.maxOutputTokens !== undefined ? String(settings.maxOutputTokens) : "");
+  }, [settings]);
+
+  // Close when clicking outside the switcher
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current !== null && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleMouseDown);
+    return () => { document.removeEventListener("mousedown", handleMouseDown); };
+  }, [isOpen]);
+
+  const update = (change: Parameters<typeof mergeThreadSettings>[1]) => {
+    onChange(mergeThreadSettings(settings, change));
+  };
+
+  const commitModel = () => {
+    const trimmed = model.trim();
+    if (trimmed === (settings?.model ?? "")) return;
+    // A model only makes sense with its provider, so pin both
+    update({ provider, model: trimmed !== "" ? trimmed : undefined });
+  };
+
+  const commitTemperature = () => {
+    const value = parseOptionalNumber(temperature);
+    update({ temperature: value !== undefined ? Math.min(2, Math.max(0, value)) : undefined });
+  };
+
+  const commitMaxOutputTokens = () => {
+    const value = parseOptionalNumber(maxOutputTokens);
+    update({ maxOutputTokens: value !== undefined && value >= 1 ? Math.floor(value) : undefined });
+  };
+
+  const commitOnEnter = (commit: () => void) => (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") commit();
+  };
+
+  return (
+    <div
+      className="flex items-center gap-3 border-b px-4 py-2"
+      style={{ borderColor: "var(--border-primary)", background: "var(--bg-primary)" }}
+    >
+      <h2 className="min-w-0 truncate text-sm font-medium" style={{ color: "var(--fg-primary)" }}>
+        {title ?? "New conversation"}
+      </h2>
+      <div ref={containerRef} className="relative shrink-0">
+        <button
+          type="button"
+          onClick={() => { setIsOpen(!isOpen); }}
+          className="flex items-center gap-1.5 rounded-lg px-2 py-1 text-xs transition-colors hover:bg-[var(--bg-hover)]"
+          style={{ color: hasOverrides ? "var(--fg-accent)" : "var(--fg-muted)" }}
+          title={hasOverrides ? "This chat overrides the default model settings" : "Model settings for this chat"}
+        >
+          <SlidersHorizontal className="h-3 w-3" />
+          {definition.name} · {activeModel !== "" ? activeModel : "no model"}
+          {settings?.temperature !== undefined && ` · T ${String(settings.temperature)}`}
+          <ChevronDown className="h-3 w-3" />
+        </button>
+
+        {isOpen && (
+          <div
+            className="absolute left-0 top-full z-30 mt-1 w-80 space-y-4 rounded-xl border p-4 shadow-lg"
+            style={{ background: "var(--bg-secondary)", borderColor: "var(--border-secondary)" }}
+          >
+            <div>
+              <p className="mb-2 text-xs font-medium" style={{ color: "var(--fg-secondary)" }}>Provider</p>
+              <div className="grid grid-cols-3 gap-1.5">
+                {providers.map((p) => (
+                  <button
+                    key={p.id}
+                    type="button"
+                    onClick={() => { if (p.id !== provider) update({ provider: p.id, model: undefined }); }}
+                    className="truncate rounded-lg border px-2 py-1.5 text-xs transition-colors"
+                    style={{
+                      borderColor: p.id === provider ? "var(--bg-accent)" : "var(--border-secondary)",
+                      background: p.id === provider ? "var(--bg-tertiary)" : "transparent",
+                      color: p.id === provider ? "var(--fg-accent)" : "var(--fg-secondary)",
+                    }}
+                  >
+                    {p.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="th-model" className="mb-2 block text-xs font-medium" style={{ color: "var(--fg-secondary)" }}>
+                Model
+              </label>
+              <input
+                id="th-model"
+                type="text"
+                list="th-model-options"
+                value={model}
+                onChange={(e) => { setModel(e.target.value); }}
+                onBlur={commitModel}
+                onKeyDown={commitOnEnter(commitModel)}
+                placeholder={activeModel !== "" ? activeModel : "model-id"}
+                className={inputClassName}
+                style={inputStyle}
+              />
+              <datalist id="th-model-options">
+                {definition.models.map((m) => (
+                  <option key={m} value={m} />
+                ))}
+              </datalist>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="th-temperature" className="mb-2 block text-xs font-medium" style={{ color: "var(--fg-secondary)" }}>
+                  Temperature
+                </label>
+                <input
+                  id="th-temperature"
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={temperature}
+                  onChange={(e) => { setTemperature(e.target.value); }}
+                  onBlur={commitTemperature}
+                  onKeyDown={commitOnEnter(commitTemperature)}
+                  placeholder="Default"
+                  className={inputClassName}
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <label htmlFor="th-max-tokens" className="mb-2 block text-xs font-medium" style={{ color: "var(--fg-secondary)" }}>
+                  Max output tokens
+                </label>
+                <input
+                  id="th-max-tokens"
+                  type="number"
+                  min={1}
+                  step={256}
+                  value={maxOutputTokens}
+                  onChange={(e) => { setMaxOutputTokens(e.target.value); }}
+                  onBlur={commitMaxOutputTokens}
+                  onKeyDown={commitOnEnter(commitMaxOutputTokens)}
+                  placeholder="Default"
+                  className={inputClassName}
+                  style={inputStyle}
+                />
+              </div>
+            </div>
+            {settings?.temperature !== undefined && (
+              <p className="-mt-2 text-xs" style={{ color: "var(--fg-muted)" }}>
+                Temperature is ignored while extended thinking is on.
+              </p>
+            )}
+
+            {definition.capabilities.tools && (
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Wrench className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+                  <p className="text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>Tools</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => { update({ enableTools: !toolsEnabled }); }}
+                  className="relative h-6 w-11 rounded-full transition-colors"
+                  style={{ background: toolsEnabled ? "var(--bg-accent)" : "var(--bg-tertiary)" }}
+                >
+                  <span
+                    className="absolute left-0.5 top-0.5 h-5 w-5 rounded-full bg-white shadow transition-transform"
+                    style={{ transform: toolsEnabled ? "translateX(20px)" : "translateX(0)" }}
+                  />
+                </button>
+              </div>
+            )}
+
+            <button
+              type="button"
+              onClick={() => { onChange(null); }}
+              disabled={!hasOverrides}
+              className="flex w-full items-center justify-center gap-1.5 rounded-lg px-3 py-2 text-xs font-medium transition-colors hover:bg-[var(--bg-hover)] disabled:opacity-50"
+              style={{ color: "var(--fg-secondary)" }}
+            >
+              <RotateCcw className="h-3 w-3" />
+              Use default settings
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
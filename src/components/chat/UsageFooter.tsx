@@ -0,0 +1,33 @@
+import type { MessageUsage } from "@app/types/message";
+import { formatCost } from "@app/lib/pricing";
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Model, token counts, latency and estimated cost of an assistant response
+ */
+export function UsageFooter({ usage }: { usage: MessageUsage }) {
+  const parts = [
+    usage.model,
+    `${formatTokens(usage.promptTokens)} in · ${formatTokens(usage.completionTokens)} out`,
+  ];
+  if (usage.cacheReadTokens !== undefined && usage.cacheReadTokens > 0) {
+    parts.push(`${formatTokens(usage.cacheReadTokens)} cached`);
+  }
+  parts.push(`${formatSeconds(usage.latencyMs)} to first token · ${formatSeconds(usage.durationMs)} total`);
+  if (usage.costUsd !== undefined) {
+    parts.push(formatCost(usage.costUsd));
+  }
+
+  return (
+    <span className="truncate text-xs" style={{ color: "var(--fg-muted)" }} title={usage.provider}>
+      {parts.join(" · ")}
+    </span>
+  );
+}
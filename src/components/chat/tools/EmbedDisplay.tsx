@@ -21,6 +21,22 @@ interface EmbedResult {
   oembed_url?: string;
 }
 
+/**
+ * Iframe height that fits each provider's player
+ */
+export function getEmbedHeight(provider: string, type: string): string {
+  switch (provider) {
+    case "youtube":
+      return "315px";
+    case "spotify":
+      return type === "track" ? "152px" : "380px";
+    case "google_maps":
+      return "300px";
+    default:
+      return "400px";
+  }
+}
+
 export function EmbedDisplay({ toolInvocation }: EmbedDisplayProps) {
   const { state, result } = toolInvocation;
 
@@ -66,20 +82,6 @@ export function EmbedDisplay({ toolInvocation }: EmbedDisplayProps) {
     }
   };
 
-  // Provider-specific height
-  const getEmbedHeight = () => {
-    switch (provider) {
-      case "youtube":
-        return "315px";
-      case "spotify":
-        return embedResult.type === "track" ? "152px" : "380px";
-      case "google_maps":
-        return "300px";
-      default:
-        return "400px";
-    }
-  };
-
   // Render iframe for providers with embed_url
   if (embed_url !== undefined) {
     return (
@@ -101,7 +103,7 @@ export function EmbedDisplay({ toolInvocation }: EmbedDisplayProps) {
         <iframe
           src={embed_url}
           width="100%"
-          height={getEmbedHeight()}
+          height={getEmbedHeight(provider, embedResult.type)}
           style={{ border: "none" }}
           allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
           allowFullScreen
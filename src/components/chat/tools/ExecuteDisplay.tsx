@@ -1,7 +1,8 @@
 /**
  * ExecuteDisplay - Shows executor sub-agents in chat
  *
- * Displays when the executor agent calls execute([...]) to delegate tasks.
+ * Displays when the executor agent calls execute([...]) to hand parts of its
+ * task to sub-agents.
  */
 import { useState } from "react";
 import { Cog, ChevronDown, ChevronRight, Loader2, CheckCircle2, XCircle } from "lucide-react";
@@ -14,7 +15,8 @@ interface ExecuteDisplayProps {
 }
 
 interface ExecuteAssignment {
-  tasks: string[];
+  /** Only in older messages, where sub-agents were assigned whole tasks */
+  tasks?: string[];
   context: string;
 }
 
@@ -47,10 +49,13 @@ function SubExecutorCard({
 }) {
   const [isExpanded, setIsExpanded] = useState(false);
 
-  const firstTask = assignment.tasks[0];
-  const taskLabel = assignment.tasks.length === 1 && firstTask !== undefined
-    ? `Task ${firstTask}`
-    : `Tasks: ${assignment.tasks.join(", ")}`;
+  const tasks = assignment.tasks ?? [];
+  const firstTask = tasks[0];
+  const taskLabel = tasks.length === 0
+    ? `Part ${String(index)}`
+    : tasks.length === 1 && firstTask !== undefined
+      ? `Task ${firstTask}`
+      : `Tasks: ${tasks.join(", ")}`;
 
   return (
     <div
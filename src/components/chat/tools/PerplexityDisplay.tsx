@@ -20,6 +20,32 @@ interface PerplexityResult {
   citations?: string[];
 }
 
+/**
+ * Append a result's citations to its text as a list of source links
+ */
+export function withCitations(content: string, citations: string[]): string {
+  if (citations.length === 0) return content;
+  let formatted = `${content}\n\n**Sources:**\n`;
+  citations.forEach((url, index) => {
+    try {
+      const domain = new URL(url).hostname.replace("www.", "");
+      formatted += `- [${domain}](${url})\n`;
+    } catch {
+      formatted += `- [Source ${String(index + 1)}](${url})\n`;
+    }
+  });
+  return formatted;
+}
+
+/**
+ * Text and citations of a result; each tool variant stores its text under its own key
+ */
+export function getPerplexityContent(toolName: string, result: unknown): { content: string; citations: string[] } {
+  const resultKey = toolName === "perplexity_research" ? "research" : toolName === "perplexity_reason" ? "reasoning" : "answer";
+  const perplexityResult = parseToolResult<PerplexityResult>(result);
+  return { content: perplexityResult?.[resultKey] ?? "", citations: perplexityResult?.citations ?? [] };
+}
+
 export function PerplexityDisplay({ toolInvocation }: PerplexityDisplayProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const { toolName, state, args, result } = toolInvocation;
@@ -28,17 +54,17 @@ export function PerplexityDisplay({ toolInvocation }: PerplexityDisplayProps) {
   const getToolInfo = () => {
     switch (toolName) {
       case "perplexity_ask":
-        return { icon: Search, label: "Searching", doneLabel: "Search result", resultKey: "answer" as const };
+        return { icon: Search, label: "Searching", doneLabel: "Search result" };
       case "perplexity_research":
-        return { icon: BookOpen, label: "Researching", doneLabel: "Research result", resultKey: "research" as const };
+        return { icon: BookOpen, label: "Researching", doneLabel: "Research result" };
       case "perplexity_reason":
-        return { icon: Lightbulb, label: "Analyzing", doneLabel: "Analysis result", resultKey: "reasoning" as const };
+        return { icon: Lightbulb, label: "Analyzing", doneLabel: "Analysis result" };
       default:
-        return { icon: Search, label: "Searching", doneLabel: "Result", resultKey: "answer" as const };
+        return { icon: Search, label: "Searching", doneLabel: "Result" };
     }
   };
 
-  const { icon: Icon, label, doneLabel, resultKey } = getToolInfo();
+  const { icon: Icon, label, doneLabel } = getToolInfo();
   const query = (args as { query?: string }).query ?? "";
 
   // Loading state
@@ -57,9 +83,7 @@ export function PerplexityDisplay({ toolInvocation }: PerplexityDisplayProps) {
   }
 
   // Result state — result may be a JSON string from truncateToolResultForContext
-  const perplexityResult = parseToolResult<PerplexityResult>(result);
-  const content = perplexityResult?.[resultKey] ?? "";
-  const citations = perplexityResult?.citations ?? [];
+  const { content, citations } = getPerplexityContent(toolName, result);
 
   // Get first line/sentence for preview
   const getPreview = () => {
@@ -68,18 +92,7 @@ export function PerplexityDisplay({ toolInvocation }: PerplexityDisplayProps) {
   };
 
   // Format content with citations as markdown links
-  let formattedContent = content;
-  if (citations.length > 0) {
-    formattedContent += "\n\n**Sources:**\n";
-    citations.forEach((url, index) => {
-      try {
-        const domain = new URL(url).hostname.replace("www.", "");
-        formattedContent += `- [${domain}](${url})\n`;
-      } catch {
-        formattedContent += `- [Source ${String(index + 1)}](${url})\n`;
-      }
-    });
-  }
+  const formattedContent = withCitations(content, citations);
 
   // Collapsed view - compact card
   if (!isExpanded) {
@@ -1,31 +1,166 @@
 import { useEffect, useState, useMemo, useCallback } from "react";
-import { Search, MessageCircle, Plus, Palette, Settings } from "lucide-react";
-import type { Thread } from "@app/types/thread";
+import { Search, MessageCircle, MessageSquareText, Plus, Palette, Settings, Cpu, Thermometer, Wrench, RotateCcw, Download, Pin, PinOff, Archive, ArchiveRestore, Folder as FolderIcon, FolderMinus } from "lucide-react";
+import type { Folder, Thread, ThreadSettings } from "@app/types/thread";
+import { hasFilterTokens, matchesThreadFilter, parseThreadQuery } from "@app/lib/thread-filter";
 import { Modal } from "@app/components/ui/Modal";
+import { getEnableTools, getThreadModel, mergeThreadSettings } from "@app/lib/ai";
+import { providers } from "@app/lib/ai-providers";
+import { useMessageSearch } from "@app/hooks/useMessageSearch";
+import { SearchSnippet } from "./SearchSnippet";
+import type { ThreadActions } from "./ThreadMenu";
 
 type CommandAction =
   | { type: "conversation"; id: string }
+  | { type: "message"; threadId: string; messageId: string }
   | { type: "new-chat" }
   | { type: "theme" }
-  | { type: "settings" };
+  | { type: "settings" }
+  | { type: "export" }
+  | { type: "thread-settings"; settings: ThreadSettings | null }
+  | { type: "toggle-pinned" }
+  | { type: "toggle-archived" }
+  | { type: "move-to-folder"; folderId: string | null };
 
 interface CommandItem {
   id: string;
   title: string;
   subtitle?: string;
+  /** Search excerpt with highlighted matches, shown instead of the subtitle */
+  snippet?: string;
   icon: typeof MessageCircle;
   action: CommandAction;
   keywords?: string[];
+  /** Only listed once the user types a query */
+  searchOnly?: boolean;
 }
 
+const TEMPERATURE_PRESETS = [0, 0.3, 0.7, 1];
+
 interface CommandPaletteProps {
   isOpen: boolean;
   threads: Thread[];
+  folders: Folder[];
+  /** Thread the per-chat model and organization commands apply to */
+  activeThread?: Thread | undefined;
   onClose: () => void;
   onSelectConversation: (id: string) => void;
+  /** Open a thread scrolled to a message found by full-text search */
+  onSelectMessage: (threadId: string, messageId: string) => void;
   onNewChat: () => void;
   onOpenTheme: () => void;
   onOpenSettings: () => void;
+  onOpenExport: () => void;
+  onUpdateThreadSettings: (settings: ThreadSettings | null) => void;
+  threadActions: ThreadActions;
+}
+
+/**
+ * Commands that change the active thread's model and generation parameters
+ */
+function getThreadSettingsItems(thread: Thread): CommandItem[] {
+  const { settings } = thread;
+  const current = getThreadModel(settings);
+  const items: CommandItem[] = [];
+
+  for (const provider of providers) {
+    const models = provider.models.length > 0 ? provider.models : [undefined];
+    for (const model of models) {
+      if (provider.id === current.provider && (model ?? current.model) === current.model) continue;
+      items.push({
+        id: `thread-model-${provider.id}-${model ?? "default"}`,
+        title: `Use ${model ?? provider.name} in this chat`,
+        subtitle: provider.name,
+        icon: Cpu,
+        action: { type: "thread-settings", settings: mergeThreadSettings(settings, { provider: provider.id, model }) },
+        keywords: ["model", "provider", "switch", provider.id],
+        searchOnly: true,
+      });
+    }
+  }
+
+  for (const temperature of TEMPERATURE_PRESETS) {
+    if (settings?.temperature === temperature) continue;
+    items.push({
+      id: `thread-temperature-${String(temperature)}`,
+      title: `Set temperature to ${String(temperature)} in this chat`,
+      icon: Thermometer,
+      action: { type: "thread-settings", settings: mergeThreadSettings(settings, { temperature }) },
+      keywords: ["temperature", "creativity", "sampling"],
+      searchOnly: true,
+    });
+  }
+
+  const toolsEnabled = settings?.enableTools ?? getEnableTools();
+  items.push({
+    id: "thread-tools",
+    title: `${toolsEnabled ? "Disable" : "Enable"} tools in this chat`,
+    icon: Wrench,
+    action: { type: "thread-settings", settings: mergeThreadSettings(settings, { enableTools: !toolsEnabled }) },
+    keywords: ["tools", "search", "agent"],
+    searchOnly: true,
+  });
+
+  if (settings !== undefined) {
+    items.push({
+      id: "thread-reset",
+      title: "Use default model settings in this chat",
+      subtitle: `Currently ${current.model}`,
+      icon: RotateCcw,
+      action: { type: "thread-settings", settings: null },
+      keywords: ["reset", "default", "model", "temperature", "tokens"],
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Commands that pin, archive or file the active thread
+ */
+function getThreadOrganizationItems(thread: Thread, folders: Folder[]): CommandItem[] {
+  const items: CommandItem[] = [
+    {
+      id: "thread-pin",
+      title: thread.pinned ? "Unpin this chat" : "Pin this chat",
+      icon: thread.pinned ? PinOff : Pin,
+      action: { type: "toggle-pinned" },
+      keywords: ["pin", "favorite", "top"],
+      searchOnly: true,
+    },
+    {
+      id: "thread-archive",
+      title: thread.archived ? "Unarchive this chat" : "Archive this chat",
+      icon: thread.archived ? ArchiveRestore : Archive,
+      action: { type: "toggle-archived" },
+      keywords: ["archive", "hide", "restore"],
+      searchOnly: true,
+    },
+  ];
+
+  for (const folder of folders) {
+    if (folder.id === thread.folderId) continue;
+    items.push({
+      id: `thread-folder-${folder.id}`,
+      title: `Move this chat to ${folder.name}`,
+      icon: FolderIcon,
+      action: { type: "move-to-folder", folderId: folder.id },
+      keywords: ["folder", "move", "file"],
+      searchOnly: true,
+    });
+  }
+
+  if (thread.folderId !== undefined) {
+    items.push({
+      id: "thread-folder-none",
+      title: "Remove this chat from its folder",
+      icon: FolderMinus,
+      action: { type: "move-to-folder", folderId: null },
+      keywords: ["folder", "move", "unfile"],
+      searchOnly: true,
+    });
+  }
+
+  return items;
 }
 
 function fuzzyMatch(text: string, query: string): boolean {
@@ -68,14 +203,25 @@ function fuzzyScore(text: string, query: string): number {
 export function CommandPalette({
   isOpen,
   threads,
+  folders,
+  activeThread,
   onClose,
   onSelectConversation,
+  onSelectMessage,
   onNewChat,
   onOpenTheme,
   onOpenSettings,
+  onOpenExport,
+  onUpdateThreadSettings,
+  threadActions,
 }: CommandPaletteProps) {
   const [query, setQuery] = useState("");
   const [selectedIndex, setSelectedIndex] = useState(0);
+  // Filter tokens (#tag, in:folder, is:pinned, is:archived) narrow conversations;
+  // the remaining text is matched as usual
+  const filter = useMemo(() => parseThreadQuery(query), [query]);
+  const isFiltering = hasFilterTokens(filter);
+  const searchResults = useMessageSearch(filter.text, 10);
 
   // Build command items
   const allItems = useMemo((): CommandItem[] => {
@@ -104,37 +250,80 @@ export function CommandPalette({
         action: { type: "settings" },
         keywords: ["settings", "preferences", "config", "api", "key"],
       },
+      {
+        id: "export",
+        title: "Export or Import Conversations",
+        subtitle: "Save chats as Markdown, JSON or HTML",
+        icon: Download,
+        action: { type: "export" },
+        keywords: ["export", "import", "download", "save", "share", "markdown", "json", "html"],
+      },
     ];
 
-    const conversationItems: CommandItem[] = threads.map((t) => ({
-      id: `conv-${t.id}`,
-      title: t.title ?? "New conversation",
-      icon: MessageCircle,
-      action: { type: "conversation", id: t.id },
-    }));
+    // Conversations are only offered while the filter tokens allow them
+    const conversationItems: CommandItem[] = threads
+      .filter((t) => matchesThreadFilter(t, filter, folders))
+      .map((t) => {
+        const folderName = folders.find((f) => f.id === t.folderId)?.name;
+        const subtitle = [folderName, ...t.tags.map((tag) => `#${tag}`)].filter((part) => part !== undefined).join(" · ");
+        return {
+          id: `conv-${t.id}`,
+          title: t.title ?? "New conversation",
+          ...(subtitle !== "" ? { subtitle } : {}),
+          icon: MessageCircle,
+          action: { type: "conversation", id: t.id },
+          keywords: t.tags,
+        };
+      });
 
-    return [...commands, ...conversationItems];
-  }, [threads]);
+    if (isFiltering) return conversationItems;
 
-  // Filter items based on query
+    const threadItems =
+      activeThread !== undefined
+        ? [...getThreadOrganizationItems(activeThread, folders), ...getThreadSettingsItems(activeThread)]
+        : [];
+
+    return [...commands, ...threadItems, ...conversationItems];
+  }, [threads, folders, activeThread, filter, isFiltering]);
+
+  // Filter items based on query; message matches follow, already ranked by the index
   const filteredItems = useMemo(() => {
     if (query.trim() === "") {
-      return allItems.slice(0, 15);
+      return allItems.filter((item) => item.searchOnly !== true).slice(0, 15);
     }
 
-    return allItems
+    // Only filter tokens typed: every conversation passing them
+    if (filter.text === "") return allItems.slice(0, 15);
+
+    const messageResults = isFiltering
+      ? searchResults.filter((result) => {
+          const thread = threads.find((t) => t.id === result.threadId);
+          return thread !== undefined && matchesThreadFilter(thread, filter, folders);
+        })
+      : searchResults;
+
+    const messageItems: CommandItem[] = messageResults.map((result) => ({
+      id: `msg-${result.messageId}`,
+      title: result.threadTitle ?? "New conversation",
+      snippet: result.snippet,
+      icon: MessageSquareText,
+      action: { type: "message", threadId: result.threadId, messageId: result.messageId },
+    }));
+
+    const matchingItems = allItems
       .filter((item) => {
         const searchText = [item.title, item.subtitle, ...(item.keywords ?? [])].join(" ");
-        return fuzzyMatch(searchText, query);
+        return fuzzyMatch(searchText, filter.text);
       })
       .map((item) => {
         const searchText = [item.title, item.subtitle, ...(item.keywords ?? [])].join(" ");
-        return { item, score: fuzzyScore(searchText, query) };
+        return { item, score: fuzzyScore(searchText, filter.text) };
       })
       .sort((a, b) => b.score - a.score)
       .map(({ item }) => item)
       .slice(0, 15);
-  }, [allItems, query]);
+    return [...matchingItems, ...messageItems];
+  }, [allItems, threads, folders, query, filter, isFiltering, searchResults]);
 
   // Reset state when opening
   useEffect(() => {
@@ -155,6 +344,9 @@ export function CommandPalette({
       case "conversation":
         onSelectConversation(action.id);
         break;
+      case "message":
+        onSelectMessage(action.threadId, action.messageId);
+        break;
       case "new-chat":
         onNewChat();
         break;
@@ -164,8 +356,23 @@ export function CommandPalette({
       case "settings":
         onOpenSettings();
         break;
+      case "export":
+        onOpenExport();
+        break;
+      case "thread-settings":
+        onUpdateThreadSettings(action.settings);
+        break;
+      case "toggle-pinned":
+        if (activeThread !== undefined) threadActions.onTogglePinned(activeThread);
+        break;
+      case "toggle-archived":
+        if (activeThread !== undefined) threadActions.onToggleArchived(activeThread);
+        break;
+      case "move-to-folder":
+        if (activeThread !== undefined) threadActions.onMoveToFolder(activeThread, action.folderId);
+        break;
     }
-  }, [onClose, onSelectConversation, onNewChat, onOpenTheme, onOpenSettings]);
+  }, [onClose, onSelectConversation, onSelectMessage, onNewChat, onOpenTheme, onOpenSettings, onOpenExport, onUpdateThreadSettings, activeThread, threadActions]);
 
   // Handle keyboard navigation
   useEffect(() => {
@@ -206,7 +413,7 @@ export function CommandPalette({
           type="text"
           value={query}
           onChange={(e) => { setQuery(e.target.value); }}
-          placeholder="Search commands and conversations..."
+          placeholder="Search commands, conversations and messages... (#tag, in:folder, is:pinned)"
           className="flex-1 bg-transparent focus:outline-none"
           style={{ color: "var(--fg-primary)" }}
           autoFocus
@@ -239,13 +446,14 @@ export function CommandPalette({
                 <Icon className="h-4 w-4 shrink-0 opacity-50" />
                 <div className="flex-1 min-w-0">
                   <span className="truncate block">{item.title}</span>
-                  {item.subtitle !== undefined && (
+                  {item.snippet !== undefined && <SearchSnippet snippet={item.snippet} />}
+                  {item.snippet === undefined && item.subtitle !== undefined && (
                     <span className="text-xs truncate block" style={{ color: "var(--fg-muted)" }}>
                       {item.subtitle}
                     </span>
                   )}
                 </div>
-                {item.action.type !== "conversation" && (
+                {item.action.type !== "conversation" && item.action.type !== "message" && (
                   <span className="text-xs px-2 py-0.5 rounded" style={{ background: "var(--bg-tertiary)", color: "var(--fg-muted)" }}>
                     command
                   </span>
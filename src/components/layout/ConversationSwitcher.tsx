@@ -1,52 +1,119 @@
 import { useEffect, useState, useMemo } from "react";
-import { MessageCircle } from "lucide-react";
-import type { Thread } from "@app/types/thread";
+import { MessageCircle, MessageSquareText, Search } from "lucide-react";
+import type { Folder, Thread } from "@app/types/thread";
+import { filterThreads, hasFilterTokens, matchesThreadFilter, parseThreadQuery } from "@app/lib/thread-filter";
 import { Modal } from "@app/components/ui/Modal";
+import { useMessageSearch } from "@app/hooks/useMessageSearch";
+import { SearchSnippet } from "./SearchSnippet";
 
 interface ConversationSwitcherProps {
   isOpen: boolean;
   threads: Thread[];
+  folders: Folder[];
   activeThreadId: string | null;
   onSelect: (id: string | null) => void;
+  /** Open a thread scrolled to a message found by full-text search */
+  onSelectMessage: (threadId: string, messageId: string) => void;
   onClose: () => void;
 }
 
+type SwitcherOption =
+  | { type: "thread"; id: string | null; title: string }
+  | { type: "message"; threadId: string; messageId: string; title: string; snippet: string };
+
 export function ConversationSwitcher({
   isOpen,
   threads,
+  folders,
   activeThreadId,
   onSelect,
+  onSelectMessage,
   onClose,
 }: ConversationSwitcherProps) {
-  // Get last 10 threads sorted by updatedAt
-  const options = useMemo(() => {
-    const recentThreads = [...threads]
+  // Ctrl+F switches to searching: Ctrl can then be released to type, Enter selects
+  const [isSearching, setIsSearching] = useState(false);
+  const [query, setQuery] = useState("");
+  // Filter tokens (#tag, in:folder, is:pinned, is:archived) narrow threads;
+  // only the remaining text is searched for in messages
+  const filter = useMemo(() => parseThreadQuery(query), [query]);
+  const searchResults = useMessageSearch(isSearching ? filter.text : "", 10);
+
+  // Last 10 unarchived threads sorted by updatedAt; while searching, matching threads and messages
+  const options = useMemo((): SwitcherOption[] => {
+    if (isSearching && query.trim() !== "") {
+      const messageResults = hasFilterTokens(filter)
+        ? searchResults.filter((r) => {
+            const thread = threads.find((t) => t.id === r.threadId);
+            return thread !== undefined && matchesThreadFilter(thread, filter, folders);
+          })
+        : searchResults;
+      return [
+        ...filterThreads(threads, query, folders)
+          .slice(0, hasFilterTokens(filter) ? 10 : 5)
+          .map((t): SwitcherOption => ({ type: "thread", id: t.id, title: t.title ?? "New conversation" })),
+        ...messageResults.map((r): SwitcherOption => ({
+          type: "message",
+          threadId: r.threadId,
+          messageId: r.messageId,
+          title: r.threadTitle ?? "New conversation",
+          snippet: r.snippet,
+        })),
+      ];
+    }
+
+    const recentThreads = threads
+      .filter((t) => !t.archived)
       .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
       .slice(0, 10);
 
     return [
-      ...recentThreads.map((t) => ({ id: t.id, title: t.title ?? "New conversation" })),
-      { id: null, title: "New Chat" },
+      ...recentThreads.map((t): SwitcherOption => ({ type: "thread", id: t.id, title: t.title ?? "New conversation" })),
+      { type: "thread", id: null, title: "New Chat" },
     ];
-  }, [threads]);
+  }, [threads, folders, isSearching, query, filter, searchResults]);
 
   const [selectedIndex, setSelectedIndex] = useState(0);
 
+  // Leave search mode when closed
+  useEffect(() => {
+    if (!isOpen) {
+      setIsSearching(false);
+      setQuery("");
+    }
+  }, [isOpen]);
+
+  // Search results start at the best match
+  useEffect(() => {
+    if (isSearching) setSelectedIndex(0);
+  }, [isSearching, options.length]);
+
   // Reset selection when opening
   useEffect(() => {
-    if (isOpen) {
+    if (isOpen && !isSearching) {
       // Find the current thread index, or default to 0
-      const currentIndex = options.findIndex((o) => o.id === activeThreadId);
+      const currentIndex = options.findIndex((o) => o.type === "thread" && o.id === activeThreadId);
       // Start at the next item (or 0 if not found)
       setSelectedIndex(currentIndex >= 0 ? (currentIndex + 1) % options.length : 0);
     }
-  }, [isOpen, activeThreadId, options]);
+  }, [isOpen, isSearching, activeThreadId, options]);
 
   useEffect(() => {
     if (!isOpen) return;
 
+    const select = (option: SwitcherOption | undefined) => {
+      if (option?.type === "thread") {
+        onSelect(option.id);
+      } else if (option !== undefined) {
+        onSelectMessage(option.threadId, option.messageId);
+      }
+    };
+
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === "Tab") {
+      if (e.ctrlKey && e.key === "f" && !isSearching) {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsSearching(true);
+      } else if (e.key === "Tab") {
         e.preventDefault();
         if (e.shiftKey) {
           setSelectedIndex((prev) => (prev - 1 + options.length) % options.length);
@@ -61,10 +128,7 @@ export function ConversationSwitcher({
         setSelectedIndex((prev) => (prev - 1 + options.length) % options.length);
       } else if (e.key === "Enter") {
         e.preventDefault();
-        const selected = options[selectedIndex];
-        if (selected !== undefined) {
-          onSelect(selected.id);
-        }
+        select(options[selectedIndex]);
         onClose();
       } else if (e.key === "Escape") {
         e.preventDefault();
@@ -74,12 +138,9 @@ export function ConversationSwitcher({
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
-      // Select when Ctrl is released
-      if (e.key === "Control") {
-        const selected = options[selectedIndex];
-        if (selected !== undefined) {
-          onSelect(selected.id);
-        }
+      // Select when Ctrl is released, unless typing a search
+      if (e.key === "Control" && !isSearching) {
+        select(options[selectedIndex]);
         onClose();
       }
     };
@@ -90,33 +151,66 @@ export function ConversationSwitcher({
       window.removeEventListener("keydown", handleKeyDown, true);
       window.removeEventListener("keyup", handleKeyUp, true);
     };
-  }, [isOpen, selectedIndex, options, onSelect, onClose]);
+  }, [isOpen, isSearching, selectedIndex, options, onSelect, onSelectMessage, onClose]);
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} className="w-full max-w-md p-4" closeOnEscape={false}>
       <p className="mb-3 text-center text-xs font-medium uppercase tracking-wider" style={{ color: "var(--fg-muted)" }}>
         Switch Conversation
       </p>
+      {isSearching && (
+        <div className="mb-3 flex items-center gap-2 rounded-xl border px-3 py-2" style={{ borderColor: "var(--border-secondary)" }}>
+          <Search className="h-4 w-4" style={{ color: "var(--fg-muted)" }} />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); }}
+            placeholder="Search conversations and messages... (#tag, in:folder)"
+            className="flex-1 bg-transparent text-sm focus:outline-none"
+            style={{ color: "var(--fg-primary)" }}
+            autoFocus
+          />
+        </div>
+      )}
       <div className="max-h-80 space-y-1 overflow-y-auto">
+        {isSearching && query.trim() !== "" && options.length === 0 && (
+          <div className="py-6 text-center text-sm" style={{ color: "var(--fg-muted)" }}>
+            No results found
+          </div>
+        )}
         {options.map((option, index) => (
           <div
-            key={option.id ?? "new"}
+            key={option.type === "thread" ? option.id ?? "new" : `msg-${option.messageId}`}
             className="flex items-center gap-3 rounded-xl px-4 py-3 transition-colors"
             style={{
               background: index === selectedIndex ? "var(--highlight)" : "transparent",
               color: index === selectedIndex ? "var(--fg-primary)" : "var(--fg-muted)",
             }}
           >
-            <MessageCircle className="h-4 w-4 shrink-0 opacity-50" />
-            <span className="truncate">{option.title}</span>
-            {option.id === activeThreadId && (
-              <span className="ml-auto text-xs" style={{ color: "var(--fg-muted)" }}>current</span>
+            {option.type === "thread" ? (
+              <>
+                <MessageCircle className="h-4 w-4 shrink-0 opacity-50" />
+                <span className="truncate">{option.title}</span>
+                {option.id === activeThreadId && (
+                  <span className="ml-auto text-xs" style={{ color: "var(--fg-muted)" }}>current</span>
+                )}
+              </>
+            ) : (
+              <>
+                <MessageSquareText className="h-4 w-4 shrink-0 opacity-50" />
+                <div className="min-w-0 flex-1">
+                  <span className="block truncate">{option.title}</span>
+                  <SearchSnippet snippet={option.snippet} />
+                </div>
+              </>
             )}
           </div>
         ))}
       </div>
       <p className="mt-3 text-center text-xs" style={{ color: "var(--fg-muted)" }}>
-        Tab / Shift+Tab to navigate • Release Ctrl to select
+        {isSearching
+          ? "↑↓ to navigate • Enter to open • Esc to close"
+          : "Tab / Shift+Tab to navigate • Release Ctrl to select • Ctrl+F to search"}
       </p>
     </Modal>
   );
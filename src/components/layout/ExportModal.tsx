@@ -0,0 +1,195 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, Download, Loader2, Upload } from "lucide-react";
+import type { Thread } from "@app/types/thread";
+import { Modal } from "@app/components/ui/Modal";
+import { exportThreads, importThreads, type ExportFormat } from "@app/lib/export";
+
+interface ExportModalProps {
+  isOpen: boolean;
+  threads: Thread[];
+  /** Threads ticked when the modal opens */
+  initialSelection: string[];
+  onClose: () => void;
+  /** Called with the threads created from an imported file */
+  onImported: (threads: Thread[]) => void;
+}
+
+const FORMATS: { id: ExportFormat; label: string; description: string }[] = [
+  { id: "markdown", label: "Markdown", description: "Readable text of the branch shown" },
+  { id: "json", label: "JSON", description: "Every branch and detail; can be imported" },
+  { id: "html", label: "HTML", description: "Standalone page that looks like the chat" },
+];
+
+export function ExportModal({ isOpen, threads, initialSelection, onClose, onImported }: ExportModalProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [format, setFormat] = useState<ExportFormat>("markdown");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Reset state when opening
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedIds(new Set(initialSelection));
+      setError(null);
+    }
+  }, [isOpen, initialSelection]);
+
+  const allSelected = threads.length > 0 && threads.every((t) => selectedIds.has(t.id));
+
+  const toggle = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await exportThreads(threads.filter((t) => selectedIds.has(t.id)), format);
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const imported = await importThreads(await file.text());
+      onImported(imported);
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} className="w-full max-w-lg p-6">
+      <div className="mb-4 flex items-center gap-3">
+        <div
+          className="flex h-10 w-10 items-center justify-center rounded-xl"
+          style={{ background: "var(--bg-tertiary)" }}
+        >
+          <Download className="h-5 w-5" style={{ color: "var(--fg-accent)" }} />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold" style={{ color: "var(--fg-primary)" }}>Export Conversations</h2>
+          <p className="text-sm" style={{ color: "var(--fg-muted)" }}>Save chats to a file, or import a JSON export</p>
+        </div>
+      </div>
+
+      <div className="mb-4 grid grid-cols-3 gap-2">
+        {FORMATS.map((f) => (
+          <button
+            key={f.id}
+            type="button"
+            onClick={() => { setFormat(f.id); }}
+            className="rounded-xl border px-3 py-2 text-left transition-colors"
+            style={{
+              borderColor: f.id === format ? "var(--bg-accent)" : "var(--border-secondary)",
+              background: f.id === format ? "var(--bg-tertiary)" : "transparent",
+            }}
+          >
+            <span className="block text-sm font-medium" style={{ color: f.id === format ? "var(--fg-accent)" : "var(--fg-primary)" }}>
+              {f.label}
+            </span>
+            <span className="block text-xs" style={{ color: "var(--fg-muted)" }}>{f.description}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="mb-2 flex items-center justify-between">
+        <p className="text-xs font-medium uppercase tracking-wider" style={{ color: "var(--fg-muted)" }}>
+          Conversations ({selectedIds.size}/{threads.length})
+        </p>
+        <button
+          type="button"
+          onClick={() => { setSelectedIds(allSelected ? new Set() : new Set(threads.map((t) => t.id))); }}
+          className="text-xs transition-colors hover:opacity-80"
+          style={{ color: "var(--fg-accent)" }}
+        >
+          {allSelected ? "Select none" : "Select all"}
+        </button>
+      </div>
+      <div className="mb-4 max-h-64 space-y-1 overflow-y-auto">
+        {threads.length === 0 && (
+          <p className="py-6 text-center text-sm" style={{ color: "var(--fg-muted)" }}>No conversations yet</p>
+        )}
+        {threads.map((thread) => {
+          const isSelected = selectedIds.has(thread.id);
+          return (
+            <button
+              key={thread.id}
+              type="button"
+              onClick={() => { toggle(thread.id); }}
+              className="flex w-full items-center gap-3 rounded-xl px-3 py-2 text-left text-sm transition-colors hover:bg-[var(--bg-hover)]"
+              style={{ color: isSelected ? "var(--fg-primary)" : "var(--fg-muted)" }}
+            >
+              <span
+                className="flex h-4 w-4 shrink-0 items-center justify-center rounded border"
+                style={{
+                  borderColor: isSelected ? "var(--bg-accent)" : "var(--border-secondary)",
+                  background: isSelected ? "var(--bg-accent)" : "transparent",
+                }}
+              >
+                {isSelected && <Check className="h-3 w-3" style={{ color: "var(--fg-primary)" }} />}
+              </span>
+              <span className="truncate">{thread.title ?? "New conversation"}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {error !== null && (
+        <p className="mb-4 text-sm" style={{ color: "var(--danger)" }}>{error}</p>
+      )}
+
+      <div className="flex items-center justify-between">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file !== undefined) void handleImport(file);
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => { fileInputRef.current?.click(); }}
+          disabled={isBusy}
+          className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm transition-colors hover:bg-[var(--bg-hover)] disabled:opacity-50"
+          style={{ color: "var(--fg-secondary)" }}
+        >
+          <Upload className="h-4 w-4" />
+          Import JSON
+        </button>
+        <button
+          type="button"
+          onClick={() => void handleExport()}
+          disabled={isBusy || selectedIds.size === 0}
+          className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium transition-colors disabled:opacity-50"
+          style={{ background: "var(--bg-accent)", color: "var(--fg-primary)" }}
+        >
+          {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          Export
+        </button>
+      </div>
+    </Modal>
+  );
+}
@@ -1,33 +1,54 @@
-import { useCallback, useState, useEffect } from "react";
+import { useCallback, useState, useEffect, useMemo } from "react";
 import { ChevronRight, Sparkles } from "lucide-react";
 import { Sidebar } from "./Sidebar";
 import { SettingsModal } from "./SettingsModal";
 import { ConversationSwitcher } from "./ConversationSwitcher";
 import { CommandPalette } from "./CommandPalette";
 import { ThemeSelector } from "./ThemeSelector";
+import { ExportModal } from "./ExportModal";
+import type { ThreadActions } from "./ThreadMenu";
 import { ChatThread } from "@app/components/chat/ChatThread";
 import { AgentTaskPanel } from "@app/components/agent/AgentTaskPanel";
 import { DocumentPanel } from "@app/components/document/DocumentPanel";
 import { useThreads } from "@app/hooks/useThreads";
 import { useAgentSession } from "@app/hooks/useAgentSession";
 import { useDocumentStore } from "@app/stores/document-store";
+import { keepLocalApiSettingsSynced, syncLocalApiSettings } from "@app/lib/local-api";
+import type { Thread, ThreadSettings } from "@app/types/thread";
+
+const NO_SELECTION: string[] = [];
 
 export function MainLayout() {
   const {
     threads,
+    folders,
     isLoading,
     createThread,
     deleteThread,
     updateThreadTitle,
+    updateThreadSettings,
+    updateThreadPinned,
+    updateThreadArchived,
+    updateThreadFolder,
+    updateThreadTags,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    refresh: refreshThreads,
   } = useThreads();
 
   const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [settingsPage, setSettingsPage] = useState<string | undefined>(undefined);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  // Search hit to scroll to once its thread is open
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
   const [isSwitcherOpen, setIsSwitcherOpen] = useState(false);
   const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
   const [isThemeSelectorOpen, setIsThemeSelectorOpen] = useState(false);
+  // Threads ticked in the export modal; null while it's closed
+  const [exportSelection, setExportSelection] = useState<string[] | null>(null);
   const [isTaskPanelVisible, setIsTaskPanelVisible] = useState(true);
 
   // Get agent session for the active thread
@@ -63,6 +84,15 @@ export function MainLayout() {
     setActiveThreadId(id);
   }, []);
 
+  const handleSelectMessage = useCallback((threadId: string, messageId: string) => {
+    setActiveThreadId(threadId);
+    setFocusMessageId(messageId);
+  }, []);
+
+  const handleFocusMessageHandled = useCallback(() => {
+    setFocusMessageId(null);
+  }, []);
+
   const handleDeleteThread = useCallback(
     async (id: string) => {
       await deleteThread(id);
@@ -73,13 +103,81 @@ export function MainLayout() {
     [deleteThread, activeThreadId]
   );
 
+  const activeThread = threads.find((t) => t.id === activeThreadId);
+
+  // Suggested tags only fill in a thread the user hasn't tagged yet
   const handleTitleGenerated = useCallback(
-    (title: string) => {
+    (title: string, suggestedTags: string[]) => {
       if (activeThreadId !== null) {
         void updateThreadTitle(activeThreadId, title);
+        if (suggestedTags.length > 0 && activeThread?.tags.length === 0) {
+          void updateThreadTags(activeThreadId, suggestedTags);
+        }
+      }
+    },
+    [activeThreadId, activeThread, updateThreadTitle, updateThreadTags]
+  );
+
+  // Tags in use, most used first, offered to the title model for reuse
+  const knownTags = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const thread of threads) {
+      for (const tag of thread.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([tag]) => tag);
+  }, [threads]);
+
+  const unarchivedThreads = useMemo(() => threads.filter((t) => !t.archived), [threads]);
+
+  const handleUpdateThreadSettings = useCallback(
+    (settings: ThreadSettings | null) => {
+      if (activeThreadId !== null) {
+        void updateThreadSettings(activeThreadId, settings);
       }
     },
-    [activeThreadId, updateThreadTitle]
+    [activeThreadId, updateThreadSettings]
+  );
+
+  const handleOpenSettings = useCallback((page?: string) => {
+    setSettingsPage(page);
+    setIsSettingsOpen(true);
+  }, []);
+
+  // The local API serves with the app's settings: push them once the sidecar is up and after editing
+  const handleCloseSettings = useCallback(() => {
+    setIsSettingsOpen(false);
+    void syncLocalApiSettings();
+  }, []);
+
+  useEffect(() => keepLocalApiSettingsSynced(), []);
+
+  const handleOpenExport = useCallback((ids: string[]) => {
+    setExportSelection(ids);
+  }, []);
+
+  const handleCloseExport = useCallback(() => {
+    setExportSelection(null);
+  }, []);
+
+  const threadActions = useMemo(
+    (): ThreadActions => ({
+      onTogglePinned: (thread) => void updateThreadPinned(thread.id, !thread.pinned),
+      onToggleArchived: (thread) => void updateThreadArchived(thread.id, !thread.archived),
+      onMoveToFolder: (thread, folderId) => void updateThreadFolder(thread.id, folderId),
+      onUpdateTags: (thread, tags) => void updateThreadTags(thread.id, tags),
+      onExport: (thread) => { handleOpenExport([thread.id]); },
+      onDelete: (thread) => void handleDeleteThread(thread.id),
+    }),
+    [updateThreadPinned, updateThreadArchived, updateThreadFolder, updateThreadTags, handleOpenExport, handleDeleteThread]
+  );
+
+  const handleImported = useCallback(
+    (imported: Thread[]) => {
+      void refreshThreads();
+      const [first] = imported;
+      if (first !== undefined) setActiveThreadId(first.id);
+    },
+    [refreshThreads]
   );
 
   const handleToggleSidebar = useCallback(() => {
@@ -171,26 +269,36 @@ export function MainLayout() {
       )}
       <Sidebar
         threads={threads}
+        folders={folders}
         activeThreadId={activeThreadId}
         isLoading={isLoading}
         isCollapsed={isSidebarCollapsed}
         onNewChat={() => void handleNewChat()}
         onSelectThread={handleSelectThread}
-        onDeleteThread={(id) => void handleDeleteThread(id)}
+        threadActions={threadActions}
+        onCreateFolder={(name) => void createFolder(name)}
+        onRenameFolder={(id, name) => void renameFolder(id, name)}
+        onDeleteFolder={(id) => void deleteFolder(id)}
         onToggleCollapse={handleToggleSidebar}
         onMouseLeave={handleSidebarMouseLeave}
-        onOpenSettings={() => { setIsSettingsOpen(true); }}
+        onOpenSettings={() => { handleOpenSettings(); }}
       />
       <main className="flex flex-1 overflow-hidden">
         <div className="flex flex-1 flex-col overflow-hidden">
           <ChatThread
             threadId={activeThreadId}
+            thread={activeThread}
+            onUpdateThreadSettings={handleUpdateThreadSettings}
             onTitleGenerated={handleTitleGenerated}
             onStartChatWithMessage={(msg) => void handleStartChatWithMessage(msg)}
             onSelectThread={handleSelectThread}
-            recentThreads={threads}
+            recentThreads={unarchivedThreads}
+            knownTags={knownTags}
             initialMessage={pendingMessage}
             onInitialMessageConsumed={handleMessageConsumed}
+            onOpenSettings={handleOpenSettings}
+            focusMessageId={focusMessageId}
+            onFocusMessageHandled={handleFocusMessageHandled}
           />
         </div>
         {hasDocument && <DocumentPanel />}
@@ -220,31 +328,48 @@ export function MainLayout() {
 
       <SettingsModal
         isOpen={isSettingsOpen}
-        onClose={() => { setIsSettingsOpen(false); }}
+        onClose={handleCloseSettings}
+        {...(settingsPage !== undefined ? { initialPage: settingsPage } : {})}
       />
 
       <ConversationSwitcher
         isOpen={isSwitcherOpen}
         threads={threads}
+        folders={folders}
         activeThreadId={activeThreadId}
         onSelect={(id) => { setActiveThreadId(id); }}
+        onSelectMessage={handleSelectMessage}
         onClose={() => { setIsSwitcherOpen(false); }}
       />
 
       <CommandPalette
         isOpen={isCommandPaletteOpen}
         threads={threads}
+        folders={folders}
+        activeThread={activeThread}
         onClose={() => { setIsCommandPaletteOpen(false); }}
         onSelectConversation={(id) => { setActiveThreadId(id); }}
+        onSelectMessage={handleSelectMessage}
         onNewChat={() => void handleNewChat()}
         onOpenTheme={() => { setIsThemeSelectorOpen(true); }}
-        onOpenSettings={() => { setIsSettingsOpen(true); }}
+        onOpenSettings={() => { handleOpenSettings(); }}
+        onOpenExport={() => { handleOpenExport(activeThreadId !== null ? [activeThreadId] : []); }}
+        onUpdateThreadSettings={handleUpdateThreadSettings}
+        threadActions={threadActions}
       />
 
       <ThemeSelector
         isOpen={isThemeSelectorOpen}
         onClose={() => { setIsThemeSelectorOpen(false); }}
       />
+
+      <ExportModal
+        isOpen={exportSelection !== null}
+        threads={threads}
+        initialSelection={exportSelection ?? NO_SELECTION}
+        onClose={handleCloseExport}
+        onImported={handleImported}
+      />
     </div>
   );
 }
@@ -0,0 +1,27 @@
+/** Markers the search index puts around matched terms */
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+
+/**
+ * Search result excerpt with the matched terms highlighted
+ */
+export function SearchSnippet({ snippet }: { snippet: string }) {
+  const [before, ...matches] = snippet.split(HIGHLIGHT_START);
+
+  return (
+    <span className="block truncate text-xs" style={{ color: "var(--fg-muted)" }}>
+      {before}
+      {matches.map((part, i) => {
+        const [match, rest] = part.split(HIGHLIGHT_END);
+        return (
+          <span key={i}>
+            <mark className="bg-transparent font-semibold" style={{ color: "var(--fg-accent)" }}>
+              {match}
+            </mark>
+            {rest}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
@@ -1,31 +1,131 @@
-import { MessageSquarePlus, Trash2, MessageCircle, ChevronLeft, Settings } from "lucide-react";
-import type { Thread } from "@app/types/thread";
+import { useMemo, useState } from "react";
+import { MessageSquarePlus, MessageCircle, ChevronLeft, ChevronDown, ChevronRight, Settings, Search, Pin, Archive, Folder as FolderIcon, FolderPlus, Pencil, Trash2, X } from "lucide-react";
+import type { Folder, Thread } from "@app/types/thread";
+import { filterThreads } from "@app/lib/thread-filter";
+import { ThreadMenu, type ThreadActions } from "./ThreadMenu";
 
 interface SidebarProps {
   threads: Thread[];
+  folders: Folder[];
   activeThreadId: string | null;
   isLoading: boolean;
   isCollapsed: boolean;
   onNewChat: () => void;
   onSelectThread: (id: string) => void;
-  onDeleteThread: (id: string) => void;
+  threadActions: ThreadActions;
+  onCreateFolder: (name: string) => void;
+  onRenameFolder: (id: string, name: string) => void;
+  onDeleteFolder: (id: string) => void;
   onToggleCollapse: () => void;
   onMouseLeave?: (() => void) | undefined;
   onOpenSettings: () => void;
 }
 
+/** Folder name input shown in place of a row while naming a folder */
+function FolderNameInput({ initialName, onSubmit, onCancel }: {
+  initialName: string;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(initialName);
+
+  const submit = () => {
+    const trimmed = name.trim();
+    if (trimmed !== "") {
+      onSubmit(trimmed);
+    } else {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 rounded-xl px-3 py-2">
+      <FolderIcon className="h-4 w-4 shrink-0 opacity-50" style={{ color: "var(--fg-muted)" }} />
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => { setName(e.target.value); }}
+        onBlur={submit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") submit();
+          if (e.key === "Escape") onCancel();
+        }}
+        placeholder="Folder name"
+        className="min-w-0 flex-1 bg-transparent text-sm focus:outline-none"
+        style={{ color: "var(--fg-primary)" }}
+        autoFocus
+      />
+    </div>
+  );
+}
+
+function SectionHeader({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="mb-2 mt-4 flex items-center justify-between px-2 first:mt-0">
+      {children}
+    </div>
+  );
+}
+
+const sectionLabelClassName = "text-xs font-medium uppercase tracking-wider";
+
 export function Sidebar({
   threads,
+  folders,
   activeThreadId,
   isLoading,
   isCollapsed,
   onNewChat,
   onSelectThread,
-  onDeleteThread,
+  threadActions,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
   onToggleCollapse,
   onMouseLeave,
   onOpenSettings,
 }: SidebarProps) {
+  const [query, setQuery] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [isCreatingFolder, setIsCreatingFolder] = useState(false);
+  const [renamingFolderId, setRenamingFolderId] = useState<string | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+
+  const activeThreads = useMemo(() => threads.filter((t) => !t.archived), [threads]);
+  const archivedCount = threads.length - activeThreads.length;
+  const pinnedThreads = activeThreads.filter((t) => t.pinned);
+  const unfiledThreads = activeThreads.filter((t) => !t.pinned && t.folderId === undefined);
+
+  // Typing a query (or opening the archive) swaps the sections for a flat list
+  const flatList = useMemo(() => {
+    if (query.trim() === "" && !showArchived) return null;
+    return filterThreads(threads, showArchived ? `is:archived ${query}` : query, folders);
+  }, [threads, folders, query, showArchived]);
+
+  const toggleFolder = (id: string) => {
+    setCollapsedFolders((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const renderThread = (thread: Thread) => (
+    <ThreadListItem
+      key={thread.id}
+      thread={thread}
+      folders={folders}
+      isActive={thread.id === activeThreadId}
+      actions={threadActions}
+      onSelect={() => { onSelectThread(thread.id); }}
+      onSelectTag={(tag) => { setQuery(`#${tag}`); }}
+    />
+  );
+
   return (
     <aside
       className={`flex h-full flex-col border-r transition-all duration-300 ${
@@ -55,6 +155,26 @@ export function Sidebar({
         </button>
       </div>
 
+      <div className="px-3 pb-2">
+        <div className="flex items-center gap-2 rounded-xl px-3 py-2" style={{ background: "var(--bg-tertiary)" }}>
+          <Search className="h-3.5 w-3.5 shrink-0" style={{ color: "var(--fg-muted)" }} />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); }}
+            onKeyDown={(e) => { if (e.key === "Escape") setQuery(""); }}
+            placeholder="Filter: text, #tag, in:folder, is:pinned"
+            className="min-w-0 flex-1 bg-transparent text-xs focus:outline-none"
+            style={{ color: "var(--fg-primary)" }}
+          />
+          {query !== "" && (
+            <button type="button" onClick={() => { setQuery(""); }} style={{ color: "var(--fg-muted)" }} title="Clear filter">
+              <X className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
       <div className="flex-1 overflow-y-auto px-3 pb-4">
         {isLoading ? (
           <div className="flex items-center justify-center py-12">
@@ -66,7 +186,21 @@ export function Sidebar({
               <span className="text-sm">Loading...</span>
             </div>
           </div>
-        ) : threads.length === 0 ? (
+        ) : flatList !== null ? (
+          <div className="space-y-1">
+            <SectionHeader>
+              <p className={sectionLabelClassName} style={{ color: "var(--fg-muted)" }}>
+                {showArchived ? "Archived" : "Results"} ({flatList.length})
+              </p>
+            </SectionHeader>
+            {flatList.length === 0 && (
+              <p className="px-2 py-6 text-center text-sm" style={{ color: "var(--fg-muted)" }}>
+                {showArchived ? "No archived conversations" : "No matching conversations"}
+              </p>
+            )}
+            {flatList.map(renderThread)}
+          </div>
+        ) : activeThreads.length === 0 && folders.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-12 text-center">
             <MessageCircle className="mb-3 h-12 w-12" style={{ color: "var(--border-secondary)" }} />
             <p className="text-sm" style={{ color: "var(--fg-muted)" }}>No conversations yet</p>
@@ -76,24 +210,123 @@ export function Sidebar({
           </div>
         ) : (
           <div className="space-y-1">
-            <p className="mb-2 px-2 text-xs font-medium uppercase tracking-wider" style={{ color: "var(--fg-muted)" }}>
-              Recent Chats
-            </p>
-            {threads.map((thread) => (
-              <ThreadListItem
-                key={thread.id}
-                thread={thread}
-                isActive={thread.id === activeThreadId}
-                onSelect={() => { onSelectThread(thread.id); }}
-                onDelete={() => { onDeleteThread(thread.id); }}
+            {pinnedThreads.length > 0 && (
+              <>
+                <SectionHeader>
+                  <p className={`flex items-center gap-1.5 ${sectionLabelClassName}`} style={{ color: "var(--fg-muted)" }}>
+                    <Pin className="h-3 w-3" />
+                    Pinned
+                  </p>
+                </SectionHeader>
+                {pinnedThreads.map(renderThread)}
+              </>
+            )}
+
+            <SectionHeader>
+              <p className={sectionLabelClassName} style={{ color: "var(--fg-muted)" }}>Folders</p>
+              <button
+                type="button"
+                onClick={() => { setIsCreatingFolder(true); }}
+                className="rounded-lg p-1 transition-colors hover:bg-[var(--bg-hover)]"
+                style={{ color: "var(--fg-muted)" }}
+                title="New folder"
+              >
+                <FolderPlus className="h-3.5 w-3.5" />
+              </button>
+            </SectionHeader>
+            {isCreatingFolder && (
+              <FolderNameInput
+                initialName=""
+                onSubmit={(name) => { onCreateFolder(name); setIsCreatingFolder(false); }}
+                onCancel={() => { setIsCreatingFolder(false); }}
               />
-            ))}
+            )}
+            {folders.map((folder) => {
+              const folderThreads = activeThreads.filter((t) => !t.pinned && t.folderId === folder.id);
+              const isFolderCollapsed = collapsedFolders.has(folder.id);
+              if (renamingFolderId === folder.id) {
+                return (
+                  <FolderNameInput
+                    key={folder.id}
+                    initialName={folder.name}
+                    onSubmit={(name) => { onRenameFolder(folder.id, name); setRenamingFolderId(null); }}
+                    onCancel={() => { setRenamingFolderId(null); }}
+                  />
+                );
+              }
+              return (
+                <div key={folder.id}>
+                  <div
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => { toggleFolder(folder.id); }}
+                    onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") toggleFolder(folder.id); }}
+                    className="group flex w-full cursor-pointer items-center gap-2 rounded-xl px-3 py-2 text-sm transition-all hover:bg-[var(--bg-hover)]"
+                    style={{ color: "var(--fg-secondary)" }}
+                  >
+                    {isFolderCollapsed ? <ChevronRight className="h-3.5 w-3.5 shrink-0" /> : <ChevronDown className="h-3.5 w-3.5 shrink-0" />}
+                    <FolderIcon className="h-4 w-4 shrink-0 opacity-50" />
+                    <span className="flex-1 truncate">{folder.name}</span>
+                    <span className="text-xs group-hover:hidden" style={{ color: "var(--fg-muted)" }}>{folderThreads.length}</span>
+                    <div className="hidden shrink-0 group-hover:flex">
+                      <button
+                        type="button"
+                        onClick={(e) => { e.stopPropagation(); setRenamingFolderId(folder.id); }}
+                        className="rounded-lg p-1"
+                        style={{ color: "var(--fg-muted)" }}
+                        title="Rename folder"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={(e) => { e.stopPropagation(); onDeleteFolder(folder.id); }}
+                        className="rounded-lg p-1"
+                        style={{ color: "var(--fg-muted)" }}
+                        title="Delete folder (its conversations are kept)"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </div>
+                  {!isFolderCollapsed && (
+                    <div className="ml-3 space-y-1 border-l pl-2" style={{ borderColor: "var(--border-primary)" }}>
+                      {folderThreads.map(renderThread)}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {unfiledThreads.length > 0 && (
+              <>
+                <SectionHeader>
+                  <p className={sectionLabelClassName} style={{ color: "var(--fg-muted)" }}>Recent Chats</p>
+                </SectionHeader>
+                {unfiledThreads.map(renderThread)}
+              </>
+            )}
           </div>
         )}
       </div>
 
-      {/* Settings at bottom */}
-      <div className="border-t p-3" style={{ borderColor: "var(--border-primary)" }}>
+      {/* Archive and settings at bottom */}
+      <div className="space-y-1 border-t p-3" style={{ borderColor: "var(--border-primary)" }}>
+        {(archivedCount > 0 || showArchived) && (
+          <button
+            type="button"
+            onClick={() => { setShowArchived(!showArchived); }}
+            className="flex w-full items-center gap-2 rounded-xl px-3 py-2.5 text-left text-sm transition-colors"
+            style={{
+              color: showArchived ? "var(--fg-primary)" : "var(--fg-muted)",
+              background: showArchived ? "var(--bg-tertiary)" : "transparent",
+            }}
+          >
+            <Archive className="h-4 w-4" />
+            <span className="flex-1">Archived</span>
+            <span className="text-xs">{archivedCount}</span>
+          </button>
+        )}
         <button
           type="button"
           onClick={onOpenSettings}
@@ -110,20 +343,24 @@ export function Sidebar({
 
 interface ThreadListItemProps {
   thread: Thread;
+  folders: Folder[];
   isActive: boolean;
+  actions: ThreadActions;
   onSelect: () => void;
-  onDelete: () => void;
+  onSelectTag: (tag: string) => void;
 }
 
 function ThreadListItem({
   thread,
+  folders,
   isActive,
+  actions,
   onSelect,
-  onDelete,
+  onSelectTag,
 }: ThreadListItemProps) {
-  const handleDelete = (e: React.MouseEvent) => {
+  const handleTogglePinned = (e: React.MouseEvent) => {
     e.stopPropagation();
-    onDelete();
+    actions.onTogglePinned(thread);
   };
 
   return (
@@ -140,19 +377,40 @@ function ThreadListItem({
     >
       <div className="flex min-w-0 items-center gap-2">
         <MessageCircle className="h-4 w-4 shrink-0 opacity-50" />
-        <span className="truncate">
-          {thread.title ?? "New conversation"}
-        </span>
+        <div className="min-w-0">
+          <span className="block truncate">
+            {thread.title ?? "New conversation"}
+          </span>
+          {thread.tags.length > 0 && (
+            <span className="flex gap-1 overflow-hidden">
+              {thread.tags.map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={(e) => { e.stopPropagation(); onSelectTag(tag); }}
+                  className="shrink-0 text-xs hover:underline"
+                  style={{ color: "var(--fg-accent)" }}
+                  title={`Show conversations tagged #${tag}`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </span>
+          )}
+        </div>
+      </div>
+      <div className="ml-2 flex shrink-0 opacity-0 transition-all group-hover:opacity-100 has-[[aria-expanded=true]]:opacity-100">
+        <button
+          type="button"
+          onClick={handleTogglePinned}
+          className="rounded-lg p-1.5"
+          style={{ color: thread.pinned ? "var(--fg-accent)" : "var(--fg-muted)" }}
+          title={thread.pinned ? "Unpin conversation" : "Pin conversation"}
+        >
+          <Pin className="h-3.5 w-3.5" />
+        </button>
+        <ThreadMenu thread={thread} folders={folders} actions={actions} />
       </div>
-      <button
-        type="button"
-        onClick={handleDelete}
-        className="ml-2 shrink-0 rounded-lg p-1.5 opacity-0 transition-all group-hover:opacity-100"
-        style={{ color: "var(--fg-muted)" }}
-        title="Delete conversation"
-      >
-        <Trash2 className="h-3.5 w-3.5" />
-      </button>
     </div>
   );
 }
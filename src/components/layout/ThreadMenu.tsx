@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from "react";
+import { Archive, ArchiveRestore, Check, Download, Folder as FolderIcon, FolderMinus, MoreHorizontal, Pin, PinOff, Tag, Trash2 } from "lucide-react";
+import type { Folder, Thread } from "@app/types/thread";
+import { parseTags } from "@app/lib/thread-filter";
+
+/** What can be done to a thread from the thread lists */
+export interface ThreadActions {
+  onTogglePinned: (thread: Thread) => void;
+  onToggleArchived: (thread: Thread) => void;
+  onMoveToFolder: (thread: Thread, folderId: string | null) => void;
+  onUpdateTags: (thread: Thread, tags: string[]) => void;
+  onExport: (thread: Thread) => void;
+  onDelete: (thread: Thread) => void;
+}
+
+interface ThreadMenuProps {
+  thread: Thread;
+  folders: Folder[];
+  actions: ThreadActions;
+}
+
+const itemClassName = "flex w-full items-center gap-2 rounded-lg px-2 py-1.5 text-left text-xs transition-colors hover:bg-[var(--bg-hover)]";
+
+/**
+ * "..." menu of a thread: pin, folder, tags, archive, export, delete
+ */
+export function ThreadMenu({ thread, folders, actions }: ThreadMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [panel, setPanel] = useState<"main" | "folders" | "tags">("main");
+  const [tagInput, setTagInput] = useState("");
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current !== null && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleMouseDown);
+    return () => { document.removeEventListener("mousedown", handleMouseDown); };
+  }, [isOpen]);
+
+  const open = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setPanel("main");
+    setTagInput(thread.tags.join(", "));
+    setIsOpen(!isOpen);
+  };
+
+  /** Run an action and close the menu */
+  const run = (action: () => void) => {
+    action();
+    setIsOpen(false);
+  };
+
+  const saveTags = () => {
+    run(() => { actions.onUpdateTags(thread, parseTags(tagInput)); });
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative"
+      onClick={(e) => { e.stopPropagation(); }}
+      onKeyDown={(e) => { e.stopPropagation(); }}
+      role="presentation"
+    >
+      <button
+        type="button"
+        onClick={open}
+        className="rounded-lg p-1.5"
+        style={{ color: "var(--fg-muted)" }}
+        title="More actions"
+      >
+        <MoreHorizontal className="h-3.5 w-3.5" />
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 top-full z-30 mt-1 w-52 rounded-xl border p-1 shadow-lg"
+          style={{ background: "var(--bg-secondary)", borderColor: "var(--border-secondary)", color: "var(--fg-secondary)" }}
+        >
+          {panel === "main" && (
+            <>
+              <button type="button" className={itemClassName} onClick={() => { run(() => { actions.onTogglePinned(thread); }); }}>
+                {thread.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                {thread.pinned ? "Unpin" : "Pin"}
+              </button>
+              <button type="button" className={itemClassName} onClick={() => { setPanel("folders"); }}>
+                <FolderIcon className="h-3.5 w-3.5" />
+                Move to folder…
+              </button>
+              <button type="button" className={itemClassName} onClick={() => { setPanel("tags"); }}>
+                <Tag className="h-3.5 w-3.5" />
+                Edit tags…
+              </button>
+              <button type="button" className={itemClassName} onClick={() => { run(() => { actions.onToggleArchived(thread); }); }}>
+                {thread.archived ? <ArchiveRestore className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+                {thread.archived ? "Unarchive" : "Archive"}
+              </button>
+              <button type="button" className={itemClassName} onClick={() => { run(() => { actions.onExport(thread); }); }}>
+                <Download className="h-3.5 w-3.5" />
+                Export…
+              </button>
+              <button
+                type="button"
+                className={itemClassName}
+                style={{ color: "var(--danger)" }}
+                onClick={() => { run(() => { actions.onDelete(thread); }); }}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                Delete
+              </button>
+            </>
+          )}
+
+          {panel === "folders" && (
+            <div className="max-h-60 overflow-y-auto">
+              {folders.length === 0 && (
+                <p className="px-2 py-1.5 text-xs" style={{ color: "var(--fg-muted)" }}>
+                  No folders yet. Create one from the sidebar.
+                </p>
+              )}
+              {folders.map((folder) => (
+                <button
+                  key={folder.id}
+                  type="button"
+                  className={itemClassName}
+                  onClick={() => { run(() => { actions.onMoveToFolder(thread, folder.id); }); }}
+                >
+                  <FolderIcon className="h-3.5 w-3.5 shrink-0" />
+                  <span className="flex-1 truncate">{folder.name}</span>
+                  {folder.id === thread.folderId && <Check className="h-3.5 w-3.5 shrink-0" style={{ color: "var(--fg-accent)" }} />}
+                </button>
+              ))}
+              {thread.folderId !== undefined && (
+                <button type="button" className={itemClassName} onClick={() => { run(() => { actions.onMoveToFolder(thread, null); }); }}>
+                  <FolderMinus className="h-3.5 w-3.5" />
+                  Remove from folder
+                </button>
+              )}
+            </div>
+          )}
+
+          {panel === "tags" && (
+            <div className="space-y-2 p-1">
+              <input
+                type="text"
+                value={tagInput}
+                onChange={(e) => { setTagInput(e.target.value); }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") saveTags();
+                  if (e.key === "Escape") setIsOpen(false);
+                }}
+                placeholder="work, ideas, rust"
+                className="w-full rounded-lg border px-2 py-1.5 text-xs focus:outline-none"
+                style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)", color: "var(--fg-primary)" }}
+                autoFocus
+              />
+              <button
+                type="button"
+                onClick={saveTags}
+                className="w-full rounded-lg px-2 py-1.5 text-xs font-medium"
+                style={{ background: "var(--bg-accent)", color: "var(--fg-primary)" }}
+              >
+                Save tags
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
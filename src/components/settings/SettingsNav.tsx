@@ -1,11 +1,14 @@
-import { Bot, Key, Mail } from "lucide-react";
+import { BarChart3, Bot, Key, Mail, Plug, Workflow } from "lucide-react";
 import { TOP_LEVEL_PAGES, SETTINGS_PAGES } from "@app/lib/settings-registry";
 import type { LucideIcon } from "lucide-react";
 
 const PAGE_ICONS: Record<string, LucideIcon> = {
   "settings.provider": Bot,
   "settings.keys": Key,
+  "settings.agents": Workflow,
+  "settings.usage": BarChart3,
   "settings.email": Mail,
+  "settings.local-api": Plug,
 };
 
 interface SettingsNavProps {
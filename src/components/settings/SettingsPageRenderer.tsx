@@ -2,6 +2,9 @@ import { ProviderSettingsPage } from "./pages/ProviderSettingsPage";
 import { KeysSettingsPage } from "./pages/KeysSettingsPage";
 import { EmailSettingsPage } from "./pages/EmailSettingsPage";
 import { PersonalitySettingsPage } from "./pages/PersonalitySettingsPage";
+import { UsageSettingsPage } from "./pages/UsageSettingsPage";
+import { LocalApiSettingsPage } from "./pages/LocalApiSettingsPage";
+import { AgentsSettingsPage } from "./pages/AgentsSettingsPage";
 
 interface SettingsPageRendererProps {
   pageId: string;
@@ -14,10 +17,16 @@ export function SettingsPageRenderer({ pageId, subFilter }: SettingsPageRenderer
       return <ProviderSettingsPage />;
     case "settings.keys":
       return <KeysSettingsPage subFilter={subFilter} />;
+    case "settings.agents":
+      return <AgentsSettingsPage />;
+    case "settings.usage":
+      return <UsageSettingsPage />;
     case "settings.personality":
       return <PersonalitySettingsPage />;
     case "settings.email":
       return <EmailSettingsPage subFilter={subFilter} />;
+    case "settings.local-api":
+      return <LocalApiSettingsPage />;
     default:
       return <ProviderSettingsPage />;
   }
@@ -0,0 +1,251 @@
+import { useState, useEffect } from "react";
+import { Gauge, ListChecks, Workflow } from "lucide-react";
+import {
+  getAgentBudget,
+  getAgentModelChoices,
+  getAgentPlanApproval,
+  getProviderModel,
+  setAgentBudget,
+  setAgentModelChoices,
+  setAgentPlanApproval,
+  type AgentModelChoices,
+  type AIProvider,
+} from "@app/lib/ai";
+import { getProviderDefinition, providers } from "@app/lib/ai-providers";
+import { DEFAULT_AGENT_BUDGET, type AgentBudget, type AgentRole } from "@shared/chat-protocol";
+
+const ROLES: { id: AgentRole; label: string; description: string }[] = [
+  { id: "planner", label: "Planner", description: "Breaks a complex task into tasks" },
+  { id: "explorer", label: "Explorer", description: "Researches for the planner; a fast, cheap model works well" },
+  { id: "executor", label: "Executor", description: "Works through the planned tasks" },
+  { id: "subExecutor", label: "Sub-executors", description: "Run parts of a task the executor hands off in parallel" },
+];
+
+const BUDGET_FIELDS: { id: keyof AgentBudget; label: string; step: number; /** Stored units per unit shown */ scale: number }[] = [
+  { id: "maxTokens", label: "Tokens", step: 10000, scale: 1 },
+  { id: "maxCostUsd", label: "Spend (USD)", step: 0.5, scale: 1 },
+  { id: "maxDurationMs", label: "Time (minutes)", step: 5, scale: 60_000 },
+  { id: "maxToolCalls", label: "Tool calls", step: 10, scale: 1 },
+  { id: "maxParallelAgents", label: "Parallel sub-agents", step: 1, scale: 1 },
+];
+
+type BudgetInputs = Partial<Record<keyof AgentBudget, string>>;
+
+function toBudgetInputs(budget: AgentBudget): BudgetInputs {
+  const inputs: BudgetInputs = {};
+  for (const field of BUDGET_FIELDS) {
+    const value = budget[field.id];
+    if (value !== undefined) inputs[field.id] = String(value / field.scale);
+  }
+  return inputs;
+}
+
+/** Limits as entered; empty or invalid fields are left to the defaults */
+function toBudget(inputs: BudgetInputs): AgentBudget {
+  const budget: AgentBudget = {};
+  for (const field of BUDGET_FIELDS) {
+    const text = inputs[field.id] ?? "";
+    const scaled = Number(text) * field.scale;
+    const value = field.id === "maxCostUsd" ? scaled : Math.round(scaled);
+    if (text !== "" && Number.isFinite(value) && value > 0) budget[field.id] = value;
+  }
+  return budget;
+}
+
+function budgetPlaceholder(field: (typeof BUDGET_FIELDS)[number]): string {
+  const value = DEFAULT_AGENT_BUDGET[field.id];
+  return value !== undefined ? String(value / field.scale) : "No limit";
+}
+
+function ProviderChip({ label, selected, onClick }: { label: string; selected: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="rounded-lg border px-2 py-1 text-xs transition-colors hover:bg-[var(--bg-hover)]"
+      style={{
+        background: selected ? "var(--bg-accent)" : "transparent",
+        borderColor: selected ? "var(--bg-accent)" : "var(--border-secondary)",
+        color: selected ? "white" : "var(--fg-secondary)",
+      }}
+    >
+      {label}
+    </button>
+  );
+}
+
+export function AgentsSettingsPage() {
+  const [choices, setChoices] = useState<AgentModelChoices>({});
+  const [budgetInputs, setBudgetInputs] = useState<BudgetInputs>({});
+  const [planApproval, setPlanApproval] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setChoices(getAgentModelChoices());
+    setBudgetInputs(toBudgetInputs(getAgentBudget()));
+    setPlanApproval(getAgentPlanApproval());
+  }, []);
+
+  const setRoleProvider = (role: AgentRole, provider: AIProvider | null) => {
+    if (provider === null) {
+      setChoices(Object.fromEntries(Object.entries(choices).filter(([id]) => id !== role)));
+      return;
+    }
+    const current = choices[role];
+    setChoices({ ...choices, [role]: { provider, model: current?.provider === provider ? current.model : "" } });
+  };
+
+  const setRoleModel = (role: AgentRole, model: string) => {
+    const choice = choices[role];
+    if (choice !== undefined) setChoices({ ...choices, [role]: { ...choice, model } });
+  };
+
+  const handleSave = () => {
+    setAgentModelChoices(choices);
+    const budget = toBudget(budgetInputs);
+    setAgentBudget(budget);
+    setBudgetInputs(toBudgetInputs(budget));
+    setAgentPlanApproval(planApproval);
+    setSaved(true);
+    setTimeout(() => { setSaved(false); }, 2000);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <div
+          className="flex h-10 w-10 items-center justify-center rounded-xl"
+          style={{ background: "var(--bg-hover)" }}
+        >
+          <Workflow className="h-5 w-5" style={{ color: "var(--fg-accent)" }} />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold" style={{ color: "var(--fg-primary)" }}>
+            Agents
+          </h2>
+          <p className="text-sm" style={{ color: "var(--fg-muted)" }}>
+            Models and limits for the agents that plan and carry out complex tasks
+          </p>
+        </div>
+      </div>
+
+      {ROLES.map((role) => {
+        const choice = choices[role.id];
+        const definition = choice !== undefined ? getProviderDefinition(choice.provider) : null;
+        const inputId = `agent-model-${role.id}`;
+
+        return (
+          <div key={role.id} className="space-y-2">
+            <div>
+              <p className="text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>{role.label}</p>
+              <p className="text-xs" style={{ color: "var(--fg-muted)" }}>{role.description}</p>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              <ProviderChip
+                label="Same as chat"
+                selected={choice === undefined}
+                onClick={() => { setRoleProvider(role.id, null); }}
+              />
+              {providers.map((p) => (
+                <ProviderChip
+                  key={p.id}
+                  label={p.name}
+                  selected={choice?.provider === p.id}
+                  onClick={() => { setRoleProvider(role.id, p.id); }}
+                />
+              ))}
+            </div>
+            {choice !== undefined && definition !== null && (
+              <>
+                <input
+                  id={inputId}
+                  type="text"
+                  list={`${inputId}-options`}
+                  value={choice.model}
+                  onChange={(e) => { setRoleModel(role.id, e.target.value); }}
+                  placeholder={getProviderModel(choice.provider) || "model-id"}
+                  className="w-full rounded-xl border px-4 py-2 text-sm transition-colors focus:outline-none focus:ring-2"
+                  style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)", color: "var(--fg-primary)" }}
+                />
+                <datalist id={`${inputId}-options`}>
+                  {definition.models.map((m) => (
+                    <option key={m} value={m} />
+                  ))}
+                </datalist>
+              </>
+            )}
+          </div>
+        );
+      })}
+
+      <p className="text-xs" style={{ color: "var(--fg-muted)" }}>
+        Agents use the key, URL and fallback providers saved on the AI Provider page, and need a model that supports tools.
+      </p>
+
+      {/* Plan approval */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ListChecks className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+          <div>
+            <p className="text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>Review Plans</p>
+            <p className="text-xs" style={{ color: "var(--fg-muted)" }}>Show each plan in the chat to edit and approve before any of it runs</p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => { setPlanApproval(!planApproval); }}
+          className="relative h-6 w-11 shrink-0 rounded-full transition-colors"
+          style={{ background: planApproval ? "var(--bg-accent)" : "var(--bg-tertiary)" }}
+        >
+          <span
+            className="absolute left-0.5 top-0.5 h-5 w-5 rounded-full bg-white shadow transition-transform"
+            style={{ transform: planApproval ? "translateX(20px)" : "translateX(0)" }}
+          />
+        </button>
+      </div>
+
+      {/* Budget */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Gauge className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+          <p className="text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>Budget per Task</p>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          {BUDGET_FIELDS.map((field) => (
+            <div key={field.id}>
+              <label htmlFor={`agent-budget-${field.id}`} className="mb-1 block text-xs" style={{ color: "var(--fg-muted)" }}>
+                {field.label}
+              </label>
+              <input
+                id={`agent-budget-${field.id}`}
+                type="number"
+                min={0}
+                step={field.step}
+                value={budgetInputs[field.id] ?? ""}
+                onChange={(e) => { setBudgetInputs({ ...budgetInputs, [field.id]: e.target.value }); }}
+                placeholder={budgetPlaceholder(field)}
+                className="w-full rounded-xl border px-4 py-2 text-sm transition-colors focus:outline-none focus:ring-2"
+                style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)", color: "var(--fg-primary)" }}
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs" style={{ color: "var(--fg-muted)" }}>
+          When a complex task reaches one of these limits its agents stop and report what they finished. Spend is estimated from the prices on the Usage page. Leave a field empty for the default shown.
+        </p>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSave}
+        className="rounded-lg px-4 py-2 text-sm font-medium transition-colors"
+        style={{
+          background: saved ? "var(--success)" : "var(--fg-accent)",
+          color: "white",
+        }}
+      >
+        {saved ? "Saved" : "Save"}
+      </button>
+    </div>
+  );
+}
@@ -1,14 +1,16 @@
 import { Key, Search, Globe, Zap } from "lucide-react";
 import { useState, useEffect } from "react";
-import { getApiKey, setApiKey, getPerplexityApiKey, setPerplexityApiKey, getFirecrawlApiKey, setFirecrawlApiKey, getRedpillApiKey, setRedpillApiKey } from "@app/lib/ai";
+import { getProviderApiKey, setProviderApiKey, getPerplexityApiKey, setPerplexityApiKey, getFirecrawlApiKey, setFirecrawlApiKey, type AIProvider } from "@app/lib/ai";
+import { getProvidersWithCredentials } from "@app/lib/ai-providers";
 
 interface KeysSettingsPageProps {
   subFilter?: string | undefined;
 }
 
+const providerKeyDefs = getProvidersWithCredentials();
+
 export function KeysSettingsPage({ subFilter }: KeysSettingsPageProps) {
-  const [anthropicKey, setAnthropicKey] = useState("");
-  const [redpillKey, setRedpillKey] = useState("");
+  const [providerKeys, setProviderKeys] = useState<Partial<Record<AIProvider, string>>>({});
   const [perplexityKey, setPerplexityKey] = useState("");
   const [firecrawlKey, setFirecrawlKey] = useState("");
   const [loading, setLoading] = useState(true);
@@ -16,9 +18,12 @@ export function KeysSettingsPage({ subFilter }: KeysSettingsPageProps) {
 
   useEffect(() => {
     void (async () => {
-      const [ak, rk, pk, fk] = await Promise.all([getApiKey(), getRedpillApiKey(), getPerplexityApiKey(), getFirecrawlApiKey()]);
-      setAnthropicKey(ak ?? "");
-      setRedpillKey(rk ?? "");
+      const [keys, pk, fk] = await Promise.all([
+        Promise.all(providerKeyDefs.map(async (p) => [p.id, (await getProviderApiKey(p.id)) ?? ""] as const)),
+        getPerplexityApiKey(),
+        getFirecrawlApiKey(),
+      ]);
+      setProviderKeys(Object.fromEntries(keys));
       setPerplexityKey(pk ?? "");
       setFirecrawlKey(fk ?? "");
       setLoading(false);
@@ -26,8 +31,9 @@ export function KeysSettingsPage({ subFilter }: KeysSettingsPageProps) {
   }, []);
 
   const handleSave = async () => {
-    if (subFilter === undefined || subFilter === "anthropic") await setApiKey(anthropicKey);
-    if (subFilter === undefined || subFilter === "redpill") await setRedpillApiKey(redpillKey);
+    for (const p of providerKeyDefs) {
+      if (subFilter === undefined || subFilter === p.id) await setProviderApiKey(p.id, providerKeys[p.id] ?? "");
+    }
     if (subFilter === undefined || subFilter === "perplexity") await setPerplexityApiKey(perplexityKey);
     if (subFilter === undefined || subFilter === "firecrawl") await setFirecrawlApiKey(firecrawlKey);
     setSaved(true);
@@ -44,53 +50,37 @@ export function KeysSettingsPage({ subFilter }: KeysSettingsPageProps) {
 
   return (
     <div className="space-y-6">
-      {(subFilter === undefined || subFilter === "redpill") && (
-        <div>
-          <label htmlFor="keys-redpill" className="mb-2 flex items-center gap-2 text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>
-            <Zap className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
-            RedPill API Key
-          </label>
-          <input
-            id="keys-redpill"
-            type="password"
-            value={redpillKey}
-            onChange={(e) => { setRedpillKey(e.target.value); }}
-            placeholder="sk-..."
-            className="w-full rounded-xl border px-4 py-3 transition-colors focus:outline-none focus:ring-2"
-            style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)", color: "var(--fg-primary)" }}
-          />
-          <p className="mt-1 text-xs" style={{ color: "var(--fg-muted)" }}>
-            Get your API key from{" "}
-            <a href="https://api.redpill.ai" target="_blank" rel="noopener noreferrer" style={{ color: "var(--fg-accent)" }}>
-              redpill.ai
-            </a>
-          </p>
-        </div>
-      )}
-
-      {(subFilter === undefined || subFilter === "anthropic") && (
-        <div>
-          <label htmlFor="keys-anthropic" className="mb-2 flex items-center gap-2 text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>
-            <Key className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
-            Anthropic API Key
-          </label>
-          <input
-            id="keys-anthropic"
-            type="password"
-            value={anthropicKey}
-            onChange={(e) => { setAnthropicKey(e.target.value); }}
-            placeholder="sk-ant-api03-..."
-            className="w-full rounded-xl border px-4 py-3 transition-colors focus:outline-none focus:ring-2"
-            style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)", color: "var(--fg-primary)" }}
-          />
-          <p className="mt-1 text-xs" style={{ color: "var(--fg-muted)" }}>
-            Get your API key from{" "}
-            <a href="https://console.anthropic.com/settings/keys" target="_blank" rel="noopener noreferrer" style={{ color: "var(--fg-accent)" }}>
-              console.anthropic.com
-            </a>
-          </p>
-        </div>
-      )}
+      {providerKeyDefs
+        .filter((p) => subFilter === undefined || subFilter === p.id)
+        .map((p) => {
+          const Icon = p.id === "redpill" ? Zap : Key;
+          return (
+            <div key={p.id}>
+              <label htmlFor={`keys-${p.id}`} className="mb-2 flex items-center gap-2 text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>
+                <Icon className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+                {p.name} API Key
+                {subFilter === undefined && !p.requiresApiKey && <span className="text-xs" style={{ color: "var(--fg-muted)" }}>(optional)</span>}
+              </label>
+              <input
+                id={`keys-${p.id}`}
+                type="password"
+                value={providerKeys[p.id] ?? ""}
+                onChange={(e) => { setProviderKeys((prev) => ({ ...prev, [p.id]: e.target.value })); }}
+                placeholder={p.keyPlaceholder ?? ""}
+                className="w-full rounded-xl border px-4 py-3 transition-colors focus:outline-none focus:ring-2"
+                style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)", color: "var(--fg-primary)" }}
+              />
+              {p.keyUrl !== undefined && (
+                <p className="mt-1 text-xs" style={{ color: "var(--fg-muted)" }}>
+                  Get your API key from{" "}
+                  <a href={p.keyUrl} target="_blank" rel="noopener noreferrer" style={{ color: "var(--fg-accent)" }}>
+                    {p.keyUrl.replace(/^https:\/\/(www\.)?/, "")}
+                  </a>
+                </p>
+              )}
+            </div>
+          );
+        })}
 
       {(subFilter === undefined || subFilter === "perplexity") && (
         <div>
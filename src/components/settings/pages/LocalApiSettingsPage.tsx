@@ -0,0 +1,157 @@
+import { useState, useEffect } from "react";
+import { Check, Copy, Eye, EyeOff, Plug, RefreshCw } from "lucide-react";
+import {
+  LOCAL_API_URL,
+  getLocalApiEnabled,
+  getLocalApiToken,
+  regenerateLocalApiToken,
+  setLocalApiEnabled,
+  syncLocalApiSettings,
+} from "@app/lib/local-api";
+
+function CopyButton({ text, title }: { text: string; title: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    void navigator.clipboard.writeText(text).then(() => {
+      setCopied(true);
+      setTimeout(() => { setCopied(false); }, 1500);
+    });
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      className="rounded-lg p-2 transition-colors hover:bg-[var(--bg-hover)]"
+      style={{ color: copied ? "var(--success)" : "var(--fg-muted)" }}
+      title={title}
+    >
+      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+    </button>
+  );
+}
+
+export function LocalApiSettingsPage() {
+  const [enabled, setEnabled] = useState(false);
+  const [token, setToken] = useState("");
+  const [showToken, setShowToken] = useState(false);
+
+  useEffect(() => {
+    setEnabled(getLocalApiEnabled());
+    void getLocalApiToken().then(setToken);
+  }, []);
+
+  const handleToggle = () => {
+    setLocalApiEnabled(!enabled);
+    setEnabled(!enabled);
+    void syncLocalApiSettings();
+  };
+
+  const handleRegenerate = async () => {
+    setToken(await regenerateLocalApiToken());
+    void syncLocalApiSettings();
+  };
+
+  const example = `curl ${LOCAL_API_URL}/chat/completions \\
+  -H "Authorization: Bearer ${showToken ? token : "$AIOS_TOKEN"}" \\
+  -H "Content-Type: application/json" \\
+  -d '{"model": "aios", "messages": [{"role": "user", "content": "Hello"}], "stream": true}'`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <div
+          className="flex h-10 w-10 items-center justify-center rounded-xl"
+          style={{ background: "var(--bg-hover)" }}
+        >
+          <Plug className="h-5 w-5" style={{ color: "var(--fg-accent)" }} />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold" style={{ color: "var(--fg-primary)" }}>
+            Local API
+          </h2>
+          <p className="text-sm" style={{ color: "var(--fg-muted)" }}>
+            Let scripts and editors use your providers, personality and tools through an OpenAI-compatible API
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>Enable Local API</p>
+          <p className="text-xs" style={{ color: "var(--fg-muted)" }}>Only reachable from this computer, and only while AIOS is running</p>
+        </div>
+        <button
+          type="button"
+          onClick={handleToggle}
+          className="relative h-6 w-11 shrink-0 rounded-full transition-colors"
+          style={{ background: enabled ? "var(--bg-accent)" : "var(--bg-tertiary)" }}
+        >
+          <span
+            className="absolute left-0.5 top-0.5 h-5 w-5 rounded-full bg-white shadow transition-transform"
+            style={{ transform: enabled ? "translateX(20px)" : "translateX(0)" }}
+          />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>Base URL</p>
+        <div
+          className="flex items-center gap-2 rounded-xl border px-4 py-1.5"
+          style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)" }}
+        >
+          <code className="flex-1 truncate text-sm" style={{ color: "var(--fg-primary)" }}>{LOCAL_API_URL}</code>
+          <CopyButton text={LOCAL_API_URL} title="Copy base URL" />
+        </div>
+        <p className="text-xs" style={{ color: "var(--fg-muted)" }}>
+          Use model &quot;aios&quot; for your selected provider, or any id from /v1/models such as &quot;anthropic/claude-sonnet-4-20250514&quot;
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>API Token</p>
+        <div
+          className="flex items-center gap-1 rounded-xl border px-4 py-1.5"
+          style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)" }}
+        >
+          <code className="flex-1 truncate text-sm" style={{ color: "var(--fg-primary)" }}>
+            {showToken ? token : "•".repeat(32)}
+          </code>
+          <button
+            type="button"
+            onClick={() => { setShowToken(!showToken); }}
+            className="rounded-lg p-2 transition-colors hover:bg-[var(--bg-hover)]"
+            style={{ color: "var(--fg-muted)" }}
+            title={showToken ? "Hide token" : "Show token"}
+          >
+            {showToken ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </button>
+          <CopyButton text={token} title="Copy token" />
+          <button
+            type="button"
+            onClick={() => void handleRegenerate()}
+            className="rounded-lg p-2 transition-colors hover:bg-[var(--bg-hover)]"
+            style={{ color: "var(--fg-muted)" }}
+            title="Generate a new token; programs using the old one stop working"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </button>
+        </div>
+        <p className="text-xs" style={{ color: "var(--fg-muted)" }}>
+          Send it as a bearer token. Anyone with it can spend your provider credits.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>Example</p>
+        <pre
+          className="overflow-x-auto rounded-xl p-3 text-xs"
+          style={{ background: "var(--bg-tertiary)", color: "var(--fg-secondary)" }}
+        >
+          {example}
+        </pre>
+      </div>
+    </div>
+  );
+}
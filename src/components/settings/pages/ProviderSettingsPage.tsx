@@ -1,50 +1,80 @@
-import { Bot, Server, Wrench } from "lucide-react";
+import { ArrowRightLeft, ArrowUp, Bot, Brain, FoldVertical, Key, Plus, Repeat, Server, Wrench, X } from "lucide-react";
 import {
   getProvider,
   setProvider,
-  getOllamaBaseUrl,
-  setOllamaBaseUrl,
-  getOllamaModel,
-  setOllamaModel,
+  getProviderModel,
+  setProviderModel,
+  getProviderBaseUrl,
+  setProviderBaseUrl,
   getEnableTools,
   setEnableTools,
-  getApiKey,
-  setApiKey,
-  getRedpillApiKey,
-  setRedpillApiKey,
+  getServerToolLoop,
+  setServerToolLoop,
+  getContextCompaction,
+  setContextCompaction,
+  getFallbackProviders,
+  setFallbackProviders,
+  getThinkingBudget,
+  setThinkingBudget,
+  getProviderApiKey,
+  setProviderApiKey,
   type AIProvider,
 } from "@app/lib/ai";
+import type { ModelCapabilities } from "@app/lib/ai-providers";
+import { getModelCapabilities, getProviderDefinition, providers } from "@app/lib/ai-providers";
 import { useState, useEffect } from "react";
 
 export function ProviderSettingsPage() {
-  const [selectedProvider, setSelectedProvider] = useState<AIProvider>("redpill");
-  const [anthropicKey, setAnthropicKey] = useState("");
-  const [redpillKey, setRedpillKey] = useState("");
-  const [ollamaUrl, setOllamaUrl] = useState("http://localhost:11434");
-  const [ollamaModelName, setOllamaModelName] = useState("qwen3-vl:latest");
-  const [toolsEnabled, setToolsEnabled] = useState(false);
+  const [selectedProvider, setSelectedProvider] = useState<AIProvider>(getProvider);
+  const [apiKey, setApiKeyValue] = useState("");
+  const [baseUrl, setBaseUrl] = useState("");
+  const [model, setModel] = useState("");
+  const [thinkingBudget, setThinkingBudgetValue] = useState("");
+  const [toolsEnabled, setToolsEnabled] = useState(getEnableTools);
+  const [serverLoop, setServerLoop] = useState(getServerToolLoop);
+  const [compaction, setCompaction] = useState(getContextCompaction);
+  const [fallbacks, setFallbacks] = useState<AIProvider[]>(getFallbackProviders);
   const [loading, setLoading] = useState(true);
 
+  const definition = getProviderDefinition(selectedProvider);
+  const effectiveModel = model !== "" ? model : definition.defaultModel;
+  const modelCapabilities = effectiveModel !== "" ? getModelCapabilities(selectedProvider, effectiveModel) : null;
+  // The selected provider is always tried first, so it can't also be a fallback
+  const fallbackChain = fallbacks.filter((id) => id !== selectedProvider);
+
+  // Load per-provider settings whenever the selection changes
   useEffect(() => {
-    void (async () => {
-      setSelectedProvider(getProvider());
-      setOllamaUrl(getOllamaBaseUrl());
-      setOllamaModelName(getOllamaModel());
-      setToolsEnabled(getEnableTools());
-      const [ak, rk] = await Promise.all([getApiKey(), getRedpillApiKey()]);
-      setAnthropicKey(ak ?? "");
-      setRedpillKey(rk ?? "");
+    setModel(getProviderModel(selectedProvider));
+    setBaseUrl(getProviderBaseUrl(selectedProvider) ?? "");
+    const budget = getThinkingBudget(selectedProvider);
+    setThinkingBudgetValue(budget > 0 ? String(budget) : "");
+    // A key arriving after the user picked another provider belongs to the old one
+    let cancelled = false;
+    void getProviderApiKey(selectedProvider).then((key) => {
+      if (cancelled) return;
+      setApiKeyValue(key ?? "");
       setLoading(false);
-    })();
-  }, []);
+    });
+    return () => { cancelled = true; };
+  }, [selectedProvider]);
+
+  const moveFallbackUp = (index: number) => {
+    const next = [...fallbackChain];
+    const [moved] = next.splice(index, 1);
+    if (moved !== undefined) next.splice(index - 1, 0, moved);
+    setFallbacks(next);
+  };
 
   const save = () => {
     setProvider(selectedProvider);
-    setOllamaBaseUrl(ollamaUrl);
-    setOllamaModel(ollamaModelName);
+    setProviderModel(selectedProvider, model);
+    if (definition.baseUrlConfigurable) setProviderBaseUrl(selectedProvider, baseUrl);
+    if (definition.capabilities.thinkingBudget) setThinkingBudget(selectedProvider, Number(thinkingBudget) || 0);
     setEnableTools(toolsEnabled);
-    void setApiKey(anthropicKey);
-    void setRedpillApiKey(redpillKey);
+    setServerToolLoop(serverLoop);
+    setContextCompaction(compaction);
+    setFallbackProviders(fallbackChain);
+    if (definition.credentialKey !== null) void setProviderApiKey(selectedProvider, apiKey);
   };
 
   if (loading) return <LoadingSpinner />;
@@ -57,130 +87,272 @@ export function ProviderSettingsPage() {
           <Bot className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
           AI Provider
         </label>
-        <div className="flex gap-2">
-          {(["redpill", "ollama", "anthropic"] as const).map((p) => (
+        <div className="grid grid-cols-3 gap-2">
+          {providers.map((p) => (
             <button
-              key={p}
+              key={p.id}
               type="button"
-              onClick={() => { setSelectedProvider(p); }}
-              className="flex-1 rounded-xl border px-4 py-2.5 text-sm font-medium transition-all"
+              onClick={() => { setSelectedProvider(p.id); }}
+              className="rounded-xl border px-4 py-2.5 text-sm font-medium transition-all"
               style={{
-                background: selectedProvider === p ? "var(--bg-accent)" : "var(--bg-input)",
-                borderColor: selectedProvider === p ? "var(--bg-accent)" : "var(--border-secondary)",
-                color: selectedProvider === p ? "white" : "var(--fg-secondary)",
+                background: selectedProvider === p.id ? "var(--bg-accent)" : "var(--bg-input)",
+                borderColor: selectedProvider === p.id ? "var(--bg-accent)" : "var(--border-secondary)",
+                color: selectedProvider === p.id ? "white" : "var(--fg-secondary)",
               }}
             >
-              {p === "redpill" ? "RedPill" : p === "ollama" ? "Ollama (Local)" : "Anthropic"}
+              {p.name}
             </button>
           ))}
         </div>
+        <p className="mt-1 text-xs" style={{ color: "var(--fg-muted)" }}>
+          {definition.description}
+        </p>
       </div>
 
-      {/* Ollama Settings */}
-      {selectedProvider === "ollama" && (
-        <>
-          <div>
-            <label htmlFor="sp-ollama-url" className="mb-2 flex items-center gap-2 text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>
-              <Server className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
-              Ollama URL
-            </label>
-            <input
-              id="sp-ollama-url"
-              type="text"
-              value={ollamaUrl}
-              onChange={(e) => { setOllamaUrl(e.target.value); }}
-              placeholder="http://localhost:11434"
-              className="w-full rounded-xl border px-4 py-3 transition-colors focus:outline-none focus:ring-2"
-              style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)", color: "var(--fg-primary)" }}
-            />
-          </div>
-          <div>
-            <label htmlFor="sp-ollama-model" className="mb-2 flex items-center gap-2 text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>
-              <Bot className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
-              Model
-            </label>
-            <input
-              id="sp-ollama-model"
-              type="text"
-              value={ollamaModelName}
-              onChange={(e) => { setOllamaModelName(e.target.value); }}
-              placeholder="qwen3-vl:latest"
-              className="w-full rounded-xl border px-4 py-3 transition-colors focus:outline-none focus:ring-2"
-              style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)", color: "var(--fg-primary)" }}
-            />
-            <p className="mt-1 text-xs" style={{ color: "var(--fg-muted)" }}>
-              Recommended: qwen3-vl:latest (vision + tools)
-            </p>
-          </div>
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <Wrench className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
-              <div>
-                <p className="text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>Enable Tools</p>
-                <p className="text-xs" style={{ color: "var(--fg-muted)" }}>Requires qwen3-vl or tool-capable model</p>
-              </div>
-            </div>
-            <button
-              type="button"
-              onClick={() => { setToolsEnabled(!toolsEnabled); }}
-              className="relative h-6 w-11 rounded-full transition-colors"
-              style={{ background: toolsEnabled ? "var(--bg-accent)" : "var(--bg-tertiary)" }}
-            >
-              <span
-                className="absolute left-0.5 top-0.5 h-5 w-5 rounded-full bg-white shadow transition-transform"
-                style={{ transform: toolsEnabled ? "translateX(20px)" : "translateX(0)" }}
-              />
-            </button>
-          </div>
-        </>
+      {/* Base URL (local / custom endpoints) */}
+      {definition.baseUrlConfigurable && (
+        <div>
+          <label htmlFor="sp-base-url" className="mb-2 flex items-center gap-2 text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>
+            <Server className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+            {definition.name} URL
+          </label>
+          <input
+            id="sp-base-url"
+            type="text"
+            value={baseUrl}
+            onChange={(e) => { setBaseUrl(e.target.value); }}
+            placeholder={definition.defaultBaseUrl ?? ""}
+            className="w-full rounded-xl border px-4 py-3 transition-colors focus:outline-none focus:ring-2"
+            style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)", color: "var(--fg-primary)" }}
+          />
+        </div>
       )}
 
-      {/* RedPill API Key */}
-      {selectedProvider === "redpill" && (
+      {/* Model */}
+      <div>
+        <label htmlFor="sp-model" className="mb-2 flex items-center gap-2 text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>
+          <Bot className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+          Model
+        </label>
+        <input
+          id="sp-model"
+          type="text"
+          list="sp-model-options"
+          value={model}
+          onChange={(e) => { setModel(e.target.value); }}
+          placeholder={definition.defaultModel !== "" ? definition.defaultModel : "model-id"}
+          className="w-full rounded-xl border px-4 py-3 transition-colors focus:outline-none focus:ring-2"
+          style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)", color: "var(--fg-primary)" }}
+        />
+        <datalist id="sp-model-options">
+          {definition.models.map((m) => (
+            <option key={m} value={m} />
+          ))}
+        </datalist>
+        {definition.defaultModel !== "" && (
+          <p className="mt-1 text-xs" style={{ color: "var(--fg-muted)" }}>
+            Default model: {definition.defaultModel}
+          </p>
+        )}
+        {modelCapabilities !== null && (
+          <p className="mt-1 text-xs" style={{ color: "var(--fg-muted)" }}>
+            {formatCapabilities(modelCapabilities, selectedProvider === "ollama")}
+          </p>
+        )}
+      </div>
+
+      {/* Extended thinking */}
+      {definition.capabilities.thinkingBudget && (
         <div>
-          <label htmlFor="sp-redpill-key" className="mb-2 flex items-center gap-2 text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>
-            <Bot className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
-            RedPill API Key
+          <label htmlFor="sp-thinking-budget" className="mb-2 flex items-center gap-2 text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>
+            <Brain className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+            Extended Thinking Budget
           </label>
           <input
-            id="sp-redpill-key"
-            type="password"
-            value={redpillKey}
-            onChange={(e) => { setRedpillKey(e.target.value); }}
-            placeholder="sk-..."
+            id="sp-thinking-budget"
+            type="number"
+            min={0}
+            step={1024}
+            value={thinkingBudget}
+            onChange={(e) => { setThinkingBudgetValue(e.target.value); }}
+            placeholder="Off"
             className="w-full rounded-xl border px-4 py-3 transition-colors focus:outline-none focus:ring-2"
             style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)", color: "var(--fg-primary)" }}
           />
           <p className="mt-1 text-xs" style={{ color: "var(--fg-muted)" }}>
-            Default model: moonshotai/kimi-k2.5 (GPU TEE)
+            Tokens the model may spend reasoning before it answers (minimum 1024). Leave empty to disable.
           </p>
         </div>
       )}
 
-      {/* Anthropic API Key (when provider is anthropic) */}
-      {selectedProvider === "anthropic" && (
+      {/* API Key */}
+      {definition.credentialKey !== null && (
         <div>
-          <label htmlFor="sp-anthropic-key" className="mb-2 flex items-center gap-2 text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>
-            <Bot className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
-            Anthropic API Key
+          <label htmlFor="sp-api-key" className="mb-2 flex items-center gap-2 text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>
+            <Key className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+            {definition.name} API Key
+            {!definition.requiresApiKey && <span className="text-xs" style={{ color: "var(--fg-muted)" }}>(optional)</span>}
           </label>
           <input
-            id="sp-anthropic-key"
+            id="sp-api-key"
             type="password"
-            value={anthropicKey}
-            onChange={(e) => { setAnthropicKey(e.target.value); }}
-            placeholder="sk-ant-api03-..."
+            value={apiKey}
+            onChange={(e) => { setApiKeyValue(e.target.value); }}
+            placeholder={definition.keyPlaceholder ?? ""}
             className="w-full rounded-xl border px-4 py-3 transition-colors focus:outline-none focus:ring-2"
             style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)", color: "var(--fg-primary)" }}
           />
         </div>
       )}
 
+      {/* Tools */}
+      {definition.capabilities.tools && (
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Wrench className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+            <div>
+              <p className="text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>Enable Tools</p>
+              <p className="text-xs" style={{ color: "var(--fg-muted)" }}>
+                {definition.toolsEnabledByDefault ? "Web search, email, files and more" : "Requires a tool-capable model"}
+              </p>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => { setToolsEnabled(!toolsEnabled); }}
+            className="relative h-6 w-11 rounded-full transition-colors"
+            style={{ background: toolsEnabled ? "var(--bg-accent)" : "var(--bg-tertiary)" }}
+          >
+            <span
+              className="absolute left-0.5 top-0.5 h-5 w-5 rounded-full bg-white shadow transition-transform"
+              style={{ transform: toolsEnabled ? "translateX(20px)" : "translateX(0)" }}
+            />
+          </button>
+        </div>
+      )}
+
+      {/* Server tool loop */}
+      {definition.capabilities.tools && toolsEnabled && (
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Repeat className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+            <div>
+              <p className="text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>Run Tool Loop in Backend</p>
+              <p className="text-xs" style={{ color: "var(--fg-muted)" }}>Streams every tool step in one response; pauses only for questions and settings forms</p>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => { setServerLoop(!serverLoop); }}
+            className="relative h-6 w-11 rounded-full transition-colors"
+            style={{ background: serverLoop ? "var(--bg-accent)" : "var(--bg-tertiary)" }}
+          >
+            <span
+              className="absolute left-0.5 top-0.5 h-5 w-5 rounded-full bg-white shadow transition-transform"
+              style={{ transform: serverLoop ? "translateX(20px)" : "translateX(0)" }}
+            />
+          </button>
+        </div>
+      )}
+
+      {/* Context compaction */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FoldVertical className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+          <div>
+            <p className="text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>Summarize Old Messages</p>
+            <p className="text-xs" style={{ color: "var(--fg-muted)" }}>When a conversation outgrows the context window, replace its oldest messages with a summary instead of dropping them</p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => { setCompaction(!compaction); }}
+          className="relative h-6 w-11 shrink-0 rounded-full transition-colors"
+          style={{ background: compaction ? "var(--bg-accent)" : "var(--bg-tertiary)" }}
+        >
+          <span
+            className="absolute left-0.5 top-0.5 h-5 w-5 rounded-full bg-white shadow transition-transform"
+            style={{ transform: compaction ? "translateX(20px)" : "translateX(0)" }}
+          />
+        </button>
+      </div>
+
+      {/* Fallback chain */}
+      <div>
+        <p className="mb-2 flex items-center gap-2 text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>
+          <ArrowRightLeft className="h-4 w-4" style={{ color: "var(--fg-accent)" }} />
+          Fallback Providers
+        </p>
+        {fallbackChain.length > 0 && (
+          <ol className="mb-2 space-y-1">
+            {fallbackChain.map((id, index) => (
+              <li
+                key={id}
+                className="flex items-center gap-2 rounded-xl border px-3 py-2 text-sm"
+                style={{ background: "var(--bg-input)", borderColor: "var(--border-secondary)" }}
+              >
+                <span style={{ color: "var(--fg-muted)" }}>{index + 1}.</span>
+                <span className="flex-1 truncate" style={{ color: "var(--fg-secondary)" }}>
+                  {getProviderDefinition(id).name} · {getProviderModel(id)}
+                </span>
+                {index > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => { moveFallbackUp(index); }}
+                    className="rounded-lg p-1 transition-colors hover:bg-[var(--bg-hover)]"
+                    style={{ color: "var(--fg-muted)" }}
+                    title="Try earlier"
+                  >
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => { setFallbacks(fallbackChain.filter((f) => f !== id)); }}
+                  className="rounded-lg p-1 transition-colors hover:bg-[var(--bg-hover)]"
+                  style={{ color: "var(--fg-muted)" }}
+                  title="Remove"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+        <div className="flex flex-wrap gap-1.5">
+          {providers
+            .filter((p) => p.id !== selectedProvider && !fallbackChain.includes(p.id))
+            .map((p) => (
+              <button
+                key={p.id}
+                type="button"
+                onClick={() => { setFallbacks([...fallbackChain, p.id]); }}
+                className="flex items-center gap-1 rounded-lg border px-2 py-1 text-xs transition-colors hover:bg-[var(--bg-hover)]"
+                style={{ borderColor: "var(--border-secondary)", color: "var(--fg-secondary)" }}
+              >
+                <Plus className="h-3 w-3" />
+                {p.name}
+              </button>
+            ))}
+        </div>
+        <p className="mt-1 text-xs" style={{ color: "var(--fg-muted)" }}>
+          When {definition.name} is rate limited, overloaded or unreachable, requests are retried, then sent to these providers in order using their saved model and key
+        </p>
+      </div>
+
       <SaveButton onSave={save} />
     </div>
   );
 }
 
+function formatCapabilities(capabilities: ModelCapabilities, readFromServer: boolean): string {
+  const parts = [`${String(Math.round(capabilities.contextWindow / 1000))}k context`];
+  if (capabilities.tools) parts.push("tools");
+  if (capabilities.vision) parts.push("images");
+  // The backend asks Ollama for the real values when a chat starts
+  return parts.join(" · ") + (readFromServer ? " (typical; read from Ollama when chatting)" : "");
+}
+
 function LoadingSpinner() {
   return (
     <div className="flex items-center justify-center py-12">
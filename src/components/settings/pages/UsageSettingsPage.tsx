@@ -0,0 +1,295 @@
+import { useState, useEffect, useMemo } from "react";
+import { BarChart3, Plus, Trash2 } from "lucide-react";
+import { getUsageRecords } from "@app/lib/tauri";
+import {
+  DEFAULT_MODEL_PRICES,
+  estimateCost,
+  formatCost,
+  getModelPrices,
+  resetModelPrices,
+  setModelPrices,
+  type ModelPrice,
+} from "@app/lib/pricing";
+import type { UsageRecord } from "@app/types/message";
+
+interface UsageTotals {
+  key: string;
+  label: string;
+  responses: number;
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens: number;
+  /** Sum of priced responses; unpriced ones are counted in `unpriced` */
+  costUsd: number;
+  unpriced: number;
+}
+
+/**
+ * Group records by key, costing each with the current price table
+ * (so price edits apply retroactively)
+ */
+function aggregate(
+  records: UsageRecord[],
+  prices: ModelPrice[],
+  keyOf: (record: UsageRecord) => { key: string; label: string }
+): UsageTotals[] {
+  const groups = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const { key, label } = keyOf(record);
+    const totals = groups.get(key) ?? { key, label, responses: 0, promptTokens: 0, completionTokens: 0, cacheReadTokens: 0, costUsd: 0, unpriced: 0 };
+    totals.responses += 1;
+    totals.promptTokens += record.usage.promptTokens;
+    totals.completionTokens += record.usage.completionTokens;
+    totals.cacheReadTokens += record.usage.cacheReadTokens ?? 0;
+    const cost = estimateCost(record.usage, prices);
+    if (cost === null) {
+      totals.unpriced += 1;
+    } else {
+      totals.costUsd += cost;
+    }
+    groups.set(key, totals);
+  }
+  return [...groups.values()];
+}
+
+function UsageTable({ title, rows }: { title: string; rows: UsageTotals[] }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>
+        {title}
+      </h3>
+      <div className="overflow-hidden rounded-lg" style={{ border: "1px solid var(--border-secondary)" }}>
+        <table className="w-full text-xs">
+          <thead style={{ background: "var(--bg-tertiary)", color: "var(--fg-muted)" }}>
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">Name</th>
+              <th className="px-3 py-2 text-right font-medium">Responses</th>
+              <th className="px-3 py-2 text-right font-medium">Input</th>
+              <th className="px-3 py-2 text-right font-medium">Cached</th>
+              <th className="px-3 py-2 text-right font-medium">Output</th>
+              <th className="px-3 py-2 text-right font-medium">Cost</th>
+            </tr>
+          </thead>
+          <tbody style={{ color: "var(--fg-primary)" }}>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-t" style={{ borderColor: "var(--border-secondary)" }}>
+                <td className="max-w-48 truncate px-3 py-2" title={row.label}>{row.label}</td>
+                <td className="px-3 py-2 text-right">{row.responses}</td>
+                <td className="px-3 py-2 text-right">{row.promptTokens.toLocaleString()}</td>
+                <td className="px-3 py-2 text-right">{row.cacheReadTokens.toLocaleString()}</td>
+                <td className="px-3 py-2 text-right">{row.completionTokens.toLocaleString()}</td>
+                <td
+                  className="px-3 py-2 text-right"
+                  title={row.unpriced > 0 ? `${String(row.unpriced)} response(s) from models without a price` : undefined}
+                >
+                  {formatCost(row.costUsd)}
+                  {row.unpriced > 0 && "*"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function PriceTableEditor({ prices, onChange }: { prices: ModelPrice[]; onChange: (prices: ModelPrice[]) => void }) {
+  const [draft, setDraft] = useState(prices);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setDraft(prices);
+  }, [prices]);
+
+  const updateRow = (index: number, patch: Partial<ModelPrice>) => {
+    setDraft(draft.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const handleSave = () => {
+    const cleaned = draft.filter((row) => row.model.trim() !== "").map((row) => ({ ...row, model: row.model.trim() }));
+    setModelPrices(cleaned);
+    onChange(cleaned);
+    setSaved(true);
+    setTimeout(() => { setSaved(false); }, 2000);
+  };
+
+  const handleReset = () => {
+    resetModelPrices();
+    onChange(DEFAULT_MODEL_PRICES);
+  };
+
+  const inputStyle = {
+    background: "var(--bg-tertiary)",
+    color: "var(--fg-primary)",
+    border: "1px solid var(--border-secondary)",
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium" style={{ color: "var(--fg-secondary)" }}>
+        Prices (USD per million tokens)
+      </h3>
+      <p className="text-xs" style={{ color: "var(--fg-muted)" }}>
+        Models match by id prefix, so "claude-sonnet-4" covers every dated snapshot. Ollama models are always free.
+      </p>
+      <div className="space-y-1.5">
+        {draft.map((row, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={row.model}
+              onChange={(e) => { updateRow(index, { model: e.target.value }); }}
+              placeholder="model id"
+              className="min-w-0 flex-1 rounded-lg px-2 py-1.5 text-xs"
+              style={inputStyle}
+            />
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={row.inputPerMTok}
+              onChange={(e) => { updateRow(index, { inputPerMTok: Number(e.target.value) }); }}
+              title="Input"
+              className="w-20 rounded-lg px-2 py-1.5 text-xs"
+              style={inputStyle}
+            />
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={row.outputPerMTok}
+              onChange={(e) => { updateRow(index, { outputPerMTok: Number(e.target.value) }); }}
+              title="Output"
+              className="w-20 rounded-lg px-2 py-1.5 text-xs"
+              style={inputStyle}
+            />
+            <button
+              type="button"
+              onClick={() => { setDraft(draft.filter((_, i) => i !== index)); }}
+              className="rounded-lg p-1.5 transition-colors"
+              style={{ color: "var(--fg-muted)" }}
+              title="Remove"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 pt-1">
+        <button
+          type="button"
+          onClick={() => { setDraft([...draft, { model: "", inputPerMTok: 0, outputPerMTok: 0 }]); }}
+          className="flex items-center gap-1.5 rounded-lg px-3 py-2 text-xs font-medium transition-colors"
+          style={{ background: "var(--bg-tertiary)", color: "var(--fg-secondary)" }}
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add model
+        </button>
+        <button
+          type="button"
+          onClick={handleReset}
+          className="rounded-lg px-3 py-2 text-xs font-medium transition-colors"
+          style={{ background: "var(--bg-tertiary)", color: "var(--fg-secondary)" }}
+        >
+          Reset to defaults
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          className="ml-auto rounded-lg px-4 py-2 text-sm font-medium transition-colors"
+          style={{
+            background: saved ? "var(--success)" : "var(--fg-accent)",
+            color: "white",
+          }}
+        >
+          {saved ? "Saved" : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function UsageSettingsPage() {
+  const [records, setRecords] = useState<UsageRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [prices, setPrices] = useState<ModelPrice[]>(getModelPrices);
+
+  useEffect(() => {
+    getUsageRecords()
+      .then(setRecords)
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : String(err));
+      });
+  }, []);
+
+  const { total, byProvider, byDay, byThread } = useMemo(() => {
+    const list = records ?? [];
+    return {
+      total: aggregate(list, prices, () => ({ key: "total", label: "Total" }))[0],
+      byProvider: aggregate(list, prices, (r) => ({ key: r.usage.provider, label: r.usage.provider })),
+      // Newest day first
+      byDay: aggregate(list, prices, (r) => {
+        const day = new Date(r.createdAt).toLocaleDateString();
+        return { key: day, label: day };
+      }).reverse(),
+      byThread: aggregate(list, prices, (r) => ({ key: r.threadId, label: r.threadTitle ?? "New Chat" }))
+        .sort((a, b) => b.costUsd - a.costUsd || b.promptTokens - a.promptTokens),
+    };
+  }, [records, prices]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <div
+          className="flex h-10 w-10 items-center justify-center rounded-xl"
+          style={{ background: "var(--bg-hover)" }}
+        >
+          <BarChart3 className="h-5 w-5" style={{ color: "var(--fg-accent)" }} />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold" style={{ color: "var(--fg-primary)" }}>
+            Usage
+          </h2>
+          <p className="text-sm" style={{ color: "var(--fg-muted)" }}>
+            Tokens and estimated cost of assistant responses
+          </p>
+        </div>
+      </div>
+
+      {error !== null && (
+        <p className="text-sm" style={{ color: "var(--danger)" }}>
+          Failed to load usage: {error}
+        </p>
+      )}
+
+      {records !== null && total === undefined && (
+        <p className="text-sm" style={{ color: "var(--fg-muted)" }}>
+          No usage recorded yet.
+        </p>
+      )}
+
+      {total !== undefined && (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { label: "Responses", value: String(total.responses) },
+              { label: "Tokens", value: (total.promptTokens + total.completionTokens).toLocaleString() },
+              { label: "Estimated cost", value: formatCost(total.costUsd) },
+            ].map((stat) => (
+              <div key={stat.label} className="rounded-lg p-3" style={{ background: "var(--bg-tertiary)" }}>
+                <div className="text-xs" style={{ color: "var(--fg-muted)" }}>{stat.label}</div>
+                <div className="text-lg font-semibold" style={{ color: "var(--fg-primary)" }}>{stat.value}</div>
+              </div>
+            ))}
+          </div>
+          <UsageTable title="By provider" rows={byProvider} />
+          <UsageTable title="By day" rows={byDay} />
+          <UsageTable title="By conversation" rows={byThread} />
+        </>
+      )}
+
+      <PriceTableEditor prices={prices} onChange={setPrices} />
+    </div>
+  );
+}
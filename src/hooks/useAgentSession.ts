@@ -7,7 +7,7 @@ import type {
   WSUpdate,
 } from "@app/types/agent";
 
-import { API_BASE_URL, WS_URL } from "@app/lib/config";
+import { sidecarFetch, sidecarSocketUrl } from "@app/lib/sidecar";
 
 /**
  * Calculate progress from tasks
@@ -61,14 +61,20 @@ export function useAgentSession(threadId: string | null): UseAgentSessionResult
 
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Bumped on cleanup so a connect still waiting for its URL gives up
+  const connectGenerationRef = useRef(0);
+  // Last event applied, so a reconnect only asks for what it missed
+  const lastSeqRef = useRef(0);
+  // The sidecar process lastSeqRef counts in; null before the first event
+  const epochRef = useRef<string | null>(null);
 
   // Fetch initial state from REST API
   const fetchInitialState = useCallback(async () => {
     if (threadId === null) return;
 
     try {
-      const response = await fetch(
-        `${API_BASE_URL}/api/agent/session/${threadId}`
+      const response = await sidecarFetch(
+        `/api/agent/session/${threadId}`
       );
       if (response.ok) {
         const data = (await response.json()) as {
@@ -90,26 +96,58 @@ export function useAgentSession(threadId: string | null): UseAgentSessionResult
     try {
       const update = JSON.parse(event.data) as WSUpdate;
 
+      // A restarted sidecar numbers its events from scratch
+      if (update.epoch !== epochRef.current) {
+        epochRef.current = update.epoch;
+        lastSeqRef.current = 0;
+      }
+      // A snapshot restarts the sequence; anything else already seen is a replay overlap
+      if (update.type !== "session_snapshot" && update.seq <= lastSeqRef.current) return;
+      lastSeqRef.current = update.seq;
+
+      const applySessionUpdate = () => {
+        const sessionUpdate = update.session;
+        if (sessionUpdate === undefined) return;
+        setSession((prev) => {
+          const sameSession = prev?.id === sessionUpdate.id;
+          const updated: AgentSession = {
+            id: sessionUpdate.id,
+            threadId: update.threadId,
+            status: sessionUpdate.status,
+            createdAt: prev?.createdAt ?? new Date().toISOString(),
+            lastActivityAt: new Date().toISOString(),
+          };
+          if (sessionUpdate.error !== undefined) {
+            updated.error = sessionUpdate.error;
+          }
+          const budget = update.budget ?? (sameSession ? prev.budget : undefined);
+          const usage = update.usage ?? (sameSession ? prev.usage : undefined);
+          if (budget !== undefined) updated.budget = budget;
+          if (usage !== undefined) updated.usage = usage;
+          return updated;
+        });
+      };
+
       switch (update.type) {
         case "session_created":
+        case "session_snapshot":
+          // A new run, or the current one as it stands: either replaces what's shown
+          setTasks(update.tasks ?? []);
+          setToolCalls([]);
+          setExploreState(null);
+          applySessionUpdate();
+          break;
+
         case "session_updated":
         case "session_complete":
-        case "session_error": {
-          const sessionUpdate = update.session;
-          if (sessionUpdate !== undefined) {
-            setSession((prev) => {
-              const updated: AgentSession = {
-                id: sessionUpdate.id,
-                threadId: update.threadId,
-                status: sessionUpdate.status,
-                createdAt: prev?.createdAt ?? new Date().toISOString(),
-                lastActivityAt: new Date().toISOString(),
-              };
-              if (sessionUpdate.error !== undefined) {
-                updated.error = sessionUpdate.error;
-              }
-              return updated;
-            });
+        case "session_error":
+          applySessionUpdate();
+          break;
+
+        case "budget_updated": {
+          const { budget, usage } = update;
+          if (budget !== undefined && usage !== undefined) {
+            setSession((prev) => (prev?.id === update.sessionId ? { ...prev, budget, usage } : prev));
           }
           break;
         }
@@ -138,6 +176,11 @@ export function useAgentSession(threadId: string | null): UseAgentSessionResult
           break;
         }
 
+        case "plan_updated":
+          // The user edited the plan before approving it
+          if (update.tasks !== undefined) setTasks(update.tasks);
+          break;
+
         case "explore_started":
           setExploreState({
             prompts: update.prompts ?? [],
@@ -248,7 +291,7 @@ export function useAgentSession(threadId: string | null): UseAgentSessionResult
   }, []);
 
   // Connect to WebSocket
-  const connect = useCallback(() => {
+  const connect = useCallback(async () => {
     if (threadId === null) return;
 
     // Clear any pending reconnect
@@ -265,9 +308,14 @@ export function useAgentSession(threadId: string | null): UseAgentSessionResult
     }
 
     try {
-      const ws = new WebSocket(
-        `${WS_URL}?threadId=${encodeURIComponent(threadId)}`
+      const generation = connectGenerationRef.current;
+      const since = lastSeqRef.current;
+      const epoch = epochRef.current;
+      const url = await sidecarSocketUrl(
+        since > 0 && epoch !== null ? { threadId, since: String(since), epoch } : { threadId }
       );
+      if (generation !== connectGenerationRef.current) return;
+      const ws = new WebSocket(url);
 
       ws.onopen = () => {
         console.log("[AgentSession] Connected to WebSocket");
@@ -284,7 +332,7 @@ export function useAgentSession(threadId: string | null): UseAgentSessionResult
 
         // Reconnect after delay (threadId is guaranteed non-null since we early-return at start)
         reconnectTimeoutRef.current = setTimeout(() => {
-          connect();
+          void connect();
         }, 3000);
       };
 
@@ -306,7 +354,7 @@ export function useAgentSession(threadId: string | null): UseAgentSessionResult
       // Fetch initial state first
       void fetchInitialState();
       // Then connect to WebSocket for updates
-      connect();
+      void connect();
     } else {
       // Clear state when no thread
       setSession(null);
@@ -316,6 +364,9 @@ export function useAgentSession(threadId: string | null): UseAgentSessionResult
     }
 
     return () => {
+      connectGenerationRef.current += 1;
+      lastSeqRef.current = 0;
+      epochRef.current = null;
       const ws = wsRef.current;
       if (ws !== null) {
         ws.close();
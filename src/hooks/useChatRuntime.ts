@@ -4,22 +4,37 @@ import {
   type ThreadMessageLike,
   useExternalStoreRuntime,
 } from "@assistant-ui/react";
-import type { Message } from "@app/types/message";
+import type { Message, MessageAttachment, MessageBranch, MessageMetadata, NewMessage } from "@app/types/message";
+import type { ContextSummary, ThreadSettings } from "@app/types/thread";
 import { usePersistence } from "./usePersistence";
-import { getApiKey, streamChatResponse, generateConversationTitle, type ToolInvocation, type ChatMessage, type StreamResult } from "@app/lib/ai";
+import { estimateCost } from "@app/lib/pricing";
+import { chatAttachmentAdapter, fromComposerAttachment, toComposerAttachment } from "@app/lib/attachments";
+import { ChatRequestError, getMissingCredentialError, streamChatResponse, generateConversationTitle, cancelAgentSession, compactConversation, type ToolInvocation, type ChatMessage, type StreamResult } from "@app/lib/ai";
 
-function convertToThreadMessage(message: Message, hideFromUI = false): ThreadMessageLike {
+function convertToThreadMessage(message: Message, hideFromUI = false, compactedSummary?: string, branch?: MessageBranch): ThreadMessageLike {
   return {
     id: message.id,
     role: message.role,
     content: message.content,
     createdAt: new Date(message.createdAt),
+    ...(message.role === "user" && message.metadata?.attachments !== undefined
+      ? { attachments: message.metadata.attachments.map((a, i) => toComposerAttachment(a, `${message.id}-${String(i)}`)) }
+      : {}),
     metadata: {
       custom: {
         ...(message.toolInvocations !== undefined && message.toolInvocations.length > 0
           ? { toolInvocations: message.toolInvocations }
           : {}),
+        ...(message.metadata?.interrupted === true ? { interrupted: true } : {}),
+        ...(message.metadata?.thinking !== undefined ? { thinking: message.metadata.thinking } : {}),
+        ...(message.metadata?.usage !== undefined ? { usage: message.metadata.usage } : {}),
+        ...(message.metadata?.answeredBy !== undefined ? { answeredBy: message.metadata.answeredBy } : {}),
+        ...(message.metadata?.error !== undefined ? { errorCode: message.metadata.error.code } : {}),
         ...(hideFromUI ? { hidden: true } : {}),
+        // First message after the compacted history; shows the "context compacted" divider
+        ...(compactedSummary !== undefined ? { compactedSummary } : {}),
+        // "< 2/3 >" navigation between alternative edits or regenerations
+        ...(branch !== undefined ? { branch } : {}),
       },
     },
   };
@@ -27,9 +42,16 @@ function convertToThreadMessage(message: Message, hideFromUI = false): ThreadMes
 
 interface UseChatRuntimeOptions {
   threadId: string | null;
-  onTitleGenerated?: ((title: string) => void) | undefined;
+  /** The thread's provider, model and generation overrides */
+  threadSettings?: ThreadSettings | undefined;
+  /** Called after the first exchange with the new title and the tags suggested for it */
+  onTitleGenerated?: ((title: string, suggestedTags: string[]) => void) | undefined;
+  /** The user's tags, most used first, for tag suggestions to reuse */
+  knownTags?: string[] | undefined;
   initialMessage?: string | null | undefined;
   onInitialMessageConsumed?: (() => void) | undefined;
+  /** Message to bring into view (from search); its branch is shown once loaded */
+  focusMessageId?: string | null | undefined;
 }
 
 interface AskUserArgs {
@@ -53,6 +75,7 @@ interface PendingAskUser {
 
 export type StreamingContentPart =
   | { type: "text"; text: string }
+  | { type: "thinking"; text: string }
   | { type: "tool"; invocation: ToolInvocation };
 
 interface StreamingStore {
@@ -62,7 +85,8 @@ interface StreamingStore {
   toolInvocations: ToolInvocation[];
   contentParts: StreamingContentPart[];
   pendingAskUser: PendingAskUser | null;
-  pendingUserMessage: string | null;
+  /** User message shown while it's being saved */
+  pendingUserMessage: { content: string; attachments: MessageAttachment[] } | null;
 }
 
 function createStreamingStore() {
@@ -82,6 +106,99 @@ function createStreamingStore() {
   };
 }
 
+/**
+ * Build the assistant message to persist from a stream result.
+ * Stopped generations keep their partial output and are flagged as interrupted.
+ */
+function toAssistantMessage(result: StreamResult): NewMessage {
+  const assistantMessage: NewMessage = { role: "assistant", content: result.text };
+  if (result.toolInvocations.length > 0) {
+    assistantMessage.toolInvocations = result.toolInvocations;
+  }
+  const metadata: MessageMetadata = {};
+  if (result.aborted === true) metadata.interrupted = true;
+  if (result.thinking !== undefined && result.thinking.trim() !== "") metadata.thinking = result.thinking;
+  if (result.usage !== undefined) {
+    const costUsd = estimateCost(result.usage);
+    metadata.usage = costUsd !== null ? { ...result.usage, costUsd } : result.usage;
+  }
+  if (result.answeredBy !== undefined) metadata.answeredBy = result.answeredBy;
+  if (Object.keys(metadata).length > 0) {
+    assistantMessage.metadata = metadata;
+  }
+  return assistantMessage;
+}
+
+/**
+ * Assistant message recording a failed request, with its error code so the
+ * thread can offer a fix
+ */
+function toErrorMessage(error: unknown): NewMessage {
+  const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+  const code = error instanceof ChatRequestError ? error.code : "unknown";
+  return { role: "assistant", content: `Error: ${errorMessage}`, metadata: { error: { code } } };
+}
+
+/**
+ * Persisted message as sent to the backend
+ */
+function toChatMessage(message: Message): ChatMessage {
+  const msg: ChatMessage = { id: message.id, role: message.role, content: message.content };
+  if (message.metadata?.attachments !== undefined && message.metadata.attachments.length > 0) {
+    msg.attachments = message.metadata.attachments;
+  }
+  if (message.toolInvocations !== undefined && message.toolInvocations.length > 0) {
+    msg.toolInvocations = message.toolInvocations;
+  }
+  return msg;
+}
+
+/**
+ * User message to persist, with attachments in its metadata
+ */
+function toUserMessage(content: string, attachments: MessageAttachment[]): NewMessage {
+  const userMessage: NewMessage = { role: "user", content };
+  if (attachments.length > 0) {
+    userMessage.metadata = { attachments };
+  }
+  return userMessage;
+}
+
+/**
+ * History to send given the thread's stored summary: the messages it covers
+ * are left out and the summary goes along instead. A summary whose last
+ * message isn't in the history (deleted by an edit) no longer applies.
+ */
+function applyContextSummary(
+  history: ChatMessage[],
+  summary: ContextSummary | null
+): { messages: ChatMessage[]; contextSummary?: string } {
+  if (summary === null) return { messages: history };
+  const index = history.findIndex((m) => m.id === summary.throughMessageId);
+  if (index < 0) return { messages: history };
+  return { messages: history.slice(index + 1), contextSummary: summary.summary };
+}
+
+/**
+ * Combine usage of consecutive tool-loop requests into one response total.
+ * Latency stays that of the first request — it's when the user first saw output.
+ */
+function addUsage(total: StreamResult["usage"], next: StreamResult["usage"]): StreamResult["usage"] {
+  if (total === undefined) return next;
+  if (next === undefined) return total;
+  return {
+    ...total,
+    promptTokens: total.promptTokens + next.promptTokens,
+    completionTokens: total.completionTokens + next.completionTokens,
+    cacheReadTokens: (total.cacheReadTokens ?? 0) + (next.cacheReadTokens ?? 0),
+    cacheWriteTokens: (total.cacheWriteTokens ?? 0) + (next.cacheWriteTokens ?? 0),
+    durationMs: total.durationMs + next.durationMs,
+  };
+}
+
+/** Composer command that compacts the thread's history instead of sending a message */
+const COMPACT_COMMAND = "/compact";
+
 // No hard limit on tool loop iterations — user can stop via cancel button
 
 /**
@@ -111,12 +228,31 @@ function checkAskUserAwaiting(invocation: ToolInvocation): AskUserArgs | null {
 
 export function useChatRuntime({
   threadId,
+  threadSettings,
   onTitleGenerated,
+  knownTags,
   initialMessage,
   onInitialMessageConsumed,
+  focusMessageId,
 }: UseChatRuntimeOptions) {
-  const { messages, saveMessage, deleteMessage, deleteMessagesFrom, refresh } = usePersistence(threadId);
+  const { messages, branches, contextSummary, saveMessage, selectBranch, rewindTo, getActiveLeafId, saveContextSummary, refresh } = usePersistence(threadId);
+  // Read by the stream loop, which must see a summary created mid-request before it's saved
+  const contextSummaryRef = useRef<ContextSummary | null>(contextSummary);
+  useEffect(() => {
+    contextSummaryRef.current = contextSummary;
+  }, [contextSummary]);
+  // Read at request time, so switching models mid-thread applies to the next message
+  const threadSettingsRef = useRef<ThreadSettings | undefined>(threadSettings);
+  useEffect(() => {
+    threadSettingsRef.current = threadSettings;
+  }, [threadSettings]);
+  const knownTagsRef = useRef<string[]>(knownTags ?? []);
+  useEffect(() => {
+    knownTagsRef.current = knownTags ?? [];
+  }, [knownTags]);
   const abortRef = useRef<boolean>(false);
+  // Aborts the in-flight /api/chat request so the backend stops generating
+  const abortControllerRef = useRef<AbortController | null>(null);
   const activeThreadIdRef = useRef<string | null>(null);
 
   const storeRef = useRef<ReturnType<typeof createStreamingStore> | null>(null);
@@ -127,11 +263,19 @@ export function useChatRuntime({
   useEffect(() => {
     if (activeThreadIdRef.current !== threadId) {
       abortRef.current = true;
+      abortControllerRef.current?.abort();
       store.setState({ isRunning: false, isStreaming: false, content: "", toolInvocations: [], contentParts: [], pendingAskUser: null, pendingUserMessage: null });
       activeThreadIdRef.current = threadId;
     }
   }, [threadId, store]);
 
+  // A search hit may sit on a branch other than the one shown
+  useEffect(() => {
+    if (focusMessageId === null || focusMessageId === undefined) return;
+    if (messages.some((m) => m.id === focusMessageId)) return;
+    void selectBranch(focusMessageId);
+  }, [focusMessageId, messages, selectBranch]);
+
   const streamingState = useSyncExternalStore(
     store.subscribe,
     store.getState,
@@ -139,15 +283,19 @@ export function useChatRuntime({
   );
 
   const FORM_SUBMISSION_PREFIX = "[Form submission]:";
+  const isVisible = (m: Message) => !m.content.startsWith(FORM_SUBMISSION_PREFIX);
+  const summarizedIndex = contextSummary !== null ? messages.findIndex((m) => m.id === contextSummary.throughMessageId) : -1;
+  const firstUnsummarizedId = summarizedIndex >= 0 ? messages.slice(summarizedIndex + 1).find(isVisible)?.id : undefined;
   const threadMessages: ThreadMessageLike[] = messages
-    .filter((m) => !m.content.startsWith(FORM_SUBMISSION_PREFIX))
-    .map((m) => convertToThreadMessage(m));
+    .filter(isVisible)
+    .map((m) => convertToThreadMessage(m, false, m.id === firstUnsummarizedId ? contextSummary?.summary : undefined, branches.get(m.id)));
 
   if (streamingState.pendingUserMessage !== null) {
     threadMessages.push({
       id: "pending-user",
       role: "user",
-      content: streamingState.pendingUserMessage,
+      content: streamingState.pendingUserMessage.content,
+      attachments: streamingState.pendingUserMessage.attachments.map((a, i) => toComposerAttachment(a, `pending-${String(i)}`)),
       createdAt: new Date(),
     });
   }
@@ -168,15 +316,20 @@ export function useChatRuntime({
     ): Promise<StreamResult | null> => {
       let history = chatHistory;
       let lastResult: StreamResult | null = null;
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
       // Accumulate across all iterations for the final save
       let allText = "";
+      let allThinking = "";
       let allToolInvocations: ToolInvocation[] = [];
+      let allUsage: StreamResult["usage"];
+      let answeredBy: StreamResult["answeredBy"];
 
       for (let iteration = 0; ; iteration++) {
         // Check abort / thread switch — return partial results instead of null
         if (abortRef.current || activeThreadIdRef.current !== requestThreadId) {
           if (allText.length > 0 || allToolInvocations.length > 0) {
-            return { text: allText, toolInvocations: allToolInvocations, hasToolCalls: false, aborted: true };
+            return { text: allText, thinking: allThinking, toolInvocations: allToolInvocations, hasToolCalls: false, aborted: true, ...(allUsage !== undefined ? { usage: allUsage } : {}), ...(answeredBy !== undefined ? { answeredBy } : {}) };
           }
           return null;
         }
@@ -189,20 +342,24 @@ export function useChatRuntime({
 
         let iterationText = "";
         let pendingAskUserData: PendingAskUser | null = null;
+        // Server tool loop: text after a step boundary starts a new part
+        let startNewTextPart = false;
+        const request = applyContextSummary(history, contextSummaryRef.current);
 
         const result = await streamChatResponse(
-          history,
+          request.messages,
           (chunk) => {
             if (!abortRef.current && activeThreadIdRef.current === requestThreadId) {
               iterationText += chunk;
               allText += chunk;
               const parts = [...store.getState().contentParts];
               const lastPart = parts[parts.length - 1];
-              if (lastPart?.type === "text") {
+              if (lastPart?.type === "text" && !startNewTextPart) {
                 parts[parts.length - 1] = { type: "text", text: lastPart.text + chunk };
               } else {
                 parts.push({ type: "text", text: chunk });
               }
+              startNewTextPart = false;
               store.setState({ content: allText, contentParts: parts });
             }
           },
@@ -264,14 +421,43 @@ export function useChatRuntime({
           },
           true,
           requestThreadId,
+          {
+            onStepStart: (step) => {
+              if (step > 0) startNewTextPart = true;
+            },
+            onThinking: (chunk) => {
+              if (abortRef.current || activeThreadIdRef.current !== requestThreadId) return;
+              allThinking += chunk;
+              const parts = [...store.getState().contentParts];
+              const lastPart = parts[parts.length - 1];
+              if (lastPart?.type === "thinking") {
+                parts[parts.length - 1] = { type: "thinking", text: lastPart.text + chunk };
+              } else {
+                parts.push({ type: "thinking", text: chunk });
+              }
+              store.setState({ contentParts: parts });
+            },
+            ...(request.contextSummary !== undefined ? { contextSummary: request.contextSummary } : {}),
+            onContextCompacted: (summary, throughMessageId) => {
+              if (activeThreadIdRef.current !== requestThreadId) return;
+              contextSummaryRef.current = { summary, throughMessageId };
+              saveContextSummary({ summary, throughMessageId }).catch((error: unknown) => {
+                console.error("[runStreamLoop] Failed to save context summary:", error);
+              });
+            },
+            settings: threadSettingsRef.current,
+            signal: controller.signal,
+          },
         );
 
         lastResult = result;
+        allUsage = addUsage(allUsage, result.usage);
+        if (result.answeredBy !== undefined) answeredBy = result.answeredBy;
 
         // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- ref can be mutated asynchronously
         if (abortRef.current || activeThreadIdRef.current !== requestThreadId) {
           if (allText.length > 0 || allToolInvocations.length > 0) {
-            return { text: allText, toolInvocations: allToolInvocations, hasToolCalls: false, aborted: true };
+            return { text: allText, thinking: allThinking, toolInvocations: allToolInvocations, hasToolCalls: false, aborted: true, ...(allUsage !== undefined ? { usage: allUsage } : {}), ...(answeredBy !== undefined ? { answeredBy } : {}) };
           }
           return null;
         }
@@ -313,34 +499,38 @@ export function useChatRuntime({
       if (lastResult !== null) {
         return {
           text: allText,
+          thinking: allThinking,
           toolInvocations: allToolInvocations,
           hasToolCalls: lastResult.hasToolCalls,
+          ...(allUsage !== undefined ? { usage: allUsage } : {}),
+          ...(answeredBy !== undefined ? { answeredBy } : {}),
         };
       }
       return null;
     },
-    [store]
+    [store, saveContextSummary]
   );
 
   // =========================================================================
   // sendMessageInternal — save user msg → build history → runStreamLoop → save assistant msg
   // =========================================================================
   const sendMessageInternal = useCallback(
-    async (textContent: string) => {
+    async (textContent: string, attachments: MessageAttachment[] = []) => {
       if (threadId === null) return;
       const requestThreadId = threadId;
 
-      const apiKey = await getApiKey();
-      if (apiKey === null || apiKey === "") {
+      const missingKeyError = await getMissingCredentialError(threadSettingsRef.current?.provider);
+      if (missingKeyError !== null) {
         await saveMessage({
           role: "assistant",
-          content: "Please set your Anthropic API key in settings (gear icon) to use AI features.",
+          content: missingKeyError,
+          metadata: { error: { code: "missing_api_key" } },
         });
         await refresh();
         return;
       }
 
-      if (textContent.length === 0) return;
+      if (textContent.length === 0 && attachments.length === 0) return;
 
       store.setState({
         isRunning: true,
@@ -348,7 +538,7 @@ export function useChatRuntime({
         content: "",
         toolInvocations: [],
         contentParts: [],
-        pendingUserMessage: textContent,
+        pendingUserMessage: { content: textContent, attachments },
       });
       abortRef.current = false;
 
@@ -361,19 +551,12 @@ export function useChatRuntime({
         const isFirstMessage = messages.length === 0;
 
         // Save user message first
-        await saveMessage({ role: "user", content: textContent });
+        const savedUserMessage = await saveMessage(toUserMessage(textContent, attachments));
         await refresh();
         store.setState({ pendingUserMessage: null });
 
         // Build chat history
-        const chatHistory: ChatMessage[] = messages.map((m) => {
-          const msg: ChatMessage = { role: m.role, content: m.content };
-          if (m.toolInvocations !== undefined && m.toolInvocations.length > 0) {
-            msg.toolInvocations = m.toolInvocations;
-          }
-          return msg;
-        });
-        chatHistory.push({ role: "user", content: textContent });
+        const chatHistory: ChatMessage[] = [...messages, savedUserMessage].map(toChatMessage);
 
         store.setState({ isStreaming: true });
 
@@ -391,23 +574,18 @@ export function useChatRuntime({
         store.setState({ content: "", contentParts: [], toolInvocations: [], pendingUserMessage: null });
 
         // Save assistant response
-        const assistantMessage: { role: "assistant"; content: string; toolInvocations?: ToolInvocation[] } = {
-          role: "assistant",
-          content: result.text,
-        };
-        if (result.toolInvocations.length > 0) {
-          assistantMessage.toolInvocations = result.toolInvocations;
-        }
-        await saveMessage(assistantMessage);
+        await saveMessage(toAssistantMessage(result));
 
         // Generate title after first exchange (skip if aborted)
         if (isFirstMessage && onTitleGenerated !== undefined && !wasAborted) {
+          // Attachment-only messages are titled from the file names
+          const titleSource = textContent !== "" ? textContent : attachments.map((a) => a.name).join(", ");
           try {
-            const title = await generateConversationTitle(textContent, result.text);
-            onTitleGenerated(title);
+            const { title, tags } = await generateConversationTitle(titleSource, result.text, knownTagsRef.current, threadSettingsRef.current);
+            onTitleGenerated(title, tags);
           } catch {
-            const fallbackTitle = textContent.slice(0, 50) + (textContent.length > 50 ? "..." : "");
-            onTitleGenerated(fallbackTitle);
+            const fallbackTitle = titleSource.slice(0, 50) + (titleSource.length > 50 ? "..." : "");
+            onTitleGenerated(fallbackTitle, []);
           }
         }
 
@@ -415,8 +593,7 @@ export function useChatRuntime({
       } catch (error) {
         if (activeThreadIdRef.current === requestThreadId && !abortRef.current) {
           store.setState({ isStreaming: false, content: "", toolInvocations: [], contentParts: [], pendingUserMessage: null });
-          const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-          await saveMessage({ role: "assistant", content: `Error: ${errorMessage}` });
+          await saveMessage(toErrorMessage(error));
           await refresh();
         }
       } finally {
@@ -429,7 +606,7 @@ export function useChatRuntime({
   );
 
   const sendMessage = useCallback(
-    (textContent: string) => sendMessageInternal(textContent),
+    (textContent: string, attachments?: MessageAttachment[]) => sendMessageInternal(textContent, attachments),
     [sendMessageInternal]
   );
 
@@ -441,11 +618,12 @@ export function useChatRuntime({
       if (threadId === null) return;
       const requestThreadId = threadId;
 
-      const apiKey = await getApiKey();
-      if (apiKey === null || apiKey === "") {
+      const missingKeyError = await getMissingCredentialError(threadSettingsRef.current?.provider);
+      if (missingKeyError !== null) {
         await saveMessage({
           role: "assistant",
-          content: "Please set your Anthropic API key in settings to use AI features.",
+          content: missingKeyError,
+          metadata: { error: { code: "missing_api_key" } },
         });
         await refresh();
         return;
@@ -465,7 +643,14 @@ export function useChatRuntime({
           {
             role: "user" as const,
             content: "",
-            toolResults: [{ toolCallId: pending.toolCallId, result: response }],
+            // Every call in the assistant turn needs a result; with the server tool loop
+            // the turn can hold several steps of tool calls besides ask_user
+            toolResults: pending.assistantToolInvocations.some((inv) => inv.toolCallId === pending.toolCallId)
+              ? pending.assistantToolInvocations.map((inv) => ({
+                  toolCallId: inv.toolCallId,
+                  result: inv.toolCallId === pending.toolCallId ? response : inv.result,
+                }))
+              : [{ toolCallId: pending.toolCallId, result: response }],
           },
         ];
 
@@ -478,21 +663,13 @@ export function useChatRuntime({
         // Clear streaming UI before saving/refreshing to prevent duplicate display
         store.setState({ content: "", contentParts: [], toolInvocations: [] });
 
-        const assistantMessage: { role: "assistant"; content: string; toolInvocations?: ToolInvocation[] } = {
-          role: "assistant",
-          content: result.text,
-        };
-        if (result.toolInvocations.length > 0) {
-          assistantMessage.toolInvocations = result.toolInvocations;
-        }
-        await saveMessage(assistantMessage);
+        await saveMessage(toAssistantMessage(result));
         await refresh();
       } catch (error) {
         // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- ref can be mutated asynchronously
         if (activeThreadIdRef.current === requestThreadId && !abortRef.current) {
           store.setState({ isStreaming: false, content: "", toolInvocations: [], contentParts: [] });
-          const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-          await saveMessage({ role: "assistant", content: `Error: ${errorMessage}` });
+          await saveMessage(toErrorMessage(error));
           await refresh();
         }
       } finally {
@@ -530,11 +707,11 @@ export function useChatRuntime({
 
       if (pending.isFirstMessage && onTitleGenerated !== undefined) {
         try {
-          const title = await generateConversationTitle(pending.userMessageContent, pending.assistantContent);
-          onTitleGenerated(title);
+          const { title, tags } = await generateConversationTitle(pending.userMessageContent, pending.assistantContent, knownTagsRef.current, threadSettingsRef.current);
+          onTitleGenerated(title, tags);
         } catch {
           const fallbackTitle = pending.userMessageContent.slice(0, 50) + (pending.userMessageContent.length > 50 ? "..." : "");
-          onTitleGenerated(fallbackTitle);
+          onTitleGenerated(fallbackTitle, []);
         }
       }
 
@@ -569,97 +746,7 @@ export function useChatRuntime({
   }, [store, saveMessage, refresh, continueFromAskUser]);
 
   // =========================================================================
-  // regenerateLastMessage — delete last assistant → build history → runStreamLoop → save
-  // =========================================================================
-  const regenerateLastMessage = useCallback(async () => {
-    if (threadId === null || streamingState.isRunning) return;
-
-    let lastAssistant: Message | undefined;
-    let lastAssistantIndex = -1;
-    for (let i = messages.length - 1; i >= 0; i--) {
-      const msg = messages[i];
-      if (msg?.role === "assistant") {
-        lastAssistant = msg;
-        lastAssistantIndex = i;
-        break;
-      }
-    }
-    if (lastAssistant === undefined) return;
-
-    let userMessageBefore: Message | undefined;
-    for (let i = lastAssistantIndex - 1; i >= 0; i--) {
-      const msg = messages[i];
-      if (msg?.role === "user") {
-        userMessageBefore = msg;
-        break;
-      }
-    }
-    if (userMessageBefore === undefined) return;
-
-    const lastAssistantId = lastAssistant.id;
-    await deleteMessage(lastAssistantId);
-    await refresh();
-
-    store.setState({
-      isRunning: true,
-      isStreaming: false,
-      content: "",
-      toolInvocations: [],
-      contentParts: [],
-      pendingUserMessage: null,
-    });
-    abortRef.current = false;
-
-    const requestThreadId = threadId;
-
-    try {
-      const chatHistory: ChatMessage[] = messages
-        .filter((m) => m.id !== lastAssistantId)
-        .map((m) => {
-          const msg: ChatMessage = { role: m.role, content: m.content };
-          if (m.toolInvocations !== undefined && m.toolInvocations.length > 0) {
-            msg.toolInvocations = m.toolInvocations;
-          }
-          return msg;
-        });
-
-      store.setState({ isStreaming: true });
-
-      const result = await runStreamLoop(chatHistory, requestThreadId, "", false);
-
-      store.setState({ isStreaming: false });
-
-      if (result === null) return;
-
-      // Clear streaming UI before saving/refreshing to prevent duplicate display
-      store.setState({ content: "", contentParts: [], toolInvocations: [] });
-
-      const assistantMessage: { role: "assistant"; content: string; toolInvocations?: ToolInvocation[] } = {
-        role: "assistant",
-        content: result.text,
-      };
-      if (result.toolInvocations.length > 0) {
-        assistantMessage.toolInvocations = result.toolInvocations;
-      }
-      await saveMessage(assistantMessage);
-      await refresh();
-    } catch (error) {
-      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- ref can be mutated asynchronously
-      if (activeThreadIdRef.current === requestThreadId && !abortRef.current) {
-        store.setState({ isStreaming: false, content: "", toolInvocations: [], contentParts: [] });
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-        await saveMessage({ role: "assistant", content: `Error: ${errorMessage}` });
-        await refresh();
-      }
-    } finally {
-      if (activeThreadIdRef.current === requestThreadId) {
-        store.setState({ isRunning: false });
-      }
-    }
-  }, [threadId, messages, deleteMessage, refresh, saveMessage, store, streamingState.isRunning, runStreamLoop]);
-
-  // =========================================================================
-  // regenerateMessage — delete this assistant message + everything after → re-run
+  // regenerateMessage — new sibling of this assistant message → re-run from its parent
   // =========================================================================
   const regenerateMessage = useCallback(async (messageId: string) => {
     if (threadId === null || streamingState.isRunning) return;
@@ -669,12 +756,10 @@ export function useChatRuntime({
     const targetMsg = messages[msgIndex];
     if (targetMsg?.role !== "assistant") return;
 
-    // Delete this message and everything after it
-    await deleteMessagesFrom(messageId);
-    await refresh();
-
-    // Build history from messages before this one
+    // Branch off before this message; it and its replies stay as the previous variant
     const historyMessages = messages.slice(0, msgIndex);
+    const previousLeafId = getActiveLeafId();
+    rewindTo(targetMsg.parentId);
 
     store.setState({
       isRunning: true,
@@ -689,13 +774,7 @@ export function useChatRuntime({
     const requestThreadId = threadId;
 
     try {
-      const chatHistory: ChatMessage[] = historyMessages.map((m) => {
-        const msg: ChatMessage = { role: m.role, content: m.content };
-        if (m.toolInvocations !== undefined && m.toolInvocations.length > 0) {
-          msg.toolInvocations = m.toolInvocations;
-        }
-        return msg;
-      });
+      const chatHistory: ChatMessage[] = historyMessages.map(toChatMessage);
 
       store.setState({ isStreaming: true });
 
@@ -703,25 +782,23 @@ export function useChatRuntime({
 
       store.setState({ isStreaming: false });
 
-      if (result === null) return;
+      if (result === null) {
+        // Stopped before any output: show the branch that was there before
+        if (store.getState().pendingAskUser === null && activeThreadIdRef.current === requestThreadId) {
+          rewindTo(previousLeafId);
+        }
+        return;
+      }
 
       store.setState({ content: "", contentParts: [], toolInvocations: [] });
 
-      const assistantMessage: { role: "assistant"; content: string; toolInvocations?: ToolInvocation[] } = {
-        role: "assistant",
-        content: result.text,
-      };
-      if (result.toolInvocations.length > 0) {
-        assistantMessage.toolInvocations = result.toolInvocations;
-      }
-      await saveMessage(assistantMessage);
+      await saveMessage({ ...toAssistantMessage(result), parentId: targetMsg.parentId });
       await refresh();
     } catch (error) {
       // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- ref can be mutated asynchronously
       if (activeThreadIdRef.current === requestThreadId && !abortRef.current) {
         store.setState({ isStreaming: false, content: "", toolInvocations: [], contentParts: [] });
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-        await saveMessage({ role: "assistant", content: `Error: ${errorMessage}` });
+        await saveMessage(toErrorMessage(error));
         await refresh();
       }
     } finally {
@@ -729,10 +806,23 @@ export function useChatRuntime({
         store.setState({ isRunning: false });
       }
     }
-  }, [threadId, messages, deleteMessagesFrom, refresh, saveMessage, store, streamingState.isRunning, runStreamLoop]);
+  }, [threadId, messages, getActiveLeafId, rewindTo, refresh, saveMessage, store, streamingState.isRunning, runStreamLoop]);
+
+  // =========================================================================
+  // regenerateLastMessage — regenerate the latest assistant message
+  // =========================================================================
+  const regenerateLastMessage = useCallback(async () => {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const msg = messages[i];
+      if (msg?.role === "assistant") {
+        await regenerateMessage(msg.id);
+        return;
+      }
+    }
+  }, [messages, regenerateMessage]);
 
   // =========================================================================
-  // editUserMessage — delete from this user msg onward → send new content
+  // editUserMessage — new sibling of this user message → send the new content
   // =========================================================================
   const editUserMessage = useCallback(async (messageId: string, newContent: string) => {
     if (threadId === null || streamingState.isRunning) return;
@@ -743,12 +833,11 @@ export function useChatRuntime({
     const targetMsg = messages[msgIndex];
     if (targetMsg?.role !== "user") return;
 
-    // Delete this message and everything after it
-    await deleteMessagesFrom(messageId);
-    await refresh();
-
-    // Build history from messages before this one, then add the edited message
+    // Branch off before this message; the original and its replies stay as the previous variant
     const historyMessages = messages.slice(0, msgIndex);
+    rewindTo(targetMsg.parentId);
+    // Editing changes the text only; the original attachments are kept
+    const editedAttachments = targetMsg.metadata?.attachments ?? [];
 
     store.setState({
       isRunning: true,
@@ -756,7 +845,7 @@ export function useChatRuntime({
       content: "",
       toolInvocations: [],
       contentParts: [],
-      pendingUserMessage: newContent,
+      pendingUserMessage: { content: newContent, attachments: editedAttachments },
     });
     abortRef.current = false;
 
@@ -764,18 +853,11 @@ export function useChatRuntime({
 
     try {
       // Save the edited user message
-      await saveMessage({ role: "user", content: newContent });
+      const savedUserMessage = await saveMessage({ ...toUserMessage(newContent, editedAttachments), parentId: targetMsg.parentId });
       await refresh();
       store.setState({ pendingUserMessage: null });
 
-      const chatHistory: ChatMessage[] = historyMessages.map((m) => {
-        const msg: ChatMessage = { role: m.role, content: m.content };
-        if (m.toolInvocations !== undefined && m.toolInvocations.length > 0) {
-          msg.toolInvocations = m.toolInvocations;
-        }
-        return msg;
-      });
-      chatHistory.push({ role: "user", content: newContent });
+      const chatHistory: ChatMessage[] = [...historyMessages, savedUserMessage].map(toChatMessage);
 
       store.setState({ isStreaming: true });
 
@@ -789,21 +871,14 @@ export function useChatRuntime({
 
       store.setState({ content: "", contentParts: [], toolInvocations: [], pendingUserMessage: null });
 
-      const assistantMessage: { role: "assistant"; content: string; toolInvocations?: ToolInvocation[] } = {
-        role: "assistant",
-        content: result.text,
-      };
-      if (result.toolInvocations.length > 0) {
-        assistantMessage.toolInvocations = result.toolInvocations;
-      }
-      await saveMessage(assistantMessage);
+      await saveMessage(toAssistantMessage(result));
 
       if (onTitleGenerated !== undefined && !wasAborted && historyMessages.length === 0) {
         try {
-          const title = await generateConversationTitle(newContent, result.text);
-          onTitleGenerated(title);
+          const { title, tags } = await generateConversationTitle(newContent, result.text, knownTagsRef.current, threadSettingsRef.current);
+          onTitleGenerated(title, tags);
         } catch {
-          onTitleGenerated(newContent.slice(0, 50));
+          onTitleGenerated(newContent.slice(0, 50), []);
         }
       }
 
@@ -812,8 +887,7 @@ export function useChatRuntime({
       // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- ref can be mutated asynchronously
       if (activeThreadIdRef.current === requestThreadId && !abortRef.current) {
         store.setState({ isStreaming: false, content: "", toolInvocations: [], contentParts: [], pendingUserMessage: null });
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-        await saveMessage({ role: "assistant", content: `Error: ${errorMessage}` });
+        await saveMessage(toErrorMessage(error));
         await refresh();
       }
     } finally {
@@ -821,7 +895,67 @@ export function useChatRuntime({
         store.setState({ isRunning: false });
       }
     }
-  }, [threadId, messages, deleteMessagesFrom, refresh, saveMessage, store, streamingState.isRunning, runStreamLoop, onTitleGenerated]);
+  }, [threadId, messages, rewindTo, refresh, saveMessage, store, streamingState.isRunning, runStreamLoop, onTitleGenerated]);
+
+  // =========================================================================
+  // selectMessageBranch — show another variant of a message
+  // =========================================================================
+  const selectMessageBranch = useCallback(async (messageId: string) => {
+    if (streamingState.isRunning) return;
+    await selectBranch(messageId);
+  }, [selectBranch, streamingState.isRunning]);
+
+  // =========================================================================
+  // compactContext — summarize everything before the latest exchange ("compact now")
+  // =========================================================================
+  const compactContext = useCallback(async () => {
+    if (threadId === null || streamingState.isRunning) return;
+
+    // The latest user message and what follows stay verbatim
+    let lastUserIndex = -1;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i]?.role === "user") {
+        lastUserIndex = i;
+        break;
+      }
+    }
+    const throughMessage = messages[lastUserIndex - 1];
+    if (throughMessage === undefined) return;
+
+    // Only messages after the current summary are summarized again
+    const summarizedThroughIndex = contextSummary !== null ? messages.findIndex((m) => m.id === contextSummary.throughMessageId) : -1;
+    if (summarizedThroughIndex >= lastUserIndex - 1) return;
+    const previousSummary = summarizedThroughIndex >= 0 ? contextSummary?.summary : undefined;
+
+    store.setState({ isRunning: true, isStreaming: false, content: "", toolInvocations: [], contentParts: [], pendingUserMessage: null });
+    abortRef.current = false;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const requestThreadId = threadId;
+
+    try {
+      const summary = await compactConversation(
+        messages.slice(summarizedThroughIndex + 1, lastUserIndex).map(toChatMessage),
+        previousSummary,
+        controller.signal,
+        threadSettingsRef.current
+      );
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- ref can be mutated asynchronously
+      if (abortRef.current || activeThreadIdRef.current !== requestThreadId) return;
+      contextSummaryRef.current = { summary, throughMessageId: throughMessage.id };
+      await saveContextSummary({ summary, throughMessageId: throughMessage.id });
+    } catch (error) {
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- ref can be mutated asynchronously
+      if (activeThreadIdRef.current === requestThreadId && !abortRef.current) {
+        await saveMessage(toErrorMessage(error));
+        await refresh();
+      }
+    } finally {
+      if (activeThreadIdRef.current === requestThreadId) {
+        store.setState({ isRunning: false });
+      }
+    }
+  }, [threadId, messages, contextSummary, saveContextSummary, saveMessage, refresh, store, streamingState.isRunning]);
 
   // =========================================================================
   // Wiring
@@ -832,17 +966,29 @@ export function useChatRuntime({
         .filter((c): c is { type: "text"; text: string } => c.type === "text")
         .map((c) => c.text)
         .join("\n");
+      const attachments = (message.attachments ?? [])
+        .map(fromComposerAttachment)
+        .filter((a): a is MessageAttachment => a !== null);
 
-      await sendMessage(textContent);
+      if (textContent.trim() === COMPACT_COMMAND && attachments.length === 0) {
+        await compactContext();
+        return;
+      }
+      await sendMessage(textContent, attachments);
     },
-    [sendMessage]
+    [sendMessage, compactContext]
   );
 
   const onCancel = useCallback((): Promise<void> => {
     abortRef.current = true;
+    abortControllerRef.current?.abort();
+    // Also stop any orchestrator session the `complex` tool started for this thread
+    if (threadId !== null) {
+      void cancelAgentSession(threadId).catch(() => false);
+    }
     store.setState({ isRunning: false, isStreaming: false, content: "", toolInvocations: [], contentParts: [], pendingAskUser: null, pendingUserMessage: null });
     return Promise.resolve();
-  }, [store]);
+  }, [store, threadId]);
 
   // Handle initial message from welcome screen
   const initialMessageProcessedRef = useRef<string | null>(null);
@@ -865,6 +1011,7 @@ export function useChatRuntime({
     convertMessage: (msg: ThreadMessageLike) => msg,
     onNew,
     onCancel,
+    adapters: { attachments: chatAttachmentAdapter },
   });
 
   return {
@@ -877,6 +1024,8 @@ export function useChatRuntime({
     handleAskUserCancel,
     regenerateLastMessage,
     regenerateMessage,
+    selectMessageBranch,
     editUserMessage,
+    compactContext,
   };
 }
@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import type { MessageSearchResult } from "@app/types/message";
+import * as tauri from "@app/lib/tauri";
+
+/** Wait for a pause in typing before querying the index */
+const SEARCH_DEBOUNCE_MS = 150;
+/** Shorter queries match too much to be useful */
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Full-text search over every thread's messages, re-run as the query changes
+ */
+export function useMessageSearch(query: string, limit = 20): MessageSearchResult[] {
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      return;
+    }
+
+    // Results of a query typed over before they arrive are dropped
+    let isCurrent = true;
+    const timer = setTimeout(() => {
+      tauri
+        .searchMessages(trimmed, limit)
+        .then((found) => {
+          if (isCurrent) setResults(found);
+        })
+        .catch((error: unknown) => {
+          console.error("[useMessageSearch] Search failed:", error);
+          if (isCurrent) setResults([]);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [query, limit]);
+
+  return results;
+}
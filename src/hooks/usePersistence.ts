@@ -1,84 +1,152 @@
-import { useCallback, useEffect, useState } from "react";
-import type { Message, NewMessage } from "@app/types/message";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Message, MessageBranch, NewMessage } from "@app/types/message";
+import type { ContextSummary } from "@app/types/thread";
 import * as tauri from "@app/lib/tauri";
+import { findLatestLeaf, getPath, groupChildren } from "@app/lib/message-tree";
 
 interface UsePersistenceResult {
+  /** Messages of the branch being shown, first to last */
   messages: Message[];
+  /** Sibling position of each message in `messages` that has alternatives */
+  branches: Map<string, MessageBranch>;
+  /** Stored summary of compacted history, if the thread has one */
+  contextSummary: ContextSummary | null;
   isLoading: boolean;
   error: string | null;
+  /** Save a reply to `parentId`, by default to the last message shown */
   saveMessage: (message: NewMessage) => Promise<Message>;
-  deleteMessage: (messageId: string) => Promise<void>;
-  deleteMessagesFrom: (messageId: string) => Promise<void>;
+  /** Show the branch through `messageId`, down to its latest reply; unknown ids are ignored */
+  selectBranch: (messageId: string) => Promise<void>;
+  /**
+   * Show the branch only up to `messageId` (null: nothing) while a new
+   * sibling is generated. Not stored until a message is saved.
+   */
+  rewindTo: (messageId: string | null) => void;
+  /** Last message shown, for restoring after a rewind */
+  getActiveLeafId: () => string | null;
+  saveContextSummary: (summary: ContextSummary) => Promise<void>;
   refresh: () => Promise<void>;
 }
 
 export function usePersistence(threadId: string | null): UsePersistenceResult {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [allMessages, setAllMessages] = useState<Message[]>([]);
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
+  const [contextSummary, setContextSummary] = useState<ContextSummary | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Read by saveMessage, which runs several times before a re-render
+  const activeLeafRef = useRef<string | null>(null);
+
+  const showLeaf = useCallback((leafId: string | null) => {
+    activeLeafRef.current = leafId;
+    setActiveLeafId(leafId);
+  }, []);
 
   const refresh = useCallback(async () => {
     if (threadId === null) {
-      setMessages([]);
+      setAllMessages([]);
+      showLeaf(null);
+      setContextSummary(null);
       return;
     }
 
     try {
       setIsLoading(true);
       setError(null);
-      const result = await tauri.getMessages(threadId);
-      setMessages(result);
+      const [result, thread] = await Promise.all([tauri.getMessages(threadId), tauri.getThread(threadId)]);
+      setAllMessages(result);
+      // Threads saved before branching (or whose leaf was deleted) show the newest message's branch
+      const storedLeaf = result.find((m) => m.id === thread?.activeLeafId);
+      showLeaf(storedLeaf?.id ?? result[result.length - 1]?.id ?? null);
+      // Deleting the messages a summary covers clears it on the backend
+      setContextSummary(
+        thread?.contextSummary !== undefined && thread.summarizedThrough !== undefined
+          ? { summary: thread.contextSummary, throughMessageId: thread.summarizedThrough }
+          : null
+      );
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e));
     } finally {
       setIsLoading(false);
     }
-  }, [threadId]);
+  }, [threadId, showLeaf]);
 
   useEffect(() => {
     void refresh();
   }, [refresh]);
 
+  const children = useMemo(() => groupChildren(allMessages), [allMessages]);
+  const messages = useMemo(() => getPath(allMessages, activeLeafId), [allMessages, activeLeafId]);
+
+  const branches = useMemo(() => {
+    const result = new Map<string, MessageBranch>();
+    for (const message of messages) {
+      const siblings = children.get(message.parentId) ?? [];
+      if (siblings.length < 2) continue;
+      const index = siblings.findIndex((m) => m.id === message.id);
+      const previousId = siblings[index - 1]?.id;
+      const nextId = siblings[index + 1]?.id;
+      result.set(message.id, {
+        index,
+        count: siblings.length,
+        ...(previousId !== undefined ? { previousId } : {}),
+        ...(nextId !== undefined ? { nextId } : {}),
+      });
+    }
+    return result;
+  }, [messages, children]);
+
   const saveMessage = useCallback(
     async (message: NewMessage) => {
       if (threadId === null) {
         throw new Error("No thread selected");
       }
-      const saved = await tauri.saveMessage(threadId, message);
-      setMessages((prev) => [...prev, saved]);
+      const saved = await tauri.saveMessage(threadId, {
+        ...message,
+        parentId: message.parentId !== undefined ? message.parentId : activeLeafRef.current,
+      });
+      // The backend makes the new message the thread's active leaf
+      setAllMessages((prev) => [...prev, saved]);
+      showLeaf(saved.id);
       return saved;
     },
-    [threadId]
+    [threadId, showLeaf]
   );
 
-  const deleteMessage = useCallback(
+  const selectBranch = useCallback(
     async (messageId: string) => {
-      await tauri.deleteMessage(messageId);
-      setMessages((prev) => prev.filter((m) => m.id !== messageId));
+      if (threadId === null || !allMessages.some((m) => m.id === messageId)) return;
+      const leafId = findLatestLeaf(children, messageId);
+      showLeaf(leafId);
+      await tauri.updateThreadActiveLeaf(threadId, leafId);
     },
-    []
+    [threadId, allMessages, children, showLeaf]
   );
 
-  const deleteMessagesFrom = useCallback(
-    async (messageId: string) => {
-      await tauri.deleteMessagesFrom(messageId);
-      // Remove from local state: find message index, remove it and everything after
-      setMessages((prev) => {
-        const idx = prev.findIndex((m) => m.id === messageId);
-        if (idx < 0) return prev;
-        return prev.slice(0, idx);
-      });
+  const getActiveLeafId = useCallback(() => activeLeafRef.current, []);
+
+  const saveContextSummary = useCallback(
+    async (summary: ContextSummary) => {
+      if (threadId === null) {
+        throw new Error("No thread selected");
+      }
+      await tauri.updateThreadSummary(threadId, summary.summary, summary.throughMessageId);
+      setContextSummary(summary);
     },
-    []
+    [threadId]
   );
 
   return {
     messages,
+    branches,
+    contextSummary,
     isLoading,
     error,
     saveMessage,
-    deleteMessage,
-    deleteMessagesFrom,
+    selectBranch,
+    rewindTo: showLeaf,
+    getActiveLeafId,
+    saveContextSummary,
     refresh,
   };
 }
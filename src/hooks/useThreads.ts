@@ -1,19 +1,43 @@
 import { useCallback, useEffect, useState } from "react";
-import type { Thread } from "@app/types/thread";
+import type { Folder, Thread, ThreadSettings } from "@app/types/thread";
 import * as tauri from "@app/lib/tauri";
+import { deleteAgentSessions } from "@app/lib/ai";
 
 interface UseThreadsResult {
+  /** Pinned first, then most recently updated */
   threads: Thread[];
+  /** By name */
+  folders: Folder[];
   isLoading: boolean;
   error: string | null;
   createThread: () => Promise<Thread>;
   deleteThread: (id: string) => Promise<void>;
   updateThreadTitle: (id: string, title: string) => Promise<void>;
+  updateThreadSettings: (id: string, settings: ThreadSettings | null) => Promise<void>;
+  updateThreadPinned: (id: string, pinned: boolean) => Promise<void>;
+  updateThreadArchived: (id: string, archived: boolean) => Promise<void>;
+  updateThreadFolder: (id: string, folderId: string | null) => Promise<void>;
+  updateThreadTags: (id: string, tags: string[]) => Promise<void>;
+  createFolder: (name: string) => Promise<Folder>;
+  renameFolder: (id: string, name: string) => Promise<void>;
+  deleteFolder: (id: string) => Promise<void>;
   refresh: () => Promise<void>;
 }
 
+/** Same order as the backend lists them */
+function sortThreads(threads: Thread[]): Thread[] {
+  return [...threads].sort(
+    (a, b) => Number(b.pinned) - Number(a.pinned) || new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+}
+
+function sortFolders(folders: Folder[]): Folder[] {
+  return [...folders].sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: "base" }));
+}
+
 export function useThreads(): UseThreadsResult {
   const [threads, setThreads] = useState<Thread[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -21,8 +45,9 @@ export function useThreads(): UseThreadsResult {
     try {
       setIsLoading(true);
       setError(null);
-      const result = await tauri.listThreads();
-      setThreads(result);
+      const [threadList, folderList] = await Promise.all([tauri.listThreads(), tauri.listFolders()]);
+      setThreads(threadList);
+      setFolders(folderList);
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e));
     } finally {
@@ -34,31 +59,113 @@ export function useThreads(): UseThreadsResult {
     void refresh();
   }, [refresh]);
 
+  /** Apply a change to one thread locally, keeping the list order */
+  const patchThread = useCallback((id: string, patch: (thread: Thread) => Thread) => {
+    setThreads((prev) => sortThreads(prev.map((t) => (t.id === id ? patch(t) : t))));
+  }, []);
+
   const createThread = useCallback(async () => {
     const thread = await tauri.createThread();
-    setThreads((prev) => [thread, ...prev]);
+    setThreads((prev) => sortThreads([thread, ...prev]));
     return thread;
   }, []);
 
   const deleteThread = useCallback(async (id: string) => {
     await tauri.deleteThread(id);
     setThreads((prev) => prev.filter((t) => t.id !== id));
+    // The thread is gone either way; its agent sessions are only left on disk
+    deleteAgentSessions(id).catch((e: unknown) => {
+      console.error("[Threads] Failed to delete agent sessions:", e);
+    });
   }, []);
 
   const updateThreadTitle = useCallback(async (id: string, title: string) => {
     await tauri.updateThreadTitle(id, title);
+    patchThread(id, (t) => ({ ...t, title }));
+  }, [patchThread]);
+
+  const updateThreadSettings = useCallback(async (id: string, settings: ThreadSettings | null) => {
+    await tauri.updateThreadSettings(id, settings);
+    patchThread(id, (t) => {
+      const updated = { ...t };
+      if (settings === null) {
+        delete updated.settings;
+      } else {
+        updated.settings = settings;
+      }
+      return updated;
+    });
+  }, [patchThread]);
+
+  const updateThreadPinned = useCallback(async (id: string, pinned: boolean) => {
+    await tauri.updateThreadPinned(id, pinned);
+    patchThread(id, (t) => ({ ...t, pinned }));
+  }, [patchThread]);
+
+  const updateThreadArchived = useCallback(async (id: string, archived: boolean) => {
+    await tauri.updateThreadArchived(id, archived);
+    patchThread(id, (t) => ({ ...t, archived }));
+  }, [patchThread]);
+
+  const updateThreadFolder = useCallback(async (id: string, folderId: string | null) => {
+    await tauri.updateThreadFolder(id, folderId);
+    patchThread(id, (t) => {
+      const updated = { ...t };
+      if (folderId === null) {
+        delete updated.folderId;
+      } else {
+        updated.folderId = folderId;
+      }
+      return updated;
+    });
+  }, [patchThread]);
+
+  const updateThreadTags = useCallback(async (id: string, tags: string[]) => {
+    await tauri.updateThreadTags(id, tags);
+    patchThread(id, (t) => ({ ...t, tags }));
+  }, [patchThread]);
+
+  const createFolder = useCallback(async (name: string) => {
+    const folder = await tauri.createFolder(name);
+    setFolders((prev) => sortFolders([...prev, folder]));
+    return folder;
+  }, []);
+
+  const renameFolder = useCallback(async (id: string, name: string) => {
+    await tauri.renameFolder(id, name);
+    setFolders((prev) => sortFolders(prev.map((f) => (f.id === id ? { ...f, name } : f))));
+  }, []);
+
+  const deleteFolder = useCallback(async (id: string) => {
+    await tauri.deleteFolder(id);
+    setFolders((prev) => prev.filter((f) => f.id !== id));
+    // The backend moves the folder's threads out of it
     setThreads((prev) =>
-      prev.map((t) => (t.id === id ? { ...t, title } : t))
+      prev.map((t) => {
+        if (t.folderId !== id) return t;
+        const updated = { ...t };
+        delete updated.folderId;
+        return updated;
+      })
     );
   }, []);
 
   return {
     threads,
+    folders,
     isLoading,
     error,
     createThread,
     deleteThread,
     updateThreadTitle,
+    updateThreadSettings,
+    updateThreadPinned,
+    updateThreadArchived,
+    updateThreadFolder,
+    updateThreadTags,
+    createFolder,
+    renameFolder,
+    deleteFolder,
     refresh,
   };
 }
@@ -1,42 +1,37 @@
-// AI Provider configuration
-// API keys should be set via environment variables:
-// - VITE_ANTHROPIC_API_KEY
-// - VITE_OPENAI_API_KEY
+/**
+ * AI Provider Registry (frontend view)
+ *
+ * Re-exports the provider registry shared with the Node backend so the
+ * settings pages and request builder are driven by the same definitions
+ * the backend uses to create models.
+ */
+import {
+  PROVIDERS,
+  PROVIDER_IDS,
+  isProviderId,
+  type ProviderDefinition,
+  type ProviderId,
+} from "@shared/providers";
 
-export interface AIProvider {
-  id: string;
-  name: string;
-  models: string[];
-  defaultModel: string;
-}
+export type { ProviderCapabilities, ProviderCredentialKey, ProviderDefinition, ProviderId } from "@shared/providers";
+export { PROVIDERS, PROVIDER_IDS, isProviderId };
+export { getModelCapabilities, type ModelCapabilities } from "@shared/models";
+
+/** Providers in settings order */
+export const providers: ProviderDefinition[] = PROVIDER_IDS.map((id) => PROVIDERS[id]);
 
-export const providers: AIProvider[] = [
-  {
-    id: "anthropic",
-    name: "Anthropic",
-    models: [
-      "claude-sonnet-4-20250514",
-      "claude-3-5-haiku-20241022",
-      "claude-3-opus-20240229",
-    ],
-    defaultModel: "claude-sonnet-4-20250514",
-  },
-  {
-    id: "openai",
-    name: "OpenAI",
-    models: ["gpt-4o", "gpt-4o-mini", "gpt-4-turbo"],
-    defaultModel: "gpt-4o",
-  },
-];
+export function getDefaultProvider(): ProviderDefinition {
+  return PROVIDERS.redpill;
+}
 
-export function getDefaultProvider(): AIProvider {
-  const provider = providers[0];
-  if (provider === undefined) {
-    throw new Error("No providers configured");
-  }
-  return provider;
+export function getProviderDefinition(id: ProviderId): ProviderDefinition {
+  return PROVIDERS[id];
 }
 
-export function getProvider(id: string): AIProvider | undefined {
-  return providers.find((p) => p.id === id);
+/** Providers that store an API key in secure storage */
+export function getProvidersWithCredentials(): (ProviderDefinition & { credentialKey: NonNullable<ProviderDefinition["credentialKey"]> })[] {
+  return providers.filter(
+    (p): p is ProviderDefinition & { credentialKey: NonNullable<ProviderDefinition["credentialKey"]> } =>
+      p.credentialKey !== null
+  );
 }
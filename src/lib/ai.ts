@@ -7,34 +7,71 @@
  * Sensitive credentials (API keys) are stored in OS-native secure storage.
  * Non-sensitive settings (provider, model names, URLs) are in localStorage.
  */
-import type { ToolInvocation } from "@app/types/message";
+import type { MessageAttachment, MessageFallback, MessageUsage, ToolInvocation } from "@app/types/message";
+import type { ThreadSettings } from "@app/types/thread";
+import type { AgentSessionRecord, AgentSessionSummary } from "@app/types/agent";
 import {
   getCredentialWithFallback,
   setCredentialWithFallback,
   getAllCredentialsWithFallback,
   type CredentialKey,
 } from "./credentials";
+import {
+  getDefaultProvider,
+  getProviderDefinition,
+  getProvidersWithCredentials,
+  isProviderId,
+  type ProviderId,
+} from "./ai-providers";
+import {
+  agentBudgetSchema,
+  chatErrorResponseSchema,
+  chatStreamEventSchema,
+  type ChatErrorCode,
+  type ChatRequest,
+  type ChatStreamEvent,
+  type ChatUsage,
+  type FallbackModel,
+  type AgentBudget,
+  type AgentModelAssignments,
+  type AgentRole,
+} from "@shared/chat-protocol";
+import type { PlanDecision } from "@shared/plan-review";
+import { getModelPrices } from "./pricing";
 
 // Re-export ToolInvocation type
 export type { ToolInvocation };
 
-import { API_BASE_URL } from "./config";
-
-// Node backend URL
-const NODE_BACKEND_URL = API_BASE_URL;
+import { sidecarFetch } from "./sidecar";
 
 // Provider types
-export type AIProvider = "anthropic" | "ollama" | "redpill";
+export type AIProvider = ProviderId;
 
 export interface ProviderConfig {
   provider: AIProvider;
-  anthropicApiKey: string | undefined;
+  model: string;
+  baseUrl: string | undefined;
+  apiKeys: Partial<Record<AIProvider, string>>;
   perplexityApiKey: string | undefined;
   firecrawlApiKey: string | undefined;
-  redpillApiKey: string | undefined;
-  ollamaBaseUrl: string;
-  ollamaModel: string;
   enableTools: boolean;
+  serverToolLoop: boolean;
+  /** Summarize old history instead of dropping it when a thread outgrows the context window */
+  contextCompaction: boolean;
+  /** Extended-thinking token budget; 0 disables thinking */
+  thinkingBudget: number;
+  /** Provider default when unset */
+  temperature: number | undefined;
+  /** Provider default when unset */
+  maxOutputTokens: number | undefined;
+  /** Tried in order when the provider keeps failing */
+  fallbacks: FallbackModel[];
+  /** Models for the orchestrator's roles; the rest use the chat's model */
+  agentModels: AgentModelAssignments;
+  /** Limits on each multi-agent session; the backend's defaults fill the gaps */
+  agentBudget: AgentBudget;
+  /** Pause multi-agent sessions after planning until the user approves the plan */
+  agentPlanApproval: boolean;
 }
 
 export interface EmailConfig {
@@ -60,9 +97,6 @@ export function setPersonality(text: string): void {
   localStorage.setItem(PERSONALITY_KEY, text);
 }
 
-const DEFAULT_OLLAMA_URL = "http://localhost:11434";
-const DEFAULT_OLLAMA_MODEL = "qwen3-vl:latest";
-
 // ============================================================================
 // Non-sensitive settings (localStorage)
 // ============================================================================
@@ -73,23 +107,51 @@ export function setProvider(provider: AIProvider): void {
 
 export function getProvider(): AIProvider {
   const stored = localStorage.getItem("ai_provider");
-  return stored !== null ? (stored as AIProvider) : "redpill";
+  return isProviderId(stored) ? stored : getDefaultProvider().id;
 }
 
-export function setOllamaBaseUrl(url: string): void {
-  localStorage.setItem("ollama_base_url", url);
+// Ollama settings predate the registry; keep reading their original keys
+const LEGACY_MODEL_KEYS: Partial<Record<AIProvider, string>> = { ollama: "ollama_model" };
+const LEGACY_BASE_URL_KEYS: Partial<Record<AIProvider, string>> = { ollama: "ollama_base_url" };
+
+function modelStorageKey(provider: AIProvider): string {
+  return LEGACY_MODEL_KEYS[provider] ?? `ai_model_${provider}`;
+}
+
+function baseUrlStorageKey(provider: AIProvider): string {
+  return LEGACY_BASE_URL_KEYS[provider] ?? `ai_base_url_${provider}`;
 }
 
-export function getOllamaBaseUrl(): string {
-  return localStorage.getItem("ollama_base_url") ?? DEFAULT_OLLAMA_URL;
+export function setProviderModel(provider: AIProvider, model: string): void {
+  localStorage.setItem(modelStorageKey(provider), model);
 }
 
-export function setOllamaModel(model: string): void {
-  localStorage.setItem("ollama_model", model);
+export function getProviderModel(provider: AIProvider): string {
+  const stored = localStorage.getItem(modelStorageKey(provider));
+  return stored !== null && stored !== "" ? stored : getProviderDefinition(provider).defaultModel;
 }
 
-export function getOllamaModel(): string {
-  return localStorage.getItem("ollama_model") ?? DEFAULT_OLLAMA_MODEL;
+export function setProviderBaseUrl(provider: AIProvider, url: string): void {
+  localStorage.setItem(baseUrlStorageKey(provider), url);
+}
+
+/** Returns undefined for providers whose base URL isn't user-configurable */
+export function getProviderBaseUrl(provider: AIProvider): string | undefined {
+  const definition = getProviderDefinition(provider);
+  if (!definition.baseUrlConfigurable) return undefined;
+  const stored = localStorage.getItem(baseUrlStorageKey(provider));
+  return stored !== null && stored !== "" ? stored : definition.defaultBaseUrl ?? undefined;
+}
+
+export function setThinkingBudget(provider: AIProvider, tokens: number): void {
+  localStorage.setItem(`ai_thinking_budget_${provider}`, String(Math.max(0, Math.floor(tokens))));
+}
+
+/** Returns 0 (off) unless the provider accepts a budget and one was set */
+export function getThinkingBudget(provider: AIProvider): number {
+  if (!getProviderDefinition(provider).capabilities.thinkingBudget) return 0;
+  const stored = Number(localStorage.getItem(`ai_thinking_budget_${provider}`));
+  return Number.isFinite(stored) && stored > 0 ? stored : 0;
 }
 
 export function setEnableTools(enabled: boolean): void {
@@ -99,24 +161,165 @@ export function setEnableTools(enabled: boolean): void {
 export function getEnableTools(): boolean {
   const stored = localStorage.getItem("enable_tools");
   if (stored === null) {
-    // Default: enabled for Anthropic and RedPill, disabled for Ollama
-    const p = getProvider();
-    return p === "anthropic" || p === "redpill";
+    return getProviderDefinition(getProvider()).toolsEnabledByDefault;
   }
   return stored === "true";
 }
 
+/**
+ * Server tool loop: the backend runs tool steps itself in one streamed response
+ * instead of the frontend re-posting history after every tool call
+ */
+export function setServerToolLoop(enabled: boolean): void {
+  localStorage.setItem("server_tool_loop", enabled ? "true" : "false");
+}
+
+export function getServerToolLoop(): boolean {
+  return localStorage.getItem("server_tool_loop") === "true";
+}
+
+/**
+ * Context compaction: history that no longer fits the model's context window
+ * is replaced by a stored summary instead of being dropped
+ */
+export function setContextCompaction(enabled: boolean): void {
+  localStorage.setItem("context_compaction", enabled ? "true" : "false");
+}
+
+export function getContextCompaction(): boolean {
+  return localStorage.getItem("context_compaction") === "true";
+}
+
+/**
+ * Fallback chain: providers the backend moves on to, in order, when the
+ * selected one keeps failing. Each uses its own saved model and URL.
+ */
+export function setFallbackProviders(fallbacks: AIProvider[]): void {
+  localStorage.setItem("provider_fallbacks", JSON.stringify(fallbacks));
+}
+
+export function getFallbackProviders(): AIProvider[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem("provider_fallbacks") ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isProviderId) : [];
+  } catch {
+    return [];
+  }
+}
+
+function getFallbackModels(primary: AIProvider): FallbackModel[] {
+  return getFallbackProviders()
+    .filter((provider) => provider !== primary)
+    .map((provider) => ({
+      provider,
+      model: getProviderModel(provider),
+      baseUrl: getProviderBaseUrl(provider),
+    }));
+}
+
+/**
+ * Orchestrator models: the provider each agent role runs on, and optionally
+ * a model other than the provider's saved one. Unassigned roles use the
+ * chat's model.
+ */
+export interface AgentModelChoice {
+  provider: AIProvider;
+  /** Empty for the provider's saved model */
+  model: string;
+}
+
+export type AgentModelChoices = Partial<Record<AgentRole, AgentModelChoice>>;
+
+const AGENT_ROLES: readonly AgentRole[] = ["planner", "explorer", "executor", "subExecutor"];
+
+export function setAgentModelChoices(choices: AgentModelChoices): void {
+  localStorage.setItem("agent_models", JSON.stringify(choices));
+}
+
+export function getAgentModelChoices(): AgentModelChoices {
+  try {
+    const stored = JSON.parse(localStorage.getItem("agent_models") ?? "{}") as Record<string, Partial<AgentModelChoice> | null>;
+    const choices: AgentModelChoices = {};
+    for (const role of AGENT_ROLES) {
+      const choice = stored[role];
+      if (choice !== undefined && choice !== null && isProviderId(choice.provider)) {
+        choices[role] = { provider: choice.provider, model: typeof choice.model === "string" ? choice.model : "" };
+      }
+    }
+    return choices;
+  } catch {
+    return {};
+  }
+}
+
+function getAgentModels(): AgentModelAssignments {
+  const models: AgentModelAssignments = {};
+  for (const [role, choice] of Object.entries(getAgentModelChoices()) as [AgentRole, AgentModelChoice][]) {
+    models[role] = {
+      provider: choice.provider,
+      model: choice.model !== "" ? choice.model : getProviderModel(choice.provider),
+      baseUrl: getProviderBaseUrl(choice.provider),
+    };
+  }
+  return models;
+}
+
+/**
+ * Agent budget: limits on tokens, spend, time, parallel sub-agents and tool
+ * calls for each multi-agent session
+ */
+export function setAgentBudget(budget: AgentBudget): void {
+  localStorage.setItem("agent_budget", JSON.stringify(budget));
+}
+
+export function getAgentBudget(): AgentBudget {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem("agent_budget") ?? "{}");
+    const parsed = agentBudgetSchema.safeParse(stored);
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Plan approval: multi-agent sessions show their plan for review and wait
+ * for the user to approve it before anything is executed
+ */
+export function setAgentPlanApproval(enabled: boolean): void {
+  localStorage.setItem("agent_plan_approval", enabled ? "true" : "false");
+}
+
+export function getAgentPlanApproval(): boolean {
+  return localStorage.getItem("agent_plan_approval") === "true";
+}
+
 // ============================================================================
 // Sensitive credentials (secure storage)
 // ============================================================================
 
-// API key storage - Anthropic
-export async function setApiKey(key: string): Promise<void> {
-  await setCredentialWithFallback("anthropic_api_key", key);
+// API key storage - providers (keys come from the registry)
+export async function setProviderApiKey(provider: AIProvider, key: string): Promise<void> {
+  const credentialKey = getProviderDefinition(provider).credentialKey;
+  if (credentialKey === null) return;
+  await setCredentialWithFallback(credentialKey, key);
 }
 
-export async function getApiKey(): Promise<string | null> {
-  return getCredentialWithFallback("anthropic_api_key");
+export async function getProviderApiKey(provider: AIProvider): Promise<string | null> {
+  const credentialKey = getProviderDefinition(provider).credentialKey;
+  if (credentialKey === null) return null;
+  return getCredentialWithFallback(credentialKey);
+}
+
+/**
+ * Returns an error message if the provider is missing a required API key
+ */
+export async function getMissingCredentialError(provider: AIProvider = getProvider()): Promise<string | null> {
+  const definition = getProviderDefinition(provider);
+  if (!definition.requiresApiKey) return null;
+  const key = await getProviderApiKey(provider);
+  if (key !== null && key !== "") return null;
+  return `${definition.name} API key not set. Please add it in settings.`;
 }
 
 // API key storage - Perplexity
@@ -128,15 +331,6 @@ export async function getPerplexityApiKey(): Promise<string | null> {
   return getCredentialWithFallback("perplexity_api_key");
 }
 
-// API key storage - RedPill
-export async function setRedpillApiKey(key: string): Promise<void> {
-  await setCredentialWithFallback("redpill_api_key", key);
-}
-
-export async function getRedpillApiKey(): Promise<string | null> {
-  return getCredentialWithFallback("redpill_api_key");
-}
-
 // API key storage - Firecrawl
 export async function setFirecrawlApiKey(key: string): Promise<void> {
   await setCredentialWithFallback("firecrawl_api_key", key);
@@ -165,32 +359,68 @@ export async function getEmailCredential(
 // ============================================================================
 
 /**
- * Get provider configuration - async because it reads from secure storage
+ * Get provider configuration - async because it reads from secure storage.
+ * A thread's overrides take precedence over the global settings.
  */
-export async function getProviderConfigAsync(): Promise<ProviderConfig> {
-  const provider = getProvider();
-  const [anthropicApiKey, perplexityApiKey, firecrawlApiKey, redpillApiKey] = await Promise.all([
-    getApiKey(),
+export async function getProviderConfigAsync(overrides: ThreadSettings = {}): Promise<ProviderConfig> {
+  const provider = overrides.provider ?? getProvider();
+  const [credentials, perplexityApiKey, firecrawlApiKey] = await Promise.all([
+    getAllCredentialsWithFallback(),
     getPerplexityApiKey(),
     getFirecrawlApiKey(),
-    getRedpillApiKey(),
   ]);
 
+  // Send every configured provider key: the anthropic key is also used by agents and token counting
+  const apiKeys: Partial<Record<AIProvider, string>> = {};
+  for (const definition of getProvidersWithCredentials()) {
+    const key = credentials[definition.credentialKey];
+    if (key !== undefined && key !== "") {
+      apiKeys[definition.id] = key;
+    }
+  }
+
   return {
     provider,
-    anthropicApiKey: anthropicApiKey ?? undefined,
+    model: overrides.model ?? getProviderModel(provider),
+    baseUrl: getProviderBaseUrl(provider),
+    apiKeys,
     perplexityApiKey: perplexityApiKey ?? undefined,
     firecrawlApiKey: firecrawlApiKey ?? undefined,
-    redpillApiKey: redpillApiKey ?? undefined,
-    ollamaBaseUrl: getOllamaBaseUrl(),
-    ollamaModel: getOllamaModel(),
-    // Default: tools enabled for Anthropic and RedPill, disabled for Ollama (not all models support it)
-    enableTools:
-      localStorage.getItem("enable_tools") === "true" ||
-      (localStorage.getItem("enable_tools") === null && (provider === "anthropic" || provider === "redpill")),
+    enableTools: overrides.enableTools ?? getEnableTools(),
+    serverToolLoop: getServerToolLoop(),
+    contextCompaction: getContextCompaction(),
+    thinkingBudget: getThinkingBudget(provider),
+    temperature: overrides.temperature,
+    maxOutputTokens: overrides.maxOutputTokens,
+    fallbacks: getFallbackModels(provider),
+    agentModels: getAgentModels(),
+    agentBudget: getAgentBudget(),
+    agentPlanApproval: getAgentPlanApproval(),
   };
 }
 
+/**
+ * Provider and model a thread runs on: its overrides, else the global settings
+ */
+export function getThreadModel(settings: ThreadSettings | undefined): { provider: AIProvider; model: string } {
+  const provider = settings?.provider ?? getProvider();
+  return { provider, model: settings?.model ?? getProviderModel(provider) };
+}
+
+/**
+ * Apply a change to a thread's overrides. Fields set to undefined go back to
+ * the global default; null means no overrides are left.
+ */
+export function mergeThreadSettings(
+  settings: ThreadSettings | undefined,
+  change: { [K in keyof ThreadSettings]?: ThreadSettings[K] | undefined }
+): ThreadSettings | null {
+  const merged = Object.fromEntries(
+    Object.entries({ ...settings, ...change }).filter(([, value]) => value !== undefined)
+  ) as ThreadSettings;
+  return Object.keys(merged).length > 0 ? merged : null;
+}
+
 /**
  * Get email configuration from secure storage
  */
@@ -210,28 +440,54 @@ export async function getEmailConfigAsync(): Promise<EmailConfig> {
   };
 }
 
+/**
+ * Email settings in the shape the backend takes, or undefined while email isn't set up
+ */
+export function toEmailRequestConfig(emailConfig: EmailConfig): ChatRequest["emailConfig"] {
+  if (emailConfig.emailAddress === undefined || emailConfig.emailAddress === "" || emailConfig.emailPassword === undefined) {
+    return undefined;
+  }
+  return {
+    address: emailConfig.emailAddress,
+    username: emailConfig.emailUsername,
+    password: emailConfig.emailPassword,
+    imapHost: emailConfig.emailImapHost,
+    imapPort: emailConfig.emailImapPort,
+    imapSecurity: emailConfig.emailImapSecurity,
+    smtpHost: emailConfig.emailSmtpHost,
+    smtpPort: emailConfig.emailSmtpPort,
+    smtpSecurity: emailConfig.emailSmtpSecurity,
+    sslVerify: emailConfig.emailSslVerify,
+  };
+}
+
 /**
  * Synchronous provider config - DEPRECATED, use getProviderConfigAsync
- * Only returns non-sensitive settings; API keys will be undefined
+ * Only returns non-sensitive settings; API keys will be empty
  */
-export function getProviderConfig(): Omit<ProviderConfig, "anthropicApiKey" | "perplexityApiKey" | "firecrawlApiKey" | "redpillApiKey"> & {
-  anthropicApiKey: undefined;
+export function getProviderConfig(): Omit<ProviderConfig, "apiKeys" | "perplexityApiKey" | "firecrawlApiKey"> & {
+  apiKeys: Record<string, never>;
   perplexityApiKey: undefined;
   firecrawlApiKey: undefined;
-  redpillApiKey: undefined;
 } {
   const provider = getProvider();
   return {
     provider,
-    anthropicApiKey: undefined,
+    model: getProviderModel(provider),
+    baseUrl: getProviderBaseUrl(provider),
+    apiKeys: {},
     perplexityApiKey: undefined,
     firecrawlApiKey: undefined,
-    redpillApiKey: undefined,
-    ollamaBaseUrl: getOllamaBaseUrl(),
-    ollamaModel: getOllamaModel(),
-    enableTools:
-      localStorage.getItem("enable_tools") === "true" ||
-      (localStorage.getItem("enable_tools") === null && (provider === "anthropic" || provider === "redpill")),
+    enableTools: getEnableTools(),
+    serverToolLoop: getServerToolLoop(),
+    contextCompaction: getContextCompaction(),
+    thinkingBudget: getThinkingBudget(provider),
+    temperature: undefined,
+    maxOutputTokens: undefined,
+    fallbacks: getFallbackModels(provider),
+    agentModels: getAgentModels(),
+    agentBudget: getAgentBudget(),
+    agentPlanApproval: getAgentPlanApproval(),
   };
 }
 
@@ -241,37 +497,84 @@ export interface ToolResult {
 }
 
 export interface ChatMessage {
+  /** Stored message id; unsaved tool-loop turns have none */
+  id?: string;
   role: "user" | "assistant";
   content: string;
+  attachments?: MessageAttachment[];
   toolInvocations?: ToolInvocation[];
   toolResults?: ToolResult[]; // For passing tool results back to the model
 }
 
 export interface StreamResult {
   text: string;
+  /** Reasoning streamed before/alongside the answer */
+  thinking?: string;
   toolInvocations: ToolInvocation[];
   hasToolCalls: boolean;
   aborted?: boolean;
+  /** Tokens and timing; only set once the backend reports the end of the response */
+  usage?: Omit<MessageUsage, "costUsd">;
+  /** Set when a fallback model answered instead of the selected one */
+  answeredBy?: MessageFallback;
 }
 
 /**
- * NDJSON stream event types from the backend
+ * Failed chat request, with the backend's error code so the UI can offer a fix
  */
-interface NDJSONEvent {
-  type: "text" | "thinking" | "tool_call" | "tool_result" | "end" | "error";
-  // text/thinking
-  content?: string;
-  // tool_call
-  id?: string;
-  name?: string;
-  args?: Record<string, unknown>;
-  // tool_result
-  result?: unknown;
-  // end
-  hasToolCalls?: boolean;
-  usage?: { promptTokens: number; completionTokens: number };
-  // error
-  message?: string;
+export class ChatRequestError extends Error {
+  readonly code: ChatErrorCode;
+
+  constructor(code: ChatErrorCode, message: string) {
+    super(message);
+    this.name = "ChatRequestError";
+    this.code = code;
+  }
+}
+
+/**
+ * Error from a failed (non-streamed) backend response
+ */
+async function readErrorResponse(response: Response): Promise<ChatRequestError> {
+  const text = await response.text();
+  try {
+    const parsed = chatErrorResponseSchema.safeParse(JSON.parse(text));
+    if (parsed.success) return new ChatRequestError(parsed.data.code, parsed.data.error);
+  } catch {
+    // Not JSON; fall through
+  }
+  return new ChatRequestError("unknown", `API error: ${text}`);
+}
+
+/**
+ * One NDJSON line of the chat stream, or null if it isn't a valid event
+ */
+function parseStreamEvent(line: string): ChatStreamEvent | null {
+  try {
+    const parsed = chatStreamEventSchema.safeParse(JSON.parse(line));
+    if (parsed.success) return parsed.data;
+    console.warn("[streamChatResponse] Ignoring invalid event:", parsed.error.issues[0]?.message, line.slice(0, 200));
+  } catch {
+    // Incomplete JSON
+  }
+  return null;
+}
+
+export interface StreamChatOptions {
+  /** Called when the backend starts a new model step (server tool loop only) */
+  onStepStart?: (step: number) => void;
+  /** Called with each chunk of model reasoning */
+  onThinking?: (text: string) => void;
+  /** Summary standing in for the messages before `messages` */
+  contextSummary?: string;
+  /** Called when the backend folds old messages into a new summary */
+  onContextCompacted?: (summary: string, throughMessageId: string) => void;
+  /** Called when the backend gives up on a model and moves down the fallback chain */
+  onProviderSwitched?: (fallback: MessageFallback) => void;
+  /** The thread's provider, model and generation overrides */
+  settings?: ThreadSettings | undefined;
+  /** Aborting closes the request; the backend then cancels the model call and running tools */
+  signal?: AbortSignal;
 }
 
 /**
@@ -282,28 +585,28 @@ export async function streamChatResponse(
   onChunk: (text: string) => void,
   onToolInvocation?: (invocation: ToolInvocation) => void,
   enableTools = true,
-  threadId?: string
+  threadId?: string,
+  options: StreamChatOptions = {}
 ): Promise<StreamResult> {
-  const config = await getProviderConfigAsync();
+  const config = await getProviderConfigAsync(options.settings);
   const emailConfig = await getEmailConfigAsync();
   const personality = getPersonality();
 
   // Validate config based on provider
-  if (config.provider === "anthropic" && (config.anthropicApiKey === undefined || config.anthropicApiKey === "")) {
-    throw new Error("Anthropic API key not set. Please add it in settings.");
-  }
-  if (config.provider === "redpill" && (config.redpillApiKey === undefined || config.redpillApiKey === "")) {
-    throw new Error("RedPill API key not set. Please add it in settings.");
+  const missingKeyError = await getMissingCredentialError(config.provider);
+  if (missingKeyError !== null) {
+    throw new ChatRequestError("missing_api_key", missingKeyError);
   }
 
   // Format messages for the API, including tool invocations and results
   const formattedMessages = messages.map((m) => {
-    const msg: {
-      role: "user" | "assistant";
-      content: string;
-      toolInvocations?: ToolInvocation[];
-      toolResults?: ToolResult[];
-    } = { role: m.role, content: m.content };
+    const msg: ChatRequest["messages"][number] = { role: m.role, content: m.content };
+    if (m.id !== undefined) {
+      msg.id = m.id;
+    }
+    if (m.attachments !== undefined && m.attachments.length > 0) {
+      msg.attachments = m.attachments;
+    }
     if (m.toolInvocations !== undefined && m.toolInvocations.length > 0) {
       msg.toolInvocations = m.toolInvocations;
     }
@@ -313,44 +616,52 @@ export async function streamChatResponse(
     return msg;
   });
 
-  const response = await fetch(`${NODE_BACKEND_URL}/api/chat`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      messages: formattedMessages,
-      threadId, // Pass threadId for agent context
-      provider: config.provider,
-      apiKey: config.anthropicApiKey,
-      redpillApiKey: config.redpillApiKey,
-      perplexityApiKey: config.perplexityApiKey,
-      firecrawlApiKey: config.firecrawlApiKey,
-      ollamaBaseUrl: config.ollamaBaseUrl,
-      model: config.provider === "ollama" ? config.ollamaModel : undefined,
-      enableTools: enableTools && config.enableTools,
-      personality: personality || undefined,
-      // Pass email credentials if configured
-      emailConfig: emailConfig.emailAddress !== undefined && emailConfig.emailAddress !== ""
-        ? {
-            address: emailConfig.emailAddress,
-            username: emailConfig.emailUsername,
-            password: emailConfig.emailPassword,
-            imapHost: emailConfig.emailImapHost,
-            imapPort: emailConfig.emailImapPort,
-            imapSecurity: emailConfig.emailImapSecurity,
-            smtpHost: emailConfig.emailSmtpHost,
-            smtpPort: emailConfig.emailSmtpPort,
-            smtpSecurity: emailConfig.emailSmtpSecurity,
-            sslVerify: emailConfig.emailSslVerify,
-          }
-        : undefined,
-    }),
-  });
+  const request: ChatRequest = {
+    messages: formattedMessages,
+    threadId, // Pass threadId for agent context
+    provider: config.provider,
+    model: config.model,
+    baseUrl: config.baseUrl,
+    apiKeys: config.apiKeys,
+    perplexityApiKey: config.perplexityApiKey,
+    firecrawlApiKey: config.firecrawlApiKey,
+    enableTools: enableTools && config.enableTools,
+    toolLoop: config.serverToolLoop ? "server" : "client",
+    contextStrategy: config.contextCompaction ? "compact" : "trim",
+    contextSummary: options.contextSummary,
+    fallbacks: config.fallbacks,
+    agentModels: config.agentModels,
+    agentBudget: config.agentBudget,
+    agentPlanApproval: config.agentPlanApproval,
+    modelPrices: getModelPrices(),
+    thinkingBudget: config.thinkingBudget > 0 ? config.thinkingBudget : undefined,
+    temperature: config.temperature,
+    maxOutputTokens: config.maxOutputTokens,
+    personality: personality || undefined,
+    // Pass email credentials if configured
+    emailConfig: toEmailRequestConfig(emailConfig),
+  };
+
+  const startedAt = performance.now();
+  let response: Response;
+  try {
+    response = await sidecarFetch("/api/chat", {
+      method: "POST",
+      signal: options.signal ?? null,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+    });
+  } catch (error) {
+    if (options.signal?.aborted === true) {
+      return { text: "", toolInvocations: [], hasToolCalls: false, aborted: true };
+    }
+    throw error;
+  }
 
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`API error: ${error}`);
+    throw await readErrorResponse(response);
   }
 
   const reader = response.body?.getReader();
@@ -360,14 +671,124 @@ export async function streamChatResponse(
 
   const decoder = new TextDecoder();
   let fullText = "";
+  let fullThinking = "";
   const toolInvocations: ToolInvocation[] = [];
-  const toolCallsInProgress = new Map<string, Partial<ToolInvocation>>();
+  const toolCallsInProgress = new Map<string, ToolInvocation>();
   let hasToolCalls = false;
+  let firstTokenAt: number | null = null;
+  let usage: StreamResult["usage"];
+  let answeredBy: MessageFallback | undefined;
+
+  const markFirstToken = () => {
+    firstTokenAt ??= performance.now();
+  };
+  const recordUsage = (eventUsage: ChatUsage) => {
+    const endedAt = performance.now();
+    usage = {
+      provider: answeredBy?.provider ?? config.provider,
+      model: answeredBy?.model ?? config.model,
+      promptTokens: eventUsage.promptTokens,
+      completionTokens: eventUsage.completionTokens,
+      ...(eventUsage.cacheReadTokens > 0 ? { cacheReadTokens: eventUsage.cacheReadTokens } : {}),
+      ...(eventUsage.cacheWriteTokens > 0 ? { cacheWriteTokens: eventUsage.cacheWriteTokens } : {}),
+      latencyMs: Math.round((firstTokenAt ?? endedAt) - startedAt),
+      durationMs: Math.round(endedAt - startedAt),
+    };
+  };
+
+  const handleEvent = (event: ChatStreamEvent) => {
+    switch (event.type) {
+      case "text":
+        markFirstToken();
+        fullText += event.content;
+        onChunk(event.content);
+        break;
+
+      case "thinking":
+        markFirstToken();
+        fullThinking += event.content;
+        options.onThinking?.(event.content);
+        break;
+
+      case "tool_call": {
+        markFirstToken();
+        const callInvocation: ToolInvocation = {
+          toolCallId: event.id,
+          toolName: event.name,
+          args: event.args,
+          state: "call",
+        };
+        toolCallsInProgress.set(callInvocation.toolCallId, callInvocation);
+        onToolInvocation?.(callInvocation);
+        break;
+      }
+
+      case "tool_result": {
+        const existing = toolCallsInProgress.get(event.id);
+        if (existing !== undefined) {
+          const resultInvocation: ToolInvocation = {
+            toolCallId: existing.toolCallId,
+            toolName: existing.toolName,
+            args: existing.args,
+            state: "result",
+            result: event.result,
+          };
+          toolInvocations.push(resultInvocation);
+          toolCallsInProgress.delete(event.id);
+          onToolInvocation?.(resultInvocation);
+        }
+        break;
+      }
+
+      case "step_start":
+        options.onStepStart?.(event.step);
+        break;
+
+      case "step_end":
+        break;
+
+      case "context_compacted":
+        options.onContextCompacted?.(event.summary, event.throughMessageId);
+        break;
+
+      case "provider_switched":
+        console.warn(`[streamChatResponse] Falling back to ${event.provider}/${event.model}:`, event.message);
+        answeredBy = { provider: event.provider, model: event.model, reason: event.code };
+        options.onProviderSwitched?.(answeredBy);
+        break;
+
+      case "end":
+        hasToolCalls = event.hasToolCalls;
+        recordUsage(event.usage);
+        break;
+
+      case "error":
+        console.error("[streamChatResponse] Backend error:", event.code, event.message);
+        throw new ChatRequestError(event.code, event.message);
+    }
+  };
 
   let buffer = "";
 
   for (;;) {
-    const { done, value } = await reader.read();
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      // Stopped mid-stream: hand back what arrived so it can be saved as interrupted
+      if (options.signal?.aborted === true) {
+        return {
+          text: fullText,
+          thinking: fullThinking,
+          toolInvocations,
+          hasToolCalls: false,
+          aborted: true,
+          ...(answeredBy !== undefined ? { answeredBy } : {}),
+        };
+      }
+      throw error;
+    }
+    const { done, value } = chunk;
     if (done) break;
 
     buffer += decoder.decode(value, { stream: true });
@@ -377,103 +798,49 @@ export async function streamChatResponse(
     buffer = lines.pop() ?? ""; // Keep incomplete line in buffer
 
     for (const line of lines) {
-      if (line.length === 0) continue;
-
-      let event: NDJSONEvent;
-      try {
-        event = JSON.parse(line) as NDJSONEvent;
-      } catch {
-        continue;
-      }
-
-      switch (event.type) {
-        case "text":
-          if (event.content !== undefined) {
-            fullText += event.content;
-            onChunk(event.content);
-          }
-          break;
-
-        case "thinking":
-          // Could be forwarded to UI in the future
-          break;
-
-        case "tool_call": {
-          const callInvocation: ToolInvocation = {
-            toolCallId: event.id ?? "",
-            toolName: event.name ?? "unknown",
-            args: event.args ?? {},
-            state: "call",
-          };
-          toolCallsInProgress.set(callInvocation.toolCallId, callInvocation);
-          onToolInvocation?.(callInvocation);
-          break;
-        }
-
-        case "tool_result": {
-          const existing = toolCallsInProgress.get(event.id ?? "");
-          if (existing !== undefined) {
-            const resultInvocation: ToolInvocation = {
-              toolCallId: existing.toolCallId ?? event.id ?? "",
-              toolName: existing.toolName ?? "unknown",
-              args: existing.args ?? {},
-              state: "result",
-              result: event.result,
-            };
-            toolInvocations.push(resultInvocation);
-            toolCallsInProgress.delete(event.id ?? "");
-            onToolInvocation?.(resultInvocation);
-          }
-          break;
-        }
-
-        case "end":
-          hasToolCalls = event.hasToolCalls ?? false;
-          break;
-
-        case "error":
-          console.error("[streamChatResponse] Backend error:", event.message);
-          throw new Error(event.message ?? "Unknown error from backend");
-          break;
-      }
+      const event = parseStreamEvent(line);
+      if (event !== null) handleEvent(event);
     }
   }
 
   // Process any remaining buffer
-  if (buffer.length > 0) {
-    try {
-      const event = JSON.parse(buffer) as NDJSONEvent;
-      if (event.type === "text" && event.content !== undefined) {
-        fullText += event.content;
-        onChunk(event.content);
-      } else if (event.type === "end") {
-        hasToolCalls = event.hasToolCalls ?? false;
-      }
-    } catch {
-      // Incomplete JSON, ignore
-    }
-  }
+  const lastEvent = parseStreamEvent(buffer);
+  if (lastEvent !== null) handleEvent(lastEvent);
 
-  return { text: fullText, toolInvocations, hasToolCalls };
+  return {
+    text: fullText,
+    thinking: fullThinking,
+    toolInvocations,
+    hasToolCalls,
+    ...(usage !== undefined ? { usage } : {}),
+    ...(answeredBy !== undefined ? { answeredBy } : {}),
+  };
+}
+
+/** Title for a new thread and tags the model suggests for it */
+export interface TitleSuggestion {
+  title: string;
+  tags: string[];
 }
 
 /**
- * Generate a conversation title from the first exchange
+ * Name a thread from its first exchange and suggest tags, preferring
+ * `existingTags` (the user's own vocabulary)
  */
 export async function generateConversationTitle(
   userMessage: string,
-  assistantResponse: string
-): Promise<string> {
-  const config = await getProviderConfigAsync();
-
-  if (config.provider === "anthropic" && (config.anthropicApiKey === undefined || config.anthropicApiKey === "")) {
-    throw new Error("Anthropic API key not set");
-  }
-  if (config.provider === "redpill" && (config.redpillApiKey === undefined || config.redpillApiKey === "")) {
-    throw new Error("RedPill API key not set");
+  assistantResponse: string,
+  existingTags: string[],
+  settings?: ThreadSettings
+): Promise<TitleSuggestion> {
+  const config = await getProviderConfigAsync(settings);
+
+  const missingKeyError = await getMissingCredentialError(config.provider);
+  if (missingKeyError !== null) {
+    throw new Error(missingKeyError);
   }
 
-  const response = await fetch(`${NODE_BACKEND_URL}/api/generate-title`, {
+  const response = await sidecarFetch("/api/generate-title", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -481,11 +848,12 @@ export async function generateConversationTitle(
     body: JSON.stringify({
       userMessage,
       assistantResponse,
+      existingTags,
       provider: config.provider,
-      apiKey: config.anthropicApiKey,
-      redpillApiKey: config.redpillApiKey,
-      ollamaBaseUrl: config.ollamaBaseUrl,
-      model: config.provider === "ollama" ? config.ollamaModel : undefined,
+      model: config.model,
+      baseUrl: config.baseUrl,
+      apiKeys: config.apiKeys,
+      fallbacks: config.fallbacks,
     }),
   });
 
@@ -493,15 +861,144 @@ export async function generateConversationTitle(
     throw new Error("Failed to generate title");
   }
 
-  const data = (await response.json()) as { title: string };
-  return data.title;
+  const data = (await response.json()) as { title: string; tags?: string[] };
+  return { title: data.title, tags: data.tags ?? [] };
+}
+
+/**
+ * Summarize messages into the thread's context summary ("compact now").
+ * The summary of anything before `messages` is folded in.
+ */
+export async function compactConversation(
+  messages: ChatMessage[],
+  contextSummary: string | undefined,
+  signal?: AbortSignal,
+  settings?: ThreadSettings
+): Promise<string> {
+  const config = await getProviderConfigAsync(settings);
+
+  const missingKeyError = await getMissingCredentialError(config.provider);
+  if (missingKeyError !== null) {
+    throw new ChatRequestError("missing_api_key", missingKeyError);
+  }
+
+  const response = await sidecarFetch("/api/chat/compact", {
+    method: "POST",
+    signal: signal ?? null,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      messages,
+      contextSummary,
+      provider: config.provider,
+      model: config.model,
+      baseUrl: config.baseUrl,
+      apiKeys: config.apiKeys,
+    }),
+  });
+
+  if (!response.ok) {
+    throw await readErrorResponse(response);
+  }
+  const data = (await response.json()) as { summary: string };
+  return data.summary;
+}
+
+/**
+ * Cancel the orchestrator session (started by the `complex` tool) running for a thread
+ */
+export async function cancelAgentSession(threadId: string): Promise<boolean> {
+  const response = await sidecarFetch(`/api/agent/session/${encodeURIComponent(threadId)}/cancel`, {
+    method: "POST",
+  });
+  if (!response.ok) return false;
+  const data = (await response.json()) as { cancelled: boolean };
+  return data.cancelled;
+}
+
+/**
+ * Pause the orchestrator session running for a thread; its agents stop before their next step
+ */
+export async function pauseAgentSession(threadId: string): Promise<boolean> {
+  const response = await sidecarFetch(`/api/agent/session/${encodeURIComponent(threadId)}/pause`, {
+    method: "POST",
+  });
+  if (!response.ok) return false;
+  const data = (await response.json()) as { paused: boolean };
+  return data.paused;
+}
+
+/**
+ * Resume a thread's paused orchestrator session
+ */
+export async function resumeAgentSession(threadId: string): Promise<boolean> {
+  const response = await sidecarFetch(`/api/agent/session/${encodeURIComponent(threadId)}/resume`, {
+    method: "POST",
+  });
+  if (!response.ok) return false;
+  const data = (await response.json()) as { resumed: boolean };
+  return data.resumed;
+}
+
+/**
+ * Approve (as edited) or reject the plan a thread's orchestrator session is waiting on
+ */
+export async function submitPlanDecision(threadId: string, decision: PlanDecision): Promise<void> {
+  const response = await sidecarFetch(`/api/agent/session/${encodeURIComponent(threadId)}/plan`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(decision),
+  });
+  if (!response.ok) {
+    throw new Error("Failed to submit the plan");
+  }
+}
+
+/**
+ * Every orchestrator session a thread has had, newest first
+ */
+export async function listAgentSessions(threadId: string): Promise<AgentSessionSummary[]> {
+  const response = await sidecarFetch(`/api/agent/session/${encodeURIComponent(threadId)}`);
+  if (!response.ok) {
+    throw new Error("Failed to load agent sessions");
+  }
+  const data = (await response.json()) as { sessions?: AgentSessionSummary[] };
+  return data.sessions ?? [];
+}
+
+/**
+ * Stop a deleted thread's orchestrator session and delete every session it has had
+ */
+export async function deleteAgentSessions(threadId: string): Promise<void> {
+  const response = await sidecarFetch(`/api/agent/session/${encodeURIComponent(threadId)}`, {
+    method: "DELETE",
+  });
+  if (!response.ok) {
+    throw new Error("Failed to delete agent sessions");
+  }
+}
+
+/**
+ * A past or running orchestrator session with its tasks and agent transcripts
+ */
+export async function getAgentSessionRecord(threadId: string, sessionId: string): Promise<AgentSessionRecord> {
+  const response = await sidecarFetch(
+    `/api/agent/session/${encodeURIComponent(threadId)}/${encodeURIComponent(sessionId)}`
+  );
+  if (!response.ok) {
+    throw new Error("Failed to load agent session");
+  }
+  return (await response.json()) as AgentSessionRecord;
 }
 
 /**
  * Test email connection via the Node backend
  */
 export async function testEmailConnection(emailConfig: EmailConfig): Promise<{ success: boolean; error?: string }> {
-  const response = await fetch(`${NODE_BACKEND_URL}/api/email/test`, {
+  const response = await sidecarFetch("/api/email/test", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
@@ -0,0 +1,155 @@
+/**
+ * Composer Attachments
+ *
+ * Attachment adapter for the assistant-ui composer (file picker, paste and
+ * drag-drop). Images are kept as base64 for multimodal models; code, text
+ * and PDFs are reduced to their text, which the backend inlines into the prompt.
+ */
+import type { AttachmentAdapter, CompleteAttachment, PendingAttachment } from "@assistant-ui/react";
+import type { MessageAttachment } from "@app/types/message";
+import { sidecarFetch } from "./sidecar";
+
+/** Anthropic rejects images over 5 MB */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+/** Longer files are cut off (~50k tokens) */
+const MAX_FILE_TEXT_CHARS = 200_000;
+
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+const TEXT_EXTENSIONS = [
+  ".txt", ".md", ".markdown", ".csv", ".tsv", ".json", ".jsonl", ".yaml", ".yml", ".toml", ".xml",
+  ".html", ".css", ".js", ".jsx", ".ts", ".tsx", ".mjs", ".cjs", ".py", ".rb", ".rs", ".go",
+  ".java", ".kt", ".swift", ".c", ".h", ".cpp", ".hpp", ".cs", ".php", ".sh", ".sql", ".log",
+];
+
+function extensionOf(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot >= 0 ? name.slice(dot).toLowerCase() : "";
+}
+
+function isPdf(file: File): boolean {
+  return file.type === "application/pdf" || extensionOf(file.name) === ".pdf";
+}
+
+function isTextLike(file: File): boolean {
+  return file.type.startsWith("text/") || file.type === "application/json" || TEXT_EXTENSIONS.includes(extensionOf(file.name));
+}
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.slice(dataUrl.indexOf(",") + 1));
+    };
+    reader.onerror = () => { reject(reader.error ?? new Error(`Failed to read ${file.name}`)); };
+    reader.readAsDataURL(file);
+  });
+}
+
+async function extractPdfText(file: File): Promise<string> {
+  const response = await sidecarFetch("/api/attachments/extract", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name: file.name, mimeType: "application/pdf", data: await readAsBase64(file) }),
+  });
+  const data = (await response.json()) as { text?: string; error?: string };
+  if (!response.ok || data.text === undefined) {
+    throw new Error(data.error ?? `Failed to read ${file.name}`);
+  }
+  return data.text;
+}
+
+function truncateText(text: string): string {
+  if (text.length <= MAX_FILE_TEXT_CHARS) return text;
+  return `${text.slice(0, MAX_FILE_TEXT_CHARS)}\n\n[... file truncated ...]`;
+}
+
+/**
+ * Reason a file can't be attached, or null if it can
+ */
+export function getAttachmentError(file: File): string | null {
+  if (IMAGE_TYPES.includes(file.type)) {
+    return file.size > MAX_IMAGE_BYTES ? `${file.name} is larger than 5 MB` : null;
+  }
+  if (isPdf(file) || isTextLike(file)) return null;
+  return `Unsupported file type: ${file.name}`;
+}
+
+/**
+ * Read a file into the form stored with the message and sent to the backend
+ */
+export async function readAttachment(file: File): Promise<MessageAttachment> {
+  const error = getAttachmentError(file);
+  if (error !== null) throw new Error(error);
+
+  if (IMAGE_TYPES.includes(file.type)) {
+    return { type: "image", name: file.name, mimeType: file.type, data: await readAsBase64(file) };
+  }
+  if (isPdf(file)) {
+    return { type: "file", name: file.name, mimeType: "application/pdf", text: truncateText(await extractPdfText(file)) };
+  }
+  return { type: "file", name: file.name, mimeType: file.type !== "" ? file.type : "text/plain", text: truncateText(await file.text()) };
+}
+
+/**
+ * Recover the stored attachment from a composer attachment after send()
+ */
+export function fromComposerAttachment(attachment: CompleteAttachment): MessageAttachment | null {
+  const part = attachment.content[0];
+  if (part?.type === "image") {
+    const dataUrl = part.image;
+    return {
+      type: "image",
+      name: attachment.name,
+      mimeType: attachment.contentType,
+      data: dataUrl.slice(dataUrl.indexOf(",") + 1),
+    };
+  }
+  if (part?.type === "text") {
+    return { type: "file", name: attachment.name, mimeType: attachment.contentType, text: part.text };
+  }
+  return null;
+}
+
+/**
+ * Stored attachment as a composer/thread attachment (for previews)
+ */
+export function toComposerAttachment(attachment: MessageAttachment, id: string): CompleteAttachment {
+  return {
+    id,
+    type: attachment.type === "image" ? "image" : "document",
+    name: attachment.name,
+    contentType: attachment.mimeType,
+    status: { type: "complete" },
+    content:
+      attachment.type === "image"
+        ? [{ type: "image", image: `data:${attachment.mimeType};base64,${attachment.data}` }]
+        : [{ type: "text", text: attachment.text }],
+  };
+}
+
+export const chatAttachmentAdapter: AttachmentAdapter = {
+  accept: [...IMAGE_TYPES, "application/pdf", ".pdf", "text/plain", "text/markdown", "text/csv", "application/json", ...TEXT_EXTENSIONS].join(","),
+
+  add({ file }): Promise<PendingAttachment> {
+    const error = getAttachmentError(file);
+    if (error !== null) return Promise.reject(new Error(error));
+    return Promise.resolve({
+      id: crypto.randomUUID(),
+      type: IMAGE_TYPES.includes(file.type) ? "image" : "document",
+      name: file.name,
+      contentType: file.type !== "" ? file.type : "text/plain",
+      file,
+      status: { type: "requires-action", reason: "composer-send" },
+    });
+  },
+
+  async send(attachment): Promise<CompleteAttachment> {
+    return toComposerAttachment(await readAttachment(attachment.file), attachment.id);
+  },
+
+  remove(): Promise<void> {
+    return Promise.resolve();
+  },
+};
@@ -17,6 +17,9 @@ export type CredentialKey =
   | "perplexity_api_key"
   | "firecrawl_api_key"
   | "redpill_api_key"
+  | "openai_api_key"
+  | "google_api_key"
+  | "openai_compatible_api_key"
   | "email_address"
   | "email_username"
   | "email_password"
@@ -26,7 +29,8 @@ export type CredentialKey =
   | "email_smtp_host"
   | "email_smtp_port"
   | "email_smtp_security"
-  | "email_ssl_verify";
+  | "email_ssl_verify"
+  | "local_api_token";
 
 /**
  * Get a credential from secure storage
@@ -120,6 +124,9 @@ export async function getAllCredentialsWithFallback(): Promise<Record<string, st
     "perplexity_api_key",
     "firecrawl_api_key",
     "redpill_api_key",
+    "openai_api_key",
+    "google_api_key",
+    "openai_compatible_api_key",
     "email_address",
     "email_username",
     "email_password",
@@ -130,6 +137,7 @@ export async function getAllCredentialsWithFallback(): Promise<Record<string, st
     "email_smtp_port",
     "email_smtp_security",
     "email_ssl_verify",
+    "local_api_token",
   ];
   const result: Record<string, string> = {};
   for (const key of keys) {
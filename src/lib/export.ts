@@ -0,0 +1,297 @@
+/**
+ * Conversation Export and Import
+ *
+ * Threads leave the app in three formats:
+ * - JSON: lossless (every branch, tool invocations, metadata) and the only
+ *   format that can be imported back
+ * - Markdown: the branch being shown, with tool calls written out readably
+ * - HTML: the branch being shown rendered like the chat view, styles and
+ *   images inlined so the file opens anywhere
+ */
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { z } from "zod";
+import type { Message, ToolInvocation } from "@app/types/message";
+import type { Thread, ThreadExport } from "@app/types/thread";
+import { ExportedThread } from "@app/components/chat/ExportedThread";
+import { getPerplexityContent, withCitations } from "@app/components/chat/tools/PerplexityDisplay";
+import { parseToolResult } from "@app/components/chat/tools/parseToolResult";
+import { getPath } from "./message-tree";
+import * as tauri from "./tauri";
+
+export type ExportFormat = "markdown" | "json" | "html";
+
+const EXPORT_FORMAT_ID = "aios-chat-export";
+const EXPORT_VERSION = 1;
+/** Tool output longer than this is cut short in Markdown (JSON keeps it all) */
+const MARKDOWN_TOOL_RESULT_LIMIT = 2000;
+
+// =============================================================================
+// JSON Format
+// =============================================================================
+
+const exportedToolInvocationSchema = z.object({
+  toolCallId: z.string(),
+  toolName: z.string(),
+  args: z.record(z.unknown()),
+  state: z.enum(["partial-call", "call", "result"]),
+  result: z.unknown().optional(),
+});
+
+const exportedMessageSchema = z.object({
+  id: z.string(),
+  threadId: z.string(),
+  parentId: z.string().nullable(),
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  toolInvocations: z.array(exportedToolInvocationSchema).optional(),
+  metadata: z.record(z.unknown()).optional(),
+  createdAt: z.string().datetime({ offset: true }),
+});
+
+const exportedThreadSchema = z.object({
+  id: z.string(),
+  title: z.string().nullable(),
+  contextSummary: z.string().optional(),
+  summarizedThrough: z.string().optional(),
+  settings: z.record(z.unknown()).optional(),
+  activeLeafId: z.string().optional(),
+  // Organization came with version 1 exports made after it was added
+  pinned: z.boolean().default(false),
+  archived: z.boolean().default(false),
+  folderId: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+  createdAt: z.string().datetime({ offset: true }),
+  updatedAt: z.string().datetime({ offset: true }),
+  messages: z.array(exportedMessageSchema),
+});
+
+const exportFileSchema = z.object({
+  format: z.literal(EXPORT_FORMAT_ID),
+  version: z.literal(EXPORT_VERSION),
+  exportedAt: z.string(),
+  threads: z.array(exportedThreadSchema),
+});
+
+function toJson(threads: ThreadExport[]): string {
+  return JSON.stringify(
+    { format: EXPORT_FORMAT_ID, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), threads },
+    null,
+    2
+  );
+}
+
+// =============================================================================
+// Markdown Format
+// =============================================================================
+
+/** Code fence longer than any backtick run in the text */
+function fence(text: string, language = ""): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(Math.max(3, longestRun + 1));
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+function quote(text: string): string {
+  return text.split("\n").map((line) => (line === "" ? ">" : `> ${line}`)).join("\n");
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit)}\n… (truncated)` : text;
+}
+
+function formatToolResult(result: unknown): string {
+  const parsed = typeof result === "string" ? (parseToolResult<unknown>(result) ?? result) : result;
+  return typeof parsed === "string" ? parsed : JSON.stringify(parsed, null, 2);
+}
+
+function toolToMarkdown(tool: ToolInvocation): string {
+  const { toolName, args, result } = tool;
+
+  if (toolName.startsWith("perplexity_")) {
+    const { content, citations } = getPerplexityContent(toolName, result);
+    const query = (args as { query?: string }).query ?? "";
+    return quote(`**Search:** ${query}\n\n${withCitations(content, citations).trim()}`);
+  }
+
+  if (toolName === "embed") {
+    const embed = parseToolResult<{ url?: string; title?: string; provider?: string }>(result);
+    const url = embed?.url ?? (args as { url?: string }).url ?? "";
+    return quote(`**Embed:** [${embed?.title ?? embed?.provider ?? url}](${url})`);
+  }
+
+  if (toolName === "show_content") {
+    const parsed = parseToolResult<{ title?: string; content?: string }>(result) ?? {};
+    const title = parsed.title ?? (args as { title?: string }).title ?? "Content";
+    return quote(`**Document: ${title}**\n\n${parsed.content ?? ""}`);
+  }
+
+  if (toolName === "show_document") {
+    const parsed = parseToolResult<{ uri?: string; title?: string }>(result) ?? {};
+    const uri = parsed.uri ?? (args as { uri?: string }).uri ?? "";
+    return quote(`**Opened:** [${parsed.title ?? uri}](${uri})`);
+  }
+
+  const parts = [`**Tool:** \`${toolName}\``, fence(JSON.stringify(args, null, 2), "json")];
+  if (result !== undefined) {
+    parts.push(
+      `<details><summary>Result</summary>\n\n${fence(truncate(formatToolResult(result), MARKDOWN_TOOL_RESULT_LIMIT))}\n\n</details>`
+    );
+  }
+  return parts.join("\n\n");
+}
+
+function messageToMarkdown(message: Message): string {
+  const parts = [`### ${message.role === "user" ? "User" : "Assistant"}`];
+  const metadata = message.metadata;
+
+  if (metadata?.thinking !== undefined && metadata.thinking.trim() !== "") {
+    parts.push(`<details><summary>Thought process</summary>\n\n${metadata.thinking.trim()}\n\n</details>`);
+  }
+  if (message.content.trim() !== "") {
+    parts.push(metadata?.error !== undefined ? quote(`**Error:** ${message.content.trim()}`) : message.content.trim());
+  }
+  if (metadata?.attachments !== undefined && metadata.attachments.length > 0) {
+    parts.push(`_Attached: ${metadata.attachments.map((a) => a.name).join(", ")}_`);
+  }
+  for (const tool of message.toolInvocations ?? []) {
+    parts.push(toolToMarkdown(tool));
+  }
+  if (metadata?.answeredBy !== undefined) {
+    parts.push(`_Answered by ${metadata.answeredBy.provider} · ${metadata.answeredBy.model}_`);
+  }
+  return parts.join("\n\n");
+}
+
+function toMarkdown(threads: ThreadExport[]): string {
+  return threads
+    .map((thread) => {
+      const tags = thread.tags.length > 0 ? ` · ${thread.tags.map((tag) => `#${tag}`).join(" ")}` : "";
+      const header = `# ${thread.title ?? "New conversation"}\n\n_${new Date(thread.createdAt).toLocaleString()}${tags}_`;
+      return [header, ...getShownBranch(thread).map(messageToMarkdown)].join("\n\n");
+    })
+    .join("\n\n---\n\n")
+    .concat("\n");
+}
+
+// =============================================================================
+// HTML Format
+// =============================================================================
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** The app's stylesheets plus the active theme's variables, set inline on <html> */
+function collectStyles(): string {
+  const rules: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      rules.push(...Array.from(sheet.cssRules, (rule) => rule.cssText));
+    } catch {
+      // Cross-origin sheets can't be read; the app doesn't rely on any
+    }
+  }
+  return `${rules.join("\n")}\n:root { ${document.documentElement.style.cssText} }`;
+}
+
+function toHtml(threads: ThreadExport[]): string {
+  const body = threads
+    .map((thread) => renderToStaticMarkup(createElement(ExportedThread, { thread, messages: getShownBranch(thread) })))
+    .join("\n");
+  const title = threads.length === 1 ? (threads[0]?.title ?? "New conversation") : "Conversations";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+${collectStyles()}
+</style>
+</head>
+<body style="background: var(--bg-primary); color: var(--fg-primary);">
+${body}
+</body>
+</html>
+`;
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+function getShownBranch(thread: ThreadExport): Message[] {
+  const leafId = thread.activeLeafId ?? thread.messages[thread.messages.length - 1]?.id ?? null;
+  return getPath(thread.messages, leafId);
+}
+
+function toFileName(threads: Thread[], extension: string): string {
+  const [first] = threads;
+  const base = threads.length === 1 && first?.title != null
+    ? first.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60)
+    : "";
+  return `${base !== "" ? base : `conversations-${new Date().toISOString().slice(0, 10)}`}.${extension}`;
+}
+
+function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download in some webviews
+  setTimeout(() => { URL.revokeObjectURL(url); }, 1000);
+}
+
+/**
+ * Load the threads with all their messages and save them as one file
+ */
+export async function exportThreads(threads: Thread[], format: ExportFormat): Promise<void> {
+  const exports = await Promise.all(
+    threads.map(async (thread): Promise<ThreadExport> => ({ ...thread, messages: await tauri.getMessages(thread.id) }))
+  );
+
+  switch (format) {
+    case "json":
+      downloadFile(toFileName(threads, "json"), toJson(exports), "application/json");
+      break;
+    case "markdown":
+      downloadFile(toFileName(threads, "md"), toMarkdown(exports), "text/markdown");
+      break;
+    case "html":
+      downloadFile(toFileName(threads, "html"), toHtml(exports), "text/html");
+      break;
+  }
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Create a new thread for each conversation in a JSON export. Throws if the
+ * file isn't one; nothing is imported then.
+ */
+export async function importThreads(fileContent: string): Promise<Thread[]> {
+  let data: unknown;
+  try {
+    data = JSON.parse(fileContent);
+  } catch {
+    throw new Error("The file isn't valid JSON");
+  }
+
+  const parsed = exportFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue !== undefined && issue.path.length > 0 ? ` (at ${issue.path.join(".")})` : "";
+    throw new Error(`Not a conversation export: ${issue?.message ?? "unknown format"}${where}`);
+  }
+
+  const imported: Thread[] = [];
+  for (const thread of parsed.data.threads) {
+    imported.push(await tauri.importThread(thread as ThreadExport));
+  }
+  return imported;
+}
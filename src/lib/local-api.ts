@@ -0,0 +1,136 @@
+/**
+ * Local API
+ *
+ * The sidecar can serve other programs through OpenAI-compatible endpoints
+ * (`/v1/chat/completions`, `/v1/models`) using AIOS's providers,
+ * personality and tools. Those programs authenticate with a bearer token
+ * generated here and kept in secure storage; the on/off switch lives in
+ * localStorage like other non-sensitive settings.
+ *
+ * The sidecar keeps no settings of its own, so the app pushes a snapshot
+ * whenever settings may have changed, and whenever the sidecar's `/health`
+ * reports it has none: once it's up after launch, and after a restart.
+ */
+import { getCredentialWithFallback, setCredentialWithFallback } from "./credentials";
+import {
+  getEmailConfigAsync,
+  getPersonality,
+  getProviderBaseUrl,
+  getProviderConfigAsync,
+  getProviderModel,
+  toEmailRequestConfig,
+} from "./ai";
+import { providers } from "./ai-providers";
+import { API_BASE_URL } from "./config";
+import { sidecarFetch } from "./sidecar";
+import type { GatewaySettings } from "@shared/gateway";
+import type { SidecarHealth } from "@shared/sidecar";
+
+/** Base URL to give OpenAI clients */
+export const LOCAL_API_URL = `${API_BASE_URL}/v1`;
+
+const ENABLED_KEY = "local_api_enabled";
+
+/** Between health checks while the sidecar isn't answering */
+const SIDECAR_RETRY_MS = 2000;
+/** Between health checks of a running sidecar */
+const SIDECAR_CHECK_MS = 30_000;
+
+export function getLocalApiEnabled(): boolean {
+  return localStorage.getItem(ENABLED_KEY) === "true";
+}
+
+export function setLocalApiEnabled(enabled: boolean): void {
+  localStorage.setItem(ENABLED_KEY, enabled ? "true" : "false");
+}
+
+function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `aios-${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/** The token callers must send, created on first use */
+export async function getLocalApiToken(): Promise<string> {
+  const stored = await getCredentialWithFallback("local_api_token");
+  if (stored !== null && stored !== "") return stored;
+  return regenerateLocalApiToken();
+}
+
+/** Replace the token; programs using the old one stop working */
+export async function regenerateLocalApiToken(): Promise<string> {
+  const token = generateToken();
+  await setCredentialWithFallback("local_api_token", token);
+  return token;
+}
+
+/**
+ * Push the current settings to the sidecar. Failures are logged: the app
+ * works without the local API.
+ */
+export async function syncLocalApiSettings(): Promise<void> {
+  try {
+    const [config, emailConfig, token] = await Promise.all([
+      getProviderConfigAsync(),
+      getEmailConfigAsync(),
+      getLocalApiToken(),
+    ]);
+
+    const settings: GatewaySettings = {
+      enabled: getLocalApiEnabled(),
+      token,
+      defaultModel: { provider: config.provider, model: config.model, baseUrl: config.baseUrl },
+      // Providers that can answer: those with a key, and local ones that need none
+      providers: providers
+        .filter((p) => !p.requiresApiKey || config.apiKeys[p.id] !== undefined)
+        .map((p) => ({ provider: p.id, model: getProviderModel(p.id), baseUrl: getProviderBaseUrl(p.id) })),
+      apiKeys: config.apiKeys,
+      perplexityApiKey: config.perplexityApiKey,
+      firecrawlApiKey: config.firecrawlApiKey,
+      enableTools: config.enableTools,
+      personality: getPersonality() || undefined,
+      emailConfig: toEmailRequestConfig(emailConfig),
+      fallbacks: config.fallbacks,
+    };
+
+    const response = await sidecarFetch("/api/gateway/settings", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(settings),
+    });
+    if (!response.ok) {
+      console.error("Failed to update local API settings:", await response.text());
+    }
+  } catch (e) {
+    console.error("Failed to update local API settings:", e);
+  }
+}
+
+/**
+ * Keep the sidecar supplied with settings: check its health until it
+ * answers, then now and then, and push the settings whenever it has none.
+ * Returns a function that stops checking.
+ */
+export function keepLocalApiSettingsSynced(): () => void {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const check = async () => {
+    let delay = SIDECAR_RETRY_MS;
+    try {
+      const health = (await (await sidecarFetch("/health")).json()) as SidecarHealth;
+      if (!health.localApiSettings) await syncLocalApiSettings();
+      delay = SIDECAR_CHECK_MS;
+    } catch {
+      // Still starting, or restarting
+    }
+    if (!stopped) {
+      timer = setTimeout(() => { void check(); }, delay);
+    }
+  };
+
+  void check();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
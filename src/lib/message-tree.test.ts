@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import type { Message } from "@app/types/message";
+import { findLatestLeaf, getPath, groupChildren } from "./message-tree";
+
+function message(id: string, parentId: string | null, role: Message["role"] = "user"): Message {
+  return { id, threadId: "t", parentId, role, content: id, createdAt: "2026-01-01T00:00:00Z" };
+}
+
+// u1 ─ a1 ─ u2 ─ a2
+//         └─ u2b ─ a2b      (u2 edited)
+//                └─ a2c     (a2b regenerated)
+const messages = [
+  message("u1", null),
+  message("a1", "u1", "assistant"),
+  message("u2", "a1"),
+  message("a2", "u2", "assistant"),
+  message("u2b", "a1"),
+  message("a2b", "u2b", "assistant"),
+  message("a2c", "u2b", "assistant"),
+];
+
+describe("getPath", () => {
+  it("follows parents from the leaf up to the root", () => {
+    expect(getPath(messages, "a2").map((m) => m.id)).toEqual(["u1", "a1", "u2", "a2"]);
+    expect(getPath(messages, "a2c").map((m) => m.id)).toEqual(["u1", "a1", "u2b", "a2c"]);
+  });
+
+  it("stops at a parent that isn't loaded", () => {
+    expect(getPath([message("b", "missing"), message("c", "b")], "c").map((m) => m.id)).toEqual(["b", "c"]);
+  });
+
+  it("is empty without a leaf", () => {
+    expect(getPath(messages, null)).toEqual([]);
+    expect(getPath(messages, "unknown")).toEqual([]);
+  });
+});
+
+describe("findLatestLeaf", () => {
+  const children = groupChildren(messages);
+
+  it("takes the latest reply at every fork", () => {
+    expect(findLatestLeaf(children, "u1")).toBe("a2c");
+    expect(findLatestLeaf(children, "u2")).toBe("a2");
+  });
+
+  it("returns a message without replies itself", () => {
+    expect(findLatestLeaf(children, "a2b")).toBe("a2b");
+  });
+});
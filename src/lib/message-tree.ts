@@ -0,0 +1,51 @@
+/**
+ * Message Tree
+ *
+ * Edits and regenerations add siblings instead of replacing messages, so a
+ * thread's messages form a tree linked by `parentId`. The conversation shown
+ * is the path from the root down to the thread's active leaf.
+ */
+import type { Message } from "@app/types/message";
+
+/**
+ * Replies to each message (roots under null), oldest first
+ */
+export function groupChildren(messages: Message[]): Map<string | null, Message[]> {
+  const children = new Map<string | null, Message[]>();
+  for (const message of messages) {
+    const siblings = children.get(message.parentId);
+    if (siblings !== undefined) {
+      siblings.push(message);
+    } else {
+      children.set(message.parentId, [message]);
+    }
+  }
+  return children;
+}
+
+/**
+ * Follow the latest reply down from a message to the end of its branch
+ */
+export function findLatestLeaf(children: Map<string | null, Message[]>, messageId: string): string {
+  let leafId = messageId;
+  for (;;) {
+    const replies = children.get(leafId);
+    const latest = replies?.[replies.length - 1];
+    if (latest === undefined) return leafId;
+    leafId = latest.id;
+  }
+}
+
+/**
+ * Messages from the root down to `leafId`
+ */
+export function getPath(messages: Message[], leafId: string | null): Message[] {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const path: Message[] = [];
+  let current = leafId !== null ? byId.get(leafId) : undefined;
+  while (current !== undefined) {
+    path.push(current);
+    current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+}
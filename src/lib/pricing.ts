@@ -0,0 +1,67 @@
+/**
+ * Model Pricing
+ *
+ * The user's price table, editable from the usage settings page and
+ * persisted in localStorage. Matching and cost estimation live in the shared
+ * module so agent sessions in the sidecar are priced the same way.
+ */
+import type { MessageUsage } from "@app/types/message";
+import {
+  DEFAULT_MODEL_PRICES,
+  estimateCost as estimateCostWith,
+  getModelPrice as findModelPrice,
+  type ModelPrice,
+} from "@shared/pricing";
+
+export { DEFAULT_MODEL_PRICES, type ModelPrice };
+
+const PRICES_KEY = "model_prices";
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  if (typeof value !== "object" || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.model === "string" &&
+    typeof entry.inputPerMTok === "number" &&
+    typeof entry.outputPerMTok === "number"
+  );
+}
+
+export function getModelPrices(): ModelPrice[] {
+  const stored = localStorage.getItem(PRICES_KEY);
+  if (stored === null) return DEFAULT_MODEL_PRICES;
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isModelPrice) : DEFAULT_MODEL_PRICES;
+  } catch {
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+export function setModelPrices(prices: ModelPrice[]): void {
+  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+}
+
+export function resetModelPrices(): void {
+  localStorage.removeItem(PRICES_KEY);
+}
+
+export function getModelPrice(model: string, prices: ModelPrice[] = getModelPrices()): ModelPrice | null {
+  return findModelPrice(model, prices);
+}
+
+/**
+ * Estimated cost in USD, or null when the model has no price
+ */
+export function estimateCost(
+  usage: Pick<MessageUsage, "provider" | "model" | "promptTokens" | "completionTokens" | "cacheReadTokens" | "cacheWriteTokens">,
+  prices: ModelPrice[] = getModelPrices()
+): number | null {
+  return estimateCostWith(usage, prices);
+}
+
+export function formatCost(costUsd: number): string {
+  if (costUsd === 0) return "$0";
+  if (costUsd < 0.01) return `$${costUsd.toFixed(4)}`;
+  return `$${costUsd.toFixed(2)}`;
+}
@@ -4,6 +4,7 @@
  * Defines the hierarchical settings page structure.
  * Keys use dot-notation: "settings.email.password", "settings.keys.perplexity", etc.
  */
+import { getProvidersWithCredentials } from "./ai-providers";
 
 export interface SettingsPage {
   id: string;
@@ -26,11 +27,13 @@ export const SETTINGS_PAGES: Record<string, SettingsPage> = {
     id: "settings.keys",
     label: "API Keys",
   },
-  "settings.keys.anthropic": {
-    id: "settings.keys.anthropic",
-    label: "Anthropic API Key",
-    parentId: "settings.keys",
-  },
+  // One key sub-page per provider that stores a credential, e.g. settings.keys.openai
+  ...Object.fromEntries(
+    getProvidersWithCredentials().map((p): [string, SettingsPage] => [
+      `settings.keys.${p.id}`,
+      { id: `settings.keys.${p.id}`, label: `${p.name} API Key`, parentId: "settings.keys" },
+    ])
+  ),
   "settings.keys.perplexity": {
     id: "settings.keys.perplexity",
     label: "Perplexity API Key",
@@ -41,10 +44,22 @@ export const SETTINGS_PAGES: Record<string, SettingsPage> = {
     label: "Firecrawl API Key",
     parentId: "settings.keys",
   },
+  "settings.agents": {
+    id: "settings.agents",
+    label: "Agents",
+  },
+  "settings.usage": {
+    id: "settings.usage",
+    label: "Usage",
+  },
   "settings.personality": {
     id: "settings.personality",
     label: "Personality",
   },
+  "settings.local-api": {
+    id: "settings.local-api",
+    label: "Local API",
+  },
   "settings.email": {
     id: "settings.email",
     label: "Email",
@@ -67,7 +82,7 @@ export const SETTINGS_PAGES: Record<string, SettingsPage> = {
 };
 
 /** Top-level pages shown in the nav sidebar */
-export const TOP_LEVEL_PAGES = ["settings.provider", "settings.keys", "settings.personality", "settings.email"] as const;
+export const TOP_LEVEL_PAGES = ["settings.provider", "settings.keys", "settings.agents", "settings.usage", "settings.personality", "settings.email", "settings.local-api"] as const;
 
 /**
  * Resolve a hierarchical key to a page and optional sub-filter.
@@ -96,6 +111,9 @@ export function resolveSettingsPath(key: string): { pageId: string; subFilter?:
     perplexity: { pageId: "settings.keys", subFilter: "perplexity" },
     firecrawl: { pageId: "settings.keys", subFilter: "firecrawl" },
     anthropic: { pageId: "settings.keys", subFilter: "anthropic" },
+    redpill: { pageId: "settings.keys", subFilter: "redpill" },
+    openai: { pageId: "settings.keys", subFilter: "openai" },
+    google: { pageId: "settings.keys", subFilter: "google" },
     ollama: { pageId: "settings.provider" },
   };
 
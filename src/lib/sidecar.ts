@@ -0,0 +1,42 @@
+/**
+ * Sidecar Access
+ *
+ * The Node sidecar only answers requests carrying the secret the Tauri shell
+ * generated for this launch. `sidecarFetch` adds it to HTTP requests and
+ * `sidecarSocketUrl` to the agent WebSocket handshake.
+ */
+import { invoke } from "@tauri-apps/api/core";
+import { SIDECAR_SECRET_HEADER, SIDECAR_SECRET_PARAM } from "@shared/sidecar";
+import { API_BASE_URL, WS_URL } from "./config";
+import { isTauriEnvironment } from "./credentials";
+
+let secretPromise: Promise<string> | null = null;
+
+/**
+ * This launch's secret, fetched once. Outside Tauri (web dev mode) it comes
+ * from VITE_AIOS_SIDECAR_SECRET, which must match the backend's
+ * AIOS_SIDECAR_SECRET.
+ */
+function getSidecarSecret(): Promise<string> {
+  if (secretPromise === null) {
+    secretPromise = isTauriEnvironment()
+      ? invoke<string>("get_sidecar_secret")
+      : Promise.resolve(import.meta.env.VITE_AIOS_SIDECAR_SECRET ?? "");
+    // Ask again next time rather than caching a failure
+    secretPromise.catch(() => { secretPromise = null; });
+  }
+  return secretPromise;
+}
+
+/** `fetch` against the sidecar, e.g. `sidecarFetch("/api/chat", {...})` */
+export async function sidecarFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set(SIDECAR_SECRET_HEADER, await getSidecarSecret());
+  return fetch(`${API_BASE_URL}${path}`, { ...init, headers });
+}
+
+/** WebSocket URL with the given query parameters and the secret */
+export async function sidecarSocketUrl(params: Record<string, string>): Promise<string> {
+  const query = new URLSearchParams({ ...params, [SIDECAR_SECRET_PARAM]: await getSidecarSecret() });
+  return `${WS_URL}?${query.toString()}`;
+}
@@ -1,11 +1,19 @@
 import { invoke } from "@tauri-apps/api/core";
-import type { Thread } from "@app/types/thread";
-import type { Message, NewMessage } from "@app/types/message";
+import type { Folder, Thread, ThreadExport, ThreadSettings } from "@app/types/thread";
+import type { Message, MessageSearchResult, NewMessage, UsageRecord } from "@app/types/message";
 
 export async function createThread(): Promise<Thread> {
   return invoke<Thread>("create_thread");
 }
 
+export async function getThread(id: string): Promise<Thread | null> {
+  return invoke<Thread | null>("get_thread", { id });
+}
+
+export async function updateThreadSummary(id: string, summary: string, summarizedThrough: string): Promise<void> {
+  await invoke("update_thread_summary", { id, summary, summarizedThrough });
+}
+
 export async function listThreads(): Promise<Thread[]> {
   return invoke<Thread[]>("list_threads");
 }
@@ -21,6 +29,56 @@ export async function updateThreadTitle(
   await invoke("update_thread_title", { id, title });
 }
 
+/** Replace the thread's overrides; null goes back to the global defaults */
+export async function updateThreadSettings(id: string, settings: ThreadSettings | null): Promise<void> {
+  await invoke("update_thread_settings", { id, settings });
+}
+
+/** Show the branch ending at `messageId` */
+export async function updateThreadActiveLeaf(id: string, messageId: string): Promise<void> {
+  await invoke("update_thread_active_leaf", { id, messageId });
+}
+
+export async function updateThreadPinned(id: string, pinned: boolean): Promise<void> {
+  await invoke("update_thread_pinned", { id, pinned });
+}
+
+/** Archive a thread (hide it from the lists) or bring it back */
+export async function updateThreadArchived(id: string, archived: boolean): Promise<void> {
+  await invoke("update_thread_archived", { id, archived });
+}
+
+/** Move a thread into a folder; null takes it out of its folder */
+export async function updateThreadFolder(id: string, folderId: string | null): Promise<void> {
+  await invoke("update_thread_folder", { id, folderId });
+}
+
+export async function updateThreadTags(id: string, tags: string[]): Promise<void> {
+  await invoke("update_thread_tags", { id, tags });
+}
+
+export async function listFolders(): Promise<Folder[]> {
+  return invoke<Folder[]>("list_folders");
+}
+
+export async function createFolder(name: string): Promise<Folder> {
+  return invoke<Folder>("create_folder", { name });
+}
+
+export async function renameFolder(id: string, name: string): Promise<void> {
+  await invoke("rename_folder", { id, name });
+}
+
+/** Delete a folder; its threads are kept, outside any folder */
+export async function deleteFolder(id: string): Promise<void> {
+  await invoke("delete_folder", { id });
+}
+
+/** Create a new thread from an exported one; ids are reassigned */
+export async function importThread(thread: ThreadExport): Promise<Thread> {
+  return invoke<Thread>("import_thread", { thread });
+}
+
 export async function saveMessage(
   threadId: string,
   message: NewMessage
@@ -32,10 +90,11 @@ export async function getMessages(threadId: string): Promise<Message[]> {
   return invoke<Message[]>("get_messages", { threadId });
 }
 
-export async function deleteMessage(messageId: string): Promise<void> {
-  await invoke("delete_message", { messageId });
+/** Full-text search over message content and tool results, best match first */
+export async function searchMessages(query: string, limit?: number): Promise<MessageSearchResult[]> {
+  return invoke<MessageSearchResult[]>("search_messages", { query, limit });
 }
 
-export async function deleteMessagesFrom(messageId: string): Promise<void> {
-  await invoke("delete_messages_from", { messageId });
+export async function getUsageRecords(): Promise<UsageRecord[]> {
+  return invoke<UsageRecord[]>("get_usage_records");
 }
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { parseTags, parseThreadQuery } from "./thread-filter";
+
+describe("parseThreadQuery", () => {
+  it("takes the filter tokens out of the text", () => {
+    expect(parseThreadQuery("Rust #Machine-Learning in:work is:pinned borrow  checker")).toEqual({
+      text: "rust borrow checker",
+      tags: ["machine-learning"],
+      folders: ["work"],
+      pinned: true,
+      archived: false,
+    });
+  });
+
+  it("reads quoted folder names with spaces", () => {
+    expect(parseThreadQuery('in:"Side Projects" IS:ARCHIVED')).toMatchObject({
+      text: "",
+      folders: ["side projects"],
+      archived: true,
+    });
+  });
+
+  it("leaves unknown states in the text", () => {
+    expect(parseThreadQuery("is:starred")).toMatchObject({ text: "is:starred", pinned: false, archived: false });
+  });
+
+  it("is plain text without tokens", () => {
+    expect(parseThreadQuery("  Hello World ")).toEqual({
+      text: "hello world",
+      tags: [],
+      folders: [],
+      pinned: false,
+      archived: false,
+    });
+  });
+});
+
+describe("parseTags", () => {
+  it("splits on commas and spaces and normalizes each tag", () => {
+    expect(parseTags("#Rust, web_dev  AI")).toEqual(["rust", "web-dev", "ai"]);
+  });
+
+  it("drops duplicates and empty tags", () => {
+    expect(parseTags("rust, #rust,, # ,RUST")).toEqual(["rust"]);
+  });
+});
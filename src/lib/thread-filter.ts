@@ -0,0 +1,84 @@
+/**
+ * Thread Filters
+ *
+ * The sidebar, conversation switcher and command palette narrow threads
+ * the same way. A typed query mixes free text with filter tokens:
+ *   #tag          tagged "tag"
+ *   in:name       in a folder whose name starts with "name" (in:"two words" for spaces)
+ *   is:pinned     pinned only
+ *   is:archived   archived only; archived threads are hidden otherwise
+ */
+import type { Folder, Thread } from "@app/types/thread";
+import { normalizeTag } from "@shared/tags";
+
+export interface ThreadFilter {
+  /** Query with the filter tokens taken out, lowercased */
+  text: string;
+  tags: string[];
+  /** Lowercased folder name prefixes; a thread must be in one of them */
+  folders: string[];
+  pinned: boolean;
+  archived: boolean;
+}
+
+const TOKEN_PATTERN = /#(\S+)|in:"([^"]*)"|in:(\S+)|is:(pinned|archived)\b/gi;
+
+/** Tags from comma- or space-separated input, deduplicated */
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(/[,\s]+/).map(normalizeTag).filter((tag) => tag !== ""))];
+}
+
+export function parseThreadQuery(query: string): ThreadFilter {
+  const filter: ThreadFilter = { text: "", tags: [], folders: [], pinned: false, archived: false };
+  filter.text = query
+    .replace(TOKEN_PATTERN, (_match, tag?: string, quotedFolder?: string, folder?: string, state?: string) => {
+      if (tag !== undefined) {
+        filter.tags.push(normalizeTag(tag));
+      } else if (quotedFolder !== undefined || folder !== undefined) {
+        filter.folders.push((quotedFolder ?? folder ?? "").toLowerCase());
+      } else if (state?.toLowerCase() === "pinned") {
+        filter.pinned = true;
+      } else {
+        filter.archived = true;
+      }
+      return " ";
+    })
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+  return filter;
+}
+
+/** Whether the query narrows by anything besides its text */
+export function hasFilterTokens(filter: ThreadFilter): boolean {
+  return filter.tags.length > 0 || filter.folders.length > 0 || filter.pinned || filter.archived;
+}
+
+/**
+ * Whether a thread passes the filter's tokens (its text is left to the
+ * caller, which may match it fuzzily)
+ */
+export function matchesThreadFilter(thread: Thread, filter: ThreadFilter, folders: Folder[]): boolean {
+  if (thread.archived !== filter.archived) return false;
+  if (filter.pinned && !thread.pinned) return false;
+  if (!filter.tags.every((tag) => thread.tags.includes(tag))) return false;
+  if (filter.folders.length > 0) {
+    const folderName = folders.find((f) => f.id === thread.folderId)?.name.toLowerCase();
+    if (folderName === undefined || !filter.folders.some((prefix) => folderName.startsWith(prefix))) return false;
+  }
+  return true;
+}
+
+/**
+ * Threads passing the query: its tokens, and its text against the title and tags
+ */
+export function filterThreads(threads: Thread[], query: string, folders: Folder[]): Thread[] {
+  const filter = parseThreadQuery(query);
+  return threads.filter(
+    (thread) =>
+      matchesThreadFilter(thread, filter, folders) &&
+      (filter.text === "" ||
+        (thread.title ?? "").toLowerCase().includes(filter.text) ||
+        thread.tags.some((tag) => tag.includes(filter.text)))
+  );
+}
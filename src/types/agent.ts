@@ -1,3 +1,7 @@
+import type { AgentBudget } from "@shared/chat-protocol";
+
+export type { AgentBudget };
+
 /**
  * Agent task status for orchestration
  */
@@ -18,6 +22,8 @@ export interface AgentTask {
   description: string;
   type: AgentTaskType;
   status: AgentTaskStatus;
+  /** Ids of the tasks that must be done first; missing on tasks saved before dependencies existed */
+  dependsOn?: string[];
   result?: unknown;
   createdAt: string;
   startedAt?: string;
@@ -30,10 +36,24 @@ export interface AgentTask {
 export type AgentSessionStatus =
   | "planning"
   | "exploring"
+  | "awaiting_approval"
   | "executing"
+  | "paused"
   | "waiting_user"
   | "complete"
-  | "error";
+  | "error"
+  | "cancelled";
+
+/**
+ * What a session has consumed of its budget
+ */
+export interface AgentUsage {
+  tokens: number;
+  /** Estimated; models without a price count as free */
+  costUsd: number;
+  toolCalls: number;
+  elapsedMs: number;
+}
 
 /**
  * An agent session for a thread
@@ -46,6 +66,57 @@ export interface AgentSession {
   currentActivity?: string;
   createdAt: string;
   lastActivityAt: string;
+  budget?: AgentBudget;
+  usage?: AgentUsage;
+}
+
+/**
+ * One step of an agent's transcript
+ */
+export type AgentTranscriptEntry =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; toolCallId: string; toolName: string; args: unknown }
+  | { type: "tool_result"; toolCallId: string; toolName: string; result: string };
+
+/**
+ * What one agent of a session (plan, explore, executor) was asked and did
+ */
+export interface AgentTranscript {
+  id: string;
+  role: "plan" | "explore" | "executor" | "sub_executor";
+  label: string;
+  prompt: string;
+  entries: AgentTranscriptEntry[];
+  status: "running" | "done" | "error";
+  error?: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * A session in a thread's agent history
+ */
+export interface AgentSessionSummary {
+  id: string;
+  threadId: string;
+  status: AgentSessionStatus;
+  /** The task the session was started with */
+  planContent?: string;
+  error?: string;
+  createdAt: string;
+  lastActivityAt: string;
+  taskCount: number;
+  /** Missing on sessions saved before budgets existed */
+  budget?: AgentBudget;
+  usage?: AgentUsage;
+}
+
+/**
+ * A session with its tasks and transcripts, as saved by the backend
+ */
+export interface AgentSessionRecord extends AgentSessionSummary {
+  tasks: AgentTask[];
+  transcripts: AgentTranscript[];
 }
 
 /**
@@ -80,6 +151,7 @@ export type WSUpdateType =
   | "session_error"
   | "task_created"
   | "task_updated"
+  | "plan_updated"
   | "tool_call"
   | "tool_result"
   | "explore_started"
@@ -87,10 +159,16 @@ export type WSUpdateType =
   | "sub_agent_started"
   | "sub_agent_done"
   | "sub_executor_started"
-  | "sub_executor_done";
+  | "sub_executor_done"
+  | "budget_updated"
+  | "session_snapshot";
 
 export interface WSUpdate {
   type: WSUpdateType;
+  /** Position in the sidecar's event sequence; reconnect with `?since=` the last one seen */
+  seq: number;
+  /** The sidecar process that numbered it; sequences restart with the sidecar */
+  epoch: string;
   sessionId: string;
   threadId: string;
   session?: {
@@ -100,6 +178,11 @@ export interface WSUpdate {
     currentActivity?: string;
   };
   task?: AgentTask;
+  // Snapshot sent when a reconnecting client can't resume, or the plan as the user approved it
+  tasks?: AgentTask[];
+  // Budget updates (and snapshots)
+  budget?: AgentBudget;
+  usage?: AgentUsage;
   // Tool call updates
   toolCall?: AgentToolCall;
   // Explore updates
@@ -1,3 +1,6 @@
+import type { ChatErrorCode } from "@shared/chat-protocol";
+import type { ProviderId } from "@shared/providers";
+
 export interface ToolInvocation {
   toolCallId: string;
   toolName: string;
@@ -6,17 +9,112 @@ export interface ToolInvocation {
   result?: unknown;
 }
 
+/**
+ * File attached to a user message. Images go to the model as image parts;
+ * other files are stored as their extracted text and inlined into the prompt.
+ */
+export type MessageAttachment =
+  | { type: "image"; name: string; mimeType: string; /** Base64, no data: prefix */ data: string }
+  | { type: "file"; name: string; mimeType: string; text: string };
+
+/**
+ * Token usage and timing of one assistant response (summed over tool-loop steps)
+ */
+export interface MessageUsage {
+  provider: string;
+  model: string;
+  /** Uncached input tokens */
+  promptTokens: number;
+  completionTokens: number;
+  /** Input tokens served from the provider's prompt cache */
+  cacheReadTokens?: number;
+  /** Input tokens written to the provider's prompt cache */
+  cacheWriteTokens?: number;
+  /** Time from sending the request to the first streamed token */
+  latencyMs: number;
+  /** Time from sending the request to the end of the response */
+  durationMs: number;
+  /** Estimated cost when the message was saved; absent if the model has no price */
+  costUsd?: number;
+}
+
+/**
+ * Fallback model that answered after the selected one failed
+ */
+export interface MessageFallback {
+  provider: ProviderId;
+  model: string;
+  /** Why the previous model was given up on */
+  reason: ChatErrorCode;
+}
+
+/**
+ * Usage of a saved assistant message, with its thread (for aggregation)
+ */
+export interface UsageRecord {
+  messageId: string;
+  threadId: string;
+  threadTitle: string | null;
+  usage: MessageUsage;
+  createdAt: string;
+}
+
+/**
+ * Message matching a full-text search
+ */
+export interface MessageSearchResult {
+  messageId: string;
+  threadId: string;
+  threadTitle: string | null;
+  role: "user" | "assistant";
+  /** Excerpt around the match; matched terms are wrapped in \u0002 … \u0003 */
+  snippet: string;
+  createdAt: string;
+}
+
+/**
+ * Extra per-message data persisted alongside content (stored as JSON)
+ */
+export interface MessageMetadata {
+  /** Generation was stopped before the model finished */
+  interrupted?: boolean;
+  /** Model reasoning ("thinking") streamed with the response */
+  thinking?: string;
+  usage?: MessageUsage;
+  attachments?: MessageAttachment[];
+  answeredBy?: MessageFallback;
+  /** The response failed; `content` holds the error text */
+  error?: { code: ChatErrorCode };
+}
+
 export interface Message {
   id: string;
   threadId: string;
+  /** Message this one follows; null for the first message of the thread */
+  parentId: string | null;
   role: "user" | "assistant";
   content: string;
   toolInvocations?: ToolInvocation[];
+  metadata?: MessageMetadata;
   createdAt: string;
 }
 
+/**
+ * Where a message sits among its siblings (alternative edits or regenerations)
+ */
+export interface MessageBranch {
+  /** 0-based position among the siblings, oldest first */
+  index: number;
+  count: number;
+  previousId?: string;
+  nextId?: string;
+}
+
 export interface NewMessage {
+  /** Defaults to the last message of the branch being shown */
+  parentId?: string | null;
   role: "user" | "assistant";
   content: string;
   toolInvocations?: ToolInvocation[];
+  metadata?: MessageMetadata;
 }
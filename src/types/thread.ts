@@ -1,6 +1,54 @@
+import type { ProviderId } from "@shared/providers";
+import type { Message } from "@app/types/message";
+
+/**
+ * Per-thread overrides of the global provider settings; unset fields
+ * fall back to the defaults from settings
+ */
+export interface ThreadSettings {
+  provider?: ProviderId;
+  /** Defaults to the provider's saved model */
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  enableTools?: boolean;
+}
+
 export interface Thread {
   id: string;
   title: string | null;
+  /** Model-written summary standing in for the messages up to `summarizedThrough` */
+  contextSummary?: string;
+  /** Id of the last message covered by `contextSummary` */
+  summarizedThrough?: string;
+  settings?: ThreadSettings;
+  /** Last message of the branch being shown */
+  activeLeafId?: string;
+  /** Listed above the other threads */
+  pinned: boolean;
+  /** Hidden from the thread lists without being deleted */
+  archived: boolean;
+  folderId?: string;
+  /** Free-form labels, normalized to lowercase-with-dashes */
+  tags: string[];
   createdAt: string;
   updatedAt: string;
 }
+
+/** User-defined group of threads */
+export interface Folder {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+/** Compacted history of a thread: a summary covering messages up to `throughMessageId` */
+export interface ContextSummary {
+  summary: string;
+  throughMessageId: string;
+}
+
+/** Thread with every message of every branch, as written to a JSON export */
+export interface ThreadExport extends Thread {
+  messages: Message[];
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Sidecar secret when running without Tauri; see src/lib/sidecar.ts */
+  readonly VITE_AIOS_SIDECAR_SECRET?: string;
+}
@@ -11,6 +11,7 @@ export default defineConfig(async () => ({
   resolve: {
     alias: {
       "@app": resolve(__dirname, "./src"),
+      "@shared": resolve(__dirname, "./src-tauri/sidecars/node-backend/src/shared"),
     },
   },
   clearScreen: false,